@@ -3,6 +3,8 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { ThemeProvider } from "@/contexts/ThemeContext";
+import { AuthProvider } from "@/contexts/AuthContext";
+import ProtectedRoute from "@/components/ProtectedRoute";
 import NotFound from "@/pages/not-found";
 import DashboardPage from "@/pages/DashboardPage";
 import ContentCreationPage from "@/pages/ContentCreationPage";
@@ -14,20 +16,22 @@ import AdCampaignsPage from "@/pages/AdCampaignsPage";
 import SettingsPage from "@/pages/SettingsPage";
 import ScriptGenerationPage from "@/pages/ScriptGenerationPage";
 import AutomationPage from "@/pages/AutomationPage";
+import AuthPage from "@/pages/AuthPage";
 
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={DashboardPage} />
-      <Route path="/content-creation" component={ContentCreationPage} />
-      <Route path="/scheduler" component={SchedulerPage} />
-      <Route path="/trend-analysis" component={TrendAnalysisPage} />
-      <Route path="/comment-management" component={CommentManagementPage} />
-      <Route path="/analytics" component={AnalyticsPage} />
-      <Route path="/ad-campaigns" component={AdCampaignsPage} />
-      <Route path="/settings" component={SettingsPage} />
-      <Route path="/script-generation" component={ScriptGenerationPage} />
-      <Route path="/automation" component={AutomationPage} />
+      <Route path="/auth" component={AuthPage} />
+      <ProtectedRoute path="/" component={DashboardPage} />
+      <ProtectedRoute path="/content-creation" component={ContentCreationPage} />
+      <ProtectedRoute path="/scheduler" component={SchedulerPage} />
+      <ProtectedRoute path="/trend-analysis" component={TrendAnalysisPage} />
+      <ProtectedRoute path="/comment-management" component={CommentManagementPage} />
+      <ProtectedRoute path="/analytics" component={AnalyticsPage} />
+      <ProtectedRoute path="/ad-campaigns" component={AdCampaignsPage} />
+      <ProtectedRoute path="/settings" component={SettingsPage} />
+      <ProtectedRoute path="/script-generation" component={ScriptGenerationPage} />
+      <ProtectedRoute path="/automation" component={AutomationPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -37,8 +41,10 @@ function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <ThemeProvider>
-        <Router />
-        <Toaster />
+        <AuthProvider>
+          <Router />
+          <Toaster />
+        </AuthProvider>
       </ThemeProvider>
     </QueryClientProvider>
   );
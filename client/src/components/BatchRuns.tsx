@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import type { Batch, BatchDetails } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+
+const statusVariant: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  queued: "outline",
+  processing: "secondary",
+  running: "secondary",
+  completed: "default",
+  partial: "destructive",
+  failed: "destructive",
+};
+
+export default function BatchRuns() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [topicCount, setTopicCount] = useState(3);
+  const [selectedBatchId, setSelectedBatchId] = useState<number | null>(null);
+
+  const { data: batches = [] } = useQuery<Batch[]>({
+    queryKey: ['/api/auto-scheduler/batches'],
+  });
+
+  const batchId = selectedBatchId ?? batches[0]?.id ?? null;
+
+  // Poll the selected batch until all of its tasks have settled
+  const { data: batch } = useQuery<BatchDetails>({
+    queryKey: [`/api/auto-scheduler/batches/${batchId}`],
+    enabled: batchId !== null,
+    refetchInterval: (query) => (query.state.data?.status === "running" ? 2000 : false),
+  });
+
+  const runBatchMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auto-scheduler/batch-run", { topicCount });
+      return (await res.json()) as BatchDetails;
+    },
+    onSuccess: (newBatch) => {
+      setSelectedBatchId(newBatch.id);
+      queryClient.invalidateQueries({ queryKey: ['/api/auto-scheduler/batches'] });
+      toast({
+        title: "Batch started",
+        description: `${newBatch.taskCount} generation tasks queued`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to start batch",
+        description: `Error: ${error.message}`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const settled = batch ? batch.summary.completed + batch.summary.failed : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Batch Runs</CardTitle>
+        <CardDescription>
+          Generate content for the top trending topics in every enabled content type
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {can("publishing:schedule") && (
+          <div className="flex items-end gap-3">
+            <div>
+              <Label htmlFor="batch-topic-count">Topics</Label>
+              <Input
+                id="batch-topic-count"
+                type="number"
+                min={1}
+                max={10}
+                value={topicCount}
+                onChange={(e) => setTopicCount(Math.min(10, Math.max(1, Number(e.target.value) || 1)))}
+                className="mt-1.5 w-24"
+              />
+            </div>
+            <Button onClick={() => runBatchMutation.mutate()} disabled={runBatchMutation.isPending}>
+              <span className="material-icons mr-2 text-sm">play_arrow</span>
+              {runBatchMutation.isPending ? "Starting..." : "Run Batch"}
+            </Button>
+          </div>
+        )}
+
+        {batches.length > 1 && (
+          <div className="flex flex-wrap gap-2">
+            {batches.slice(0, 10).map((b) => (
+              <Badge
+                key={b.id}
+                variant={b.id === batchId ? "default" : "outline"}
+                className="cursor-pointer"
+                onClick={() => setSelectedBatchId(b.id)}
+              >
+                #{b.id} · {b.status}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {batch ? (
+          <div className="space-y-4">
+            <div className="flex justify-between items-center">
+              <span className="font-medium">
+                Batch #{batch.id} · started {new Date(batch.createdAt).toLocaleString()}
+              </span>
+              <Badge variant={statusVariant[batch.status] ?? "outline"}>{batch.status}</Badge>
+            </div>
+            <div>
+              <div className="flex justify-between text-sm mb-1">
+                <span>{settled}/{batch.taskCount} tasks finished</span>
+                {batch.summary.failed > 0 && (
+                  <span className="text-destructive">{batch.summary.failed} failed</span>
+                )}
+              </div>
+              <Progress value={batch.taskCount ? (settled / batch.taskCount) * 100 : 0} className="h-2" />
+            </div>
+            <div className="divide-y rounded-md border">
+              {batch.tasks.map((task) => (
+                <div key={task.jobId} className="flex items-center justify-between p-3 text-sm">
+                  <div>
+                    <div className="font-medium">{task.topic}</div>
+                    <div className="text-muted-foreground capitalize">
+                      {task.contentType}
+                      {task.error && <span className="text-destructive normal-case"> · {task.error}</span>}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    {task.status === "processing" && <span className="text-muted-foreground">{task.progress}%</span>}
+                    <Badge variant={statusVariant[task.status] ?? "outline"}>{task.status}</Badge>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No batch runs yet.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
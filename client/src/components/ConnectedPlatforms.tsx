@@ -1,6 +1,8 @@
 import { useQuery } from "@tanstack/react-query";
 import { useState } from "react";
+import { Link } from "wouter";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { usePlatformConnect } from "@/hooks/use-platform-connect";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from "@/components/ui/form";
@@ -8,10 +10,11 @@ import { Input } from "@/components/ui/input";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { insertPlatformAccountSchema, Platform, PlatformAccount } from "@shared/schema";
+import { insertPlatformAccountSchema, Platform, PublicPlatformAccount } from "@shared/schema";
 
 export default function ConnectedPlatforms() {
   const [open, setOpen] = useState(false);
+  const { supportsOAuth, connect } = usePlatformConnect();
   const { data: platforms, isLoading: loadingPlatforms } = useQuery({
     queryKey: ['/api/platforms'],
   });
@@ -39,6 +42,8 @@ export default function ConnectedPlatforms() {
     }
   });
 
+  const selectedPlatformId = Number(form.watch("platformId"));
+
   const addAccount = async (values: z.infer<typeof formSchema>) => {
     try {
       await apiRequest("POST", "/api/platform-accounts", values);
@@ -96,7 +101,7 @@ export default function ConnectedPlatforms() {
       
       <div className="px-4 py-4 sm:p-6 grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-3">
         {accounts && accounts.length > 0 ? (
-          accounts.map((account: PlatformAccount) => {
+          accounts.map((account: PublicPlatformAccount) => {
             const platform = platforms?.find((p: Platform) => p.id === account.platformId);
             return (
               <div key={account.id} className="relative rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-6 py-5 shadow-sm flex items-center space-x-3 hover:border-gray-400 focus-within:ring-2 focus-within:ring-offset-2 focus-within:ring-primary">
@@ -115,9 +120,36 @@ export default function ConnectedPlatforms() {
                   </a>
                 </div>
                 <div className="flex-shrink-0">
-                  <span className="inline-flex h-6 w-6 items-center justify-center rounded-full bg-green-100">
-                    <span className="text-xs font-medium text-green-800">✓</span>
-                  </span>
+                  {account.needsReconnect ? (
+                    supportsOAuth(account.platformId) ? (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="relative z-10 text-amber-700 border-amber-300 dark:text-amber-400 dark:border-amber-700"
+                        title={account.connectionError ?? undefined}
+                        onClick={() => connect(account.platformId, account.id)}
+                      >
+                        <span className="material-icons mr-1 text-sm">sync_problem</span>
+                        Reconnect
+                      </Button>
+                    ) : (
+                      <Link href="/settings">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="relative z-10 text-amber-700 border-amber-300 dark:text-amber-400 dark:border-amber-700"
+                          title={account.connectionError ?? undefined}
+                        >
+                          <span className="material-icons mr-1 text-sm">sync_problem</span>
+                          Needs reconnect
+                        </Button>
+                      </Link>
+                    )
+                  ) : (
+                    <span className="inline-flex h-6 w-6 items-center justify-center rounded-full bg-green-100">
+                      <span className="text-xs font-medium text-green-800">✓</span>
+                    </span>
+                  )}
                 </div>
               </div>
             );
@@ -166,54 +198,72 @@ export default function ConnectedPlatforms() {
                 )}
               />
               
-              <FormField
-                control={form.control}
-                name="name"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Display Name</FormLabel>
-                    <FormControl>
-                      <Input placeholder="My YouTube Channel" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+              {supportsOAuth(selectedPlatformId) ? (
+                <>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    You'll be sent to the platform to sign in and approve access. The account is added when you return.
+                  </p>
+                  <DialogFooter>
+                    <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                      Cancel
+                    </Button>
+                    <Button type="button" onClick={() => connect(selectedPlatformId)}>
+                      Connect Account
+                    </Button>
+                  </DialogFooter>
+                </>
+              ) : (
+                <>
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Display Name</FormLabel>
+                      <FormControl>
+                        <Input placeholder="My YouTube Channel" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               
-              <FormField
-                control={form.control}
-                name="username"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Username</FormLabel>
-                    <FormControl>
-                      <Input placeholder="@username" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+                <FormField
+                  control={form.control}
+                  name="username"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Username</FormLabel>
+                      <FormControl>
+                        <Input placeholder="@username" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               
-              <FormField
-                control={form.control}
-                name="followerCount"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Follower Count</FormLabel>
-                    <FormControl>
-                      <Input type="number" placeholder="0" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+                <FormField
+                  control={form.control}
+                  name="followerCount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Follower Count</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="0" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               
-              <DialogFooter>
-                <Button type="button" variant="outline" onClick={() => setOpen(false)}>
-                  Cancel
-                </Button>
-                <Button type="submit">Add Account</Button>
-              </DialogFooter>
+                <DialogFooter>
+                  <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit">Add Account</Button>
+                </DialogFooter>
+                </>
+              )}
             </form>
           </Form>
         </DialogContent>
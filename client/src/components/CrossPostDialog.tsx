@@ -0,0 +1,314 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import type { Content, ContentVariant, Platform, PublicPlatformAccount } from "@shared/schema";
+import { applyContentVariant } from "@shared/contentVariants";
+import { checkPlatformConstraints } from "@shared/platformConstraints";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+interface VariantDraft {
+  title: string;
+  caption: string;
+  hashtags: string;
+  filePath: string;
+}
+
+interface CrossPostDialogProps {
+  content: Content | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const emptyDraft: VariantDraft = { title: "", caption: "", hashtags: "", filePath: "" };
+
+function toDraft(variant?: ContentVariant): VariantDraft {
+  if (!variant) return emptyDraft;
+  return {
+    title: variant.title ?? "",
+    caption: variant.caption ?? "",
+    hashtags: variant.hashtags.map((tag) => `#${tag}`).join(" "),
+    filePath: variant.filePath ?? "",
+  };
+}
+
+function parseHashtags(value: string): string[] {
+  return value.split(/[\s,]+/).map((tag) => tag.replace(/^#/, "")).filter(Boolean);
+}
+
+// Local time an hour from now, in the format datetime-local inputs use
+function defaultScheduledTime(): string {
+  const date = new Date(Date.now() + 60 * 60 * 1000);
+  date.setMinutes(date.getMinutes() - date.getTimezoneOffset(), 0, 0);
+  return date.toISOString().slice(0, 16);
+}
+
+export default function CrossPostDialog({ content, open, onOpenChange }: CrossPostDialogProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [drafts, setDrafts] = useState<Record<number, VariantDraft>>({});
+  const [selectedAccountIds, setSelectedAccountIds] = useState<number[]>([]);
+  const [scheduledTime, setScheduledTime] = useState(defaultScheduledTime);
+
+  const { data: platforms = [] } = useQuery<Platform[]>({ queryKey: ['/api/platforms'] });
+  const { data: accounts = [] } = useQuery<PublicPlatformAccount[]>({ queryKey: ['/api/platform-accounts'] });
+  const { data: savedVariants } = useQuery<ContentVariant[]>({
+    queryKey: [`/api/content/${content?.id}/variants`],
+    enabled: open && content !== null,
+  });
+  const variants = savedVariants ?? [];
+
+  // Start each edit session from the saved variants
+  useEffect(() => {
+    if (!open || !savedVariants) return;
+    setDrafts(Object.fromEntries(savedVariants.map((variant) => [variant.platformId, toDraft(variant)])));
+  }, [open, savedVariants]);
+
+  useEffect(() => {
+    if (open) {
+      setSelectedAccountIds([]);
+      setScheduledTime(defaultScheduledTime());
+    }
+  }, [open, content?.id]);
+
+  const activeAccounts = accounts.filter((account) => account.active);
+  const targetPlatforms = platforms.filter((platform) =>
+    activeAccounts.some((account) => account.platformId === platform.id)
+  );
+
+  const savedVariant = (platformId: number) => variants.find((variant) => variant.platformId === platformId);
+  const draftFor = (platformId: number) => drafts[platformId] ?? toDraft(savedVariant(platformId));
+
+  // The variant as it would be saved, for previewing the platform checks before saving
+  const previewVariant = (platformId: number): ContentVariant | undefined => {
+    const draft = draftFor(platformId);
+    const saved = savedVariant(platformId);
+    if (!saved && Object.values(draft).every((value) => value.trim() === "")) return undefined;
+    return {
+      id: saved?.id ?? 0,
+      contentId: content?.id ?? 0,
+      platformId,
+      title: draft.title.trim() || null,
+      caption: draft.caption.trim() || null,
+      filePath: draft.filePath.trim() || null,
+      hashtags: parseHashtags(draft.hashtags),
+      metadata: saved?.metadata ?? null,
+      createdAt: saved?.createdAt ?? new Date(),
+    };
+  };
+
+  const violationsFor = (account: PublicPlatformAccount) => {
+    const platform = platforms.find((p) => p.id === account.platformId);
+    if (!content || !platform) return [];
+    return checkPlatformConstraints(applyContentVariant(content, previewVariant(platform.id)), platform.name);
+  };
+
+  const updateDraft = (platformId: number, field: keyof VariantDraft, value: string) => {
+    setDrafts((current) => ({ ...current, [platformId]: { ...draftFor(platformId), [field]: value } }));
+  };
+
+  const toggleAccount = (accountId: number) => {
+    setSelectedAccountIds((ids) =>
+      ids.includes(accountId) ? ids.filter((id) => id !== accountId) : [...ids, accountId]
+    );
+  };
+
+  const crossPostMutation = useMutation({
+    mutationFn: async () => {
+      if (!content) return [];
+
+      // Save edited variants first so the posts pick them up
+      for (const platform of targetPlatforms) {
+        const variant = previewVariant(platform.id);
+        const saved = savedVariant(platform.id);
+        if (!variant || JSON.stringify(toDraft(variant)) === JSON.stringify(toDraft(saved))) continue;
+
+        const body = { title: variant.title, caption: variant.caption, filePath: variant.filePath, hashtags: variant.hashtags };
+        if (saved) {
+          await apiRequest("PUT", `/api/content-variants/${saved.id}`, body);
+        } else {
+          await apiRequest("POST", `/api/content/${content.id}/variants`, { ...body, platformId: platform.id });
+        }
+      }
+
+      const res = await apiRequest("POST", `/api/content/${content.id}/cross-post`, {
+        platformAccountIds: selectedAccountIds,
+        scheduledTime: new Date(scheduledTime).toISOString(),
+      });
+      return res.json();
+    },
+    onSuccess: (posts) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/content/${content?.id}/variants`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/scheduled-posts'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/scheduled-posts/upcoming'] });
+      toast({
+        title: "Cross-post scheduled",
+        description: `${posts.length} posts scheduled`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to cross-post",
+        description: `Error: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const hasViolations = selectedAccountIds.some((accountId) => {
+    const account = activeAccounts.find((a) => a.id === accountId);
+    return account !== undefined && violationsFor(account).length > 0;
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Cross-post "{content?.title}"</DialogTitle>
+          <DialogDescription>
+            Adjust the caption, hashtags and media for each platform, then pick the accounts to post to.
+            Empty fields use the original content.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {targetPlatforms.map((platform) => {
+            const draft = draftFor(platform.id);
+            return (
+              <div key={platform.id} className="rounded-md border border-gray-200 dark:border-gray-700 p-4 space-y-3">
+                <h4 className="font-medium flex items-center">
+                  <span className="material-icons mr-2 text-sm">{platform.icon}</span>
+                  {platform.name}
+                </h4>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor={`variant-title-${platform.id}`}>Title</Label>
+                    <Input
+                      id={`variant-title-${platform.id}`}
+                      placeholder={content?.title}
+                      value={draft.title}
+                      disabled={!can("content:write")}
+                      onChange={(e) => updateDraft(platform.id, "title", e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor={`variant-file-${platform.id}`}>Media path</Label>
+                    <Input
+                      id={`variant-file-${platform.id}`}
+                      placeholder={content?.filePath ?? "No media"}
+                      value={draft.filePath}
+                      disabled={!can("content:write")}
+                      onChange={(e) => updateDraft(platform.id, "filePath", e.target.value)}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-1">
+                  <Label htmlFor={`variant-caption-${platform.id}`}>Caption</Label>
+                  <Textarea
+                    id={`variant-caption-${platform.id}`}
+                    rows={3}
+                    placeholder={content?.description ?? ""}
+                    value={draft.caption}
+                    disabled={!can("content:write")}
+                    onChange={(e) => updateDraft(platform.id, "caption", e.target.value)}
+                  />
+                </div>
+
+                <div className="space-y-1">
+                  <Label htmlFor={`variant-hashtags-${platform.id}`}>Hashtags</Label>
+                  <Input
+                    id={`variant-hashtags-${platform.id}`}
+                    placeholder="#ai #creators"
+                    value={draft.hashtags}
+                    disabled={!can("content:write")}
+                    onChange={(e) => updateDraft(platform.id, "hashtags", e.target.value)}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  {activeAccounts
+                    .filter((account) => account.platformId === platform.id)
+                    .map((account) => {
+                      const violations = selectedAccountIds.includes(account.id) ? violationsFor(account) : [];
+                      return (
+                        <div key={account.id}>
+                          <label className="flex items-center text-sm cursor-pointer">
+                            <input
+                              type="checkbox"
+                              className="h-4 w-4 text-primary focus:ring-primary border-gray-300 rounded mr-2"
+                              checked={selectedAccountIds.includes(account.id)}
+                              onChange={() => toggleAccount(account.id)}
+                            />
+                            {account.name}
+                            <span className="ml-1 text-gray-500 dark:text-gray-400">@{account.username}</span>
+                          </label>
+                          {violations.length > 0 && (
+                            <ul className="mt-1 ml-6 space-y-1 text-xs text-red-600 dark:text-red-400">
+                              {violations.map((violation) => (
+                                <li key={violation.rule}>{violation.message}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </div>
+                      );
+                    })}
+                </div>
+              </div>
+            );
+          })}
+
+          {targetPlatforms.length === 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">
+              Connect a platform account to cross-post content.
+            </p>
+          )}
+
+          <div className="space-y-1">
+            <Label htmlFor="cross-post-time">Publish at</Label>
+            <Input
+              id="cross-post-time"
+              type="datetime-local"
+              value={scheduledTime}
+              onChange={(e) => setScheduledTime(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => crossPostMutation.mutate()}
+            disabled={
+              !can("publishing:schedule") ||
+              selectedAccountIds.length === 0 ||
+              hasViolations ||
+              crossPostMutation.isPending
+            }
+          >
+            {crossPostMutation.isPending ? (
+              <>
+                <span className="material-icons animate-spin mr-2 text-sm">refresh</span>
+                Scheduling...
+              </>
+            ) : (
+              <>
+                <span className="material-icons mr-2 text-sm">share</span>
+                Schedule {selectedAccountIds.length || ""} {selectedAccountIds.length === 1 ? "Post" : "Posts"}
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { useTheme } from "@/contexts/ThemeContext";
+import NotificationBell from "@/components/NotificationBell";
 
 interface HeaderProps {
   onMobileMenuClick: () => void;
@@ -45,9 +46,7 @@ export default function Header({ onMobileMenuClick }: HeaderProps) {
             />
           </button>
           
-          <button className="p-1 text-gray-500 dark:text-gray-400 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary">
-            <span className="material-icons">notifications</span>
-          </button>
+          <NotificationBell />
           
           <button className="p-1 text-gray-500 dark:text-gray-400 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary">
             <span className="material-icons">help_outline</span>
@@ -0,0 +1,115 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import type { UserNotification } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+interface NotificationFeed {
+  notifications: UserNotification[];
+  unreadCount: number;
+}
+
+const eventIcons: Record<string, string> = {
+  post_published: "check_circle",
+  post_failed: "error",
+  job_failed: "report_problem",
+  trend_alert: "trending_up",
+};
+
+/**
+ * The bell in the header: the signed-in user's latest notifications and how
+ * many are unread. Polls so alerts show up without a reload.
+ */
+export default function NotificationBell() {
+  const [, navigate] = useLocation();
+  const { data } = useQuery<NotificationFeed>({
+    queryKey: ["/api/notifications"],
+    refetchInterval: 30000,
+  });
+  const notifications = data?.notifications ?? [];
+  const unreadCount = data?.unreadCount ?? 0;
+
+  const markReadMutation = useMutation({
+    mutationFn: async (ids?: number[]) => {
+      await apiRequest("POST", "/api/notifications/read", ids ? { ids } : {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const openNotification = (notification: UserNotification) => {
+    if (!notification.readAt) {
+      markReadMutation.mutate([notification.id]);
+    }
+    if (notification.link) {
+      navigate(notification.link);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button className="relative p-1 text-gray-500 dark:text-gray-400 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary">
+          <span className="sr-only">Notifications</span>
+          <span className="material-icons">notifications</span>
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-500 text-white text-[10px] font-medium leading-[1.1rem] text-center">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <button
+              className="px-2 text-xs text-primary hover:underline disabled:opacity-50"
+              disabled={markReadMutation.isPending}
+              onClick={() => markReadMutation.mutate(undefined)}
+            >
+              Mark all as read
+            </button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-6 text-sm text-center text-gray-500 dark:text-gray-400">No notifications yet</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => (
+              <DropdownMenuItem
+                key={notification.id}
+                className="flex items-start space-x-3 py-2 cursor-pointer"
+                onSelect={() => openNotification(notification)}
+              >
+                <span className={`material-icons text-base mt-0.5 ${notification.readAt ? "text-gray-400" : "text-primary"}`}>
+                  {eventIcons[notification.event] ?? "notifications"}
+                </span>
+                <div className="min-w-0 flex-1">
+                  <p className={`text-sm truncate ${notification.readAt ? "text-gray-600 dark:text-gray-400" : "font-medium text-gray-900 dark:text-gray-100"}`}>
+                    {notification.title}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 line-clamp-2">{notification.message}</p>
+                  <p className="text-xs text-gray-400 dark:text-gray-500 mt-0.5">
+                    {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                  </p>
+                </div>
+                {!notification.readAt && <span className="mt-1.5 h-2 w-2 rounded-full bg-primary flex-shrink-0" />}
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
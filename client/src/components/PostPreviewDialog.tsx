@@ -0,0 +1,160 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Content } from "@shared/schema";
+import type { ConstraintViolation } from "@shared/platformConstraints";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+// Response of GET /api/scheduled-posts/:id/dry-run
+interface PublishDryRun {
+  postId: number;
+  platform: string;
+  account: { id: number; name: string; username: string };
+  content: Content;
+  payload: { method: string; url: string; body: unknown };
+  violations: ConstraintViolation[];
+}
+
+interface PostPreviewDialogProps {
+  postId: number | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function MediaPlaceholder({ content, className }: { content: Content; className: string }) {
+  if (!content.filePath) return null;
+  return (
+    <div className={`${className} bg-gray-100 dark:bg-gray-900 flex flex-col items-center justify-center text-gray-400`}>
+      <span className="material-icons text-4xl">{content.contentType === "video" ? "play_circle" : "image"}</span>
+      <span className="mt-1 text-xs truncate max-w-[90%]">{content.filePath}</span>
+    </div>
+  );
+}
+
+function Avatar({ name }: { name: string }) {
+  return (
+    <div className="h-10 w-10 flex-shrink-0 rounded-full bg-primary text-white flex items-center justify-center font-medium">
+      {name.charAt(0).toUpperCase()}
+    </div>
+  );
+}
+
+// The post laid out roughly the way its platform shows it
+function PlatformCard({ preview }: { preview: PublishDryRun }) {
+  const { account, content } = preview;
+  const caption = content.description ?? "";
+
+  switch (preview.platform.toLowerCase()) {
+    case "youtube":
+      return (
+        <div className="rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+          <MediaPlaceholder content={content} className="aspect-video" />
+          <div className="p-3 flex space-x-3">
+            <Avatar name={account.name} />
+            <div className="min-w-0">
+              <p className="font-medium text-gray-900 dark:text-gray-100">{content.title}</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">{account.name}</p>
+              <p className="mt-2 text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{caption}</p>
+            </div>
+          </div>
+        </div>
+      );
+    case "instagram":
+    case "tiktok":
+      return (
+        <div className="rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden max-w-sm mx-auto">
+          <div className="p-3 flex items-center space-x-2">
+            <Avatar name={account.username} />
+            <span className="text-sm font-medium text-gray-900 dark:text-gray-100">{account.username}</span>
+          </div>
+          <MediaPlaceholder content={content} className={preview.platform.toLowerCase() === "tiktok" ? "aspect-[9/16]" : "aspect-square"} />
+          <p className="p-3 text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
+            <span className="font-medium text-gray-900 dark:text-gray-100 mr-1">{account.username}</span>
+            {caption}
+          </p>
+        </div>
+      );
+    default:
+      return (
+        <div className="rounded-lg border border-gray-200 dark:border-gray-700 p-4 flex space-x-3">
+          <Avatar name={account.name} />
+          <div className="min-w-0 flex-1">
+            <p className="text-sm">
+              <span className="font-medium text-gray-900 dark:text-gray-100">{account.name}</span>
+              <span className="ml-1 text-gray-500 dark:text-gray-400">@{account.username}</span>
+            </p>
+            {content.contentType !== "text" && (
+              <p className="mt-1 font-medium text-gray-900 dark:text-gray-100">{content.title}</p>
+            )}
+            <p className="mt-1 text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{caption || content.title}</p>
+            <MediaPlaceholder content={content} className="mt-3 rounded-lg aspect-video" />
+          </div>
+        </div>
+      );
+  }
+}
+
+/**
+ * What a scheduled post will send, from a dry run of the publish path
+ */
+export default function PostPreviewDialog({ postId, open, onOpenChange }: PostPreviewDialogProps) {
+  const { data: preview, isLoading, error } = useQuery<PublishDryRun>({
+    queryKey: [`/api/scheduled-posts/${postId}/dry-run`],
+    enabled: open && postId !== null,
+    // Always show what would be sent now
+    staleTime: 0,
+    gcTime: 0,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Post Preview</DialogTitle>
+          <DialogDescription>
+            {preview
+              ? `Exactly what will be sent to ${preview.platform} as @${preview.account.username}. Nothing has been posted.`
+              : "Running the publish steps without posting..."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && (
+          <div className="h-48 rounded-lg bg-gray-200 dark:bg-gray-700 animate-pulse"></div>
+        )}
+
+        {error && (
+          <div className="rounded-md bg-red-50 dark:bg-red-900/20 p-3 text-sm text-red-700 dark:text-red-300">
+            This post cannot be published: {(error as Error).message}
+          </div>
+        )}
+
+        {preview && (
+          <div className="space-y-4">
+            <PlatformCard preview={preview} />
+
+            {preview.violations.length > 0 && (
+              <div className="rounded-md bg-red-50 dark:bg-red-900/20 p-3">
+                <p className="text-sm font-medium text-red-700 dark:text-red-300">
+                  {preview.platform} will reject this post:
+                </p>
+                <ul className="mt-1 list-disc list-inside text-sm text-red-600 dark:text-red-400">
+                  {preview.violations.map((violation) => (
+                    <li key={violation.rule}>{violation.message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <details className="text-sm">
+              <summary className="cursor-pointer text-gray-600 dark:text-gray-400">Request payload</summary>
+              <p className="mt-2 font-mono text-xs text-gray-700 dark:text-gray-300">
+                {preview.payload.method} {preview.payload.url}
+              </p>
+              <pre className="mt-1 p-3 rounded-md bg-gray-100 dark:bg-gray-900 text-xs overflow-x-auto">
+                {JSON.stringify(preview.payload.body, null, 2)}
+              </pre>
+            </details>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
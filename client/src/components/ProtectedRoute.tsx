@@ -0,0 +1,26 @@
+import { ComponentType } from "react";
+import { Redirect, Route } from "wouter";
+import { useAuth } from "@/contexts/AuthContext";
+
+interface ProtectedRouteProps {
+  path: string;
+  component: ComponentType;
+}
+
+export default function ProtectedRoute({ path, component: Component }: ProtectedRouteProps) {
+  const { user, isLoading } = useAuth();
+
+  return (
+    <Route path={path}>
+      {isLoading ? (
+        <div className="flex items-center justify-center min-h-screen">
+          <span className="material-icons animate-spin text-primary">autorenew</span>
+        </div>
+      ) : user ? (
+        <Component />
+      ) : (
+        <Redirect to="/auth" />
+      )}
+    </Route>
+  );
+}
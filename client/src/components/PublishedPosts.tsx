@@ -0,0 +1,316 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import type { Content, Platform, PostAction, PublicPlatformAccount, ScheduledPost } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface PostEdit {
+  title: string;
+  description: string;
+  filePath: string;
+}
+
+const actionLabels: Record<string, string> = {
+  published: "Published",
+  edited: "Edited",
+  unpublished: "Unpublished",
+};
+
+function invalidatePost(postId: number) {
+  queryClient.invalidateQueries({ queryKey: ['/api/scheduled-posts'] });
+  queryClient.invalidateQueries({ queryKey: [`/api/scheduled-posts/${postId}/actions`] });
+}
+
+function PostHistory({ postId }: { postId: number }) {
+  const { data: actions = [], isLoading } = useQuery<PostAction[]>({
+    queryKey: [`/api/scheduled-posts/${postId}/actions`],
+  });
+
+  if (isLoading) {
+    return <div className="h-10 rounded bg-gray-200 dark:bg-gray-700 animate-pulse"></div>;
+  }
+  if (actions.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">No actions recorded for this post.</p>;
+  }
+
+  return (
+    <ol className="space-y-2">
+      {actions.map((action) => (
+        <li key={action.id} className="text-sm">
+          <div className="flex items-center space-x-2">
+            <span className="font-medium text-gray-900 dark:text-gray-100">{actionLabels[action.action] ?? action.action}</span>
+            {action.status === "failed" && <Badge variant="destructive">Failed</Badge>}
+            <span className="text-gray-500 dark:text-gray-400">
+              {format(new Date(action.createdAt), "MMM d, yyyy h:mm a")}
+              {action.userId === null && " · automatic"}
+            </span>
+          </div>
+          {action.error && <p className="text-xs text-red-600 dark:text-red-400">{action.error}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+function EditPostDialog({ post, onOpenChange }: { post: ScheduledPost | null; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const [edit, setEdit] = useState<PostEdit>({ title: "", description: "", filePath: "" });
+
+  // What is live now: the published content, with the latest successful edit on top
+  const { data: published } = useQuery<{ content: Content }>({
+    queryKey: [`/api/scheduled-posts/${post?.id}/dry-run`],
+    enabled: post !== null,
+    staleTime: 0,
+    gcTime: 0,
+  });
+  const { data: actions } = useQuery<PostAction[]>({
+    queryKey: [`/api/scheduled-posts/${post?.id}/actions`],
+    enabled: post !== null,
+  });
+
+  useEffect(() => {
+    if (!published || !actions) return;
+    const lastEdit = actions.filter((action) => action.action === "edited" && action.status === "succeeded").pop();
+    const current = { ...published.content, ...(lastEdit?.details as Partial<Content> | null) };
+    setEdit({
+      title: current.title,
+      description: current.description ?? "",
+      filePath: current.filePath ?? "",
+    });
+  }, [published, actions]);
+
+  const editMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/scheduled-posts/${post!.id}/edit`, {
+        title: edit.title,
+        description: edit.description,
+        filePath: edit.filePath.trim() || null,
+      });
+    },
+    onSuccess: () => {
+      invalidatePost(post!.id);
+      toast({ title: "Post updated", description: "The changes are live on the platform." });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      invalidatePost(post!.id);
+      toast({
+        title: "Failed to edit post",
+        description: `Error: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={post !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Edit Published Post</DialogTitle>
+          <DialogDescription>
+            Changes are sent to the platform straight away. The original content is not changed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="edit-post-title">Title</Label>
+            <Input
+              id="edit-post-title"
+              value={edit.title}
+              onChange={(e) => setEdit({ ...edit, title: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="edit-post-description">Caption</Label>
+            <Textarea
+              id="edit-post-description"
+              rows={5}
+              value={edit.description}
+              onChange={(e) => setEdit({ ...edit, description: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="edit-post-file">Media path</Label>
+            <Input
+              id="edit-post-file"
+              placeholder="No media"
+              value={edit.filePath}
+              onChange={(e) => setEdit({ ...edit, filePath: e.target.value })}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => editMutation.mutate()}
+            disabled={!published || edit.title.trim() === "" || editMutation.isPending}
+          >
+            {editMutation.isPending ? "Saving..." : "Save Changes"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Posts that have gone live, with edit/unpublish through the platform and each post's history
+ */
+export default function PublishedPosts() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [editingPost, setEditingPost] = useState<ScheduledPost | null>(null);
+  const [unpublishingPost, setUnpublishingPost] = useState<ScheduledPost | null>(null);
+  const [historyPostId, setHistoryPostId] = useState<number | null>(null);
+
+  const { data: posts = [], isLoading } = useQuery<ScheduledPost[]>({ queryKey: ['/api/scheduled-posts'] });
+  const { data: contents = [] } = useQuery<Content[]>({ queryKey: ['/api/content'] });
+  const { data: accounts = [] } = useQuery<PublicPlatformAccount[]>({ queryKey: ['/api/platform-accounts'] });
+  const { data: platforms = [] } = useQuery<Platform[]>({ queryKey: ['/api/platforms'] });
+
+  const publishedPosts = posts
+    .filter((post) => post.status === "posted" || post.status === "unpublished")
+    .sort((a, b) => new Date(b.postedAt ?? 0).getTime() - new Date(a.postedAt ?? 0).getTime());
+
+  const unpublishMutation = useMutation({
+    mutationFn: async (post: ScheduledPost) => {
+      await apiRequest("POST", `/api/scheduled-posts/${post.id}/unpublish`);
+    },
+    onSuccess: (_, post) => {
+      invalidatePost(post.id);
+      toast({ title: "Post unpublished", description: "The post was removed from the platform." });
+    },
+    onError: (error, post) => {
+      invalidatePost(post.id);
+      toast({
+        title: "Failed to unpublish post",
+        description: `Error: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const describePost = (post: ScheduledPost) => {
+    const account = accounts.find((a) => a.id === post.platformAccountId);
+    const platform = platforms.find((p) => p.id === account?.platformId);
+    return {
+      title: contents.find((c) => c.id === post.contentId)?.title ?? "Untitled Content",
+      target: account ? `${platform?.name ?? "Unknown"} · @${account.username}` : "Unknown account",
+    };
+  };
+
+  if (isLoading) {
+    return <div className="h-24 rounded bg-gray-200 dark:bg-gray-700 animate-pulse"></div>;
+  }
+
+  if (publishedPosts.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <span className="material-icons text-3xl text-gray-400 mb-2">public_off</span>
+        <p className="text-gray-500 dark:text-gray-400">Nothing has been published yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <ul role="list" className="divide-y divide-gray-200 dark:divide-gray-700">
+        {publishedPosts.map((post) => {
+          const { title, target } = describePost(post);
+          const live = post.status === "posted";
+          return (
+            <li key={post.id} className="py-4">
+              <div className="flex items-center justify-between space-x-4">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">{title}</p>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 truncate">
+                    {target}
+                    {post.postedAt && ` · ${format(new Date(post.postedAt), "MMM d, yyyy h:mm a")}`}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2 flex-shrink-0">
+                  <Badge variant={live ? "default" : "outline"}>{live ? "Live" : "Unpublished"}</Badge>
+                  {live && can("publishing:schedule") && (
+                    <>
+                      <Button variant="outline" size="sm" onClick={() => setEditingPost(post)}>
+                        <span className="material-icons text-sm mr-1">edit</span>
+                        Edit
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="text-red-600"
+                        disabled={unpublishMutation.isPending}
+                        onClick={() => setUnpublishingPost(post)}
+                      >
+                        <span className="material-icons text-sm mr-1">unpublished</span>
+                        Unpublish
+                      </Button>
+                    </>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setHistoryPostId(historyPostId === post.id ? null : post.id)}
+                  >
+                    <span className="material-icons text-sm mr-1">history</span>
+                    History
+                  </Button>
+                </div>
+              </div>
+              {historyPostId === post.id && (
+                <div className="mt-3 ml-2 pl-4 border-l-2 border-gray-200 dark:border-gray-700">
+                  <PostHistory postId={post.id} />
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <EditPostDialog post={editingPost} onOpenChange={(open) => !open && setEditingPost(null)} />
+
+      <AlertDialog open={unpublishingPost !== null} onOpenChange={(open) => !open && setUnpublishingPost(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Unpublish this post?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The post will be deleted from the platform, along with its likes and comments. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => unpublishingPost && unpublishMutation.mutate(unpublishingPost)}
+              className="bg-red-600 hover:bg-red-700 text-white"
+            >
+              Unpublish
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -1,8 +1,11 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Content } from "@shared/schema";
 import { format } from "date-fns";
+import CrossPostDialog from "@/components/CrossPostDialog";
 
 export default function RecentContent() {
+  const [crossPostContent, setCrossPostContent] = useState<Content | null>(null);
   const { data: recentContent, isLoading, error } = useQuery({
     queryKey: ['/api/content/recent'],
   });
@@ -131,7 +134,9 @@ export default function RecentContent() {
                       </p>
                     </div>
                     <div>
-                      <button className="inline-flex items-center px-2.5 py-1.5 border border-transparent text-xs font-medium rounded text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500">
+                      <button
+                        onClick={() => setCrossPostContent(content)}
+                        className="inline-flex items-center px-2.5 py-1.5 border border-transparent text-xs font-medium rounded text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500">
                         <span className="material-icons text-sm mr-1">content_copy</span>
                         Repurpose
                       </button>
@@ -152,6 +157,12 @@ export default function RecentContent() {
           </ul>
         </div>
       </div>
+
+      <CrossPostDialog
+        content={crossPostContent}
+        open={crossPostContent !== null}
+        onOpenChange={(open) => !open && setCrossPostContent(null)}
+      />
     </div>
   );
 }
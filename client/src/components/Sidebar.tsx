@@ -1,10 +1,13 @@
 import { Link, useLocation } from "wouter";
 import { cn } from "@/lib/utils";
+import { useAuth } from "@/contexts/AuthContext";
+import type { Permission } from "@shared/permissions";
 
 type SidebarItem = {
   name: string;
   icon: string;
   path: string;
+  permission?: Permission; // hidden from roles that lack it
 };
 
 type PlatformItem = {
@@ -16,15 +19,15 @@ type PlatformItem = {
 
 const navigationItems: SidebarItem[] = [
   { name: "Dashboard", icon: "dashboard", path: "/" },
-  { name: "Content Creation", icon: "video_library", path: "/content-creation" },
-  { name: "Script Generation", icon: "auto_awesome", path: "/script-generation" },
-  { name: "Scheduler", icon: "schedule", path: "/scheduler" },
-  { name: "Automation", icon: "smart_toy", path: "/automation" },
+  { name: "Content Creation", icon: "video_library", path: "/content-creation", permission: "content:write" },
+  { name: "Script Generation", icon: "auto_awesome", path: "/script-generation", permission: "content:write" },
+  { name: "Scheduler", icon: "schedule", path: "/scheduler", permission: "publishing:review" },
+  { name: "Automation", icon: "smart_toy", path: "/automation", permission: "publishing:schedule" },
   { name: "Trend Analysis", icon: "trending_up", path: "/trend-analysis" },
   { name: "Comment Management", icon: "chat", path: "/comment-management" },
   { name: "Analytics", icon: "analytics", path: "/analytics" },
-  { name: "Ad Campaigns", icon: "campaign", path: "/ad-campaigns" },
-  { name: "Settings", icon: "settings", path: "/settings" },
+  { name: "Ad Campaigns", icon: "campaign", path: "/ad-campaigns", permission: "content:write" },
+  { name: "Settings", icon: "settings", path: "/settings", permission: "settings:manage" },
 ];
 
 const platformItems: PlatformItem[] = [
@@ -40,6 +43,8 @@ interface SidebarProps {
 
 export default function Sidebar({ mobileOpen, onMobileClose }: SidebarProps) {
   const [location] = useLocation();
+  const { user, can, logoutMutation } = useAuth();
+  const visibleItems = navigationItems.filter(item => !item.permission || can(item.permission));
 
   const sidebarClass = cn(
     "flex flex-col w-64 border-r border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800",
@@ -53,7 +58,7 @@ export default function Sidebar({ mobileOpen, onMobileClose }: SidebarProps) {
       </div>
       <div className="flex flex-col flex-grow px-4 py-4 overflow-y-auto">
         <div className="space-y-1">
-          {navigationItems.map((item) => (
+          {visibleItems.map((item) => (
             <Link 
               key={item.name} 
               href={item.path}
@@ -88,10 +93,12 @@ export default function Sidebar({ mobileOpen, onMobileClose }: SidebarProps) {
                 {item.name}
               </Link>
             ))}
-            <button className="flex items-center w-full px-2 py-2 text-sm font-medium text-primary rounded-md hover:bg-gray-50 dark:hover:bg-gray-700">
-              <span className="material-icons mr-3">add_circle</span>
-              Add Platform
-            </button>
+            {can("platforms:manage") && (
+              <button className="flex items-center w-full px-2 py-2 text-sm font-medium text-primary rounded-md hover:bg-gray-50 dark:hover:bg-gray-700">
+                <span className="material-icons mr-3">add_circle</span>
+                Add Platform
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -103,12 +110,24 @@ export default function Sidebar({ mobileOpen, onMobileClose }: SidebarProps) {
             </div>
           </div>
           <div className="ml-3 w-full">
-            <div className="text-sm font-medium">Local User</div>
-            <div className="text-xs text-gray-500 dark:text-gray-400 truncate">Self-Hosted</div>
+            <div className="text-sm font-medium truncate">{user?.username ?? "Local User"}</div>
+            <div className="text-xs text-gray-500 dark:text-gray-400 truncate capitalize">{user?.role ?? "Self-Hosted"}</div>
+          </div>
+          <div className="ml-auto flex items-center">
+            {can("settings:manage") && (
+              <Link href="/settings" className="p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700">
+                <span className="material-icons text-gray-500 text-sm">settings</span>
+              </Link>
+            )}
+            <button
+              className="ml-1 p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700"
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+              title="Log out"
+            >
+              <span className="material-icons text-gray-500 text-sm">logout</span>
+            </button>
           </div>
-          <Link href="/settings" className="ml-auto p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700">
-            <span className="material-icons text-gray-500 text-sm">settings</span>
-          </Link>
         </div>
       </div>
     </div>
@@ -1,8 +1,9 @@
 import { useQuery } from "@tanstack/react-query";
 import type { SystemStatus as SystemStatusType } from "../../server/storage";
+import type { PlatformQuotaUsage } from "@shared/settings";
 
 export default function SystemStatus() {
-  const { data: status, isLoading, error } = useQuery({
+  const { data: status, isLoading, error } = useQuery<SystemStatusType & { platformQuotas: PlatformQuotaUsage[] }>({
     queryKey: ['/api/system-status'],
   });
 
@@ -120,6 +121,33 @@ export default function SystemStatus() {
           </div>
         </div>
       </div>
+
+      {status.platformQuotas.length > 0 && (
+        <div className="px-4 pb-5 sm:px-6">
+          <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-3">Platform API Quotas</h4>
+          <ul className="space-y-3">
+            {status.platformQuotas.map((quota: PlatformQuotaUsage) => (
+              <li key={quota.accountId}>
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-900 dark:text-gray-100">
+                    {quota.accountName} <span className="text-gray-500 dark:text-gray-400">· {quota.platform}</span>
+                  </span>
+                  <span className="text-gray-500 dark:text-gray-400">
+                    {quota.used} / {quota.limit} per {Math.round(quota.windowSeconds / 60)} min
+                    {quota.queued > 0 && ` · ${quota.queued} queued`}
+                  </span>
+                </div>
+                <div className="mt-1 h-2 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                  <div
+                    className={`h-full ${quota.remaining === 0 ? 'bg-red-500' : 'bg-primary'}`}
+                    style={{ width: `${Math.min(100, (quota.used / quota.limit) * 100)}%` }}
+                  ></div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 }
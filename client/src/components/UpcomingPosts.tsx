@@ -1,8 +1,14 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { ScheduledPost } from "@shared/schema";
 import { format, formatDistanceToNow, isToday, isTomorrow } from "date-fns";
+import { useAuth } from "@/contexts/AuthContext";
+import PostPreviewDialog from "@/components/PostPreviewDialog";
 
 export default function UpcomingPosts() {
+  const { can } = useAuth();
+  const [previewPostId, setPreviewPostId] = useState<number | null>(null);
+
   const { data: upcomingPosts, isLoading, error } = useQuery({
     queryKey: ['/api/scheduled-posts/upcoming'],
   });
@@ -216,8 +222,18 @@ export default function UpcomingPosts() {
                           {accountDetails?.platform?.name || "Unknown"} • {formatScheduledTime(post.scheduledTime)}
                         </p>
                       </div>
-                      <div>
+                      <div className="flex items-center space-x-2">
                         {getStatusBadge(post.status)}
+                        {can("publishing:review") && (
+                          <button
+                            type="button"
+                            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                            title="Preview post"
+                            onClick={() => setPreviewPostId(post.id)}
+                          >
+                            <span className="material-icons text-base">visibility</span>
+                          </button>
+                        )}
                       </div>
                     </div>
                   </li>
@@ -234,6 +250,12 @@ export default function UpcomingPosts() {
           </ul>
         </div>
       </div>
+
+      <PostPreviewDialog
+        postId={previewPostId}
+        open={previewPostId !== null}
+        onOpenChange={(open) => !open && setPreviewPostId(null)}
+      />
     </div>
   );
 }
@@ -29,24 +29,25 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import type { PublicApiKey } from "@shared/schema";
 
-// Form schema for API keys
+// Form schema for API keys (the key itself is only entered when adding)
 const apiKeyFormSchema = z.object({
   name: z.string().min(2, "API key name must be at least 2 characters"),
-  key: z.string().min(5, "API key must be at least 5 characters"),
+  key: z.string().optional(),
   service: z.string().min(2, "Service name is required"),
   description: z.string().optional(),
 });
 
-// Type for API keys
-type APIKey = {
-  id: number;
-  name: string;
-  key: string;  
-  service: string;
-  description?: string;
+const rotateKeySchema = z.object({
+  key: z.string().min(5, "API key must be at least 5 characters"),
+});
+
+// Dates arrive as ISO strings over JSON
+type APIKey = Omit<PublicApiKey, "createdAt" | "rotatedAt"> & {
   createdAt: string;
-}
+  rotatedAt: string | null;
+};
 
 export default function APISettings() {
   const { toast } = useToast();
@@ -54,11 +55,18 @@ export default function APISettings() {
   const [confirmDeleteOpen, setConfirmDeleteOpen] = useState(false);
   const [editingApiKey, setEditingApiKey] = useState<APIKey | null>(null);
   const [deletingKeyId, setDeletingKeyId] = useState<number | null>(null);
+  const [rotatingApiKey, setRotatingApiKey] = useState<APIKey | null>(null);
+  const [revealedKey, setRevealedKey] = useState<{ id: number; key: string } | null>(null);
   
   // Fetch API keys
-  const { data: apiKeys = [], isLoading } = useQuery({
+  const { data: apiKeys = [], isLoading } = useQuery<APIKey[]>({
     queryKey: ['/api/api-keys'],
   });
+
+  const rotateForm = useForm<z.infer<typeof rotateKeySchema>>({
+    resolver: zodResolver(rotateKeySchema),
+    defaultValues: { key: "" }
+  });
   
   // API key form
   const apiKeyForm = useForm<z.infer<typeof apiKeyFormSchema>>({
@@ -75,7 +83,8 @@ export default function APISettings() {
   const apiKeyMutation = useMutation({
     mutationFn: async (data: z.infer<typeof apiKeyFormSchema>) => {
       if (editingApiKey) {
-        return apiRequest("PUT", `/api/api-keys/${editingApiKey.id}`, data);
+        const { key: _key, ...details } = data;
+        return apiRequest("PUT", `/api/api-keys/${editingApiKey.id}`, details);
       } else {
         return apiRequest("POST", "/api/api-keys", data);
       }
@@ -126,6 +135,49 @@ export default function APISettings() {
     }
   });
 
+  // Replace the stored secret; the new value becomes revealable once
+  const rotateApiKeyMutation = useMutation({
+    mutationFn: async ({ id, key }: { id: number; key: string }) => {
+      return apiRequest("POST", `/api/api-keys/${id}/rotate`, { key });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/api-keys'] });
+      setRotatingApiKey(null);
+      rotateForm.reset({ key: "" });
+      toast({
+        title: "API Key rotated",
+        description: "The new key has been encrypted and stored",
+        variant: "default",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to rotate API key: ${error.message}`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  // Show the raw key a single time
+  const revealApiKeyMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/api-keys/${id}/reveal`);
+      return (await res.json()) as { id: number; key: string };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/api-keys'] });
+      setRevealedKey(data);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to reveal API key: ${error.message}`,
+        variant: "destructive",
+      });
+    }
+  });
+
   // Handle opening dialog for adding new API key
   const handleAddApiKey = () => {
     setEditingApiKey(null);
@@ -143,7 +195,7 @@ export default function APISettings() {
     setEditingApiKey(apiKey);
     apiKeyForm.reset({
       name: apiKey.name,
-      key: apiKey.key,
+      key: "",
       service: apiKey.service,
       description: apiKey.description || "",
     });
@@ -174,9 +226,19 @@ export default function APISettings() {
 
   // API key form submission
   const onApiKeySubmit = (values: z.infer<typeof apiKeyFormSchema>) => {
+    if (!editingApiKey && (!values.key || values.key.length < 5)) {
+      apiKeyForm.setError("key", { message: "API key must be at least 5 characters" });
+      return;
+    }
     apiKeyMutation.mutate(values);
   };
 
+  const onRotateSubmit = (values: z.infer<typeof rotateKeySchema>) => {
+    if (rotatingApiKey) {
+      rotateApiKeyMutation.mutate({ id: rotatingApiKey.id, key: values.key });
+    }
+  };
+
   // Get service icon and color
   const getServiceIcon = (service: string): {icon: string, color: string} => {
     const serviceLower = service.toLowerCase();
@@ -227,6 +289,12 @@ export default function APISettings() {
                         <Button variant="outline" size="sm" onClick={() => handleEditApiKey(apiKey)}>
                           <span className="material-icons text-sm">edit</span>
                         </Button>
+                        <Button variant="outline" size="sm" title="Rotate key" onClick={() => {
+                          rotateForm.reset({ key: "" });
+                          setRotatingApiKey(apiKey);
+                        }}>
+                          <span className="material-icons text-sm">autorenew</span>
+                        </Button>
                         <Button variant="outline" size="sm" className="text-red-600 dark:text-red-400 border-red-200 dark:border-red-800" onClick={() => handleDeleteApiKey(apiKey.id)}>
                           <span className="material-icons text-sm">delete</span>
                         </Button>
@@ -238,20 +306,22 @@ export default function APISettings() {
                         <div className="flex-1 mr-4">
                           <p className="text-sm font-mono text-gray-700 dark:text-gray-300">{apiKey.key}</p>
                         </div>
-                        <Button variant="outline" size="sm" onClick={() => {
-                          navigator.clipboard.writeText(apiKey.key.replace(/[•]/g, ''));
-                          toast({
-                            title: "API Key copied",
-                            description: "The API key has been copied to clipboard",
-                            variant: "default",
-                          });
-                        }}>
-                          <span className="material-icons text-sm">content_copy</span>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={!apiKey.revealable || revealApiKeyMutation.isPending}
+                          title={apiKey.revealable ? "Reveal once" : "Already revealed; rotate to set a new key"}
+                          onClick={() => revealApiKeyMutation.mutate(apiKey.id)}
+                        >
+                          <span className="material-icons text-sm">{apiKey.revealable ? "visibility" : "visibility_off"}</span>
                         </Button>
                       </div>
                       {apiKey.description && (
                         <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">{apiKey.description}</p>
                       )}
+                      {apiKey.rotatedAt && (
+                        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Rotated {formatDate(apiKey.rotatedAt)}</p>
+                      )}
                     </div>
                   </div>
                 );
@@ -312,19 +382,25 @@ export default function APISettings() {
                 )}
               />
               
-              <FormField
-                control={apiKeyForm.control}
-                name="key"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>API Key</FormLabel>
-                    <FormControl>
-                      <Input placeholder="Enter your API key" type="password" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+              {editingApiKey ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  The stored key is encrypted and cannot be edited here. Use rotate to replace it.
+                </p>
+              ) : (
+                <FormField
+                  control={apiKeyForm.control}
+                  name="key"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>API Key</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Enter your API key" type="password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
               
               <FormField
                 control={apiKeyForm.control}
@@ -357,6 +433,76 @@ export default function APISettings() {
         </DialogContent>
       </Dialog>
       
+      {/* Rotate API Key Dialog */}
+      <Dialog open={rotatingApiKey !== null} onOpenChange={(open) => !open && setRotatingApiKey(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rotate API Key</DialogTitle>
+            <DialogDescription>
+              Replace the stored key for {rotatingApiKey?.name}. The old value is discarded.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...rotateForm}>
+            <form onSubmit={rotateForm.handleSubmit(onRotateSubmit)} className="space-y-4">
+              <FormField
+                control={rotateForm.control}
+                name="key"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>New API Key</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Enter the new API key" type="password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <DialogClose asChild>
+                  <Button type="button" variant="outline">Cancel</Button>
+                </DialogClose>
+                <Button type="submit" disabled={rotateApiKeyMutation.isPending}>
+                  Rotate Key
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Revealed API Key Dialog */}
+      <Dialog open={revealedKey !== null} onOpenChange={(open) => !open && setRevealedKey(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>API Key</DialogTitle>
+            <DialogDescription>
+              Copy this key now. It will not be shown again unless you rotate it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center justify-between bg-gray-50 dark:bg-gray-800 rounded-md p-3">
+            <p className="text-sm font-mono text-gray-700 dark:text-gray-300 break-all mr-4">{revealedKey?.key}</p>
+            <Button variant="outline" size="sm" onClick={() => {
+              if (!revealedKey) return;
+              navigator.clipboard.writeText(revealedKey.key);
+              toast({
+                title: "API Key copied",
+                description: "The API key has been copied to clipboard",
+                variant: "default",
+              });
+            }}>
+              <span className="material-icons text-sm">content_copy</span>
+            </Button>
+          </div>
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button type="button">Done</Button>
+            </DialogClose>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Confirm Delete API Key Dialog */}
       <AlertDialog open={confirmDeleteOpen} onOpenChange={setConfirmDeleteOpen}>
         <AlertDialogContent>
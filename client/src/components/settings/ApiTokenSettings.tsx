@@ -0,0 +1,261 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import type { PublicApiToken } from "@shared/schema";
+import { permissions, type Permission } from "@shared/permissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+const scopeLabels: Record<Permission, string> = {
+  "content:write": "Create content, run AI generation and call the create-content hook",
+  "content:delete": "Delete content",
+  "publishing:review": "Review scheduled posts",
+  "publishing:schedule": "Schedule posts, including from the create-content hook",
+  "platforms:manage": "Manage platforms and accounts",
+  "settings:manage": "Manage settings",
+  "users:manage": "Manage users",
+};
+
+const expiryOptions = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "Never" },
+];
+
+/**
+ * The signed-in user's personal API tokens, for scripts and other systems
+ * that call the API (or the create-content hook) without a browser session
+ */
+export default function ApiTokenSettings() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<Permission[]>([]);
+  const [expiry, setExpiry] = useState("90");
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  const grantable = permissions.filter((permission) => can(permission));
+  const { data: tokens = [], isLoading } = useQuery<PublicApiToken[]>({
+    queryKey: ["/api/api-tokens"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/api-tokens", {
+        name,
+        scopes,
+        expiresInDays: expiry === "never" ? null : Number(expiry),
+      });
+      return (await res.json()) as PublicApiToken & { token: string };
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/api-tokens"] });
+      setDialogOpen(false);
+      setNewToken(created.token);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to create API token", description: `Error: ${error.message}`, variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (token: PublicApiToken) => {
+      await apiRequest("DELETE", `/api/api-tokens/${token.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/api-tokens"] });
+      toast({ title: "API token revoked" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to revoke API token", description: `Error: ${error.message}`, variant: "destructive" });
+    },
+  });
+
+  const openDialog = () => {
+    setName("");
+    setScopes([]);
+    setExpiry("90");
+    setDialogOpen(true);
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+          <div>
+            <CardTitle>Personal API Tokens</CardTitle>
+            <CardDescription>Let scripts and other systems act as you, limited to the scopes you choose</CardDescription>
+          </div>
+          <Button onClick={openDialog}>
+            <span className="material-icons mr-2 text-sm">add</span>
+            New Token
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="h-16 rounded bg-gray-200 dark:bg-gray-700 animate-pulse"></div>
+          ) : tokens.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-6">No API tokens yet</p>
+          ) : (
+            <div className="divide-y divide-gray-200 dark:divide-gray-700">
+              {tokens.map((token) => {
+                const expired = token.expiresAt !== null && new Date(token.expiresAt) <= new Date();
+                return (
+                  <div key={token.id} className="py-3 flex items-start justify-between space-x-4">
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center space-x-2">
+                        <p className="font-medium text-gray-900 dark:text-gray-100">{token.name}</p>
+                        <span className="text-xs font-mono text-gray-500 dark:text-gray-400">{token.tokenPreview}</span>
+                        {expired && <Badge variant="destructive">Expired</Badge>}
+                      </div>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        Created {format(new Date(token.createdAt), "MMM d, yyyy")}
+                        {" • "}
+                        {token.expiresAt ? `${expired ? "Expired" : "Expires"} ${format(new Date(token.expiresAt), "MMM d, yyyy")}` : "Never expires"}
+                        {" • "}
+                        {token.lastUsedAt ? `Last used ${format(new Date(token.lastUsedAt), "MMM d, yyyy HH:mm")}` : "Never used"}
+                      </p>
+                      <div className="flex flex-wrap gap-1">
+                        {token.scopes.length === 0
+                          ? <Badge variant="outline">Read only</Badge>
+                          : token.scopes.map((scope) => <Badge key={scope} variant="secondary">{scope}</Badge>)}
+                      </div>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-red-600 dark:text-red-400 border-red-200 dark:border-red-800 flex-shrink-0"
+                      disabled={revokeMutation.isPending}
+                      onClick={() => revokeMutation.mutate(token)}
+                    >
+                      Revoke
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+          <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+            Send a token as "Authorization: Bearer &lt;token&gt;". Systems that can sign requests can instead POST JSON to
+            /api/hooks/create-content with X-Token-Id, X-Timestamp and X-Signature ("sha256=" followed by the hex
+            HMAC-SHA256 of the timestamp, a period and the body, keyed with the token). Each signed request is accepted once.
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* New Token Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New API Token</DialogTitle>
+            <DialogDescription>
+              Tokens can read everything you can. Choose what else this one may do.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              createMutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="api-token-name">Name</Label>
+              <Input id="api-token-name" placeholder="e.g., Nightly CMS sync" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Scopes</Label>
+              {grantable.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">Your role can only read, so tokens are read only.</p>
+              ) : (
+                grantable.map((scope) => (
+                  <label key={scope} className="flex items-center space-x-2 text-sm">
+                    <Checkbox
+                      checked={scopes.includes(scope)}
+                      onCheckedChange={(checked) => setScopes(checked
+                        ? [...scopes, scope]
+                        : scopes.filter((value) => value !== scope))}
+                    />
+                    <span className="font-mono text-xs">{scope}</span>
+                    <span className="text-gray-500 dark:text-gray-400">{scopeLabels[scope]}</span>
+                  </label>
+                ))
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Expires</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {expiryOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline">Cancel</Button>
+              </DialogClose>
+              <Button type="submit" disabled={name.trim().length < 2 || createMutation.isPending}>
+                Create Token
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Created Token Dialog */}
+      <Dialog open={newToken !== null} onOpenChange={(open) => !open && setNewToken(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>API Token Created</DialogTitle>
+            <DialogDescription>
+              Copy this token now. It will not be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center justify-between bg-gray-50 dark:bg-gray-800 rounded-md p-3">
+            <p className="text-sm font-mono text-gray-700 dark:text-gray-300 break-all mr-4">{newToken}</p>
+            <Button variant="outline" size="sm" onClick={() => {
+              if (!newToken) return;
+              navigator.clipboard.writeText(newToken);
+              toast({ title: "Token copied", description: "The API token has been copied to clipboard" });
+            }}>
+              <span className="material-icons text-sm">content_copy</span>
+            </Button>
+          </div>
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button type="button">Done</Button>
+            </DialogClose>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
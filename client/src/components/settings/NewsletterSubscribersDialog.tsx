@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import type { PublicNewsletterSubscriber, PublicPlatformAccount } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+interface NewsletterSubscribersDialogProps {
+  account: PublicPlatformAccount | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * The mailing list of a Newsletter account: add, pause and remove subscribers
+ */
+export default function NewsletterSubscribersDialog({ account, onOpenChange }: NewsletterSubscribersDialogProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [email, setEmail] = useState("");
+  const [name, setName] = useState("");
+
+  const subscribersKey = `/api/newsletters/${account?.id}/subscribers`;
+  const { data: subscribers = [], isLoading } = useQuery<PublicNewsletterSubscriber[]>({
+    queryKey: [subscribersKey],
+    enabled: account !== null,
+  });
+  const subscribedCount = subscribers.filter((subscriber) => subscriber.subscribed).length;
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: `Error: ${error.message}`, variant: "destructive" });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", subscribersKey, { email, name: name.trim() || null });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [subscribersKey] });
+      setEmail("");
+      setName("");
+    },
+    onError: onError("Failed to add subscriber"),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (subscriber: PublicNewsletterSubscriber) => {
+      await apiRequest("PATCH", `${subscribersKey}/${subscriber.id}`, { subscribed: !subscriber.subscribed });
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [subscribersKey] }),
+    onError: onError("Failed to update subscriber"),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (subscriber: PublicNewsletterSubscriber) => {
+      await apiRequest("DELETE", `${subscribersKey}/${subscriber.id}`);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [subscribersKey] }),
+    onError: onError("Failed to remove subscriber"),
+  });
+
+  return (
+    <Dialog open={account !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{account?.name} Subscribers</DialogTitle>
+          <DialogDescription>
+            Posts to this newsletter are emailed to everyone subscribed ({subscribedCount} now).
+            Each email has its own unsubscribe link.
+          </DialogDescription>
+        </DialogHeader>
+
+        {can("platforms:manage") && (
+          <form
+            className="flex items-center space-x-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              addMutation.mutate();
+            }}
+          >
+            <Input type="email" placeholder="reader@example.com" value={email} onChange={(e) => setEmail(e.target.value)} />
+            <Input placeholder="Name (optional)" value={name} onChange={(e) => setName(e.target.value)} />
+            <Button type="submit" disabled={email.trim() === "" || addMutation.isPending}>
+              Add
+            </Button>
+          </form>
+        )}
+
+        {isLoading ? (
+          <div className="h-24 rounded bg-gray-200 dark:bg-gray-700 animate-pulse"></div>
+        ) : subscribers.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-6">No subscribers yet</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {subscribers.map((subscriber) => (
+              <li key={subscriber.id} className="py-2 flex items-center justify-between space-x-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                    {subscriber.name ? `${subscriber.name} <${subscriber.email}>` : subscriber.email}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {subscriber.subscribed
+                      ? `Since ${format(new Date(subscriber.createdAt), "MMM d, yyyy")}`
+                      : subscriber.unsubscribedAt
+                        ? `Unsubscribed ${format(new Date(subscriber.unsubscribedAt), "MMM d, yyyy")}`
+                        : "Unsubscribed"}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2 flex-shrink-0">
+                  {!subscriber.subscribed && <Badge variant="outline">Unsubscribed</Badge>}
+                  {can("platforms:manage") && (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={toggleMutation.isPending}
+                        onClick={() => toggleMutation.mutate(subscriber)}
+                      >
+                        {subscriber.subscribed ? "Unsubscribe" : "Resubscribe"}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600 dark:text-red-400"
+                        disabled={removeMutation.isPending}
+                        onClick={() => removeMutation.mutate(subscriber)}
+                      >
+                        <span className="material-icons text-sm">delete</span>
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -10,6 +10,7 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { usePlatformConnect } from "@/hooks/use-platform-connect";
 import { 
   Dialog,
   DialogContent,
@@ -30,7 +31,9 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
-import { Platform, PlatformAccount } from "@shared/schema";
+import { Platform, PublicPlatformAccount } from "@shared/schema";
+import NewsletterSubscribersDialog from "./NewsletterSubscribersDialog";
+import { useAuth } from "@/contexts/AuthContext";
 
 // Form schema for adding/editing platforms
 const platformFormSchema = z.object({
@@ -53,14 +56,39 @@ const platformAccountFormSchema = z.object({
 
 export default function PlatformSettings() {
   const { toast } = useToast();
+  const { can } = useAuth();
   const [platformDialogOpen, setPlatformDialogOpen] = useState(false);
   const [accountDialogOpen, setAccountDialogOpen] = useState(false);
   const [editingPlatform, setEditingPlatform] = useState<Platform | null>(null);
-  const [editingAccount, setEditingAccount] = useState<PlatformAccount | null>(null);
+  const [editingAccount, setEditingAccount] = useState<PublicPlatformAccount | null>(null);
   const [deletingPlatformId, setDeletingPlatformId] = useState<number | null>(null);
   const [deletingAccountId, setDeletingAccountId] = useState<number | null>(null);
   const [confirmDeleteOpen, setConfirmDeleteOpen] = useState(false);
   const [confirmDeleteAccountOpen, setConfirmDeleteAccountOpen] = useState(false);
+  const [subscribersAccount, setSubscribersAccount] = useState<PublicPlatformAccount | null>(null);
+  const { supportsOAuth, connect } = usePlatformConnect();
+
+  // Report the outcome of an OAuth connection the platform redirected back from
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const outcome = params.get("oauth");
+    if (!outcome) return;
+
+    if (outcome === "connected") {
+      toast({
+        title: "Account connected",
+        description: `${params.get("account")} is connected and ready to publish`,
+        variant: "default",
+      });
+    } else {
+      toast({
+        title: "Connection failed",
+        description: params.get("message") || "The account could not be connected",
+        variant: "destructive",
+      });
+    }
+    window.history.replaceState(null, "", window.location.pathname);
+  }, []);
 
   // Fetch platforms
   const { data: platforms = [], isLoading: loadingPlatforms } = useQuery({
@@ -96,6 +124,11 @@ export default function PlatformSettings() {
     }
   });
 
+  const selectedPlatformId = Number(accountForm.watch("platformId"));
+  const connectsWithOAuth = supportsOAuth(selectedPlatformId);
+  // New accounts on OAuth platforms get their name and tokens from the platform
+  const addingWithOAuth = connectsWithOAuth && !editingAccount;
+
   // Add/Edit Platform Mutation
   const platformMutation = useMutation({
     mutationFn: async (data: z.infer<typeof platformFormSchema>) => {
@@ -257,14 +290,15 @@ export default function PlatformSettings() {
   };
 
   // Handle opening account dialog for editing existing account
-  const handleEditAccount = (account: PlatformAccount) => {
+  const handleEditAccount = (account: PublicPlatformAccount) => {
     setEditingAccount(account);
     accountForm.reset({
       name: account.name,
       username: account.username,
       platformId: account.platformId,
-      accessToken: account.accessToken || "",
-      refreshToken: account.refreshToken || "",
+      // Stored tokens are encrypted server-side; blank keeps them unchanged
+      accessToken: "",
+      refreshToken: "",
       followerCount: account.followerCount || 0,
       active: account.active
     });
@@ -365,7 +399,7 @@ export default function PlatformSettings() {
                       <p className="font-medium text-gray-900 dark:text-gray-100">{platform.name}</p>
                       <p className="text-xs text-gray-500 dark:text-gray-400">
                         {platformAccounts ? 
-                          platformAccounts.filter((a: PlatformAccount) => a.platformId === platform.id).length : 0} accounts
+                          platformAccounts.filter((a: PublicPlatformAccount) => a.platformId === platform.id).length : 0} accounts
                       </p>
                     </div>
                   </div>
@@ -426,7 +460,7 @@ export default function PlatformSettings() {
             </div>
           ) : platformAccounts && platformAccounts.length > 0 ? (
             <div className="divide-y divide-gray-200 dark:divide-gray-700">
-              {platformAccounts.map((account: PlatformAccount) => (
+              {platformAccounts.map((account: PublicPlatformAccount) => (
                 <div key={account.id} className="flex items-center justify-between py-4">
                   <div className="flex items-center space-x-4">
                     <div className="flex-shrink-0 h-10 w-10 rounded-full bg-gray-100 dark:bg-gray-800 flex items-center justify-center">
@@ -444,10 +478,45 @@ export default function PlatformSettings() {
                         <span className="text-xs text-gray-500 dark:text-gray-400">
                           {getPlatformName(account.platformId)}
                         </span>
+                        {account.needsReconnect && (
+                          <>
+                            <span className="text-xs text-gray-500 dark:text-gray-400">•</span>
+                            <span className="text-xs font-medium text-amber-600 dark:text-amber-400" title={account.connectionError ?? undefined}>
+                              Needs reconnect
+                            </span>
+                          </>
+                        )}
                       </div>
+                      {getPlatformName(account.platformId).toLowerCase() === "feed" && account.active && (
+                        <div className="flex items-center space-x-2 mt-1 text-xs">
+                          {[["RSS", "rss.xml"], ["Atom", "atom.xml"], ["Podcast", "podcast.xml"]].map(([label, file]) => (
+                            <a
+                              key={file}
+                              href={`/feeds/${account.id}/${file}`}
+                              target="_blank"
+                              rel="noreferrer"
+                              className="text-primary hover:underline"
+                            >
+                              {label}
+                            </a>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   </div>
                   <div className="flex space-x-2">
+                    {getPlatformName(account.platformId).toLowerCase() === "newsletter" && can("platforms:manage") && (
+                      <Button variant="outline" size="sm" onClick={() => setSubscribersAccount(account)}>
+                        <span className="material-icons mr-1 text-sm">group</span>
+                        Subscribers
+                      </Button>
+                    )}
+                    {account.needsReconnect && supportsOAuth(account.platformId) && (
+                      <Button variant="outline" size="sm" onClick={() => connect(account.platformId, account.id)}>
+                        <span className="material-icons mr-1 text-sm">sync</span>
+                        Reconnect
+                      </Button>
+                    )}
                     <Button variant="outline" size="sm" onClick={() => handleEditAccount(account)}>
                       <span className="material-icons text-sm">edit</span>
                     </Button>
@@ -477,6 +546,11 @@ export default function PlatformSettings() {
         </CardContent>
       </Card>
 
+      <NewsletterSubscribersDialog
+        account={subscribersAccount}
+        onOpenChange={(open) => !open && setSubscribersAccount(null)}
+      />
+
       {/* Platform Dialog */}
       <Dialog open={platformDialogOpen} onOpenChange={setPlatformDialogOpen}>
         <DialogContent>
@@ -605,114 +679,159 @@ export default function PlatformSettings() {
                 )}
               />
               
-              <FormField
-                control={accountForm.control}
-                name="name"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Account Name</FormLabel>
-                    <FormControl>
-                      <Input placeholder="e.g., Personal YouTube, Business Instagram" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              
-              <FormField
-                control={accountForm.control}
-                name="username"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Username</FormLabel>
-                    <FormControl>
-                      <Input placeholder="e.g., your_username, channel_name" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {addingWithOAuth ? (
+                <>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    You'll be sent to {getPlatformName(selectedPlatformId)} to sign in and approve access.
+                    The account is added when you return.
+                  </p>
+                  <DialogFooter>
+                    <DialogClose asChild>
+                      <Button type="button" variant="outline">Cancel</Button>
+                    </DialogClose>
+                    <Button type="button" onClick={() => connect(selectedPlatformId)}>
+                      <span className="material-icons mr-2 text-sm">link</span>
+                      Connect Account
+                    </Button>
+                  </DialogFooter>
+                </>
+              ) : (
+              <>
                 <FormField
                   control={accountForm.control}
-                  name="accessToken"
+                  name="name"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Access Token (Optional)</FormLabel>
+                      <FormLabel>Account Name</FormLabel>
                       <FormControl>
-                        <Input placeholder="Platform access token" {...field} />
+                        <Input placeholder="e.g., Personal YouTube, Business Instagram" {...field} />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
-                
+              
                 <FormField
                   control={accountForm.control}
-                  name="refreshToken"
+                  name="username"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Refresh Token (Optional)</FormLabel>
+                      <FormLabel>Username</FormLabel>
                       <FormControl>
-                        <Input placeholder="Platform refresh token" {...field} />
+                        <Input placeholder="e.g., your_username, channel_name" {...field} />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
-              </div>
-              
-              <FormField
-                control={accountForm.control}
-                name="followerCount"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Follower Count</FormLabel>
-                    <FormControl>
-                      <Input type="number" min="0" placeholder="0" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
               
-              <FormField
-                control={accountForm.control}
-                name="active"
-                render={({ field }) => (
-                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                {connectsWithOAuth ? (
+                  <div className="flex items-center justify-between rounded-lg border p-3">
                     <div className="space-y-0.5">
-                      <FormLabel>Active</FormLabel>
-                      <p className="text-sm text-gray-500 dark:text-gray-400">
-                        Account will be available for content creation and scheduling
+                      <p className="text-sm font-medium">Connection</p>
+                      <p className={`text-sm ${editingAccount?.needsReconnect ? "text-amber-600 dark:text-amber-400" : "text-gray-500 dark:text-gray-400"}`}>
+                        {editingAccount?.needsReconnect
+                          ? editingAccount.connectionError || "Access has expired"
+                          : "Access is managed by the platform's sign-in"}
                       </p>
                     </div>
-                    <FormControl>
-                      <Switch
-                        checked={field.value}
-                        onCheckedChange={field.onChange}
-                      />
-                    </FormControl>
-                  </FormItem>
+                    <Button type="button" variant="outline" size="sm" onClick={() => editingAccount && connect(selectedPlatformId, editingAccount.id)}>
+                      <span className="material-icons mr-1 text-sm">sync</span>
+                      Reconnect
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <FormField
+                      control={accountForm.control}
+                      name="accessToken"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Access Token (Optional)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="password"
+                              placeholder={editingAccount?.hasAccessToken ? "Stored (leave blank to keep)" : "Platform access token"}
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                
+                    <FormField
+                      control={accountForm.control}
+                      name="refreshToken"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Refresh Token (Optional)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="password"
+                              placeholder={editingAccount?.hasRefreshToken ? "Stored (leave blank to keep)" : "Platform refresh token"}
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
                 )}
-              />
               
-              <DialogFooter>
-                <DialogClose asChild>
-                  <Button type="button" variant="outline">Cancel</Button>
-                </DialogClose>
-                <Button type="submit" disabled={accountMutation.isPending}>
-                  {accountMutation.isPending ? (
-                    <>
-                      <span className="material-icons animate-spin mr-2 text-sm">refresh</span>
-                      {editingAccount ? "Updating..." : "Adding..."}
-                    </>
-                  ) : (
-                    <>{editingAccount ? "Update Account" : "Add Account"}</>
+                <FormField
+                  control={accountForm.control}
+                  name="followerCount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Follower Count</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="0" placeholder="0" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
                   )}
-                </Button>
-              </DialogFooter>
+                />
+              
+                <FormField
+                  control={accountForm.control}
+                  name="active"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                      <div className="space-y-0.5">
+                        <FormLabel>Active</FormLabel>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">
+                          Account will be available for content creation and scheduling
+                        </p>
+                      </div>
+                      <FormControl>
+                        <Switch
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              
+                <DialogFooter>
+                  <DialogClose asChild>
+                    <Button type="button" variant="outline">Cancel</Button>
+                  </DialogClose>
+                  <Button type="submit" disabled={accountMutation.isPending}>
+                    {accountMutation.isPending ? (
+                      <>
+                        <span className="material-icons animate-spin mr-2 text-sm">refresh</span>
+                        {editingAccount ? "Updating..." : "Adding..."}
+                      </>
+                    ) : (
+                      <>{editingAccount ? "Update Account" : "Add Account"}</>
+                    )}
+                  </Button>
+                </DialogFooter>
+              </>
+              )}
             </form>
           </Form>
         </DialogContent>
@@ -8,7 +8,7 @@ import { Slider } from "@/components/ui/slider";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
+import { systemSettingsSchema, defaultSystemSettings, type SystemSettings as SystemSettingsValues } from "@shared/settings";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
@@ -23,62 +23,10 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 
-// Form schema for system settings
-const systemSettingsFormSchema = z.object({
-  // AI Configuration
-  maxModelsLoaded: z.coerce.number().min(1).max(10),
-  aiContentQualityThreshold: z.coerce.number().min(0).max(100),
-  enableAIContentGeneration: z.boolean().default(true),
-  
-  // Content Storage
-  storageLocation: z.string().min(2),
-  maxStorageUsage: z.coerce.number().min(1),
-  enableAutoCleanup: z.boolean().default(true),
-  
-  // Scheduling
-  maxConcurrentPosts: z.coerce.number().min(1).max(20),
-  retryFailedPosts: z.boolean().default(true),
-  maxPostRetries: z.coerce.number().min(0).max(10),
-  
-  // Notifications
-  enableEmailNotifications: z.boolean().default(false),
-  emailAddress: z.string().email().optional().or(z.literal('')),
-  notifyOnPostSuccess: z.boolean().default(true),
-  notifyOnPostFailure: z.boolean().default(true),
-  
-  // System
-  enableSystemMetrics: z.boolean().default(true),
-  systemLanguage: z.string().min(2),
-  theme: z.string().min(4),
-});
-
-// Default initial settings (used if no settings are found)
-const defaultSettings = {
-  // AI Configuration
-  maxModelsLoaded: 5,
-  aiContentQualityThreshold: 70,
-  enableAIContentGeneration: true,
-  
-  // Content Storage
-  storageLocation: "local",
-  maxStorageUsage: 10,
-  enableAutoCleanup: true,
-  
-  // Scheduling
-  maxConcurrentPosts: 3,
-  retryFailedPosts: true,
-  maxPostRetries: 3,
-  
-  // Notifications
-  enableEmailNotifications: false,
-  emailAddress: "",
-  notifyOnPostSuccess: true,
-  notifyOnPostFailure: true,
-  
-  // System
-  enableSystemMetrics: true,
-  systemLanguage: "en",
-  theme: "system",
+const channelLabels: Record<string, string> = {
+  in_app: "In-app",
+  email: "Email",
+  slack: "Slack",
 };
 
 export default function SystemSettings() {
@@ -87,14 +35,14 @@ export default function SystemSettings() {
   const [confirmDataClearOpen, setConfirmDataClearOpen] = useState(false);
 
   // Fetch system settings
-  const { data: settings, isLoading } = useQuery({
+  const { data: settings, isLoading } = useQuery<SystemSettingsValues>({
     queryKey: ['/api/system-settings'],
   });
   
   // System settings form
-  const form = useForm<z.infer<typeof systemSettingsFormSchema>>({
-    resolver: zodResolver(systemSettingsFormSchema),
-    defaultValues: defaultSettings
+  const form = useForm<SystemSettingsValues>({
+    resolver: zodResolver(systemSettingsSchema),
+    defaultValues: defaultSystemSettings
   });
 
   // Update form when settings are loaded from the server
@@ -105,10 +53,11 @@ export default function SystemSettings() {
   }, [settings, form]);
 
   const emailNotificationsEnabled = form.watch("enableEmailNotifications");
+  const slackNotificationsEnabled = form.watch("enableSlackNotifications");
 
   // Save settings mutation
   const saveSettingsMutation = useMutation({
-    mutationFn: async (data: z.infer<typeof systemSettingsFormSchema>) => {
+    mutationFn: async (data: SystemSettingsValues) => {
       return apiRequest("PUT", `/api/system-settings`, data);
     },
     onSuccess: () => {
@@ -128,15 +77,40 @@ export default function SystemSettings() {
     }
   });
 
+  // Send a test notification through the saved channel settings
+  const testNotificationMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/notifications/test");
+      return (await res.json()) as { results: Array<{ channel: string; error?: string }> };
+    },
+    onSuccess: ({ results }) => {
+      const failed = results.filter((result) => result.error);
+      toast({
+        title: failed.length === 0 ? "Test notification sent" : "Some notifications failed",
+        description: results
+          .map((result) => `${channelLabels[result.channel] ?? result.channel}: ${result.error ?? "sent"}`)
+          .join(". "),
+        variant: failed.length === 0 ? "default" : "destructive",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to send test notification: ${error.message}`,
+        variant: "destructive",
+      });
+    }
+  });
+
   // Handle form submission
-  const onSubmit = (values: z.infer<typeof systemSettingsFormSchema>) => {
+  const onSubmit = (values: SystemSettingsValues) => {
     saveSettingsMutation.mutate(values);
   };
 
   // Handle factory reset
   const handleFactoryReset = () => {
-    form.reset(defaultSettings);
-    saveSettingsMutation.mutate(defaultSettings);
+    form.reset(defaultSystemSettings);
+    saveSettingsMutation.mutate(defaultSystemSettings);
     setConfirmFactoryResetOpen(false);
     
     toast({
@@ -246,7 +220,7 @@ export default function SystemSettings() {
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Storage Location</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <Select onValueChange={field.onChange} value={field.value}>
                       <FormControl>
                         <SelectTrigger>
                           <SelectValue placeholder="Select storage location" />
@@ -374,7 +348,7 @@ export default function SystemSettings() {
           <Card>
             <CardHeader>
               <CardTitle>Notifications</CardTitle>
-              <CardDescription>Configure notification settings</CardDescription>
+              <CardDescription>Choose which events notify you. Notifications always appear under the bell in the header for the users whose role can act on them; email and Slack are optional and go to the one address and channel set here.</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
               <FormField
@@ -409,7 +383,47 @@ export default function SystemSettings() {
                         <Input placeholder="your-email@example.com" {...field} />
                       </FormControl>
                       <FormDescription>
-                        Where notification emails will be sent
+                        The one address all notification emails go to; users aren't emailed individually
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <FormField
+                control={form.control}
+                name="enableSlackNotifications"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                    <div className="space-y-0.5">
+                      <FormLabel>Enable Slack Notifications</FormLabel>
+                      <FormDescription>
+                        Post notifications to a Slack channel (needs SLACK_BOT_TOKEN on the server)
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              {slackNotificationsEnabled && (
+                <FormField
+                  control={form.control}
+                  name="slackChannel"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Slack Channel</FormLabel>
+                      <FormControl>
+                        <Input placeholder="#creator-ai" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Channel name or ID; invite the bot to the channel first
                       </FormDescription>
                       <FormMessage />
                     </FormItem>
@@ -433,7 +447,6 @@ export default function SystemSettings() {
                         <Switch
                           checked={field.value}
                           onCheckedChange={field.onChange}
-                          disabled={!emailNotificationsEnabled}
                         />
                       </FormControl>
                     </FormItem>
@@ -455,12 +468,91 @@ export default function SystemSettings() {
                         <Switch
                           checked={field.value}
                           onCheckedChange={field.onChange}
-                          disabled={!emailNotificationsEnabled}
                         />
                       </FormControl>
                     </FormItem>
                   )}
                 />
+
+                <FormField
+                  control={form.control}
+                  name="notifyOnJobFailure"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                      <div className="space-y-0.5">
+                        <FormLabel>Notify on Job Failure</FormLabel>
+                        <FormDescription>
+                          Send notification when a content generation job fails
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="notifyOnTrendAlert"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                      <div className="space-y-0.5">
+                        <FormLabel>Trend Alerts</FormLabel>
+                        <FormDescription>
+                          Send notification when a topic reaches the trend score below
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {form.watch("notifyOnTrendAlert") && (
+                <FormField
+                  control={form.control}
+                  name="trendAlertThreshold"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Trend Alert Score ({field.value})</FormLabel>
+                      <FormControl>
+                        <Slider
+                          value={[field.value]}
+                          min={0}
+                          max={100}
+                          step={1}
+                          onValueChange={(vals) => field.onChange(vals[0])}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Topics scoring at least this much raise an alert
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <div className="flex items-center space-x-3">
+                <Button
+                  type="button"
+                  variant="outline"
+                  disabled={testNotificationMutation.isPending}
+                  onClick={() => testNotificationMutation.mutate()}
+                >
+                  <span className="material-icons mr-2 text-sm">send</span>
+                  {testNotificationMutation.isPending ? "Sending..." : "Send Test Notification"}
+                </Button>
+                <span className="text-sm text-gray-500 dark:text-gray-400">Uses the saved settings</span>
               </div>
             </CardContent>
           </Card>
@@ -499,7 +591,7 @@ export default function SystemSettings() {
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>System Language</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <Select onValueChange={field.onChange} value={field.value}>
                       <FormControl>
                         <SelectTrigger>
                           <SelectValue placeholder="Select language" />
@@ -528,7 +620,7 @@ export default function SystemSettings() {
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Theme</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <Select onValueChange={field.onChange} value={field.value}>
                       <FormControl>
                         <SelectTrigger>
                           <SelectValue placeholder="Select theme" />
@@ -0,0 +1,459 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import { webhookEvents, type PublicWebhook, type WebhookDelivery } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+const eventLabels: Record<typeof webhookEvents[number], string> = {
+  "content.created": "Content created",
+  "script.finalized": "Script finalized",
+  "post.published": "Post published",
+  "post.failed": "Post failed",
+};
+
+const webhookFormSchema = z.object({
+  url: z.string().url("Enter a full URL, e.g. https://example.com/hooks/creator"),
+  description: z.string().max(200).optional(),
+  events: z.array(z.enum(webhookEvents)).min(1, "Choose at least one event"),
+  active: z.boolean(),
+});
+
+type WebhookFormValues = z.infer<typeof webhookFormSchema>;
+
+const deliveryStatusVariants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  succeeded: "default",
+  pending: "secondary",
+  delivering: "secondary",
+  failed: "destructive",
+};
+
+/**
+ * Webhook subscriptions: outside URLs that get a signed POST when content
+ * lifecycle events happen, with each webhook's recent delivery log
+ */
+export default function WebhookSettings() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingWebhook, setEditingWebhook] = useState<PublicWebhook | null>(null);
+  const [deletingWebhook, setDeletingWebhook] = useState<PublicWebhook | null>(null);
+  const [logWebhook, setLogWebhook] = useState<PublicWebhook | null>(null);
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+
+  const canManage = can("settings:manage");
+  const { data: webhooks = [], isLoading } = useQuery<PublicWebhook[]>({
+    queryKey: ["/api/webhooks"],
+    enabled: canManage,
+  });
+
+  const deliveriesKey = `/api/webhooks/${logWebhook?.id}/deliveries`;
+  const { data: deliveries = [], isLoading: deliveriesLoading } = useQuery<WebhookDelivery[]>({
+    queryKey: [deliveriesKey],
+    enabled: logWebhook !== null,
+    // Retries happen in the background, so keep the open log current
+    refetchInterval: 5000,
+  });
+
+  const form = useForm<WebhookFormValues>({
+    resolver: zodResolver(webhookFormSchema),
+    defaultValues: { url: "", description: "", events: [...webhookEvents], active: true },
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: `Error: ${error.message}`, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: WebhookFormValues) => {
+      const body = { ...values, description: values.description?.trim() || null };
+      const res = editingWebhook
+        ? await apiRequest("PATCH", `/api/webhooks/${editingWebhook.id}`, body)
+        : await apiRequest("POST", "/api/webhooks", body);
+      return (await res.json()) as PublicWebhook & { secret?: string };
+    },
+    onSuccess: (webhook) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+      setDialogOpen(false);
+      if (webhook.secret) setRevealedSecret(webhook.secret);
+      toast({ title: editingWebhook ? "Webhook updated" : "Webhook added" });
+    },
+    onError: onError(editingWebhook ? "Failed to update webhook" : "Failed to add webhook"),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (webhook: PublicWebhook) => {
+      await apiRequest("PATCH", `/api/webhooks/${webhook.id}`, { active: !webhook.active });
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] }),
+    onError: onError("Failed to update webhook"),
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async (webhook: PublicWebhook) => {
+      const res = await apiRequest("POST", `/api/webhooks/${webhook.id}/rotate-secret`);
+      return (await res.json()) as PublicWebhook & { secret: string };
+    },
+    onSuccess: (webhook) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+      setRevealedSecret(webhook.secret);
+    },
+    onError: onError("Failed to rotate signing secret"),
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (webhook: PublicWebhook) => {
+      await apiRequest("POST", `/api/webhooks/${webhook.id}/test`);
+      return webhook;
+    },
+    onSuccess: (webhook) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/webhooks/${webhook.id}/deliveries`] });
+      setLogWebhook(webhook);
+      toast({ title: "Test event sent", description: "The result appears in the delivery log" });
+    },
+    onError: onError("Failed to send test event"),
+  });
+
+  const redeliverMutation = useMutation({
+    mutationFn: async (delivery: WebhookDelivery) => {
+      await apiRequest("POST", `/api/webhooks/${delivery.webhookId}/deliveries/${delivery.id}/redeliver`);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [deliveriesKey] }),
+    onError: onError("Failed to redeliver"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (webhook: PublicWebhook) => {
+      await apiRequest("DELETE", `/api/webhooks/${webhook.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+      setDeletingWebhook(null);
+      toast({ title: "Webhook deleted" });
+    },
+    onError: onError("Failed to delete webhook"),
+  });
+
+  const openDialog = (webhook: PublicWebhook | null) => {
+    setEditingWebhook(webhook);
+    form.reset(webhook
+      ? {
+          url: webhook.url,
+          description: webhook.description ?? "",
+          events: webhook.events.filter((event): event is typeof webhookEvents[number] =>
+            (webhookEvents as readonly string[]).includes(event)),
+          active: webhook.active,
+        }
+      : { url: "", description: "", events: [...webhookEvents], active: true });
+    setDialogOpen(true);
+  };
+
+  if (!canManage) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-10">
+        Only users who can manage settings can view webhooks.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+          <div>
+            <CardTitle>Webhooks</CardTitle>
+            <CardDescription>
+              Notify other tools when content is created, a script is finalized, or a post publishes or fails
+            </CardDescription>
+          </div>
+          <Button onClick={() => openDialog(null)}>
+            <span className="material-icons mr-2 text-sm">add</span>
+            Add Webhook
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="h-24 rounded bg-gray-200 dark:bg-gray-700 animate-pulse"></div>
+          ) : webhooks.length === 0 ? (
+            <div className="text-center py-10">
+              <span className="material-icons text-4xl text-gray-400 mb-2">webhook</span>
+              <p className="text-gray-500 dark:text-gray-400">No webhooks added yet</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-200 dark:divide-gray-700">
+              {webhooks.map((webhook) => (
+                <div key={webhook.id} className="py-4 space-y-2">
+                  <div className="flex items-center justify-between space-x-4">
+                    <div className="min-w-0">
+                      <p className="font-medium font-mono text-sm text-gray-900 dark:text-gray-100 truncate">{webhook.url}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {webhook.description ? `${webhook.description} • ` : ""}
+                        Secret {webhook.secretPreview} • Added {format(new Date(webhook.createdAt), "MMM d, yyyy")}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-2 flex-shrink-0">
+                      <Switch
+                        checked={webhook.active}
+                        disabled={toggleMutation.isPending}
+                        onCheckedChange={() => toggleMutation.mutate(webhook)}
+                        aria-label={webhook.active ? "Pause webhook" : "Resume webhook"}
+                      />
+                      <Button variant="outline" size="sm" title="Send test event" disabled={testMutation.isPending} onClick={() => testMutation.mutate(webhook)}>
+                        <span className="material-icons text-sm">send</span>
+                      </Button>
+                      <Button variant="outline" size="sm" title="Delivery log" onClick={() => setLogWebhook(webhook)}>
+                        <span className="material-icons text-sm">history</span>
+                      </Button>
+                      <Button variant="outline" size="sm" title="Rotate signing secret" disabled={rotateMutation.isPending} onClick={() => rotateMutation.mutate(webhook)}>
+                        <span className="material-icons text-sm">autorenew</span>
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => openDialog(webhook)}>
+                        <span className="material-icons text-sm">edit</span>
+                      </Button>
+                      <Button variant="outline" size="sm" className="text-red-600 dark:text-red-400 border-red-200 dark:border-red-800" onClick={() => setDeletingWebhook(webhook)}>
+                        <span className="material-icons text-sm">delete</span>
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {!webhook.active && <Badge variant="outline">Paused</Badge>}
+                    {webhook.events.map((event) => (
+                      <Badge key={event} variant="secondary">{eventLabels[event as keyof typeof eventLabels] ?? event}</Badge>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+            Each delivery is a JSON POST signed with the webhook's secret: the X-Webhook-Signature header is
+            "sha256=" followed by the hex HMAC-SHA256 of the X-Webhook-Timestamp header, a period and the body.
+            Failed deliveries are retried with increasing delays for up to six attempts.
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* Add/Edit Webhook Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingWebhook ? "Edit Webhook" : "Add Webhook"}</DialogTitle>
+            <DialogDescription>
+              {editingWebhook
+                ? "Change where events are sent and which ones"
+                : "A signing secret is generated for the new webhook and shown once"}
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((values) => saveMutation.mutate(values))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="url"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Payload URL</FormLabel>
+                    <FormControl>
+                      <Input placeholder="https://example.com/hooks/creator" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description (Optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., Asset library sync" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="events"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Events</FormLabel>
+                    <div className="grid grid-cols-2 gap-2">
+                      {webhookEvents.map((event) => (
+                        <label key={event} className="flex items-center space-x-2 text-sm">
+                          <Checkbox
+                            checked={field.value.includes(event)}
+                            onCheckedChange={(checked) => field.onChange(checked
+                              ? [...field.value, event]
+                              : field.value.filter((value) => value !== event))}
+                          />
+                          <span>{eventLabels[event]}</span>
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="active"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                    <div className="space-y-0.5">
+                      <FormLabel>Active</FormLabel>
+                      <FormDescription>Paused webhooks are skipped when events happen</FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <DialogClose asChild>
+                  <Button type="button" variant="outline">Cancel</Button>
+                </DialogClose>
+                <Button type="submit" disabled={saveMutation.isPending}>
+                  {editingWebhook ? "Update Webhook" : "Add Webhook"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Signing Secret Dialog */}
+      <Dialog open={revealedSecret !== null} onOpenChange={(open) => !open && setRevealedSecret(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Signing Secret</DialogTitle>
+            <DialogDescription>
+              Copy this secret into the receiving tool now. It will not be shown again unless you rotate it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center justify-between bg-gray-50 dark:bg-gray-800 rounded-md p-3">
+            <p className="text-sm font-mono text-gray-700 dark:text-gray-300 break-all mr-4">{revealedSecret}</p>
+            <Button variant="outline" size="sm" onClick={() => {
+              if (!revealedSecret) return;
+              navigator.clipboard.writeText(revealedSecret);
+              toast({ title: "Secret copied", description: "The signing secret has been copied to clipboard" });
+            }}>
+              <span className="material-icons text-sm">content_copy</span>
+            </Button>
+          </div>
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button type="button">Done</Button>
+            </DialogClose>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delivery Log Dialog */}
+      <Dialog open={logWebhook !== null} onOpenChange={(open) => !open && setLogWebhook(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Delivery Log</DialogTitle>
+            <DialogDescription className="break-all">Recent deliveries to {logWebhook?.url}</DialogDescription>
+          </DialogHeader>
+
+          {deliveriesLoading ? (
+            <div className="h-24 rounded bg-gray-200 dark:bg-gray-700 animate-pulse"></div>
+          ) : deliveries.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-6">Nothing has been sent yet</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {deliveries.map((delivery) => (
+                <li key={delivery.id} className="py-2 flex items-start justify-between space-x-2">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center space-x-2">
+                      <Badge variant={deliveryStatusVariants[delivery.status] ?? "outline"}>{delivery.status}</Badge>
+                      <span className="text-sm font-mono text-gray-900 dark:text-gray-100">{delivery.event}</span>
+                      <span className="text-xs text-gray-500 dark:text-gray-400">#{delivery.id}</span>
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {format(new Date(delivery.createdAt), "MMM d, HH:mm:ss")}
+                      {` • ${delivery.attempts} attempt(s)`}
+                      {delivery.responseStatus !== null && ` • HTTP ${delivery.responseStatus}`}
+                      {delivery.status === "pending" && delivery.nextAttemptAt && delivery.attempts > 0 &&
+                        ` • retrying at ${format(new Date(delivery.nextAttemptAt), "HH:mm:ss")}`}
+                    </p>
+                    {delivery.error && (
+                      <p className="text-xs text-red-600 dark:text-red-400 break-all">{delivery.error}</p>
+                    )}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title="Send this payload again"
+                    disabled={redeliverMutation.isPending || delivery.status === "pending" || delivery.status === "delivering"}
+                    onClick={() => redeliverMutation.mutate(delivery)}
+                  >
+                    <span className="material-icons text-sm">replay</span>
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Confirm Delete Webhook Dialog */}
+      <AlertDialog open={deletingWebhook !== null} onOpenChange={(open) => !open && setDeletingWebhook(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this webhook?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Events will no longer be sent to {deletingWebhook?.url}, and its delivery log is removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deletingWebhook && deleteMutation.mutate(deletingWebhook)}
+              className="bg-red-600 hover:bg-red-700 text-white"
+            >
+              Delete Webhook
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface OAuthProvider {
+  platformId: number;
+  platform: string;
+}
+
+/**
+ * Connect platform accounts through the platform's OAuth flow. `connect`
+ * leaves the app; the platform redirects back to /settings when done.
+ */
+export function usePlatformConnect() {
+  const { toast } = useToast();
+  const { data: providers = [] } = useQuery<OAuthProvider[]>({
+    queryKey: ['/api/oauth/providers'],
+  });
+
+  const supportsOAuth = (platformId: number) =>
+    providers.some((provider) => provider.platformId === platformId);
+
+  // Pass the account ID to reconnect an existing account instead of adding one
+  const connect = async (platformId: number, accountId?: number) => {
+    try {
+      const res = await apiRequest("POST", `/api/oauth/${platformId}/start`, accountId ? { accountId } : {});
+      const { authorizationUrl } = await res.json();
+      window.location.assign(authorizationUrl);
+    } catch (error) {
+      toast({
+        title: "Could not start connection",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return { supportsOAuth, connect };
+}
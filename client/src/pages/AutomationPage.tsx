@@ -2,6 +2,7 @@ import React, { useState } from "react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useIsMobile } from "@/hooks/use-mobile";
 import AutoContentScheduler from "@/components/AutoContentScheduler";
+import BatchRuns from "@/components/BatchRuns";
 import AIToolsConfig from "@/components/AIToolsConfig";
 
 export default function AutomationPage() {
@@ -31,8 +32,9 @@ export default function AutomationPage() {
           </TabsTrigger>
         </TabsList>
         
-        <TabsContent value="auto-scheduler" className="mt-6">
+        <TabsContent value="auto-scheduler" className="mt-6 space-y-6">
           <AutoContentScheduler />
+          <BatchRuns />
         </TabsContent>
         
         <TabsContent value="ai-tools" className="mt-6">
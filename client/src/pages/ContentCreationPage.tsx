@@ -13,26 +13,34 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useQuery } from "@tanstack/react-query";
+import { checkPlatformConstraints, type ConstraintViolation } from "@shared/platformConstraints";
+import type { Platform, PlatformAccount } from "@shared/schema";
 
 const contentFormSchema = z.object({
   title: z.string().min(5, "Title must be at least 5 characters"),
   description: z.string().optional(),
   contentType: z.string(),
   status: z.string().default("draft"),
-  metadata: z.any().optional()
+  metadata: z.any().optional(),
+  // Video details, stored in metadata so platform limits can be checked
+  durationSeconds: z.coerce.number().min(0).optional(),
+  aspectRatio: z.string().optional()
 });
 
+const aspectRatios = ["16:9", "9:16", "1:1", "4:5", "4:3"];
+
 export default function ContentCreationPage() {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [activeTab, setActiveTab] = useState("text");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [success, setSuccess] = useState(false);
+  const [selectedAccountIds, setSelectedAccountIds] = useState<number[]>([]);
 
-  const { data: platformAccounts } = useQuery({
+  const { data: platformAccounts } = useQuery<PlatformAccount[]>({
     queryKey: ['/api/platform-accounts'],
   });
 
-  const { data: platforms } = useQuery({
+  const { data: platforms } = useQuery<Platform[]>({
     queryKey: ['/api/platforms'],
   });
 
@@ -43,10 +51,40 @@ export default function ContentCreationPage() {
       description: "",
       contentType: activeTab,
       status: "draft",
-      metadata: {}
+      metadata: {},
+      durationSeconds: undefined,
+      aspectRatio: "16:9"
     }
   });
 
+  const toggleAccount = (accountId: number) => {
+    setSelectedAccountIds((ids) =>
+      ids.includes(accountId) ? ids.filter((id) => id !== accountId) : [...ids, accountId]
+    );
+  };
+
+  const buildMetadata = (values: z.infer<typeof contentFormSchema>) =>
+    activeTab === "video"
+      ? { ...values.metadata, durationSeconds: values.durationSeconds || undefined, aspectRatio: values.aspectRatio }
+      : values.metadata;
+
+  // Check the draft against every selected account's platform as it is edited
+  const draft = form.watch();
+  const violationsByAccount = new Map<number, ConstraintViolation[]>(
+    selectedAccountIds.map((accountId) => {
+      const account = platformAccounts?.find((a) => a.id === accountId);
+      const platform = platforms?.find((p) => p.id === account?.platformId);
+      const violations = platform
+        ? checkPlatformConstraints(
+            { title: draft.title, description: draft.description, contentType: activeTab, metadata: buildMetadata(draft) },
+            platform.name
+          )
+        : [];
+      return [accountId, violations];
+    })
+  );
+  const hasViolations = Array.from(violationsByAccount.values()).some((violations) => violations.length > 0);
+
   const handleMobileMenuClick = () => {
     setMobileMenuOpen(!mobileMenuOpen);
   };
@@ -60,9 +98,11 @@ export default function ContentCreationPage() {
     try {
       setIsSubmitting(true);
       // Update content type from the active tab
-      values.contentType = activeTab;
+      const { durationSeconds: _durationSeconds, aspectRatio: _aspectRatio, ...content } = values;
+      content.contentType = activeTab;
+      content.metadata = buildMetadata(values);
       
-      await apiRequest("POST", "/api/content", values);
+      await apiRequest("POST", "/api/content", content);
       queryClient.invalidateQueries({ queryKey: ['/api/content'] });
       queryClient.invalidateQueries({ queryKey: ['/api/content/recent'] });
       
@@ -74,7 +114,9 @@ export default function ContentCreationPage() {
         description: "",
         contentType: activeTab,
         status: "draft",
-        metadata: {}
+        metadata: {},
+        durationSeconds: undefined,
+        aspectRatio: "16:9"
       });
       
       // Reset success state after 3 seconds
@@ -229,6 +271,41 @@ export default function ContentCreationPage() {
                                 Upload Video
                               </Button>
                             </div>
+                            <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                              <FormField
+                                control={form.control}
+                                name="durationSeconds"
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormLabel>Duration (seconds)</FormLabel>
+                                    <FormControl>
+                                      <Input type="number" min="0" placeholder="e.g. 90" {...field} value={field.value ?? ""} />
+                                    </FormControl>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+                              <FormField
+                                control={form.control}
+                                name="aspectRatio"
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormLabel>Aspect Ratio</FormLabel>
+                                    <FormControl>
+                                      <select
+                                        className="w-full p-2 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                                        {...field}
+                                      >
+                                        {aspectRatios.map((ratio) => (
+                                          <option key={ratio} value={ratio}>{ratio}</option>
+                                        ))}
+                                      </select>
+                                    </FormControl>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+                            </div>
                           </div>
                         </TabsContent>
                         
@@ -236,28 +313,40 @@ export default function ContentCreationPage() {
                           <h3 className="font-medium mb-4">Select Target Platforms</h3>
                           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                             {platforms && platformAccounts ? (
-                              platformAccounts.map((account: any) => {
-                                const platform = platforms.find((p: any) => p.id === account.platformId);
+                              platformAccounts.map((account) => {
+                                const platform = platforms.find((p) => p.id === account.platformId);
+                                const violations = violationsByAccount.get(account.id) ?? [];
                                 
                                 return (
                                   <div 
                                     key={account.id}
-                                    className="flex items-center p-3 border border-gray-200 dark:border-gray-700 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 cursor-pointer"
+                                    className={`p-3 border rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 ${violations.length > 0 ? "border-red-300 dark:border-red-700" : "border-gray-200 dark:border-gray-700"}`}
                                   >
-                                    <input 
-                                      type="checkbox" 
-                                      id={`platform-${account.id}`}
-                                      className="h-4 w-4 text-primary focus:ring-primary border-gray-300 rounded"
-                                    />
-                                    <label 
-                                      htmlFor={`platform-${account.id}`}
-                                      className="ml-3 flex items-center cursor-pointer"
-                                    >
-                                      <span className={`material-icons mr-2 text-${platform?.name.toLowerCase()}-500`}>
-                                        {platform?.icon}
-                                      </span>
-                                      <span>{account.name}</span>
-                                    </label>
+                                    <div className="flex items-center cursor-pointer">
+                                      <input 
+                                        type="checkbox" 
+                                        id={`platform-${account.id}`}
+                                        className="h-4 w-4 text-primary focus:ring-primary border-gray-300 rounded"
+                                        checked={selectedAccountIds.includes(account.id)}
+                                        onChange={() => toggleAccount(account.id)}
+                                      />
+                                      <label 
+                                        htmlFor={`platform-${account.id}`}
+                                        className="ml-3 flex items-center cursor-pointer"
+                                      >
+                                        <span className={`material-icons mr-2 text-${platform?.name.toLowerCase()}-500`}>
+                                          {platform?.icon}
+                                        </span>
+                                        <span>{account.name}</span>
+                                      </label>
+                                    </div>
+                                    {violations.length > 0 && (
+                                      <ul className="mt-2 ml-7 space-y-1 text-xs text-red-600 dark:text-red-400">
+                                        {violations.map((violation) => (
+                                          <li key={violation.rule}>{violation.message}</li>
+                                        ))}
+                                      </ul>
+                                    )}
                                   </div>
                                 );
                               })
@@ -284,14 +373,14 @@ export default function ContentCreationPage() {
                               type="submit"
                               variant="outline"
                               onClick={() => form.setValue("status", "draft")}
-                              disabled={isSubmitting}
+                              disabled={isSubmitting || hasViolations}
                             >
                               Save as Draft
                             </Button>
                             
                             <Button 
                               type="submit"
-                              disabled={isSubmitting}
+                              disabled={isSubmitting || hasViolations}
                             >
                               {isSubmitting ? (
                                 <>
@@ -308,6 +397,13 @@ export default function ContentCreationPage() {
                           </div>
                         </div>
                         
+                        {hasViolations && (
+                          <div className="p-4 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-md flex items-center">
+                            <span className="material-icons mr-2">error_outline</span>
+                            Some selected platforms can't accept this content. Fix the issues above or deselect them.
+                          </div>
+                        )}
+                        
                         {success && (
                           <div className="p-4 bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300 rounded-md mt-4 flex items-center">
                             <span className="material-icons mr-2">check_circle</span>
@@ -3,6 +3,7 @@ import Header from "@/components/Header";
 import Sidebar from "@/components/Sidebar";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import PublishedPosts from "@/components/PublishedPosts";
 
 export default function SchedulerPage() {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
@@ -62,6 +63,17 @@ export default function SchedulerPage() {
                   </CardContent>
                 </Card>
               </div>
+
+              <div className="mt-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Published Posts</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <PublishedPosts />
+                  </CardContent>
+                </Card>
+              </div>
             </div>
           </div>
         </main>
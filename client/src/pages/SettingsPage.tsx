@@ -6,7 +6,9 @@ import { useIsMobile } from "@/hooks/use-mobile";
 // Import settings components
 import PlatformSettings from "@/components/settings/PlatformSettings";
 import APISettings from "@/components/settings/APISettings";
+import ApiTokenSettings from "@/components/settings/ApiTokenSettings";
 import SystemSettings from "@/components/settings/SystemSettings";
+import WebhookSettings from "@/components/settings/WebhookSettings";
 
 export default function SettingsPage() {
   const [activeTab, setActiveTab] = useState("platforms");
@@ -18,7 +20,7 @@ export default function SettingsPage() {
         <div>
           <h1 className="text-3xl font-bold tracking-tight">Settings</h1>
           <p className="text-muted-foreground">
-            Manage your platform accounts, API keys, and system preferences
+            Manage your platform accounts, API keys, webhooks, and system preferences
           </p>
         </div>
       </div>
@@ -26,7 +28,7 @@ export default function SettingsPage() {
       <Card>
         <CardHeader className="p-4 sm:p-6 border-b">
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className={isMobile ? "grid grid-cols-3 w-full" : "flex"}>
+            <TabsList className={isMobile ? "grid grid-cols-4 w-full" : "flex"}>
               <TabsTrigger value="platforms" className="flex items-center">
                 <span className="material-icons mr-2 text-sm">device_hub</span>
                 <span>Platforms</span>
@@ -35,6 +37,10 @@ export default function SettingsPage() {
                 <span className="material-icons mr-2 text-sm">vpn_key</span>
                 <span>API Keys</span>
               </TabsTrigger>
+              <TabsTrigger value="webhooks" className="flex items-center">
+                <span className="material-icons mr-2 text-sm">webhook</span>
+                <span>Webhooks</span>
+              </TabsTrigger>
               <TabsTrigger value="system" className="flex items-center">
                 <span className="material-icons mr-2 text-sm">settings</span>
                 <span>System</span>
@@ -46,8 +52,12 @@ export default function SettingsPage() {
           <TabsContent value="platforms" className="mt-0">
             <PlatformSettings />
           </TabsContent>
-          <TabsContent value="api-keys" className="mt-0">
+          <TabsContent value="api-keys" className="mt-0 space-y-6">
             <APISettings />
+            <ApiTokenSettings />
+          </TabsContent>
+          <TabsContent value="webhooks" className="mt-0">
+            <WebhookSettings />
           </TabsContent>
           <TabsContent value="system" className="mt-0">
             <SystemSettings />
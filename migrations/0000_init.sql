@@ -0,0 +1,83 @@
+CREATE TABLE "ai_configs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"model_type" text NOT NULL,
+	"model_name" text NOT NULL,
+	"active" boolean DEFAULT true NOT NULL,
+	"settings" jsonb,
+	"capabilities" jsonb,
+	"last_updated" timestamp DEFAULT now() NOT NULL,
+	"download_status" text DEFAULT 'not_downloaded'
+);
+--> statement-breakpoint
+CREATE TABLE "content" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"title" text NOT NULL,
+	"description" text,
+	"content_type" text NOT NULL,
+	"status" text DEFAULT 'draft' NOT NULL,
+	"file_path" text,
+	"thumbnail_path" text,
+	"metadata" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "platform_accounts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"platform_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"username" text NOT NULL,
+	"access_token" text,
+	"refresh_token" text,
+	"token_expiry" timestamp,
+	"follower_count" integer,
+	"active" boolean DEFAULT true NOT NULL,
+	"metadata" jsonb
+);
+--> statement-breakpoint
+CREATE TABLE "platforms" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"icon" text NOT NULL,
+	"active" boolean DEFAULT true NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "scheduled_posts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"content_id" integer NOT NULL,
+	"platform_account_id" integer NOT NULL,
+	"scheduled_time" timestamp NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"post_id" text,
+	"error" text
+);
+--> statement-breakpoint
+CREATE TABLE "scripts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"title" text NOT NULL,
+	"topic" text NOT NULL,
+	"format" text NOT NULL,
+	"content" text NOT NULL,
+	"duration" integer,
+	"tone" text,
+	"target_audience" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"audio_path" text,
+	"status" text DEFAULT 'draft' NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "trending_topics" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"topic" text NOT NULL,
+	"category" text NOT NULL,
+	"description" text,
+	"trend_score" integer NOT NULL,
+	"discovered_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
@@ -0,0 +1,5 @@
+CREATE TABLE "user_sessions" (
+	"sid" text PRIMARY KEY NOT NULL,
+	"sess" jsonb NOT NULL,
+	"expire" timestamp NOT NULL
+);
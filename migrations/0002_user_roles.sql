@@ -0,0 +1,3 @@
+ALTER TABLE "users" ADD COLUMN "role" text DEFAULT 'viewer' NOT NULL;--> statement-breakpoint
+-- Existing installs keep an administrator: promote the earliest account
+UPDATE "users" SET "role" = 'admin' WHERE "id" = (SELECT min("id") FROM "users");
@@ -0,0 +1,11 @@
+CREATE TABLE "api_keys" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"service" text NOT NULL,
+	"description" text,
+	"encrypted_key" text NOT NULL,
+	"key_preview" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"rotated_at" timestamp,
+	"revealed_at" timestamp
+);
@@ -0,0 +1,11 @@
+CREATE TABLE "batches" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"status" text DEFAULT 'running' NOT NULL,
+	"topic_count" integer NOT NULL,
+	"content_types" jsonb NOT NULL,
+	"task_count" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN "batch_id" integer;
\ No newline at end of file
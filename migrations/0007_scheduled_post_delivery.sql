@@ -0,0 +1,3 @@
+ALTER TABLE "scheduled_posts" ADD COLUMN "attempts" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "scheduled_posts" ADD COLUMN "next_attempt_at" timestamp;--> statement-breakpoint
+ALTER TABLE "scheduled_posts" ADD COLUMN "posted_at" timestamp;
\ No newline at end of file
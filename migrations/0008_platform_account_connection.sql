@@ -0,0 +1,2 @@
+ALTER TABLE "platform_accounts" ADD COLUMN "needs_reconnect" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "platform_accounts" ADD COLUMN "connection_error" text;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "content_variants" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"content_id" integer NOT NULL,
+	"platform_id" integer NOT NULL,
+	"title" text,
+	"caption" text,
+	"file_path" text,
+	"hashtags" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"metadata" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "scheduled_posts" ADD COLUMN "variant_id" integer;--> statement-breakpoint
+CREATE UNIQUE INDEX "content_variants_content_platform_idx" ON "content_variants" USING btree ("content_id","platform_id");
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "post_actions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"scheduled_post_id" integer NOT NULL,
+	"action" text NOT NULL,
+	"status" text DEFAULT 'succeeded' NOT NULL,
+	"user_id" integer,
+	"details" jsonb,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,15 @@
+CREATE TABLE "feed_items" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"platform_account_id" integer NOT NULL,
+	"scheduled_post_id" integer,
+	"guid" text NOT NULL,
+	"title" text NOT NULL,
+	"description" text,
+	"content_type" text NOT NULL,
+	"media_path" text,
+	"audio_path" text,
+	"audio_duration" integer,
+	"published_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "feed_items_guid_unique" UNIQUE("guid")
+);
@@ -0,0 +1,25 @@
+CREATE TABLE "newsletter_issues" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"platform_account_id" integer NOT NULL,
+	"scheduled_post_id" integer,
+	"issue_id" text NOT NULL,
+	"subject" text NOT NULL,
+	"recipient_count" integer NOT NULL,
+	"failed_count" integer DEFAULT 0 NOT NULL,
+	"sent_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "newsletter_issues_issue_id_unique" UNIQUE("issue_id")
+);
+--> statement-breakpoint
+CREATE TABLE "newsletter_subscribers" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"platform_account_id" integer NOT NULL,
+	"email" text NOT NULL,
+	"name" text,
+	"unsubscribe_token" text NOT NULL,
+	"subscribed" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"unsubscribed_at" timestamp,
+	CONSTRAINT "newsletter_subscribers_unsubscribe_token_unique" UNIQUE("unsubscribe_token")
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "newsletter_subscribers_account_email_idx" ON "newsletter_subscribers" USING btree ("platform_account_id","email");
\ No newline at end of file
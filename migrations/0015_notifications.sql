@@ -0,0 +1,10 @@
+CREATE TABLE "user_notifications" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"event" text NOT NULL,
+	"title" text NOT NULL,
+	"message" text NOT NULL,
+	"link" text,
+	"read_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,5 @@
+-- Platforms with a built-in adapter, so their accounts can be connected without adding the platform by hand
+INSERT INTO "platforms" ("name", "icon", "active")
+SELECT "seed"."name", "seed"."icon", true
+FROM (VALUES ('Mock', 'science'), ('Mastodon', 'forum'), ('Feed', 'rss_feed'), ('Newsletter', 'mail')) AS "seed"("name", "icon")
+WHERE NOT EXISTS (SELECT 1 FROM "platforms" WHERE lower("platforms"."name") = lower("seed"."name"));
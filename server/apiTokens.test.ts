@@ -0,0 +1,129 @@
+/**
+ * Personal API tokens: bearer authentication and signed requests (HMAC,
+ * timestamp tolerance, replays).
+ */
+
+import { test, before } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac } from "crypto";
+import type { User } from "@shared/schema";
+import { storage } from "./storage";
+import { encryptSecret } from "./vault";
+import { authenticateApiToken, authenticateSignedRequest, issueApiToken, toPublicApiToken } from "./apiTokens";
+
+let user: User;
+
+function sign(tokenValue: string, timestamp: string, body: Buffer): string {
+  return `sha256=${createHmac("sha256", tokenValue).update(`${timestamp}.`).update(body).digest("hex")}`;
+}
+
+function now(offsetSeconds: number = 0): string {
+  return String(Math.floor(Date.now() / 1000) + offsetSeconds);
+}
+
+before(async () => {
+  process.env.VAULT_MASTER_KEY = "api-token-test-master-key";
+  user = await storage.createUser({ username: "token-owner", password: "not-used", role: "editor" });
+});
+
+test("authenticates the full token value and nothing else", async () => {
+  const { token, value } = await issueApiToken(user, { name: "CI", scopes: ["content:write"] });
+
+  const auth = await authenticateApiToken(value);
+  assert.equal(auth?.token.id, token.id);
+  assert.equal(auth?.user.id, user.id);
+
+  const secret = value.split("_")[2];
+  const wrongSecret = secret.slice(0, -1) + (secret.endsWith("0") ? "1" : "0");
+  assert.equal(await authenticateApiToken(`cai_${token.id}_${wrongSecret}`), undefined);
+  assert.equal(await authenticateApiToken(`cai_${token.id + 1000}_${secret}`), undefined);
+  assert.equal(await authenticateApiToken(secret), undefined);
+});
+
+test("never exposes the stored secret", async () => {
+  const { token, value } = await issueApiToken(user, { name: "Preview", scopes: [] });
+
+  assert.doesNotMatch(token.encryptedSecret, new RegExp(value.split("_")[2]));
+  assert.equal("encryptedSecret" in toPublicApiToken(token), false);
+  assert.equal(toPublicApiToken(token).tokenPreview, `cai_…${value.slice(-4)}`);
+});
+
+test("refuses expired tokens", async () => {
+  // As issueApiToken stores it, but expired a second ago
+  const secret = "ab".repeat(20);
+  const token = await storage.createApiToken({
+    userId: user.id,
+    name: "Expired",
+    scopes: ["content:write"],
+    encryptedSecret: encryptSecret(secret),
+    tokenPreview: "cai_…abab",
+    expiresAt: new Date(Date.now() - 1000)
+  });
+  const value = `cai_${token.id}_${secret}`;
+
+  assert.equal(await authenticateApiToken(value), undefined);
+  const body = Buffer.from("{}");
+  const timestamp = now();
+  assert.deepEqual(
+    await authenticateSignedRequest(String(token.id), timestamp, sign(value, timestamp, body), body),
+    { error: "Invalid or expired API token" }
+  );
+});
+
+test("accepts a request signed over the timestamp and raw body", async () => {
+  const { token, value } = await issueApiToken(user, { name: "Hook", scopes: ["content:write"] });
+  const body = Buffer.from('{"topic":"creators"}');
+  const timestamp = now();
+
+  const auth = await authenticateSignedRequest(String(token.id), timestamp, sign(value, timestamp, body), body);
+  assert.ok(!("error" in auth));
+  assert.equal(auth.token.id, token.id);
+});
+
+test("refuses signatures that do not match the body, timestamp or token", async () => {
+  const { token, value } = await issueApiToken(user, { name: "Hook", scopes: ["content:write"] });
+  const other = await issueApiToken(user, { name: "Other", scopes: ["content:write"] });
+  const body = Buffer.from('{"topic":"creators"}');
+  const timestamp = now();
+  const mismatch = { error: "Signature does not match" };
+
+  assert.deepEqual(
+    await authenticateSignedRequest(String(token.id), timestamp, sign(value, timestamp, body), Buffer.from('{"topic":"other"}')),
+    mismatch
+  );
+  assert.deepEqual(await authenticateSignedRequest(String(token.id), now(-1), sign(value, timestamp, body), body), mismatch);
+  assert.deepEqual(await authenticateSignedRequest(String(token.id), timestamp, sign(other.value, timestamp, body), body), mismatch);
+  assert.deepEqual(await authenticateSignedRequest("not-an-id", timestamp, sign(value, timestamp, body), body), {
+    error: "Invalid or expired API token"
+  });
+});
+
+test("refuses timestamps outside the five minute tolerance", async () => {
+  const { token, value } = await issueApiToken(user, { name: "Hook", scopes: ["content:write"] });
+  const body = Buffer.from("{}");
+  const tooFar = { error: "Request timestamp is missing or too far from the current time" };
+
+  for (const timestamp of [now(-301), now(301), "", "yesterday"]) {
+    assert.deepEqual(await authenticateSignedRequest(String(token.id), timestamp, sign(value, timestamp, body), body), tooFar);
+  }
+
+  const withinTolerance = now(-290);
+  const auth = await authenticateSignedRequest(String(token.id), withinTolerance, sign(value, withinTolerance, body), body);
+  assert.ok(!("error" in auth));
+});
+
+test("accepts each signed request only once", async () => {
+  const { token, value } = await issueApiToken(user, { name: "Hook", scopes: ["content:write"] });
+  const body = Buffer.from('{"topic":"replayed"}');
+  const timestamp = now();
+  const signature = sign(value, timestamp, body);
+
+  assert.ok(!("error" in await authenticateSignedRequest(String(token.id), timestamp, signature, body)));
+  assert.deepEqual(await authenticateSignedRequest(String(token.id), timestamp, signature, body), {
+    error: "This signed request has already been used"
+  });
+
+  // The same body sent again with a new timestamp is a new request
+  const later = now(1);
+  assert.ok(!("error" in await authenticateSignedRequest(String(token.id), later, sign(value, later, body), body)));
+});
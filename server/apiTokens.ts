@@ -0,0 +1,120 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { storage } from "./storage";
+import { encryptSecret, decryptSecret } from "./vault";
+import type { ApiToken, ApiTokenInput, PublicApiToken, User } from "@shared/schema";
+
+// Tokens look like "cai_<token id>_<40 hex chars>"; the ID makes lookup cheap
+const TOKEN_PATTERN = /^cai_(\d+)_([0-9a-f]{40})$/;
+
+// Signed requests older (or newer) than this are refused, so captured ones can't be replayed later
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+// Signatures accepted within the tolerance window ("<token id>:<signature>" -> when they expire),
+// so a captured request can't be replayed while its timestamp is still valid. Kept per process.
+const usedSignatures: Map<string, number> = new Map();
+
+// lastUsedAt is only written when it is at least this stale
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export interface TokenAuthentication {
+  token: ApiToken;
+  user: User;
+}
+
+export function toPublicApiToken(token: ApiToken): PublicApiToken {
+  const { encryptedSecret: _encryptedSecret, ...rest } = token;
+  return rest;
+}
+
+/**
+ * Create a token for a user. The returned value is the only time the full
+ * token is available; it is stored encrypted so signed requests can be checked.
+ */
+export async function issueApiToken(user: User, input: ApiTokenInput): Promise<{ token: ApiToken; value: string }> {
+  const secret = randomBytes(20).toString("hex");
+  const token = await storage.createApiToken({
+    userId: user.id,
+    name: input.name,
+    scopes: input.scopes,
+    encryptedSecret: encryptSecret(secret),
+    tokenPreview: `cai_…${secret.slice(-4)}`,
+    expiresAt: input.expiresInDays ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000) : null,
+  });
+  return { token, value: `cai_${token.id}_${secret}` };
+}
+
+async function loadUsableToken(id: number): Promise<TokenAuthentication | undefined> {
+  const token = await storage.getApiToken(id);
+  if (!token || (token.expiresAt && token.expiresAt <= new Date())) return undefined;
+
+  const user = await storage.getUser(token.userId);
+  return user ? { token, user } : undefined;
+}
+
+function recordUse(token: ApiToken): void {
+  if (token.lastUsedAt && Date.now() - token.lastUsedAt.getTime() < LAST_USED_RESOLUTION_MS) return;
+  storage.updateApiToken(token.id, { lastUsedAt: new Date() })
+    .catch((error) => console.error(`Recording use of API token ${token.id} failed:`, error));
+}
+
+// False if this signature was already used; otherwise remembers it until it expires
+function claimSignature(tokenId: number, signature: string): boolean {
+  const now = Date.now();
+  usedSignatures.forEach((expiresAt, key) => {
+    if (expiresAt <= now) usedSignatures.delete(key);
+  });
+
+  const key = `${tokenId}:${signature}`;
+  if (usedSignatures.has(key)) return false;
+  usedSignatures.set(key, now + 2 * SIGNATURE_TOLERANCE_SECONDS * 1000);
+  return true;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+/**
+ * The token and its user for a full token value (as sent in an
+ * "Authorization: Bearer" header), or undefined if it isn't valid
+ */
+export async function authenticateApiToken(value: string): Promise<TokenAuthentication | undefined> {
+  const match = TOKEN_PATTERN.exec(value);
+  if (!match) return undefined;
+
+  const auth = await loadUsableToken(Number(match[1]));
+  if (!auth || !safeEqual(decryptSecret(auth.token.encryptedSecret), match[2])) return undefined;
+  recordUse(auth.token);
+  return auth;
+}
+
+/**
+ * Check a request signed with a token instead of carrying it: the signature
+ * is "sha256=" plus the hex HMAC-SHA256, keyed with the full token value, of
+ * "<timestamp>.<raw body>" (the same scheme outgoing webhooks use). Each
+ * signature is accepted once; resending an identical request is refused.
+ * Resolves to the token and its user, or the reason the request is refused.
+ */
+export async function authenticateSignedRequest(
+  tokenId: string,
+  timestamp: string,
+  signature: string,
+  body: Buffer
+): Promise<TokenAuthentication | { error: string }> {
+  const sentAt = Number(timestamp);
+  if (!Number.isFinite(sentAt) || Math.abs(Date.now() / 1000 - sentAt) > SIGNATURE_TOLERANCE_SECONDS) {
+    return { error: "Request timestamp is missing or too far from the current time" };
+  }
+
+  const auth = /^\d+$/.test(tokenId) ? await loadUsableToken(Number(tokenId)) : undefined;
+  if (!auth) return { error: "Invalid or expired API token" };
+
+  const value = `cai_${auth.token.id}_${decryptSecret(auth.token.encryptedSecret)}`;
+  const expected = `sha256=${createHmac("sha256", value).update(`${timestamp}.`).update(body).digest("hex")}`;
+  if (!safeEqual(expected, signature)) return { error: "Signature does not match" };
+  if (!claimSignature(auth.token.id, signature)) return { error: "This signed request has already been used" };
+  recordUse(auth.token);
+  return auth;
+}
@@ -0,0 +1,135 @@
+/**
+ * Request guards: sessions, role permissions and API token scopes, and
+ * password hashing.
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { NextFunction, Request, Response } from "express";
+import type { ApiToken, User } from "@shared/schema";
+import type { Permission } from "@shared/permissions";
+import {
+  comparePasswords,
+  hashPassword,
+  hasRequestPermission,
+  requireAuth,
+  requirePermission,
+  requireSession
+} from "./auth";
+
+type Middleware = (req: Request, res: Response, next: NextFunction) => void;
+
+interface Outcome {
+  passed: boolean;
+  status?: number;
+  message?: string;
+}
+
+function request(role: string | null, scopes?: Permission[], path: string = "/content"): Request {
+  return {
+    path,
+    user: role ? { id: 1, username: "someone", password: "", role } as User : undefined,
+    apiToken: scopes ? { id: 1, userId: 1, scopes } as ApiToken : undefined,
+    isAuthenticated: () => role !== null
+  } as Request;
+}
+
+// Run the middleware and record whether it let the request through or how it answered
+function run(middleware: Middleware, req: Request): Outcome {
+  const outcome: Outcome = { passed: false };
+  const res = {
+    status(code: number) {
+      outcome.status = code;
+      return res;
+    },
+    json(body: { message?: string }) {
+      outcome.message = body.message;
+      return res;
+    }
+  };
+  middleware(req, res as unknown as Response, () => {
+    outcome.passed = true;
+  });
+  return outcome;
+}
+
+test("requires a session for API routes except the public ones", () => {
+  assert.deepEqual(run(requireAuth, request(null)), { passed: false, status: 401, message: "Authentication required" });
+  assert.equal(run(requireAuth, request("viewer")).passed, true);
+  assert.equal(run(requireAuth, request(null, undefined, "/login")).passed, true);
+  assert.equal(run(requireAuth, request(null, undefined, "/hooks/create-content")).passed, true);
+});
+
+test("lets each role through only with its permissions", () => {
+  const cases: Array<[string, Permission, boolean]> = [
+    ["admin", "users:manage", true],
+    ["admin", "settings:manage", true],
+    ["editor", "content:write", true],
+    ["editor", "publishing:schedule", true],
+    ["editor", "settings:manage", false],
+    ["reviewer", "publishing:review", true],
+    ["reviewer", "content:write", false],
+    ["viewer", "content:write", false],
+    ["viewer", "publishing:review", false],
+    ["owner", "content:write", false] // not a role
+  ];
+
+  for (const [role, permission, allowed] of cases) {
+    const outcome = run(requirePermission(permission), request(role));
+    assert.equal(outcome.passed, allowed, `${role} ${permission}`);
+    if (!allowed) {
+      assert.equal(outcome.status, 403);
+      assert.equal(outcome.message, `Missing permission: ${permission}`);
+    }
+  }
+});
+
+test("refuses requests without a session before checking permissions", () => {
+  assert.deepEqual(run(requirePermission("content:write"), request(null)), {
+    passed: false,
+    status: 401,
+    message: "Authentication required"
+  });
+});
+
+test("API tokens also need the permission among their scopes", () => {
+  assert.equal(run(requirePermission("content:write"), request("admin", ["content:write"])).passed, true);
+
+  assert.deepEqual(run(requirePermission("settings:manage"), request("admin", ["content:write"])), {
+    passed: false,
+    status: 403,
+    message: "API token is missing scope: settings:manage"
+  });
+  // A scope can't grant more than the user's role
+  assert.deepEqual(run(requirePermission("settings:manage"), request("editor", ["settings:manage"])), {
+    passed: false,
+    status: 403,
+    message: "Missing permission: settings:manage"
+  });
+});
+
+test("hasRequestPermission agrees with requirePermission", () => {
+  assert.equal(hasRequestPermission(request("editor"), "publishing:schedule"), true);
+  assert.equal(hasRequestPermission(request("reviewer"), "publishing:schedule"), false);
+  assert.equal(hasRequestPermission(request("editor", ["publishing:review"]), "publishing:schedule"), false);
+  assert.equal(hasRequestPermission(request(null), "publishing:review"), false);
+});
+
+test("some things need a signed-in session rather than an API token", () => {
+  assert.equal(run(requireSession, request("admin")).passed, true);
+  assert.deepEqual(run(requireSession, request("admin", ["users:manage"])), {
+    passed: false,
+    status: 403,
+    message: "This can't be done with an API token"
+  });
+});
+
+test("hashes passwords with a salt and checks them", async () => {
+  const first = await hashPassword("correct horse");
+  const second = await hashPassword("correct horse");
+
+  assert.notEqual(first, second);
+  assert.equal(await comparePasswords("correct horse", first), true);
+  assert.equal(await comparePasswords("correct horse", second), true);
+  assert.equal(await comparePasswords("wrong horse", first), false);
+});
@@ -0,0 +1,237 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import { storage } from "./storage";
+import { credentialsSchema, type ApiToken, type User as SelectUser } from "@shared/schema";
+import { hasPermission, type Permission } from "@shared/permissions";
+import { authenticateApiToken } from "./apiTokens";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+    interface Request {
+      apiToken?: ApiToken; // set when the request authenticated with a personal API token
+      rawBody?: Buffer; // the JSON body as received, for checking signatures
+    }
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+// Routes under /api that can be reached without a session (the hooks check signatures themselves)
+const publicApiPaths = new Set(["/register", "/login", "/logout", "/user", "/hooks/create-content"]);
+
+/**
+ * Hash a password with a random salt, stored as "<hash>.<salt>"
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+// Never send the password hash to the client
+export function toPublicUser(user: SelectUser) {
+  const { password: _password, ...publicUser } = user;
+  return publicUser;
+}
+
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production.");
+  }
+  console.warn("SESSION_SECRET is not set; using a random secret. Sessions will not survive a restart.");
+  return randomBytes(32).toString("hex");
+}
+
+/**
+ * Reject API requests that do not carry an authenticated session
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (publicApiPaths.has(req.path) || req.isAuthenticated()) {
+    return next();
+  }
+  res.status(401).json({ message: "Authentication required" });
+}
+
+/**
+ * Log in requests that carry "Authorization: Bearer <personal API token>"
+ * instead of a session, for this request only
+ */
+export async function authenticateBearerToken(req: Request, res: Response, next: NextFunction) {
+  const header = req.headers.authorization;
+  if (req.isAuthenticated() || !header?.startsWith("Bearer ")) {
+    return next();
+  }
+
+  try {
+    const auth = await authenticateApiToken(header.slice("Bearer ".length).trim());
+    if (!auth) {
+      return res.status(401).json({ message: "Invalid or expired API token" });
+    }
+    req.user = auth.user;
+    req.apiToken = auth.token;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Whether the request's user (and API token, if it used one) may do this
+ */
+export function hasRequestPermission(req: Request, permission: Permission): boolean {
+  return req.isAuthenticated()
+    && hasPermission(req.user.role, permission)
+    && (!req.apiToken || req.apiToken.scopes.includes(permission));
+}
+
+/**
+ * Only let users whose role grants the permission through; API tokens also
+ * need the permission among their scopes
+ */
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    if (!hasPermission(req.user.role, permission)) {
+      return res.status(403).json({ message: `Missing permission: ${permission}` });
+    }
+    if (req.apiToken && !req.apiToken.scopes.includes(permission)) {
+      return res.status(403).json({ message: `API token is missing scope: ${permission}` });
+    }
+    next();
+  };
+}
+
+/**
+ * Refuse requests authenticated with an API token, for things only a signed-in
+ * user should do (such as creating more tokens)
+ */
+export function requireSession(req: Request, res: Response, next: NextFunction) {
+  if (req.apiToken) {
+    return res.status(403).json({ message: "This can't be done with an API token" });
+  }
+  next();
+}
+
+export function setupAuth(app: Express) {
+  const sessionSettings: session.SessionOptions = {
+    secret: getSessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 7 * 24 * 60 * 60 * 1000, // 1 week
+    },
+  };
+
+  app.set("trust proxy", 1);
+  app.use(session(sessionSettings));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      const credentials = credentialsSchema.parse(req.body);
+
+      const existingUser = await storage.getUserByUsername(credentials.username);
+      if (existingUser) {
+        return res.status(409).json({ message: "Username already exists" });
+      }
+
+      // The first account on a fresh install administers it
+      const user = await storage.registerUser({
+        username: credentials.username,
+        password: await hashPassword(credentials.password),
+      });
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to register", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: Error | null, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.status(204).end();
+      });
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not logged in" });
+    }
+    res.json(toPublicUser(req.user));
+  });
+
+  // Everything else under /api needs a logged-in user or an API token
+  app.use("/api", authenticateBearerToken, requireAuth);
+}
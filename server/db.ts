@@ -1,15 +1,47 @@
 import { Pool, neonConfig } from '@neondatabase/serverless';
 import { drizzle } from 'drizzle-orm/neon-serverless';
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle as drizzleLocal } from 'drizzle-orm/pglite';
+import { migrate } from 'drizzle-orm/pglite/migrator';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
 import ws from "ws";
+import fs from "fs";
+import path from "path";
 import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
+// Any drizzle Postgres client built over our schema, regardless of driver
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export function createDatabase(connectionString = process.env.DATABASE_URL) {
+  if (!connectionString) {
+    throw new Error(
+      "DATABASE_URL must be set. Did you forget to provision a database?",
+    );
+  }
+
+  const pool = new Pool({ connectionString });
+  const db: Database = drizzle({ client: pool, schema });
+  return { pool, db };
+}
+
+/**
+ * Embedded Postgres (PGlite) for offline, self-hosted installs. Data lives on
+ * disk under LOCAL_DB_PATH and no external database service is needed.
+ */
+export function createLocalDatabase(dataDir = process.env.LOCAL_DB_PATH || "./data/pglite") {
+  const resolvedDir = path.resolve(process.cwd(), dataDir);
+  fs.mkdirSync(resolvedDir, { recursive: true });
+
+  const client = new PGlite(resolvedDir);
+  const db = drizzleLocal({ client, schema });
+  return { client, db: db as Database, ready: migrateLocalDatabase(db) };
 }
 
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
+// Apply the generated SQL migrations so a fresh data directory gets the full schema
+async function migrateLocalDatabase(db: ReturnType<typeof drizzleLocal<typeof schema>>) {
+  await migrate(db, {
+    migrationsFolder: path.resolve(process.cwd(), "migrations"),
+  });
+}
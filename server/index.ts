@@ -1,9 +1,21 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { storage, storageReady } from "./storage";
+import { sealLegacyPlatformTokens } from "./vault";
+import automationScheduler from "./services/automation/scheduler";
+import jobQueue from "./services/automation/jobQueue";
+import publishWorker from "./services/publishing/publishWorker";
+import tokenRefresher from "./services/platforms/tokenRefresher";
+import webhookDispatcher from "./services/webhooks/webhookDispatcher";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  // Signed hooks are checked against the exact bytes that were sent
+  verify: (req, _res, buf) => {
+    (req as Request).rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -37,7 +49,19 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await storageReady();
+  if (process.env.VAULT_MASTER_KEY) {
+    const sealed = await sealLegacyPlatformTokens(storage);
+    if (sealed > 0) log(`encrypted stored tokens for ${sealed} platform account(s)`);
+  } else {
+    log("VAULT_MASTER_KEY is not set; platform tokens and API keys cannot be stored");
+  }
   const server = await registerRoutes(app);
+  await jobQueue.start();
+  await publishWorker.start();
+  await webhookDispatcher.start();
+  tokenRefresher.start();
+  automationScheduler.start();
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -1,21 +1,103 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertPlatformSchema, insertPlatformAccountSchema, insertContentSchema, insertScheduledPostSchema, insertTrendingTopicSchema } from "@shared/schema";
+import { insertPlatformSchema, insertPlatformAccountSchema, insertContentSchema, insertContentVariantSchema, insertScheduledPostSchema, insertTrendingTopicSchema, apiKeyInputSchema, type ApiKey, type PublicApiKey } from "@shared/schema";
 import { z } from "zod";
+import { roles } from "@shared/permissions";
 import { scriptsRouter } from "./scripts";
 import { automationRouter } from "./routes/automationRoutes";
 import { aiToolsRouter } from "./routes/aiToolsRoutes";
+import { oauthRouter } from "./routes/oauthRoutes";
+import { feedRouter } from "./routes/feedRoutes";
+import { newsletterRouter, unsubscribeRouter } from "./routes/newsletterRoutes";
+import { webhookRouter } from "./routes/webhookRoutes";
+import { apiTokenRouter } from "./routes/apiTokenRoutes";
+import { hookRouter } from "./routes/hookRoutes";
+import { notificationRouter } from "./routes/notificationRoutes";
+import { setupAuth, requirePermission, hasRequestPermission, toPublicUser } from "./auth";
+import { encryptSecret, decryptSecret, maskSecret, sealPlatformTokens, toPublicPlatformAccount } from "./vault";
+import { getSystemSettings, updateSystemSettings, getRateLimitSettings, updateRateLimitSettings, getReportedSystemStatus } from "./settings";
+import { systemSettingsObjectSchema, rateLimitSettingsSchema } from "@shared/settings";
+import { PlatformError, type AdapterContext, type PlatformAdapter } from "./services/platforms/adapter";
+import { resolveAdapter } from "./services/platforms/registry";
+import rateLimiter from "./services/platforms/rateLimiter";
+import { checkContentForAccount } from "./services/platforms/constraints";
+import { getVariantForAccount } from "./services/publishing/variants";
+import { preparePublishRequest } from "./services/publishing/prepare";
+import { editPublishedPost, unpublishPost } from "./services/publishing/postActions";
+import notifier from "./services/notifications/notifier";
+import webhookDispatcher from "./services/webhooks/webhookDispatcher";
+import { applyContentVariant } from "@shared/contentVariants";
+
+function toPublicApiKey(apiKey: ApiKey): PublicApiKey {
+  const { encryptedKey: _encryptedKey, keyPreview, revealedAt, ...rest } = apiKey;
+  return { ...rest, key: keyPreview, revealable: revealedAt === null };
+}
+
+/**
+ * Adapter and platform post ID for a scheduled post that has been published,
+ * or the HTTP error to answer with
+ */
+async function resolvePublishedPost(id: number): Promise<
+  | { adapter: PlatformAdapter; context: AdapterContext; postId: string }
+  | { status: number; message: string }
+> {
+  const post = await storage.getScheduledPost(id);
+  if (!post) return { status: 404, message: "Scheduled post not found" };
+  if (post.status !== "posted" || !post.postId) return { status: 409, message: "Post has not been published" };
+
+  const account = await storage.getPlatformAccount(post.platformAccountId);
+  if (!account) return { status: 404, message: "Platform account not found" };
+
+  const { adapter, context } = await resolveAdapter(account);
+  return { adapter, context, postId: post.postId };
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // API prefix for all routes
   const apiPrefix = "/api";
 
+  // Sessions, login/registration endpoints and the /api auth guard
+  setupAuth(app);
+
+  // Users (role management)
+  app.get(`${apiPrefix}/users`, requirePermission("users:manage"), async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get users", error: (error as Error).message });
+    }
+  });
+
+  app.put(`${apiPrefix}/users/:id/role`, requirePermission("users:manage"), async (req, res) => {
+    try {
+      const { role } = z.object({ role: z.enum(roles) }).parse(req.body);
+      const id = Number(req.params.id);
+
+      // Keep at least one administrator around
+      if (id === req.user!.id && role !== "admin") {
+        return res.status(400).json({ message: "You cannot remove your own admin role" });
+      }
+
+      const user = await storage.updateUser(id, { role });
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update user role", error: (error as Error).message });
+    }
+  });
+
   // System Status
   app.get(`${apiPrefix}/system-status`, async (req, res) => {
     try {
-      const status = await storage.getSystemStatus();
-      res.json(status);
+      const [status, platformQuotas] = await Promise.all([getReportedSystemStatus(), rateLimiter.getUsage()]);
+      res.json({ ...status, platformQuotas });
     } catch (error) {
       res.status(500).json({ message: "Failed to get system status", error: (error as Error).message });
     }
@@ -43,7 +125,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post(`${apiPrefix}/platforms`, async (req, res) => {
+  app.post(`${apiPrefix}/platforms`, requirePermission("platforms:manage"), async (req, res) => {
     try {
       const validatedData = insertPlatformSchema.parse(req.body);
       const platform = await storage.createPlatform(validatedData);
@@ -56,7 +138,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put(`${apiPrefix}/platforms/:id`, async (req, res) => {
+  app.put(`${apiPrefix}/platforms/:id`, requirePermission("platforms:manage"), async (req, res) => {
     try {
       const validatedData = insertPlatformSchema.partial().parse(req.body);
       const platform = await storage.updatePlatform(Number(req.params.id), validatedData);
@@ -72,7 +154,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete(`${apiPrefix}/platforms/:id`, async (req, res) => {
+  app.delete(`${apiPrefix}/platforms/:id`, requirePermission("platforms:manage"), async (req, res) => {
     try {
       const deleted = await storage.deletePlatform(Number(req.params.id));
       if (!deleted) {
@@ -88,7 +170,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get(`${apiPrefix}/platform-accounts`, async (req, res) => {
     try {
       const accounts = await storage.getPlatformAccounts();
-      res.json(accounts);
+      res.json(accounts.map(toPublicPlatformAccount));
     } catch (error) {
       res.status(500).json({ message: "Failed to get platform accounts", error: (error as Error).message });
     }
@@ -100,7 +182,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!account) {
         return res.status(404).json({ message: "Platform account not found" });
       }
-      res.json(account);
+      res.json(toPublicPlatformAccount(account));
     } catch (error) {
       res.status(500).json({ message: "Failed to get platform account", error: (error as Error).message });
     }
@@ -109,17 +191,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get(`${apiPrefix}/platforms/:platformId/accounts`, async (req, res) => {
     try {
       const accounts = await storage.getPlatformAccountsByPlatform(Number(req.params.platformId));
-      res.json(accounts);
+      res.json(accounts.map(toPublicPlatformAccount));
     } catch (error) {
       res.status(500).json({ message: "Failed to get platform accounts", error: (error as Error).message });
     }
   });
 
-  app.post(`${apiPrefix}/platform-accounts`, async (req, res) => {
+  app.post(`${apiPrefix}/platform-accounts`, requirePermission("platforms:manage"), async (req, res) => {
     try {
       const validatedData = insertPlatformAccountSchema.parse(req.body);
-      const account = await storage.createPlatformAccount(validatedData);
-      res.status(201).json(account);
+      const account = await storage.createPlatformAccount(sealPlatformTokens(validatedData));
+      res.status(201).json(toPublicPlatformAccount(account));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation failed", errors: error.errors });
@@ -128,14 +210,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put(`${apiPrefix}/platform-accounts/:id`, async (req, res) => {
+  app.put(`${apiPrefix}/platform-accounts/:id`, requirePermission("platforms:manage"), async (req, res) => {
     try {
       const validatedData = insertPlatformAccountSchema.partial().parse(req.body);
-      const account = await storage.updatePlatformAccount(Number(req.params.id), validatedData);
+      // A newly entered access token replaces whatever failed to refresh
+      const reconnected = validatedData.accessToken ? { needsReconnect: false, connectionError: null } : {};
+      const account = await storage.updatePlatformAccount(Number(req.params.id), { ...sealPlatformTokens(validatedData), ...reconnected });
       if (!account) {
         return res.status(404).json({ message: "Platform account not found" });
       }
-      res.json(account);
+      res.json(toPublicPlatformAccount(account));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation failed", errors: error.errors });
@@ -144,7 +228,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete(`${apiPrefix}/platform-accounts/:id`, async (req, res) => {
+  app.delete(`${apiPrefix}/platform-accounts/:id`, requirePermission("platforms:manage"), async (req, res) => {
     try {
       const deleted = await storage.deletePlatformAccount(Number(req.params.id));
       if (!deleted) {
@@ -188,10 +272,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post(`${apiPrefix}/content`, async (req, res) => {
+  app.post(`${apiPrefix}/content`, requirePermission("content:write"), async (req, res) => {
     try {
       const validatedData = insertContentSchema.parse(req.body);
       const content = await storage.createContent(validatedData);
+      webhookDispatcher.dispatch("content.created", { content })
+        .catch((error) => console.error(`Sending webhooks for content ${content.id} failed:`, error));
       res.status(201).json(content);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -201,7 +287,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put(`${apiPrefix}/content/:id`, async (req, res) => {
+  app.put(`${apiPrefix}/content/:id`, requirePermission("content:write"), async (req, res) => {
     try {
       const validatedData = insertContentSchema.partial().parse(req.body);
       const content = await storage.updateContent(Number(req.params.id), validatedData);
@@ -217,18 +303,152 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete(`${apiPrefix}/content/:id`, async (req, res) => {
+  app.delete(`${apiPrefix}/content/:id`, requirePermission("content:delete"), async (req, res) => {
     try {
-      const deleted = await storage.deleteContent(Number(req.params.id));
+      const id = Number(req.params.id);
+      const deleted = await storage.deleteContent(id);
       if (!deleted) {
         return res.status(404).json({ message: "Content not found" });
       }
+      for (const variant of await storage.getContentVariants(id)) {
+        await storage.deleteContentVariant(variant.id);
+      }
       res.status(204).end();
     } catch (error) {
       res.status(500).json({ message: "Failed to delete content", error: (error as Error).message });
     }
   });
 
+  // Content Variants
+  app.get(`${apiPrefix}/content/:id/variants`, async (req, res) => {
+    try {
+      const content = await storage.getContent(Number(req.params.id));
+      if (!content) {
+        return res.status(404).json({ message: "Content not found" });
+      }
+      res.json(await storage.getContentVariants(content.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get content variants", error: (error as Error).message });
+    }
+  });
+
+  app.post(`${apiPrefix}/content/:id/variants`, requirePermission("content:write"), async (req, res) => {
+    try {
+      const content = await storage.getContent(Number(req.params.id));
+      if (!content) {
+        return res.status(404).json({ message: "Content not found" });
+      }
+
+      const validatedData = insertContentVariantSchema.parse({ ...req.body, contentId: content.id });
+      if (!(await storage.getPlatform(validatedData.platformId))) {
+        return res.status(404).json({ message: "Platform not found" });
+      }
+
+      const existing = await storage.getContentVariants(content.id);
+      if (existing.some((variant) => variant.platformId === validatedData.platformId)) {
+        return res.status(409).json({ message: "This content already has a variant for that platform" });
+      }
+
+      const variant = await storage.createContentVariant(validatedData);
+      res.status(201).json(variant);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create content variant", error: (error as Error).message });
+    }
+  });
+
+  app.put(`${apiPrefix}/content-variants/:id`, requirePermission("content:write"), async (req, res) => {
+    try {
+      // A variant stays attached to its content and platform
+      const validatedData = insertContentVariantSchema.omit({ contentId: true, platformId: true }).partial().parse(req.body);
+      const variant = await storage.updateContentVariant(Number(req.params.id), validatedData);
+      if (!variant) {
+        return res.status(404).json({ message: "Content variant not found" });
+      }
+      res.json(variant);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update content variant", error: (error as Error).message });
+    }
+  });
+
+  app.delete(`${apiPrefix}/content-variants/:id`, requirePermission("content:delete"), async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const posts = await storage.getScheduledPosts();
+      if (posts.some((post) => post.variantId === id && ["draft", "pending", "publishing"].includes(post.status))) {
+        return res.status(409).json({ message: "The variant is used by posts that have not been published yet" });
+      }
+
+      const deleted = await storage.deleteContentVariant(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Content variant not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete content variant", error: (error as Error).message });
+    }
+  });
+
+  // Schedule the content on several accounts at once, each with its platform's variant
+  app.post(`${apiPrefix}/content/:id/cross-post`, requirePermission("publishing:schedule"), async (req, res) => {
+    try {
+      const requestSchema = z.object({
+        platformAccountIds: z.array(z.number().int()).min(1, "Select at least one account"),
+        scheduledTime: z.coerce.date(),
+        status: z.enum(["pending", "draft"]).default("pending")
+      });
+      const request = requestSchema.parse(req.body);
+
+      const content = await storage.getContent(Number(req.params.id));
+      if (!content) {
+        return res.status(404).json({ message: "Content not found" });
+      }
+
+      // Check every target before creating anything
+      const targets = [];
+      const rejected = [];
+      for (const accountId of Array.from(new Set(request.platformAccountIds))) {
+        const account = await storage.getPlatformAccount(accountId);
+        if (!account) {
+          return res.status(404).json({ message: `Platform account ${accountId} not found` });
+        }
+
+        const variant = await getVariantForAccount(content, account);
+        const { platform, violations } = await checkContentForAccount(applyContentVariant(content, variant), account);
+        if (violations.length > 0) {
+          rejected.push({ platformAccountId: account.id, platform, violations });
+        }
+        targets.push({ account, variant });
+      }
+
+      if (rejected.length > 0) {
+        return res.status(422).json({ message: "Content does not meet the requirements of every platform", rejected });
+      }
+
+      const posts = [];
+      for (const { account, variant } of targets) {
+        posts.push(await storage.createScheduledPost({
+          contentId: content.id,
+          platformAccountId: account.id,
+          scheduledTime: request.scheduledTime,
+          status: request.status,
+          variantId: variant?.id ?? null
+        }));
+      }
+      res.status(201).json(posts);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to cross-post content", error: (error as Error).message });
+    }
+  });
+
   // Scheduled Posts
   app.get(`${apiPrefix}/scheduled-posts`, async (req, res) => {
     try {
@@ -261,9 +481,151 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post(`${apiPrefix}/scheduled-posts`, async (req, res) => {
+  // Live engagement for a published post, read through the platform adapter
+  app.get(`${apiPrefix}/scheduled-posts/:id/metrics`, async (req, res) => {
+    try {
+      const target = await resolvePublishedPost(Number(req.params.id));
+      if ("status" in target) {
+        return res.status(target.status).json({ message: target.message });
+      }
+      res.json(await target.adapter.fetchMetrics(target.context, target.postId));
+    } catch (error) {
+      const status = error instanceof PlatformError ? 502 : 500;
+      res.status(status).json({ message: "Failed to get post metrics", error: (error as Error).message });
+    }
+  });
+
+  app.get(`${apiPrefix}/scheduled-posts/:id/comments`, async (req, res) => {
+    try {
+      const target = await resolvePublishedPost(Number(req.params.id));
+      if ("status" in target) {
+        return res.status(target.status).json({ message: target.message });
+      }
+      res.json(await target.adapter.fetchComments(target.context, target.postId));
+    } catch (error) {
+      const status = error instanceof PlatformError ? 502 : 500;
+      res.status(status).json({ message: "Failed to get post comments", error: (error as Error).message });
+    }
+  });
+
+  app.get(`${apiPrefix}/scheduled-posts/:id/actions`, async (req, res) => {
+    try {
+      const post = await storage.getScheduledPost(Number(req.params.id));
+      if (!post) {
+        return res.status(404).json({ message: "Scheduled post not found" });
+      }
+      res.json(await storage.getPostActions(post.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get post history", error: (error as Error).message });
+    }
+  });
+
+  // Change a published post on its platform; fields left out keep their published values
+  app.post(`${apiPrefix}/scheduled-posts/:id/edit`, requirePermission("publishing:schedule"), async (req, res) => {
+    try {
+      const editSchema = z.object({
+        title: z.string().trim().min(1).optional(),
+        description: z.string().nullable().optional(),
+        filePath: z.string().trim().nullable().optional()
+      }).refine((edit) => Object.keys(edit).length > 0, "Nothing to edit");
+      const edit = editSchema.parse(req.body);
+
+      const post = await storage.getScheduledPost(Number(req.params.id));
+      if (!post) {
+        return res.status(404).json({ message: "Scheduled post not found" });
+      }
+      if (post.status !== "posted" || !post.postId) {
+        return res.status(409).json({ message: "Post has not been published" });
+      }
+
+      res.json(await editPublishedPost(post, edit, req.user!.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      if (error instanceof PlatformError) {
+        return res.status(error.retryable ? 502 : 422).json({ message: "Failed to edit post", error: error.message });
+      }
+      res.status(500).json({ message: "Failed to edit post", error: (error as Error).message });
+    }
+  });
+
+  // Take a published post down from its platform
+  app.post(`${apiPrefix}/scheduled-posts/:id/unpublish`, requirePermission("publishing:schedule"), async (req, res) => {
+    try {
+      const post = await storage.getScheduledPost(Number(req.params.id));
+      if (!post) {
+        return res.status(404).json({ message: "Scheduled post not found" });
+      }
+      if (post.status !== "posted" || !post.postId) {
+        return res.status(409).json({ message: "Post has not been published" });
+      }
+
+      res.json(await unpublishPost(post, req.user!.id));
+    } catch (error) {
+      if (error instanceof PlatformError) {
+        return res.status(error.retryable ? 502 : 422).json({ message: "Failed to unpublish post", error: error.message });
+      }
+      res.status(500).json({ message: "Failed to unpublish post", error: (error as Error).message });
+    }
+  });
+
+  // Run the publish path through the platform adapter without posting, for review
+  app.get(`${apiPrefix}/scheduled-posts/:id/dry-run`, requirePermission("publishing:review"), async (req, res) => {
+    try {
+      const post = await storage.getScheduledPost(Number(req.params.id));
+      if (!post) {
+        return res.status(404).json({ message: "Scheduled post not found" });
+      }
+
+      const { adapter, request } = await preparePublishRequest(post);
+      const { platform, violations } = await checkContentForAccount(request.content, request.account);
+      res.json({
+        postId: post.id,
+        platform,
+        account: { id: request.account.id, name: request.account.name, username: request.account.username },
+        content: request.content,
+        payload: adapter.buildPublishPayload(request),
+        violations,
+      });
+    } catch (error) {
+      if (error instanceof PlatformError) {
+        const status = error.retryable ? 502 : 422;
+        return res.status(status).json({ message: "Post cannot be published", error: error.message });
+      }
+      res.status(500).json({ message: "Failed to run publish dry run", error: (error as Error).message });
+    }
+  });
+
+  // New posts start out pending or as drafts; the publishing worker sets everything
+  // else, so fields like postId, postedAt and attempts are refused
+  app.post(`${apiPrefix}/scheduled-posts`, requirePermission("publishing:schedule"), async (req, res) => {
     try {
-      const validatedData = insertScheduledPostSchema.parse(req.body);
+      const requestSchema = insertScheduledPostSchema.extend({
+        scheduledTime: z.coerce.date(),
+        status: z.enum(["pending", "draft"]).default("pending")
+      }).strict();
+      const validatedData = requestSchema.parse(req.body);
+
+      const content = await storage.getContent(validatedData.contentId);
+      if (!content) {
+        return res.status(404).json({ message: "Content not found" });
+      }
+      const account = await storage.getPlatformAccount(validatedData.platformAccountId);
+      if (!account) {
+        return res.status(404).json({ message: "Platform account not found" });
+      }
+
+      const variant = validatedData.variantId ? await storage.getContentVariant(validatedData.variantId) : undefined;
+      if (validatedData.variantId && (!variant || variant.contentId !== content.id || variant.platformId !== account.platformId)) {
+        return res.status(400).json({ message: "The variant does not belong to this content and platform" });
+      }
+
+      const { platform, violations } = await checkContentForAccount(applyContentVariant(content, variant), account);
+      if (violations.length > 0) {
+        return res.status(422).json({ message: `Content does not meet ${platform} requirements`, violations });
+      }
+
       const post = await storage.createScheduledPost(validatedData);
       res.status(201).json(post);
     } catch (error) {
@@ -274,10 +636,55 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put(`${apiPrefix}/scheduled-posts/:id`, async (req, res) => {
+  // Reviewers may approve (pending), send back (draft) or reschedule a post; pointing it
+  // at other content, an account or a variant also needs publishing:schedule
+  app.put(`${apiPrefix}/scheduled-posts/:id`, requirePermission("publishing:review"), async (req, res) => {
     try {
-      const validatedData = insertScheduledPostSchema.partial().parse(req.body);
-      const post = await storage.updateScheduledPost(Number(req.params.id), validatedData);
+      const requestSchema = insertScheduledPostSchema.partial().extend({
+        scheduledTime: z.coerce.date().optional(),
+        status: z.enum(["pending", "draft"]).optional()
+      });
+      const changes = requestSchema.parse(req.body);
+
+      const existing = await storage.getScheduledPost(Number(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ message: "Scheduled post not found" });
+      }
+      if (!["pending", "draft", "failed"].includes(existing.status)) {
+        return res.status(409).json({ message: `A ${existing.status} post can't be changed` });
+      }
+
+      const retargeted = changes.contentId !== undefined || changes.platformAccountId !== undefined || changes.variantId !== undefined;
+      if (retargeted) {
+        if (!hasRequestPermission(req, "publishing:schedule")) {
+          return res.status(403).json({ message: "Missing permission: publishing:schedule" });
+        }
+
+        const content = await storage.getContent(changes.contentId ?? existing.contentId);
+        if (!content) {
+          return res.status(404).json({ message: "Content not found" });
+        }
+        const account = await storage.getPlatformAccount(changes.platformAccountId ?? existing.platformAccountId);
+        if (!account) {
+          return res.status(404).json({ message: "Platform account not found" });
+        }
+
+        // A new target without an explicit variant gets its platform's variant, as when cross-posting
+        const variant = changes.variantId !== undefined
+          ? (changes.variantId === null ? undefined : await storage.getContentVariant(changes.variantId))
+          : await getVariantForAccount(content, account);
+        if (changes.variantId && (!variant || variant.contentId !== content.id || variant.platformId !== account.platformId)) {
+          return res.status(400).json({ message: "The variant does not belong to this content and platform" });
+        }
+
+        const { platform, violations } = await checkContentForAccount(applyContentVariant(content, variant), account);
+        if (violations.length > 0) {
+          return res.status(422).json({ message: `Content does not meet ${platform} requirements`, violations });
+        }
+        changes.variantId = variant?.id ?? null;
+      }
+
+      const post = await storage.updateScheduledPost(existing.id, changes);
       if (!post) {
         return res.status(404).json({ message: "Scheduled post not found" });
       }
@@ -290,7 +697,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete(`${apiPrefix}/scheduled-posts/:id`, async (req, res) => {
+  app.delete(`${apiPrefix}/scheduled-posts/:id`, requirePermission("publishing:schedule"), async (req, res) => {
     try {
       const deleted = await storage.deleteScheduledPost(Number(req.params.id));
       if (!deleted) {
@@ -334,10 +741,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post(`${apiPrefix}/trending-topics`, async (req, res) => {
+  app.post(`${apiPrefix}/trending-topics`, requirePermission("content:write"), async (req, res) => {
     try {
       const validatedData = insertTrendingTopicSchema.parse(req.body);
       const topic = await storage.createTrendingTopic(validatedData);
+      notifier.trendAlert(topic).catch((error) => console.error("Trend alert failed:", error));
       res.status(201).json(topic);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -347,13 +755,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put(`${apiPrefix}/trending-topics/:id`, async (req, res) => {
+  app.put(`${apiPrefix}/trending-topics/:id`, requirePermission("content:write"), async (req, res) => {
     try {
       const validatedData = insertTrendingTopicSchema.partial().parse(req.body);
+      const previous = await storage.getTrendingTopic(Number(req.params.id));
       const topic = await storage.updateTrendingTopic(Number(req.params.id), validatedData);
-      if (!topic) {
+      if (!previous || !topic) {
         return res.status(404).json({ message: "Trending topic not found" });
       }
+      notifier.trendAlert(topic, previous.trendScore).catch((error) => console.error("Trend alert failed:", error));
       res.json(topic);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -363,7 +773,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete(`${apiPrefix}/trending-topics/:id`, async (req, res) => {
+  app.delete(`${apiPrefix}/trending-topics/:id`, requirePermission("content:delete"), async (req, res) => {
     try {
       const deleted = await storage.deleteTrendingTopic(Number(req.params.id));
       if (!deleted) {
@@ -375,77 +785,95 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // API routes for API keys
+  // API routes for API keys (secrets are encrypted at rest and never listed)
   app.get(`${apiPrefix}/api-keys`, async (req, res) => {
     try {
-      // In a real implementation, this would fetch from the database
-      // For now, return mock data for UI testing
-      const apiKeys = [
-        {
-          id: 1,
-          name: "OpenAI API Key",
-          key: "sk-••••••••••••••••••••••••••••••••••••",
-          service: "OpenAI",
-          description: "Used for content generation and analysis",
-          createdAt: "2023-08-01T14:30:00Z",
-        },
-        {
-          id: 2,
-          name: "Google Cloud API Key",
-          key: "AIza••••••••••••••••••••••••••",
-          service: "Google Cloud",
-          description: "For YouTube integration and translation",
-          createdAt: "2023-08-02T09:15:00Z",
-        },
-        {
-          id: 3,
-          name: "Weather API Key",
-          key: "wapi••••••••••••••••••",
-          service: "WeatherAPI",
-          description: "For weather-related content creation",
-          createdAt: "2023-08-03T11:20:00Z",
-        },
-      ];
-      res.json(apiKeys);
+      const apiKeys = await storage.getApiKeys();
+      res.json(apiKeys.map(toPublicApiKey));
     } catch (error) {
       res.status(500).json({ message: "Failed to get API keys", error: (error as Error).message });
     }
   });
 
-  app.post(`${apiPrefix}/api-keys`, async (req, res) => {
+  app.post(`${apiPrefix}/api-keys`, requirePermission("settings:manage"), async (req, res) => {
     try {
-      // In a real implementation, this would save to the database
-      // For now, return the input with an ID for UI testing
-      const newKey = {
-        id: Date.now(),
-        ...req.body,
-        createdAt: new Date().toISOString(),
-      };
-      res.status(201).json(newKey);
+      const { key, ...details } = apiKeyInputSchema.parse(req.body);
+      const apiKey = await storage.createApiKey({
+        ...details,
+        encryptedKey: encryptSecret(key),
+        keyPreview: maskSecret(key),
+      });
+      res.status(201).json(toPublicApiKey(apiKey));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to create API key", error: (error as Error).message });
     }
   });
 
-  app.put(`${apiPrefix}/api-keys/:id`, async (req, res) => {
+  app.put(`${apiPrefix}/api-keys/:id`, requirePermission("settings:manage"), async (req, res) => {
     try {
-      // In a real implementation, this would update the database
-      // For now, return the input with the ID for UI testing
-      const updatedKey = {
-        id: Number(req.params.id),
-        ...req.body,
-        createdAt: req.body.createdAt || new Date().toISOString(),
-      };
-      res.json(updatedKey);
+      // Editing only touches the details; use /rotate to replace the secret
+      const details = apiKeyInputSchema.omit({ key: true }).partial().parse(req.body);
+      const apiKey = await storage.updateApiKey(Number(req.params.id), details);
+      if (!apiKey) {
+        return res.status(404).json({ message: "API key not found" });
+      }
+      res.json(toPublicApiKey(apiKey));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to update API key", error: (error as Error).message });
     }
   });
 
-  app.delete(`${apiPrefix}/api-keys/:id`, async (req, res) => {
+  app.post(`${apiPrefix}/api-keys/:id/rotate`, requirePermission("settings:manage"), async (req, res) => {
     try {
-      // In a real implementation, this would delete from the database
-      // For now, just return success for UI testing
+      const { key } = apiKeyInputSchema.pick({ key: true }).parse(req.body);
+      const apiKey = await storage.updateApiKey(Number(req.params.id), {
+        encryptedKey: encryptSecret(key),
+        keyPreview: maskSecret(key),
+        rotatedAt: new Date(),
+        revealedAt: null,
+      });
+      if (!apiKey) {
+        return res.status(404).json({ message: "API key not found" });
+      }
+      res.json(toPublicApiKey(apiKey));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to rotate API key", error: (error as Error).message });
+    }
+  });
+
+  // The raw key can be shown once per stored value; rotate to see a new one
+  app.post(`${apiPrefix}/api-keys/:id/reveal`, requirePermission("settings:manage"), async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const apiKey = await storage.claimApiKeyReveal(id);
+      if (!apiKey) {
+        if (!(await storage.getApiKey(id))) {
+          return res.status(404).json({ message: "API key not found" });
+        }
+        return res.status(410).json({ message: "This API key has already been revealed. Rotate it to set a new value." });
+      }
+
+      res.json({ id: apiKey.id, key: decryptSecret(apiKey.encryptedKey) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reveal API key", error: (error as Error).message });
+    }
+  });
+
+  app.delete(`${apiPrefix}/api-keys/:id`, requirePermission("settings:manage"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteApiKey(Number(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: "API key not found" });
+      }
       res.status(204).end();
     } catch (error) {
       res.status(500).json({ message: "Failed to delete API key", error: (error as Error).message });
@@ -455,55 +883,73 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // API routes for system settings
   app.get(`${apiPrefix}/system-settings`, async (req, res) => {
     try {
-      // In a real implementation, this would fetch from the database
-      // For now, return mock data for UI testing
-      const settings = {
-        // AI Configuration
-        maxModelsLoaded: 5,
-        aiContentQualityThreshold: 70,
-        enableAIContentGeneration: true,
-        
-        // Content Storage
-        storageLocation: "local",
-        maxStorageUsage: 10,
-        enableAutoCleanup: true,
-        
-        // Scheduling
-        maxConcurrentPosts: 3,
-        retryFailedPosts: true,
-        maxPostRetries: 3,
-        
-        // Notifications
-        enableEmailNotifications: false,
-        emailAddress: "",
-        notifyOnPostSuccess: true,
-        notifyOnPostFailure: true,
-        
-        // System
-        enableSystemMetrics: true,
-        systemLanguage: "en",
-        theme: "system",
-      };
+      const settings = await getSystemSettings();
       res.json(settings);
     } catch (error) {
       res.status(500).json({ message: "Failed to get system settings", error: (error as Error).message });
     }
   });
 
-  app.put(`${apiPrefix}/system-settings`, async (req, res) => {
+  app.put(`${apiPrefix}/system-settings`, requirePermission("settings:manage"), async (req, res) => {
     try {
-      // In a real implementation, this would update the database
-      // For now, return the input for UI testing
-      res.json(req.body);
+      const changes = systemSettingsObjectSchema.partial().parse(req.body);
+      const settings = await updateSystemSettings(changes);
+      res.json(settings);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to update system settings", error: (error as Error).message });
     }
   });
 
+  // Send a test message to every enabled notification channel (uses the saved settings)
+  app.post(`${apiPrefix}/notifications/test`, requirePermission("settings:manage"), async (req, res) => {
+    try {
+      const results = await notifier.sendTest(req.user!.id);
+      res.json({ results });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to send test notification", error: (error as Error).message });
+    }
+  });
+
+  // Outbound platform API quotas
+  app.get(`${apiPrefix}/rate-limit-settings`, async (req, res) => {
+    try {
+      res.json(await getRateLimitSettings());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get rate limit settings", error: (error as Error).message });
+    }
+  });
+
+  app.put(`${apiPrefix}/rate-limit-settings`, requirePermission("settings:manage"), async (req, res) => {
+    try {
+      const changes = rateLimitSettingsSchema.partial().parse(req.body);
+      res.json(await updateRateLimitSettings(changes));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update rate limit settings", error: (error as Error).message });
+    }
+  });
+
   // Mount the routers
   app.use(`${apiPrefix}/scripts`, scriptsRouter);
   app.use(`${apiPrefix}/auto-scheduler`, automationRouter);
   app.use(`${apiPrefix}/ai-tools`, aiToolsRouter);
+  app.use(`${apiPrefix}/oauth`, oauthRouter);
+  app.use(`${apiPrefix}/newsletters`, newsletterRouter);
+  app.use(`${apiPrefix}/webhooks`, webhookRouter);
+  app.use(`${apiPrefix}/api-tokens`, apiTokenRouter);
+  app.use(`${apiPrefix}/notifications`, notificationRouter);
+  // For other systems: API token or signature instead of a session
+  app.use(`${apiPrefix}/hooks`, hookRouter);
+
+  // Public feeds for "Feed" platform accounts (outside /api, so no login needed)
+  app.use("/feeds", feedRouter);
+  // Unsubscribe links from newsletter emails (also public)
+  app.use("/newsletter", unsubscribeRouter);
   
   const httpServer = createServer(app);
   return httpServer;
@@ -1,14 +1,24 @@
 import { Router, Request, Response } from "express";
 import { storage } from "../storage";
+import { requirePermission } from "../auth";
+import { getSystemSettings, requireAIContentGeneration, getReportedSystemStatus } from "../settings";
 import { insertAiConfigSchema, insertScriptSchema } from "@shared/schema";
 import { z } from "zod";
 import localLLM from "../services/zeroAI/localLLM";
+import { generationSettingsSchema, LLMBackendError } from "../services/zeroAI/llmBackend";
 import localTTS from "../services/zeroAI/localTTS";
 import localImageGenerator from "../services/zeroAI/localImageGenerator";
 import videoGenerator from "../services/zeroAI/videoGenerator";
+import webhookDispatcher from "../services/webhooks/webhookDispatcher";
+import type { Script } from "@shared/schema";
 
 export const aiToolsRouter = Router();
 
+function announceFinalizedScript(script: Script): void {
+  webhookDispatcher.dispatch("script.finalized", { script })
+    .catch((error) => console.error(`Sending webhooks for script ${script.id} failed:`, error));
+}
+
 // AI Configs endpoints
 aiToolsRouter.get("/ai-configs", async (_req: Request, res: Response) => {
   try {
@@ -44,7 +54,7 @@ aiToolsRouter.get("/ai-configs/type/:type", async (req: Request, res: Response)
   }
 });
 
-aiToolsRouter.post("/ai-configs", async (req: Request, res: Response) => {
+aiToolsRouter.post("/ai-configs", requirePermission("settings:manage"), async (req: Request, res: Response) => {
   try {
     const validatedData = insertAiConfigSchema.parse(req.body);
     const newConfig = await storage.createAiConfig(validatedData);
@@ -57,7 +67,7 @@ aiToolsRouter.post("/ai-configs", async (req: Request, res: Response) => {
   }
 });
 
-aiToolsRouter.patch("/ai-configs/:id", async (req: Request, res: Response) => {
+aiToolsRouter.patch("/ai-configs/:id", requirePermission("settings:manage"), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const config = await storage.getAiConfig(id);
@@ -77,7 +87,7 @@ aiToolsRouter.patch("/ai-configs/:id", async (req: Request, res: Response) => {
   }
 });
 
-aiToolsRouter.delete("/ai-configs/:id", async (req: Request, res: Response) => {
+aiToolsRouter.delete("/ai-configs/:id", requirePermission("settings:manage"), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const config = await storage.getAiConfig(id);
@@ -132,10 +142,13 @@ aiToolsRouter.get("/scripts/:id", async (req: Request, res: Response) => {
   }
 });
 
-aiToolsRouter.post("/scripts", async (req: Request, res: Response) => {
+aiToolsRouter.post("/scripts", requirePermission("content:write"), async (req: Request, res: Response) => {
   try {
     const validatedData = insertScriptSchema.parse(req.body);
     const newScript = await storage.createScript(validatedData);
+    if (newScript.status === "finalized") {
+      announceFinalizedScript(newScript);
+    }
     res.status(201).json(newScript);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -145,7 +158,7 @@ aiToolsRouter.post("/scripts", async (req: Request, res: Response) => {
   }
 });
 
-aiToolsRouter.patch("/scripts/:id", async (req: Request, res: Response) => {
+aiToolsRouter.patch("/scripts/:id", requirePermission("content:write"), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const script = await storage.getScript(id);
@@ -156,6 +169,9 @@ aiToolsRouter.patch("/scripts/:id", async (req: Request, res: Response) => {
     
     const validatedData = insertScriptSchema.partial().parse(req.body);
     const updatedScript = await storage.updateScript(id, validatedData);
+    if (updatedScript && updatedScript.status === "finalized" && script.status !== "finalized") {
+      announceFinalizedScript(updatedScript);
+    }
     res.json(updatedScript);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -165,7 +181,7 @@ aiToolsRouter.patch("/scripts/:id", async (req: Request, res: Response) => {
   }
 });
 
-aiToolsRouter.delete("/scripts/:id", async (req: Request, res: Response) => {
+aiToolsRouter.delete("/scripts/:id", requirePermission("content:delete"), async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const script = await storage.getScript(id);
@@ -186,20 +202,23 @@ aiToolsRouter.delete("/scripts/:id", async (req: Request, res: Response) => {
 });
 
 // AI Service action endpoints
-aiToolsRouter.post("/ai/generate-script", async (req: Request, res: Response) => {
+aiToolsRouter.post("/ai/generate-script", requirePermission("content:write"), requireAIContentGeneration, async (req: Request, res: Response) => {
   try {
     const { topic, format, length, tone, audience } = req.body;
     
     if (!topic || !format) {
       return res.status(400).json({ error: "Missing required parameters" });
     }
+    // Optional per-request overrides of temperature, topP, maxTokens and the penalties
+    const settings = generationSettingsSchema.partial().parse(req.body.settings ?? {});
     
     const scriptContent = await localLLM.generateScript(
       topic, 
       format, 
       length || 5, 
       tone || "conversational", 
-      audience || "general"
+      audience || "general",
+      settings
     );
     
     // Create a script record with the generated content
@@ -216,11 +235,17 @@ aiToolsRouter.post("/ai/generate-script", async (req: Request, res: Response) =>
     
     res.status(201).json(newScript);
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    if (error instanceof LLMBackendError) {
+      return res.status(502).json({ error: error.message });
+    }
     res.status(500).json({ error: (error as Error).message });
   }
 });
 
-aiToolsRouter.post("/ai/text-to-speech", async (req: Request, res: Response) => {
+aiToolsRouter.post("/ai/text-to-speech", requirePermission("content:write"), requireAIContentGeneration, async (req: Request, res: Response) => {
   try {
     const { scriptId, voice, format } = req.body;
     
@@ -245,6 +270,9 @@ aiToolsRouter.post("/ai/text-to-speech", async (req: Request, res: Response) =>
       audioPath: audioResult.audioPath,
       status: "finalized"
     });
+    if (updatedScript && script.status !== "finalized") {
+      announceFinalizedScript(updatedScript);
+    }
     
     res.json({
       script: updatedScript,
@@ -259,7 +287,7 @@ aiToolsRouter.post("/ai/text-to-speech", async (req: Request, res: Response) =>
   }
 });
 
-aiToolsRouter.post("/ai/generate-video", async (req: Request, res: Response) => {
+aiToolsRouter.post("/ai/generate-video", requirePermission("content:write"), requireAIContentGeneration, async (req: Request, res: Response) => {
   try {
     const { scriptId, resolution, style, voiceType } = req.body;
     
@@ -298,6 +326,9 @@ aiToolsRouter.post("/ai/generate-video", async (req: Request, res: Response) =>
       }
     });
     
+    webhookDispatcher.dispatch("content.created", { content: newContent })
+      .catch((error) => console.error(`Sending webhooks for content ${newContent.id} failed:`, error));
+    
     // Update the script status
     await storage.updateScript(script.id, {
       status: "converted"
@@ -312,7 +343,7 @@ aiToolsRouter.post("/ai/generate-video", async (req: Request, res: Response) =>
   }
 });
 
-aiToolsRouter.post("/ai/download-model", async (req: Request, res: Response) => {
+aiToolsRouter.post("/ai/download-model", requirePermission("settings:manage"), async (req: Request, res: Response) => {
   try {
     const { configId } = req.body;
     
@@ -324,6 +355,15 @@ aiToolsRouter.post("/ai/download-model", async (req: Request, res: Response) =>
     if (!config) {
       return res.status(404).json({ error: "AI Config not found" });
     }
+
+    // Respect the model limit from system settings
+    const { maxModelsLoaded } = await getSystemSettings();
+    const loadedModels = (await storage.getAiConfigs()).filter(
+      (c) => c.id !== config.id && c.downloadStatus === "available"
+    );
+    if (loadedModels.length >= maxModelsLoaded) {
+      return res.status(409).json({ error: `Model limit reached (${maxModelsLoaded}); remove a model or raise the limit in system settings` });
+    }
     
     // Update status to downloading
     await storage.updateAiConfig(config.id, {
@@ -358,7 +398,7 @@ aiToolsRouter.post("/ai/download-model", async (req: Request, res: Response) =>
 // System status endpoint
 aiToolsRouter.get("/system-status", async (_req: Request, res: Response) => {
   try {
-    const status = await storage.getSystemStatus();
+    const status = await getReportedSystemStatus();
     res.json(status);
   } catch (error) {
     res.status(500).json({ error: (error as Error).message });
@@ -0,0 +1,54 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { requireSession } from "../auth";
+import { issueApiToken, toPublicApiToken } from "../apiTokens";
+import { apiTokenInputSchema } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+
+// The signed-in user's own personal API tokens
+export const apiTokenRouter = Router();
+
+apiTokenRouter.use(requireSession);
+
+apiTokenRouter.get("/", async (req: Request, res: Response) => {
+  try {
+    const tokens = await storage.getApiTokens(req.user!.id);
+    res.json(tokens.map(toPublicApiToken));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// The full token is only ever returned here
+apiTokenRouter.post("/", async (req: Request, res: Response) => {
+  try {
+    const input = apiTokenInputSchema.parse(req.body);
+    const beyondRole = input.scopes.filter((scope) => !hasPermission(req.user!.role, scope));
+    if (beyondRole.length > 0) {
+      return res.status(400).json({ error: `Your role doesn't allow these scopes: ${beyondRole.join(", ")}` });
+    }
+
+    const { token, value } = await issueApiToken(req.user!, input);
+    res.status(201).json({ ...toPublicApiToken(token), token: value });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+apiTokenRouter.delete("/:id", async (req: Request, res: Response) => {
+  try {
+    const token = await storage.getApiToken(Number(req.params.id));
+    if (!token || token.userId !== req.user!.id) {
+      return res.status(404).json({ error: "API token not found" });
+    }
+
+    await storage.deleteApiToken(token.id);
+    res.status(204).end();
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
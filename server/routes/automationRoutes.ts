@@ -1,33 +1,29 @@
 import { Router, Request, Response } from "express";
 import { storage } from "../storage";
+import { requirePermission } from "../auth";
+import { requireAIContentGeneration, getAutomationSettings, updateAutomationSettings } from "../settings";
+import { automationSettingsObjectSchema, automationContentTypes } from "@shared/settings";
 import { z } from "zod";
-import localLLM from "../services/zeroAI/localLLM";
-import videoGenerator from "../services/zeroAI/videoGenerator";
-import localImageGenerator from "../services/zeroAI/localImageGenerator";
+import { enqueueContentGeneration } from "../services/automation/contentJobs";
+import { startBatch, getBatchDetails } from "../services/automation/batchRunner";
+import automationScheduler from "../services/automation/scheduler";
+import { checkContentForAccount } from "../services/platforms/constraints";
+import { getVariantForAccount } from "../services/publishing/variants";
+import { applyContentVariant } from "@shared/contentVariants";
 
 export const automationRouter = Router();
 
 /**
- * Get the current automation settings
+ * Get the current automation settings with the scheduler's real run times
  */
 automationRouter.get("/settings", async (_req: Request, res: Response) => {
   try {
-    // In a full implementation, this would retrieve from database
+    const [settings, status] = await Promise.all([getAutomationSettings(), automationScheduler.getStatus()]);
     res.json({
-      enabled: true,
-      postFrequency: "daily",
-      contentTypes: ["video", "image", "text"],
-      minimumInterval: 6, // hours
-      activeHours: { start: 8, end: 22 }, // 8am to 10pm
-      maxDailyPosts: 3,
-      scheduleAhead: 7, // days
-      platforms: ["YouTube", "Instagram", "Twitter"],
-      contentCreationEnabled: true,
-      audioEnabled: true,
-      autoPosting: true,
-      performanceOptimization: true,
-      lastRun: new Date().toISOString(),
-      nextRun: new Date(Date.now() + 8 * 60 * 60 * 1000).toISOString(), // 8 hours from now
+      ...settings,
+      lastRun: status.lastRun,
+      nextRun: status.nextRun,
+      lastResult: status.lastResult,
     });
   } catch (error) {
     res.status(500).json({ error: (error as Error).message });
@@ -37,34 +33,17 @@ automationRouter.get("/settings", async (_req: Request, res: Response) => {
 /**
  * Update automation settings
  */
-automationRouter.post("/settings", async (req: Request, res: Response) => {
+automationRouter.post("/settings", requirePermission("settings:manage"), async (req: Request, res: Response) => {
   try {
-    // Basic validation for settings update
-    const settingsSchema = z.object({
-      enabled: z.boolean().optional(),
-      postFrequency: z.enum(["hourly", "daily", "weekly"]).optional(),
-      contentTypes: z.array(z.enum(["video", "image", "text"])).optional(),
-      minimumInterval: z.number().min(1).max(24).optional(), // hours
-      activeHours: z.object({
-        start: z.number().min(0).max(23),
-        end: z.number().min(0).max(23)
-      }).optional(),
-      maxDailyPosts: z.number().min(1).max(10).optional(),
-      scheduleAhead: z.number().min(1).max(30).optional(), // days
-      platforms: z.array(z.string()).optional(),
-      contentCreationEnabled: z.boolean().optional(),
-      audioEnabled: z.boolean().optional(),
-      autoPosting: z.boolean().optional(),
-      performanceOptimization: z.boolean().optional()
-    });
+    const changes = automationSettingsObjectSchema.partial().parse(req.body);
+    const settings = await updateAutomationSettings(changes);
+    const status = await automationScheduler.getStatus();
 
-    const validatedData = settingsSchema.parse(req.body);
-    
-    // In a full implementation, this would update in database
-    // For now, just echo back the validated settings
     res.json({
-      ...validatedData,
-      lastUpdated: new Date().toISOString()
+      ...settings,
+      lastRun: status.lastRun,
+      nextRun: status.nextRun,
+      lastResult: status.lastResult,
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -77,12 +56,12 @@ automationRouter.post("/settings", async (req: Request, res: Response) => {
 /**
  * Trigger automated content creation
  */
-automationRouter.post("/create-content", async (req: Request, res: Response) => {
+automationRouter.post("/create-content", requirePermission("publishing:schedule"), requireAIContentGeneration, async (req: Request, res: Response) => {
   try {
     const requestSchema = z.object({
       topicId: z.number().optional(),
       platformId: z.number().optional(),
-      contentType: z.enum(["video", "image", "text"]).optional(),
+      contentType: z.enum(automationContentTypes).optional(),
       scheduleImmediately: z.boolean().optional()
     });
 
@@ -104,190 +83,30 @@ automationRouter.post("/create-content", async (req: Request, res: Response) =>
       topic = topics[0];
     }
 
-    // Determine content type to create
-    const contentType = request.contentType || "video";
-    
-    // Generate content based on the type
-    if (contentType === "video") {
-      // 1. Generate a script
-      const scriptContent = await localLLM.generateScript(
-        topic.topic,
-        "video",
-        5, // 5 minute video
-        "educational",
-        "general"
-      );
-      
-      // 2. Create script record
-      const script = await storage.createScript({
-        title: `Video about ${topic.topic}`,
-        topic: topic.topic,
-        format: "video",
-        content: scriptContent,
-        duration: 300, // 5 minutes
-        tone: "educational",
-        targetAudience: "general",
-        status: "draft"
-      });
-      
-      // 3. Generate thumbnail
-      const thumbnail = await localImageGenerator.generateThumbnail(topic.topic);
-      
-      // 4. Generate video
-      const videoResult = await videoGenerator.generateVideo({
-        script: scriptContent,
-        title: script.title,
-        resolution: "720p",
-        style: "dynamic",
-        thumbnailPrompt: `Thumbnail for video about ${topic.topic}`
-      });
-      
-      // 5. Create content record
-      const content = await storage.createContent({
-        title: script.title,
-        description: `Auto-generated video about ${topic.topic}`,
-        contentType: "video",
-        status: "ready",
-        filePath: videoResult.videoPath,
-        thumbnailPath: videoResult.thumbnailPath,
-        metadata: {
-          duration: videoResult.duration,
-          format: videoResult.format,
-          resolution: videoResult.resolution,
-          scriptId: script.id,
-          topic: topic.topic,
-          automated: true
-        }
-      });
-      
-      // 6. Optionally schedule the post
-      let scheduledPost = null;
-      if (request.scheduleImmediately && request.platformId) {
-        // Get platform account for scheduling
-        const accounts = await storage.getPlatformAccountsByPlatform(request.platformId);
-        if (accounts.length > 0) {
-          const account = accounts[0];
-          
-          // Schedule post for 1 hour from now
-          scheduledPost = await storage.createScheduledPost({
-            contentId: content.id,
-            platformAccountId: account.id,
-            scheduledTime: new Date(Date.now() + 60 * 60 * 1000), // 1 hour from now
-            status: "pending"
-          });
-        }
-      }
-      
-      // 7. Return results
-      res.status(201).json({
-        success: true,
-        topic,
-        script,
-        content,
-        video: videoResult,
-        scheduledPost
-      });
-    } else if (contentType === "image") {
-      // Generate image post
-      const imagePrompt = `Create a visually appealing image about ${topic.topic} that would be perfect for social media`;
-      
-      // Generate image
-      const image = await localImageGenerator.generateImage({
-        prompt: imagePrompt,
-        size: "1024x1024",
-        style: "artistic"
-      });
-      
-      // Create content record
-      const content = await storage.createContent({
-        title: `Image about ${topic.topic}`,
-        description: topic.description || `An image about ${topic.topic}`,
-        contentType: "image",
-        status: "ready",
-        filePath: image.imagePath,
-        thumbnailPath: image.imagePath,
-        metadata: {
-          prompt: imagePrompt,
-          style: "artistic",
-          size: image.size,
-          generationTime: image.generationTime,
-          topic: topic.topic,
-          automated: true
-        }
-      });
-      
-      // Optionally schedule the post
-      let scheduledPost = null;
-      if (request.scheduleImmediately && request.platformId) {
-        const accounts = await storage.getPlatformAccountsByPlatform(request.platformId);
-        if (accounts.length > 0) {
-          const account = accounts[0];
-          
-          scheduledPost = await storage.createScheduledPost({
-            contentId: content.id,
-            platformAccountId: account.id,
-            scheduledTime: new Date(Date.now() + 60 * 60 * 1000), // 1 hour from now
-            status: "pending"
-          });
-        }
+    // Optionally schedule the post on the platform's first account once generated
+    const schedule = [];
+    if (request.scheduleImmediately && request.platformId) {
+      const accounts = await storage.getPlatformAccountsByPlatform(request.platformId);
+      if (accounts.length > 0) {
+        schedule.push({
+          platformAccountId: accounts[0].id,
+          scheduledTime: new Date(Date.now() + 60 * 60 * 1000).toISOString() // 1 hour from now
+        });
       }
-      
-      res.status(201).json({
-        success: true,
-        topic,
-        content,
-        image,
-        scheduledPost
-      });
-    } else {
-      // Generate text post
-      const postContent = await localLLM.generateContent(
-        topic.topic,
-        "social media",
-        "engaging",
-        "general"
-      );
-      
-      // Create content record
-      const content = await storage.createContent({
-        title: `Post about ${topic.topic}`,
-        description: postContent,
-        contentType: "text",
-        status: "ready",
-        filePath: null,
-        thumbnailPath: null,
-        metadata: {
-          topic: topic.topic,
-          platform: "multiple",
-          contentLength: postContent.length,
-          automated: true
-        }
-      });
-      
-      // Optionally schedule the post
-      let scheduledPost = null;
-      if (request.scheduleImmediately && request.platformId) {
-        const accounts = await storage.getPlatformAccountsByPlatform(request.platformId);
-        if (accounts.length > 0) {
-          const account = accounts[0];
-          
-          scheduledPost = await storage.createScheduledPost({
-            contentId: content.id,
-            platformAccountId: account.id,
-            scheduledTime: new Date(Date.now() + 60 * 60 * 1000), // 1 hour from now
-            status: "pending"
-          });
-        }
-      }
-      
-      res.status(201).json({
-        success: true,
-        topic,
-        content,
-        text: postContent,
-        scheduledPost
-      });
     }
+
+    // Generation runs in the background; poll /jobs/:id for progress and the result
+    const job = await enqueueContentGeneration({
+      topicId: topic.id,
+      contentType: request.contentType || "video",
+      schedule
+    });
+
+    res.status(202).json({
+      success: true,
+      topic,
+      job
+    });
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: error.errors });
@@ -299,7 +118,7 @@ automationRouter.post("/create-content", async (req: Request, res: Response) =>
 /**
  * Create a scheduled content post
  */
-automationRouter.post("/schedule", async (req: Request, res: Response) => {
+automationRouter.post("/schedule", requirePermission("publishing:schedule"), async (req: Request, res: Response) => {
   try {
     const requestSchema = z.object({
       contentId: z.number(),
@@ -321,13 +140,21 @@ automationRouter.post("/schedule", async (req: Request, res: Response) => {
     if (!account) {
       return res.status(404).json({ error: "Platform account not found" });
     }
+
+    // Check that the platform will accept the content, as adapted for it
+    const variant = await getVariantForAccount(content, account);
+    const { platform, violations } = await checkContentForAccount(applyContentVariant(content, variant), account);
+    if (violations.length > 0) {
+      return res.status(422).json({ error: `Content does not meet ${platform} requirements`, violations });
+    }
     
     // Create the scheduled post
     const post = await storage.createScheduledPost({
       contentId: request.contentId,
       platformAccountId: request.platformAccountId,
       scheduledTime: new Date(request.scheduledTime),
-      status: request.status || "pending"
+      status: request.status || "pending",
+      variantId: variant?.id ?? null
     });
     
     res.status(201).json(post);
@@ -339,6 +166,21 @@ automationRouter.post("/schedule", async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Get a background job with its progress and result
+ */
+automationRouter.get("/jobs/:id", async (req: Request, res: Response) => {
+  try {
+    const job = await storage.getJob(parseInt(req.params.id));
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+    res.json(job);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
 /**
  * Get automation queue status
  */
@@ -347,20 +189,25 @@ automationRouter.get("/queue", async (_req: Request, res: Response) => {
     // Get the upcoming scheduled posts
     const upcomingPosts = await storage.getUpcomingScheduledPosts(10);
     
-    // In a full implementation, we would also get current processing jobs
-    const processingJobs: Array<{
-      id: number;
-      type: string;
-      status: string;
-      progress: number;
-      startedAt: Date | null;
-    }> = []; // Placeholder
+    // Jobs waiting for or held by a worker
+    const processingJobs = (await storage.getJobsByStatus(["queued", "processing"])).map((job) => ({
+      id: job.id,
+      type: job.type,
+      status: job.status,
+      progress: job.progress,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt
+    }));
+
+    const lastFinished = (await storage.getJobsByStatus(["completed", "failed"]))
+      .filter((job) => job.completedAt)
+      .sort((a, b) => b.completedAt!.getTime() - a.completedAt!.getTime())[0];
     
     res.json({
       queueSize: upcomingPosts.length + processingJobs.length,
       upcomingPosts,
       processingJobs,
-      lastProcessed: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(), // 2 hours ago
+      lastProcessed: lastFinished ? lastFinished.completedAt!.toISOString() : null,
       nextScheduled: upcomingPosts.length > 0 ? upcomingPosts[0].scheduledTime.toISOString() : null
     });
   } catch (error) {
@@ -369,52 +216,60 @@ automationRouter.get("/queue", async (_req: Request, res: Response) => {
 });
 
 /**
- * Run an AI batch operation
+ * Run an AI batch operation: generate content for the top trending topics
+ * in each requested content type
  */
-automationRouter.post("/batch-run", async (_req: Request, res: Response) => {
+automationRouter.post("/batch-run", requirePermission("publishing:schedule"), requireAIContentGeneration, async (req: Request, res: Response) => {
   try {
-    // In a full implementation, this would schedule a background batch job
-    // For now, return a mock response
-    
-    // Get trending topics for content creation
-    const topics = await storage.getTopTrendingTopics(3);
-    
-    // Create scheduled task records
-    const tasks = [
-      {
-        id: 1,
-        type: "content_creation",
-        topic: topics[0]?.topic || "AI content creation",
-        contentType: "video",
-        status: "queued",
-        scheduledTime: new Date(Date.now() + 5 * 60 * 1000).toISOString() // 5 minutes from now
-      },
-      {
-        id: 2,
-        type: "content_creation",
-        topic: topics[1]?.topic || "Self-hosted applications",
-        contentType: "image",
-        status: "queued",
-        scheduledTime: new Date(Date.now() + 15 * 60 * 1000).toISOString() // 15 minutes from now
-      },
-      {
-        id: 3,
-        type: "content_creation",
-        topic: topics[2]?.topic || "Content automation",
-        contentType: "text",
-        status: "queued",
-        scheduledTime: new Date(Date.now() + 30 * 60 * 1000).toISOString() // 30 minutes from now
-      }
-    ];
-    
-    res.json({
-      success: true,
-      message: "Batch operation scheduled",
-      batchId: "auto-" + Date.now(),
-      startTime: new Date().toISOString(),
-      estimatedCompletionTime: new Date(Date.now() + 45 * 60 * 1000).toISOString(), // 45 minutes from now
-      tasks
+    const requestSchema = z.object({
+      topicCount: z.number().int().min(1).max(10).optional(),
+      contentTypes: z.array(z.enum(automationContentTypes)).min(1).optional()
+    });
+
+    const request = requestSchema.parse(req.body ?? {});
+    const settings = await getAutomationSettings();
+
+    const topics = await storage.getTopTrendingTopics(1);
+    if (topics.length === 0) {
+      return res.status(404).json({ error: "No trending topics available" });
+    }
+
+    const batch = await startBatch({
+      topicCount: request.topicCount ?? 3,
+      contentTypes: request.contentTypes ?? settings.contentTypes
     });
+    
+    res.status(202).json(await getBatchDetails(batch.id));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+/**
+ * List batch runs, newest first
+ */
+automationRouter.get("/batches", async (_req: Request, res: Response) => {
+  try {
+    const batches = await storage.getBatches();
+    res.json(batches.reverse());
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+/**
+ * Get a batch run with the status of each of its tasks
+ */
+automationRouter.get("/batches/:id", async (req: Request, res: Response) => {
+  try {
+    const batch = await getBatchDetails(parseInt(req.params.id));
+    if (!batch) {
+      return res.status(404).json({ error: "Batch not found" });
+    }
+    res.json(batch);
   } catch (error) {
     res.status(500).json({ error: (error as Error).message });
   }
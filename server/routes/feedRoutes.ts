@@ -0,0 +1,70 @@
+import { Router, Request, Response } from "express";
+import { promises as fs } from "fs";
+import { storage } from "../storage";
+import { getAdapter } from "../services/platforms/registry";
+import { isRemoteMedia, resolveMediaPath } from "../services/platforms/media";
+import feedAdapter, { feedPath } from "../services/platforms/feed/feedAdapter";
+import { renderAtom, renderPodcast, renderRss, type FeedChannel } from "../services/platforms/feed/feedRenderer";
+import type { FeedItem, PlatformAccount } from "@shared/schema";
+
+// Public, unauthenticated feeds for accounts on the "Feed" platform
+export const feedRouter = Router();
+
+function baseUrl(req: Request): string {
+  return (process.env.PUBLIC_BASE_URL || `${req.protocol}://${req.get("host")}`).replace(/\/$/, "");
+}
+
+// The active Feed platform account with this ID, if there is one
+async function findFeedAccount(id: number): Promise<PlatformAccount | undefined> {
+  const account = Number.isInteger(id) ? await storage.getPlatformAccount(id) : undefined;
+  if (!account || !account.active) return undefined;
+
+  const platform = await storage.getPlatform(account.platformId);
+  return platform && getAdapter(platform.name) === feedAdapter ? account : undefined;
+}
+
+// Enclosure sizes for audio files stored locally (under MEDIA_ROOT)
+async function audioSizes(items: FeedItem[]): Promise<Map<string, number>> {
+  const sizes = new Map<string, number>();
+  for (const item of items) {
+    if (!item.audioPath || sizes.has(item.audioPath) || isRemoteMedia(item.audioPath)) continue;
+    try {
+      sizes.set(item.audioPath, (await fs.stat(resolveMediaPath(item.audioPath))).size);
+    } catch {
+      // Not stored locally; the enclosure length stays 0 (unknown)
+    }
+  }
+  return sizes;
+}
+
+async function serveFeed(req: Request, res: Response, format: "rss" | "atom" | "podcast") {
+  try {
+    const account = await findFeedAccount(Number(req.params.accountId));
+    if (!account) {
+      return res.status(404).json({ error: "Feed not found" });
+    }
+
+    const items = await storage.getFeedItems(account.id);
+    const channel: FeedChannel = {
+      title: account.name,
+      description: `Posts from ${account.name}`,
+      author: account.username,
+      baseUrl: baseUrl(req),
+      feedPath: feedPath(account.id),
+    };
+
+    if (format === "atom") {
+      res.type("application/atom+xml").send(renderAtom(channel, items));
+    } else if (format === "podcast") {
+      res.type("application/rss+xml").send(renderPodcast(channel, items, await audioSizes(items)));
+    } else {
+      res.type("application/rss+xml").send(renderRss(channel, items));
+    }
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+}
+
+feedRouter.get("/:accountId/rss.xml", (req: Request, res: Response) => serveFeed(req, res, "rss"));
+feedRouter.get("/:accountId/atom.xml", (req: Request, res: Response) => serveFeed(req, res, "atom"));
+feedRouter.get("/:accountId/podcast.xml", (req: Request, res: Response) => serveFeed(req, res, "podcast"));
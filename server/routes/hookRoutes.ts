@@ -0,0 +1,131 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { hasRequestPermission, requirePermission } from "../auth";
+import { authenticateSignedRequest } from "../apiTokens";
+import { requireAIContentGeneration } from "../settings";
+import { automationContentTypes } from "@shared/settings";
+import { enqueueContentGeneration } from "../services/automation/contentJobs";
+import type { Platform, TrendingTopic } from "@shared/schema";
+
+const createContentHookSchema = z.object({
+  topic: z.string().trim().min(1).max(200).optional(), // matched to a trending topic by name, or added as one
+  topicId: z.number().int().optional(),
+  category: z.string().trim().min(1).max(100).optional(), // for new topics
+  description: z.string().trim().max(2000).optional(), // for new topics
+  contentType: z.enum(automationContentTypes).default("video"),
+  platform: z.union([z.string().trim().min(1), z.number().int()]).optional(), // name or ID; schedules the result
+  scheduledTime: z.string().datetime().optional(), // defaults to an hour from now
+}).refine((body) => body.topic !== undefined || body.topicId !== undefined, {
+  message: "Give a topic or a topicId",
+  path: ["topic"],
+});
+
+/**
+ * Endpoints for other systems (cron jobs, forms, a CMS) to call without a
+ * browser session. Callers either send "Authorization: Bearer <API token>" or
+ * sign the JSON body with the token: X-Token-Id, X-Timestamp (Unix seconds)
+ * and X-Signature ("sha256=" plus the hex HMAC-SHA256 of "<timestamp>.<body>",
+ * keyed with the full token); a signed request is accepted only once. Either
+ * way the token's scopes apply.
+ */
+export const hookRouter = Router();
+
+async function authenticateHook(req: Request, res: Response, next: NextFunction) {
+  if (req.apiToken) {
+    return next();
+  }
+
+  const tokenId = req.header("X-Token-Id");
+  const timestamp = req.header("X-Timestamp");
+  const signature = req.header("X-Signature");
+  if (!tokenId || !timestamp || !signature) {
+    return res.status(401).json({ error: "Send an API token or sign the request with one" });
+  }
+
+  try {
+    const auth = await authenticateSignedRequest(tokenId, timestamp, signature, req.rawBody ?? Buffer.alloc(0));
+    if ("error" in auth) {
+      return res.status(401).json({ error: auth.error });
+    }
+    req.user = auth.user;
+    req.apiToken = auth.token;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+async function findPlatform(platform: string | number): Promise<Platform | undefined> {
+  if (typeof platform === "number") return storage.getPlatform(platform);
+  const name = platform.toLowerCase();
+  return (await storage.getPlatforms()).find((candidate) => candidate.name.toLowerCase() === name);
+}
+
+async function findOrAddTopic(topic: string, category?: string, description?: string): Promise<TrendingTopic> {
+  const name = topic.toLowerCase();
+  const existing = (await storage.getTrendingTopics()).find((candidate) => candidate.topic.toLowerCase() === name);
+  if (existing) return existing;
+
+  return storage.createTrendingTopic({
+    topic,
+    category: category ?? "requested",
+    description: description ?? null,
+    trendScore: 0, // asked for, not discovered, so it doesn't rank among real trends
+  });
+}
+
+/**
+ * Queue content generation and answer with the job to poll
+ * (GET /api/auto-scheduler/jobs/:id). Scheduling the result on a platform
+ * also needs publishing:schedule.
+ */
+hookRouter.post(
+  "/create-content",
+  authenticateHook,
+  requirePermission("content:write"),
+  requireAIContentGeneration,
+  async (req: Request, res: Response) => {
+    try {
+      const request = createContentHookSchema.parse(req.body);
+      if (request.platform !== undefined && !hasRequestPermission(req, "publishing:schedule")) {
+        return res.status(403).json({ error: "Scheduling the content needs the publishing:schedule permission" });
+      }
+
+      // Check the target before adding a topic, so a bad request leaves nothing behind
+      const schedule = [];
+      if (request.platform !== undefined) {
+        const platform = await findPlatform(request.platform);
+        if (!platform) {
+          return res.status(404).json({ error: `Platform ${request.platform} not found` });
+        }
+        const account = (await storage.getPlatformAccountsByPlatform(platform.id)).find((candidate) => candidate.active);
+        if (!account) {
+          return res.status(422).json({ error: `${platform.name} has no active account to post with` });
+        }
+        schedule.push({
+          platformAccountId: account.id,
+          scheduledTime: request.scheduledTime ?? new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+        });
+      }
+
+      let topic: TrendingTopic | undefined;
+      if (request.topicId !== undefined) {
+        topic = await storage.getTrendingTopic(request.topicId);
+        if (!topic) {
+          return res.status(404).json({ error: "Topic not found" });
+        }
+      } else {
+        topic = await findOrAddTopic(request.topic!, request.category, request.description);
+      }
+
+      const job = await enqueueContentGeneration({ topicId: topic.id, contentType: request.contentType, schedule });
+      res.status(202).json({ jobId: job.id, topic, job });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: (error as Error).message });
+    }
+  }
+);
@@ -0,0 +1,174 @@
+import { Router, Request, Response } from "express";
+import { randomBytes } from "crypto";
+import { z } from "zod";
+import { storage } from "../storage";
+import { requirePermission } from "../auth";
+import { getAdapter } from "../services/platforms/registry";
+import newsletterAdapter from "../services/platforms/newsletter/newsletterAdapter";
+import type { NewsletterSubscriber, PlatformAccount, PublicNewsletterSubscriber } from "@shared/schema";
+
+const subscriberSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  name: z.string().trim().max(200).nullable().optional(),
+});
+
+const subscriberUpdateSchema = z.object({
+  name: z.string().trim().max(200).nullable().optional(),
+  subscribed: z.boolean().optional(),
+});
+
+// Subscriber lists of "Newsletter" platform accounts
+export const newsletterRouter = Router();
+
+// The public unsubscribe pages linked from every newsletter email
+export const unsubscribeRouter = Router();
+
+// The Newsletter platform account with this ID, if there is one
+async function findNewsletterAccount(id: number): Promise<PlatformAccount | undefined> {
+  const account = Number.isInteger(id) ? await storage.getPlatformAccount(id) : undefined;
+  if (!account) return undefined;
+
+  const platform = await storage.getPlatform(account.platformId);
+  return platform && getAdapter(platform.name) === newsletterAdapter ? account : undefined;
+}
+
+function toPublicSubscriber(subscriber: NewsletterSubscriber): PublicNewsletterSubscriber {
+  const { unsubscribeToken: _unsubscribeToken, ...rest } = subscriber;
+  return rest;
+}
+
+newsletterRouter.get("/:accountId/subscribers", requirePermission("platforms:manage"), async (req: Request, res: Response) => {
+  try {
+    const account = await findNewsletterAccount(Number(req.params.accountId));
+    if (!account) {
+      return res.status(404).json({ error: "Newsletter not found" });
+    }
+
+    res.json((await storage.getNewsletterSubscribers(account.id)).map(toPublicSubscriber));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+newsletterRouter.post("/:accountId/subscribers", requirePermission("platforms:manage"), async (req: Request, res: Response) => {
+  try {
+    const account = await findNewsletterAccount(Number(req.params.accountId));
+    if (!account) {
+      return res.status(404).json({ error: "Newsletter not found" });
+    }
+
+    const { email, name } = subscriberSchema.parse(req.body);
+    if (await storage.getNewsletterSubscriberByEmail(account.id, email)) {
+      return res.status(409).json({ error: `${email} is already on this newsletter's list` });
+    }
+
+    const subscriber = await storage.createNewsletterSubscriber({
+      platformAccountId: account.id,
+      email,
+      name: name || null,
+      unsubscribeToken: randomBytes(24).toString("hex"),
+    });
+    res.status(201).json(toPublicSubscriber(subscriber));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+newsletterRouter.patch("/:accountId/subscribers/:id", requirePermission("platforms:manage"), async (req: Request, res: Response) => {
+  try {
+    const subscriber = await storage.getNewsletterSubscriber(Number(req.params.id));
+    if (!subscriber || subscriber.platformAccountId !== Number(req.params.accountId)) {
+      return res.status(404).json({ error: "Subscriber not found" });
+    }
+
+    const { name, subscribed } = subscriberUpdateSchema.parse(req.body);
+    const updated = await storage.updateNewsletterSubscriber(subscriber.id, {
+      ...(name !== undefined ? { name: name || null } : {}),
+      ...(subscribed !== undefined && subscribed !== subscriber.subscribed
+        ? { subscribed, unsubscribedAt: subscribed ? null : new Date() }
+        : {}),
+    });
+    res.json(updated && toPublicSubscriber(updated));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+newsletterRouter.delete("/:accountId/subscribers/:id", requirePermission("platforms:manage"), async (req: Request, res: Response) => {
+  try {
+    const subscriber = await storage.getNewsletterSubscriber(Number(req.params.id));
+    if (!subscriber || subscriber.platformAccountId !== Number(req.params.accountId)) {
+      return res.status(404).json({ error: "Subscriber not found" });
+    }
+
+    await storage.deleteNewsletterSubscriber(subscriber.id);
+    res.status(204).end();
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function page(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>${escapeHtml(title)}</title></head>
+<body style="font-family:-apple-system,'Segoe UI',Helvetica,Arial,sans-serif;max-width:480px;margin:64px auto;padding:0 16px;color:#111827;">
+<h1 style="font-size:22px;">${escapeHtml(title)}</h1>
+${body}
+</body>
+</html>`;
+}
+
+/**
+ * Confirmation page; unsubscribing itself is a POST so link scanners in mail
+ * clients can't trigger it
+ */
+unsubscribeRouter.get("/unsubscribe/:token", async (req: Request, res: Response) => {
+  try {
+    const subscriber = await storage.getNewsletterSubscriberByToken(req.params.token);
+    if (!subscriber) {
+      return res.status(404).type("html").send(page("Link not recognised", "<p>This unsubscribe link is not valid.</p>"));
+    }
+
+    const account = await storage.getPlatformAccount(subscriber.platformAccountId);
+    const newsletter = escapeHtml(account?.name ?? "this newsletter");
+    if (!subscriber.subscribed) {
+      return res.type("html").send(page("Already unsubscribed", `<p>${escapeHtml(subscriber.email)} no longer receives ${newsletter}.</p>`));
+    }
+
+    res.type("html").send(page(
+      "Unsubscribe",
+      `<p>Stop sending ${newsletter} to ${escapeHtml(subscriber.email)}?</p>
+<form method="post"><button type="submit" style="padding:8px 16px;font-size:15px;">Unsubscribe</button></form>`
+    ));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Used by the confirmation page and by mail clients' one-click unsubscribe (RFC 8058)
+unsubscribeRouter.post("/unsubscribe/:token", async (req: Request, res: Response) => {
+  try {
+    const subscriber = await storage.getNewsletterSubscriberByToken(req.params.token);
+    if (!subscriber) {
+      return res.status(404).type("html").send(page("Link not recognised", "<p>This unsubscribe link is not valid.</p>"));
+    }
+
+    if (subscriber.subscribed) {
+      await storage.updateNewsletterSubscriber(subscriber.id, { subscribed: false, unsubscribedAt: new Date() });
+    }
+    res.type("html").send(page("Unsubscribed", `<p>${escapeHtml(subscriber.email)} will not receive any more emails from this newsletter.</p>`));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
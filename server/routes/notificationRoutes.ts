@@ -0,0 +1,39 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+
+const DEFAULT_LIMIT = 30;
+const MAX_LIMIT = 100;
+
+const markReadSchema = z.object({
+  ids: z.array(z.number().int()).optional(), // missing: mark everything read
+});
+
+// The signed-in user's in-app notifications (the bell in the header)
+export const notificationRouter = Router();
+
+notificationRouter.get("/", async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(Number(req.query.limit) || DEFAULT_LIMIT, MAX_LIMIT);
+    const [notifications, unreadCount] = await Promise.all([
+      storage.getUserNotifications(req.user!.id, limit),
+      storage.getUnreadNotificationCount(req.user!.id),
+    ]);
+    res.json({ notifications, unreadCount });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+notificationRouter.post("/read", async (req: Request, res: Response) => {
+  try {
+    const { ids } = markReadSchema.parse(req.body ?? {});
+    const updated = await storage.markNotificationsRead(req.user!.id, ids);
+    res.json({ updated, unreadCount: await storage.getUnreadNotificationCount(req.user!.id) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
@@ -0,0 +1,172 @@
+import { Router, Request, Response } from "express";
+import { createHash, randomBytes } from "crypto";
+import { z } from "zod";
+import { storage } from "../storage";
+import { requirePermission } from "../auth";
+import { sealPlatformTokens } from "../vault";
+import { getAdapter, supportsOAuth } from "../services/platforms/registry";
+import type { PlatformAccount } from "@shared/schema";
+
+// An authorization started in this session, keyed by its state parameter
+interface PendingAuthorization {
+  platformId: number;
+  accountId: number | null; // set when reconnecting an existing account
+  codeVerifier: string;
+  redirectUri: string;
+  expiresAt: number;
+}
+
+declare module "express-session" {
+  interface SessionData {
+    oauthFlows?: Record<string, PendingAuthorization>;
+  }
+}
+
+const FLOW_TTL_MS = 10 * 60 * 1000;
+const SETTINGS_PAGE = "/settings";
+
+const startSchema = z.object({
+  accountId: z.coerce.number().int().positive().optional(),
+});
+
+export const oauthRouter = Router();
+
+function callbackUrl(req: Request): string {
+  return process.env.OAUTH_REDIRECT_URL || `${req.protocol}://${req.get("host")}/api/oauth/callback`;
+}
+
+// Send the browser back to the settings page with the outcome in the query string
+function finish(res: Response, outcome: { connected: string } | { error: string }) {
+  const params = new URLSearchParams("connected" in outcome ? { oauth: "connected", account: outcome.connected } : { oauth: "error", message: outcome.error });
+  res.redirect(`${SETTINGS_PAGE}?${params}`);
+}
+
+/**
+ * Platforms whose adapter can connect accounts through OAuth
+ */
+oauthRouter.get("/providers", async (_req: Request, res: Response) => {
+  try {
+    const platforms = await storage.getPlatforms();
+    res.json(
+      platforms
+        .filter((platform) => {
+          const adapter = getAdapter(platform.name);
+          return adapter !== undefined && supportsOAuth(adapter);
+        })
+        .map((platform) => ({ platformId: platform.id, platform: platform.name }))
+    );
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+/**
+ * Begin an authorization-code flow with PKCE. Returns the URL to send the
+ * browser to; the platform redirects back to /api/oauth/callback.
+ */
+oauthRouter.post("/:platformId/start", requirePermission("platforms:manage"), async (req: Request, res: Response) => {
+  try {
+    const { accountId } = startSchema.parse(req.body ?? {});
+    const platform = await storage.getPlatform(Number(req.params.platformId));
+    if (!platform) {
+      return res.status(404).json({ error: "Platform not found" });
+    }
+
+    const adapter = getAdapter(platform.name);
+    if (!adapter || !supportsOAuth(adapter)) {
+      return res.status(400).json({ error: `${platform.name} does not support connecting with OAuth` });
+    }
+
+    if (accountId !== undefined) {
+      const account = await storage.getPlatformAccount(accountId);
+      if (!account || account.platformId !== platform.id) {
+        return res.status(404).json({ error: "Platform account not found" });
+      }
+    }
+
+    const state = randomBytes(16).toString("hex");
+    const codeVerifier = randomBytes(32).toString("base64url");
+    const codeChallenge = createHash("sha256").update(codeVerifier).digest("base64url");
+    const redirectUri = callbackUrl(req);
+
+    // Drop abandoned flows so the session doesn't grow
+    const now = Date.now();
+    const flows = Object.fromEntries(Object.entries(req.session.oauthFlows ?? {}).filter(([, flow]) => flow.expiresAt > now));
+    flows[state] = { platformId: platform.id, accountId: accountId ?? null, codeVerifier, redirectUri, expiresAt: now + FLOW_TTL_MS };
+    req.session.oauthFlows = flows;
+
+    res.json({ authorizationUrl: adapter.getAuthorizationUrl!({ state, codeChallenge, redirectUri }) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+/**
+ * Redirect target for the platform: exchange the code for tokens and create
+ * or reconnect the account
+ */
+oauthRouter.get("/callback", async (req: Request, res: Response) => {
+  const state = typeof req.query.state === "string" ? req.query.state : "";
+  const flow = req.session.oauthFlows?.[state];
+  if (flow) {
+    delete req.session.oauthFlows![state];
+  }
+
+  if (!flow || flow.expiresAt <= Date.now()) {
+    return finish(res, { error: "The authorization request expired or was not started here. Please try again." });
+  }
+  if (typeof req.query.error === "string") {
+    const description = typeof req.query.error_description === "string" ? req.query.error_description : req.query.error;
+    return finish(res, { error: `Authorization was not granted: ${description}` });
+  }
+  if (typeof req.query.code !== "string") {
+    return finish(res, { error: "The platform did not return an authorization code" });
+  }
+
+  try {
+    const platform = await storage.getPlatform(flow.platformId);
+    const adapter = platform && getAdapter(platform.name);
+    if (!platform || !adapter || !supportsOAuth(adapter)) {
+      return finish(res, { error: "The platform is no longer available" });
+    }
+
+    const authorized = await adapter.exchangeCode!(req.query.code, flow.codeVerifier, flow.redirectUri);
+    const tokens = {
+      ...sealPlatformTokens({ accessToken: authorized.accessToken, refreshToken: authorized.refreshToken ?? null }),
+      tokenExpiry: authorized.expiresAt ?? null,
+    };
+
+    // Reconnect the chosen account, or the one already linked to this platform user
+    let account: PlatformAccount | undefined;
+    if (flow.accountId !== null) {
+      account = await storage.getPlatformAccount(flow.accountId);
+    } else {
+      const existing = await storage.getPlatformAccountsByPlatform(platform.id);
+      account = existing.find((candidate) => candidate.username === authorized.username);
+    }
+
+    if (account) {
+      account = await storage.updatePlatformAccount(account.id, {
+        ...tokens,
+        username: authorized.username,
+        needsReconnect: false,
+        connectionError: null,
+      });
+    } else {
+      account = await storage.createPlatformAccount({
+        ...tokens,
+        platformId: platform.id,
+        name: authorized.name || authorized.username,
+        username: authorized.username,
+        followerCount: authorized.followerCount ?? null,
+      });
+    }
+
+    finish(res, { connected: account?.name ?? authorized.username });
+  } catch (error) {
+    finish(res, { error: `Could not complete the connection: ${(error as Error).message}` });
+  }
+});
@@ -0,0 +1,136 @@
+import { Router, Request, Response } from "express";
+import { randomBytes } from "crypto";
+import { z } from "zod";
+import { storage } from "../storage";
+import { requirePermission } from "../auth";
+import { encryptSecret, maskSecret } from "../vault";
+import webhookDispatcher from "../services/webhooks/webhookDispatcher";
+import { webhookInputSchema, type PublicWebhook, type Webhook } from "@shared/schema";
+
+const DELIVERY_LOG_LIMIT = 50;
+
+// Webhook subscriptions and their delivery log; only settings managers see them
+export const webhookRouter = Router();
+
+webhookRouter.use(requirePermission("settings:manage"));
+
+function toPublicWebhook(webhook: Webhook): PublicWebhook {
+  const { encryptedSecret: _encryptedSecret, ...rest } = webhook;
+  return rest;
+}
+
+function generateSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+webhookRouter.get("/", async (req: Request, res: Response) => {
+  try {
+    const webhooks = await storage.getWebhooks();
+    res.json(webhooks.map(toPublicWebhook));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// The signing secret is only ever returned here and by /rotate-secret
+webhookRouter.post("/", async (req: Request, res: Response) => {
+  try {
+    const { secret = generateSecret(), ...details } = webhookInputSchema.parse(req.body);
+    const webhook = await storage.createWebhook({
+      ...details,
+      description: details.description || null,
+      encryptedSecret: encryptSecret(secret),
+      secretPreview: maskSecret(secret),
+    });
+    res.status(201).json({ ...toPublicWebhook(webhook), secret });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+webhookRouter.patch("/:id", async (req: Request, res: Response) => {
+  try {
+    const details = webhookInputSchema.omit({ secret: true }).partial().parse(req.body);
+    const webhook = await storage.updateWebhook(Number(req.params.id), {
+      ...details,
+      ...(details.description !== undefined ? { description: details.description || null } : {}),
+    });
+    if (!webhook) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+    res.json(toPublicWebhook(webhook));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+webhookRouter.post("/:id/rotate-secret", async (req: Request, res: Response) => {
+  try {
+    const secret = generateSecret();
+    const webhook = await storage.updateWebhook(Number(req.params.id), {
+      encryptedSecret: encryptSecret(secret),
+      secretPreview: maskSecret(secret),
+    });
+    if (!webhook) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+    res.json({ ...toPublicWebhook(webhook), secret });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+webhookRouter.delete("/:id", async (req: Request, res: Response) => {
+  try {
+    const deleted = await storage.deleteWebhook(Number(req.params.id));
+    if (!deleted) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+    res.status(204).end();
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Send a "ping" event; the result shows up in the delivery log
+webhookRouter.post("/:id/test", async (req: Request, res: Response) => {
+  try {
+    const webhook = await storage.getWebhook(Number(req.params.id));
+    if (!webhook) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+    res.status(202).json(await webhookDispatcher.ping(webhook));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+webhookRouter.get("/:id/deliveries", async (req: Request, res: Response) => {
+  try {
+    const webhook = await storage.getWebhook(Number(req.params.id));
+    if (!webhook) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+    res.json(await storage.getWebhookDeliveries(webhook.id, DELIVERY_LOG_LIMIT));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+webhookRouter.post("/:id/deliveries/:deliveryId/redeliver", async (req: Request, res: Response) => {
+  try {
+    const delivery = await storage.getWebhookDelivery(Number(req.params.deliveryId));
+    if (!delivery || delivery.webhookId !== Number(req.params.id)) {
+      return res.status(404).json({ error: "Delivery not found" });
+    }
+    res.status(202).json(await webhookDispatcher.redeliver(delivery));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
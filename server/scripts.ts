@@ -1,10 +1,12 @@
 import { Router } from "express";
 import { storage } from "./storage";
+import { requirePermission } from "./auth";
+import { requireAIContentGeneration } from "./settings";
 
 export const scriptsRouter = Router();
 
 // API endpoint to generate a script
-scriptsRouter.post("/generate", async (req, res) => {
+scriptsRouter.post("/generate", requirePermission("content:write"), requireAIContentGeneration, async (req, res) => {
   try {
     const { topic, format, targetPlatform, targetLength, tone, audience } = req.body;
     
@@ -48,7 +50,7 @@ scriptsRouter.post("/generate", async (req, res) => {
 });
 
 // API endpoint to convert script to voice
-scriptsRouter.post("/to-voice", async (req, res) => {
+scriptsRouter.post("/to-voice", requirePermission("content:write"), requireAIContentGeneration, async (req, res) => {
   try {
     const { script, voice } = req.body;
     
@@ -84,7 +86,7 @@ scriptsRouter.post("/to-voice", async (req, res) => {
 });
 
 // API endpoint to save a script
-scriptsRouter.post("/", async (req, res) => {
+scriptsRouter.post("/", requirePermission("content:write"), async (req, res) => {
   try {
     const { topic, format, targetPlatform, script, audioUrl } = req.body;
     
@@ -0,0 +1,128 @@
+/**
+ * Batch Runner
+ *
+ * Fans a batch run out into one content generation job per trending topic and
+ * content type, and keeps the persisted batch status in step with its tasks.
+ */
+
+import { storage } from '../../storage';
+import type { Batch, BatchDetails, BatchTask, Job } from '@shared/schema';
+import type { AutomationSettings } from '@shared/settings';
+import { enqueueContentGeneration } from './contentJobs';
+import jobQueue from './jobQueue';
+
+interface BatchRequest {
+  topicCount: number;
+  contentTypes: AutomationSettings['contentTypes'];
+}
+
+/**
+ * Final batch status once every task has settled, or "running" until then.
+ * Counts against the batch's task count, since early tasks can settle while
+ * later ones are still being enqueued.
+ */
+function batchStatus(tasks: Job[], taskCount: number): string {
+  const failed = tasks.filter((task) => task.status === 'failed').length;
+  const completed = tasks.filter((task) => task.status === 'completed').length;
+
+  if (failed + completed < taskCount) return 'running';
+  if (failed === 0) return 'completed';
+  return completed === 0 ? 'failed' : 'partial';
+}
+
+function toBatchTask(job: Job, topicNames: Map<number, string>): BatchTask {
+  const payload = job.payload as { topicId: number; contentType: string };
+  const result = job.result as { content?: { id: number } } | null;
+
+  return {
+    jobId: job.id,
+    topicId: payload.topicId,
+    topic: topicNames.get(payload.topicId) ?? `Topic #${payload.topicId}`,
+    contentType: payload.contentType,
+    status: job.status,
+    progress: job.progress,
+    contentId: result?.content?.id ?? null,
+    error: job.error,
+    startedAt: job.startedAt,
+    completedAt: job.completedAt
+  };
+}
+
+/**
+ * Persist a batch and enqueue its tasks. Throws if there are no trending topics
+ * or enqueueing fails; the batch then only counts the tasks that were queued.
+ */
+export async function startBatch({ topicCount, contentTypes }: BatchRequest): Promise<Batch> {
+  const topics = await storage.getTopTrendingTopics(topicCount);
+  if (topics.length === 0) {
+    throw new Error('No trending topics available');
+  }
+
+  const batch = await storage.createBatch({
+    status: 'running',
+    topicCount: topics.length,
+    contentTypes,
+    taskCount: topics.length * contentTypes.length
+  });
+
+  let queued = 0;
+  try {
+    for (const topic of topics) {
+      for (const contentType of contentTypes) {
+        await enqueueContentGeneration({ topicId: topic.id, contentType }, { batchId: batch.id });
+        queued++;
+      }
+    }
+  } catch (error) {
+    // Count only the tasks that exist, so the batch can still settle
+    if (queued === 0) {
+      await storage.updateBatch(batch.id, { status: 'failed', taskCount: 0, completedAt: new Date() });
+    } else {
+      const updated = await storage.updateBatch(batch.id, { taskCount: queued });
+      if (updated) await closeBatchIfSettled(updated);
+    }
+    throw error;
+  }
+
+  return batch;
+}
+
+// Record the final status once every task has settled
+async function closeBatchIfSettled(batch: Batch): Promise<void> {
+  if (batch.completedAt) return;
+
+  const status = batchStatus(await storage.getJobsByBatch(batch.id), batch.taskCount);
+  if (status !== 'running') {
+    await storage.updateBatch(batch.id, { status, completedAt: new Date() });
+  }
+}
+
+/**
+ * A batch with its tasks and per-status counts
+ */
+export async function getBatchDetails(id: number): Promise<BatchDetails | undefined> {
+  const batch = await storage.getBatch(id);
+  if (!batch) return undefined;
+
+  const [jobs, topics] = await Promise.all([storage.getJobsByBatch(id), storage.getTrendingTopics()]);
+  const topicNames = new Map(topics.map((topic) => [topic.id, topic.topic]));
+
+  const summary = { queued: 0, processing: 0, completed: 0, failed: 0 };
+  for (const job of jobs) {
+    if (job.status in summary) summary[job.status as keyof typeof summary]++;
+  }
+
+  return {
+    ...batch,
+    tasks: jobs.map((job) => toBatchTask(job, topicNames)),
+    summary
+  };
+}
+
+// Close the batch once its last task settles
+jobQueue.onSettled(async (job) => {
+  if (job.batchId === null) return;
+
+  const batch = await storage.getBatch(job.batchId);
+  if (batch) await closeBatchIfSettled(batch);
+});
@@ -0,0 +1,171 @@
+/**
+ * Automated Content Creator
+ *
+ * Turns a trending topic into a ready-to-post content record (video, image or text)
+ * using the zero-cost local AI services. Shared by the create-content endpoint and
+ * the background automation scheduler. New content is announced to webhooks.
+ */
+
+import { storage } from '../../storage';
+import type { Content, Script, TrendingTopic } from '@shared/schema';
+import type { AutomationSettings } from '@shared/settings';
+import localLLM from '../zeroAI/localLLM';
+import localImageGenerator from '../zeroAI/localImageGenerator';
+import videoGenerator, { type VideoResponse } from '../zeroAI/videoGenerator';
+import webhookDispatcher from '../webhooks/webhookDispatcher';
+
+type AutomatedContentType = AutomationSettings['contentTypes'][number];
+
+// Called with 0-100 as generation moves through its stages
+type ProgressCallback = (progress: number) => Promise<void> | void;
+
+interface AutomatedContentResult {
+  content: Content;
+  script?: Script;
+  video?: VideoResponse;
+  image?: Awaited<ReturnType<typeof localImageGenerator.generateImage>>;
+  text?: string;
+}
+
+class ContentCreator {
+  /**
+   * Generate content of the given type about a topic and store it as "ready"
+   */
+  public async create(
+    topic: TrendingTopic,
+    contentType: AutomatedContentType,
+    onProgress: ProgressCallback = () => {}
+  ): Promise<AutomatedContentResult> {
+    let result: AutomatedContentResult;
+    switch (contentType) {
+      case 'video':
+        result = await this.createVideo(topic, onProgress);
+        break;
+      case 'image':
+        result = await this.createImage(topic, onProgress);
+        break;
+      case 'text':
+        result = await this.createText(topic, onProgress);
+        break;
+    }
+
+    webhookDispatcher.dispatch('content.created', { content: result.content })
+      .catch((error) => console.error(`Sending webhooks for content ${result.content.id} failed:`, error));
+    return result;
+  }
+
+  private async createVideo(topic: TrendingTopic, onProgress: ProgressCallback): Promise<AutomatedContentResult> {
+    // 1. Generate a script
+    const scriptContent = await localLLM.generateScript(
+      topic.topic,
+      'video',
+      5, // 5 minute video
+      'educational',
+      'general'
+    );
+
+    // 2. Create script record
+    const script = await storage.createScript({
+      title: `Video about ${topic.topic}`,
+      topic: topic.topic,
+      format: 'video',
+      content: scriptContent,
+      duration: 300, // 5 minutes
+      tone: 'educational',
+      targetAudience: 'general',
+      status: 'draft'
+    });
+    await onProgress(30);
+
+    // 3. Generate video (narration and thumbnail included)
+    const video = await videoGenerator.generateVideo({
+      script: scriptContent,
+      title: script.title,
+      resolution: '720p',
+      style: 'dynamic',
+      thumbnailPrompt: `Thumbnail for video about ${topic.topic}`
+    });
+    await onProgress(90);
+
+    // 4. Create content record
+    const content = await storage.createContent({
+      title: script.title,
+      description: `Auto-generated video about ${topic.topic}`,
+      contentType: 'video',
+      status: 'ready',
+      filePath: video.videoPath,
+      thumbnailPath: video.thumbnailPath,
+      metadata: {
+        duration: video.duration,
+        format: video.format,
+        resolution: video.resolution,
+        scriptId: script.id,
+        topic: topic.topic,
+        automated: true
+      }
+    });
+
+    return { content, script, video };
+  }
+
+  private async createImage(topic: TrendingTopic, onProgress: ProgressCallback): Promise<AutomatedContentResult> {
+    const imagePrompt = `Create a visually appealing image about ${topic.topic} that would be perfect for social media`;
+
+    const image = await localImageGenerator.generateImage({
+      prompt: imagePrompt,
+      size: '1024x1024',
+      style: 'artistic'
+    });
+    await onProgress(80);
+
+    const content = await storage.createContent({
+      title: `Image about ${topic.topic}`,
+      description: topic.description || `An image about ${topic.topic}`,
+      contentType: 'image',
+      status: 'ready',
+      filePath: image.imagePath,
+      thumbnailPath: image.imagePath,
+      metadata: {
+        prompt: imagePrompt,
+        style: 'artistic',
+        size: image.size,
+        generationTime: image.generationTime,
+        topic: topic.topic,
+        automated: true
+      }
+    });
+
+    return { content, image };
+  }
+
+  private async createText(topic: TrendingTopic, onProgress: ProgressCallback): Promise<AutomatedContentResult> {
+    const text = await localLLM.generateContent(
+      topic.topic,
+      'social media',
+      'engaging',
+      'general'
+    );
+    await onProgress(80);
+
+    const content = await storage.createContent({
+      title: `Post about ${topic.topic}`,
+      description: text,
+      contentType: 'text',
+      status: 'ready',
+      filePath: null,
+      thumbnailPath: null,
+      metadata: {
+        topic: topic.topic,
+        platform: 'multiple',
+        contentLength: text.length,
+        automated: true
+      }
+    });
+
+    return { content, text };
+  }
+}
+
+export default new ContentCreator();
+
+export type { AutomatedContentType, AutomatedContentResult, ProgressCallback };
@@ -0,0 +1,85 @@
+/**
+ * Content Generation Jobs
+ *
+ * Queue-backed content creation: generates content for a trending topic and,
+ * once it is ready, schedules it on the requested platform accounts. Accounts
+ * that no longer exist or whose platform would reject the content are skipped
+ * and reported in the result.
+ */
+
+import { z } from 'zod';
+import { storage } from '../../storage';
+import type { Job } from '@shared/schema';
+import { automationContentTypes } from '@shared/settings';
+import contentCreator from './contentCreator';
+import jobQueue from './jobQueue';
+import { checkContentForAccount } from '../platforms/constraints';
+
+export const CONTENT_GENERATION_JOB = 'content_generation';
+
+const contentGenerationPayloadSchema = z.object({
+  topicId: z.number(),
+  contentType: z.enum(automationContentTypes),
+  // Posts to create once the content is ready
+  schedule: z.array(z.object({
+    platformAccountId: z.number(),
+    scheduledTime: z.string().datetime()
+  })).default([])
+});
+
+type ContentGenerationPayload = z.input<typeof contentGenerationPayloadSchema>;
+
+jobQueue.register(CONTENT_GENERATION_JOB, async (job, reportProgress) => {
+  const payload = contentGenerationPayloadSchema.parse(job.payload);
+
+  const topic = await storage.getTrendingTopic(payload.topicId);
+  if (!topic) {
+    throw new Error(`Trending topic ${payload.topicId} no longer exists`);
+  }
+
+  const result = await contentCreator.create(topic, payload.contentType, reportProgress);
+
+  const scheduledPosts = [];
+  const skippedTargets = [];
+  for (const target of payload.schedule) {
+    const account = await storage.getPlatformAccount(target.platformAccountId);
+    if (!account) {
+      skippedTargets.push({ platformAccountId: target.platformAccountId, reason: 'account not found', violations: [] });
+      continue;
+    }
+    const { violations } = await checkContentForAccount(result.content, account);
+    if (violations.length > 0) {
+      skippedTargets.push({ platformAccountId: account.id, reason: 'content violates platform constraints', violations });
+      continue;
+    }
+
+    scheduledPosts.push(await storage.createScheduledPost({
+      contentId: result.content.id,
+      platformAccountId: account.id,
+      scheduledTime: new Date(target.scheduledTime),
+      status: 'pending'
+    }));
+  }
+
+  return { topic, ...result, scheduledPosts, skippedTargets };
+});
+
+export function enqueueContentGeneration(payload: ContentGenerationPayload, options: { batchId?: number } = {}): Promise<Job> {
+  return jobQueue.enqueue(CONTENT_GENERATION_JOB, contentGenerationPayloadSchema.parse(payload), options);
+}
+
+/**
+ * Posts that queued or running generation jobs will create, so slot planning
+ * can treat them as taken before the content exists
+ */
+export async function getPendingScheduleTargets(): Promise<Array<{ platformAccountId: number; scheduledTime: Date }>> {
+  const pendingJobs = await storage.getJobsByStatus(['queued', 'processing']);
+
+  return pendingJobs
+    .filter((job) => job.type === CONTENT_GENERATION_JOB)
+    .flatMap((job) => {
+      const parsed = contentGenerationPayloadSchema.safeParse(job.payload);
+      return parsed.success ? parsed.data.schedule : [];
+    })
+    .map((target) => ({ platformAccountId: target.platformAccountId, scheduledTime: new Date(target.scheduledTime) }));
+}
@@ -0,0 +1,160 @@
+/**
+ * Background Job Queue
+ *
+ * Persistent queue for long-running work. Jobs live in storage with their status,
+ * progress, timestamps and result, so they survive restarts and can be polled;
+ * in-process workers claim queued jobs and run the handler registered for their type.
+ */
+
+import { storage } from '../../storage';
+import type { Job, InsertJob } from '@shared/schema';
+
+type JobHandler = (job: Job, reportProgress: (progress: number) => Promise<void>) => Promise<unknown>;
+type SettledListener = (job: Job) => Promise<void> | void;
+
+const POLL_MS = 2000; // pick up jobs enqueued by other processes
+const MAX_ATTEMPTS = 3; // jobs interrupted this many times are given up on
+
+class JobQueue {
+  private handlers: Map<string, JobHandler> = new Map();
+  private settledListeners: SettledListener[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private concurrency: number = 1;
+  private activeWorkers: number = 0;
+
+  /**
+   * Register the function that executes jobs of a type
+   */
+  public register(type: string, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Be told whenever a job completes or fails
+   */
+  public onSettled(listener: SettledListener): void {
+    this.settledListeners.push(listener);
+  }
+
+  /**
+   * Persist a new job and wake the workers
+   */
+  public async enqueue(type: string, payload: InsertJob['payload'], options: { batchId?: number } = {}): Promise<Job> {
+    if (!this.handlers.has(type)) {
+      throw new Error(`No handler registered for job type "${type}"`);
+    }
+
+    const job = await storage.createJob({ type, payload, status: 'queued', progress: 0, batchId: options.batchId ?? null });
+    this.drain();
+    return job;
+  }
+
+  /**
+   * Start the workers. Jobs left "processing" by a previous process are requeued.
+   */
+  public async start(concurrency: number = Number(process.env.JOB_WORKERS) || 1): Promise<void> {
+    if (this.timer) return;
+    this.concurrency = Math.max(1, concurrency);
+
+    for (const job of await storage.getJobsByStatus(['processing'])) {
+      if (job.attempts >= MAX_ATTEMPTS) {
+        await this.settle(job.id, {
+          status: 'failed',
+          error: `Interrupted ${job.attempts} times; giving up`,
+          completedAt: new Date()
+        });
+      } else {
+        await storage.updateJob(job.id, { status: 'queued', progress: 0, startedAt: null });
+      }
+    }
+
+    this.timer = setInterval(() => this.drain(), POLL_MS);
+    // Don't keep the process alive just for polling
+    this.timer.unref();
+    this.drain();
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Spin up workers until the concurrency limit is reached
+   */
+  private drain(): void {
+    if (!this.timer) return;
+
+    while (this.activeWorkers < this.concurrency) {
+      this.activeWorkers++;
+      this.work()
+        .catch((error) => console.error('Job worker failed:', error))
+        .finally(() => {
+          this.activeWorkers--;
+        });
+    }
+  }
+
+  /**
+   * Run queued jobs one after another until none are left
+   */
+  private async work(): Promise<void> {
+    for (let job = await storage.claimNextJob(); job; job = await storage.claimNextJob()) {
+      await this.run(job);
+    }
+  }
+
+  private async run(job: Job): Promise<void> {
+    const handler = this.handlers.get(job.type);
+    if (!handler) {
+      await this.settle(job.id, {
+        status: 'failed',
+        error: `No handler registered for job type "${job.type}"`,
+        completedAt: new Date()
+      });
+      return;
+    }
+
+    const reportProgress = async (progress: number) => {
+      await storage.updateJob(job.id, { progress: Math.max(0, Math.min(100, Math.round(progress))) });
+    };
+
+    try {
+      const result = await handler(job, reportProgress);
+      await this.settle(job.id, {
+        status: 'completed',
+        progress: 100,
+        result: result ?? null,
+        completedAt: new Date()
+      });
+    } catch (error) {
+      await this.settle(job.id, {
+        status: 'failed',
+        error: (error as Error).message,
+        completedAt: new Date()
+      });
+    }
+  }
+
+  /**
+   * Record the final state of a job and notify listeners
+   */
+  private async settle(id: number, update: Partial<InsertJob>): Promise<void> {
+    const job = await storage.updateJob(id, update);
+    if (!job) return;
+
+    for (const listener of this.settledListeners) {
+      try {
+        await listener(job);
+      } catch (error) {
+        console.error(`Job settled listener failed for job ${id}:`, error);
+      }
+    }
+  }
+}
+
+export default new JobQueue();
+
+export type { JobHandler, SettledListener };
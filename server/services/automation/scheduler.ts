@@ -0,0 +1,289 @@
+/**
+ * Automation Scheduler
+ *
+ * Background loop that queues content generation for trending topics, with posts
+ * on the configured platforms, following the persisted automation settings:
+ * postFrequency and minimumInterval pace the runs, activeHours, maxDailyPosts and
+ * scheduleAhead bound where posts may land, and platforms selects the accounts.
+ */
+
+import { storage } from '../../storage';
+import type { PlatformAccount, TrendingTopic } from '@shared/schema';
+import type { AutomationSettings } from '@shared/settings';
+import { getAutomationSettings, getSystemSettings } from '../../settings';
+import type { AutomatedContentType } from './contentCreator';
+import { enqueueContentGeneration, getPendingScheduleTargets } from './contentJobs';
+
+const HOUR_MS = 60 * 60 * 1000;
+const TICK_MS = 60 * 1000; // how often the loop checks whether a run is due
+const SLOT_STEP_MS = 15 * 60 * 1000; // granularity of candidate posting times
+const STATE_KEY = 'automation-state';
+
+const frequencyMs: Record<AutomationSettings['postFrequency'], number> = {
+  hourly: HOUR_MS,
+  daily: 24 * HOUR_MS,
+  weekly: 7 * 24 * HOUR_MS,
+};
+
+interface RunResult {
+  jobId: number | null; // content generation job that will create and schedule the content
+  contentType: AutomatedContentType | null;
+  topic: string | null;
+  platformAccountIds: number[];
+  skipped?: string; // why nothing was queued
+  error?: string;
+}
+
+// Persisted between restarts so pacing survives a redeploy
+interface SchedulerState {
+  lastRun: string | null;
+  runCount: number;
+  lastResult: RunResult | null;
+}
+
+interface SchedulerStatus {
+  lastRun: string | null;
+  nextRun: string | null;
+  running: boolean;
+  lastResult: RunResult | null;
+}
+
+/**
+ * Whether a local hour falls inside the active window (start > end wraps past midnight)
+ */
+function isActiveHour(hour: number, { start, end }: AutomationSettings['activeHours']): boolean {
+  return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+}
+
+/**
+ * Earliest moment at or after `from` that is inside the active hours
+ */
+function nextActiveTime(from: Date, activeHours: AutomationSettings['activeHours']): Date {
+  if (isActiveHour(from.getHours(), activeHours)) return from;
+
+  const next = new Date(from);
+  next.setHours(activeHours.start, 0, 0, 0);
+  if (next <= from) next.setDate(next.getDate() + 1);
+  return next;
+}
+
+function sameLocalDay(a: Date, b: Date): boolean {
+  return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+}
+
+/**
+ * First time within the scheduling horizon where a post fits on an account:
+ * inside active hours, under the daily cap and at least minimumInterval away
+ * from the account's other posts.
+ */
+function findPostingSlot(taken: Date[], settings: AutomationSettings, now: Date): Date | null {
+  const horizon = now.getTime() + settings.scheduleAhead * 24 * HOUR_MS;
+  const minGap = settings.minimumInterval * HOUR_MS;
+
+  let candidate = new Date(Math.ceil(now.getTime() / SLOT_STEP_MS) * SLOT_STEP_MS);
+  while (candidate.getTime() <= horizon) {
+    candidate = nextActiveTime(candidate, settings.activeHours);
+    if (candidate.getTime() > horizon) break;
+
+    const sameDay = taken.filter((time) => sameLocalDay(time, candidate));
+    const tooClose = taken.some((time) => Math.abs(time.getTime() - candidate.getTime()) < minGap);
+
+    if (sameDay.length < settings.maxDailyPosts && !tooClose) {
+      return candidate;
+    }
+    candidate = new Date(candidate.getTime() + SLOT_STEP_MS);
+  }
+
+  return null;
+}
+
+class AutomationScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private running: boolean = false;
+  private state: SchedulerState | null = null;
+
+  /**
+   * Start the background loop. Safe to call more than once.
+   */
+  public start(intervalMs: number = TICK_MS): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.tick().catch((error) => console.error('Automation scheduler tick failed:', error));
+    }, intervalMs);
+    // Don't keep the process alive just for the scheduler
+    this.timer.unref();
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Real last/next run times for the settings endpoint
+   */
+  public async getStatus(now: Date = new Date()): Promise<SchedulerStatus> {
+    const [settings, state] = await Promise.all([getAutomationSettings(), this.loadState()]);
+    const nextRun = this.computeNextRun(settings, state, now);
+
+    return {
+      lastRun: state.lastRun,
+      nextRun: nextRun ? nextRun.toISOString() : null,
+      running: this.running,
+      lastResult: state.lastResult,
+    };
+  }
+
+  /**
+   * Run once if a run is due. Called by the loop; exposed for manual triggering.
+   */
+  public async tick(now: Date = new Date()): Promise<RunResult | null> {
+    if (this.running) return null;
+
+    const [settings, systemSettings, state] = await Promise.all([
+      getAutomationSettings(),
+      getSystemSettings(),
+      this.loadState(),
+    ]);
+    if (!systemSettings.enableAIContentGeneration) return null;
+
+    const nextRun = this.computeNextRun(settings, state, now);
+    if (!nextRun || nextRun > now) return null;
+
+    this.running = true;
+    try {
+      let result: RunResult;
+      try {
+        result = await this.run(settings, state, now);
+      } catch (error) {
+        result = this.emptyResult({ error: (error as Error).message });
+      }
+
+      await this.saveState({
+        lastRun: now.toISOString(),
+        runCount: state.runCount + 1,
+        lastResult: result,
+      });
+      return result;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private computeNextRun(settings: AutomationSettings, state: SchedulerState, now: Date): Date | null {
+    if (!settings.enabled || !settings.contentCreationEnabled) return null;
+
+    const gap = Math.max(frequencyMs[settings.postFrequency], settings.minimumInterval * HOUR_MS);
+    const due = state.lastRun ? new Date(new Date(state.lastRun).getTime() + gap) : now;
+
+    return nextActiveTime(due > now ? due : now, settings.activeHours);
+  }
+
+  private async run(settings: AutomationSettings, state: SchedulerState, now: Date): Promise<RunResult> {
+    // Work out where the content would go before queueing its generation
+    const targets: Array<{ account: PlatformAccount; slot: Date }> = [];
+    if (settings.autoPosting) {
+      const accounts = await this.getTargetAccounts(settings);
+      if (accounts.length === 0) {
+        return this.emptyResult({ skipped: 'No active accounts on the configured platforms' });
+      }
+
+      // Existing posts plus posts that queued generation jobs are about to create
+      const occupied = [
+        ...(await storage.getScheduledPosts()).filter((post) => post.status !== 'failed'),
+        ...(await getPendingScheduleTargets()),
+      ];
+      for (const account of accounts) {
+        const taken = occupied
+          .filter((post) => post.platformAccountId === account.id)
+          .map((post) => post.scheduledTime);
+        const slot = findPostingSlot(taken, settings, now);
+        if (slot) targets.push({ account, slot });
+      }
+      if (targets.length === 0) {
+        return this.emptyResult({ skipped: `No free posting slots in the next ${settings.scheduleAhead} day(s)` });
+      }
+    }
+
+    const topic = await this.pickTopic();
+    if (!topic) {
+      return this.emptyResult({ skipped: 'No trending topics available' });
+    }
+
+    // Rotate through the enabled content types run by run
+    const contentType = settings.contentTypes[state.runCount % settings.contentTypes.length];
+    const job = await enqueueContentGeneration({
+      topicId: topic.id,
+      contentType,
+      schedule: targets.map(({ account, slot }) => ({
+        platformAccountId: account.id,
+        scheduledTime: slot.toISOString(),
+      })),
+    });
+
+    return {
+      jobId: job.id,
+      contentType,
+      topic: topic.topic,
+      platformAccountIds: targets.map(({ account }) => account.id),
+    };
+  }
+
+  /**
+   * Active accounts on active platforms whose name is listed in the settings
+   */
+  private async getTargetAccounts(settings: AutomationSettings): Promise<PlatformAccount[]> {
+    const wanted = new Set(settings.platforms.map((name) => name.toLowerCase()));
+    const platformIds = new Set(
+      (await storage.getPlatforms())
+        .filter((platform) => platform.active && wanted.has(platform.name.toLowerCase()))
+        .map((platform) => platform.id)
+    );
+
+    return (await storage.getPlatformAccounts()).filter(
+      (account) => account.active && platformIds.has(account.platformId)
+    );
+  }
+
+  /**
+   * Highest-ranked trending topic that recent automated content hasn't covered yet
+   */
+  private async pickTopic(): Promise<TrendingTopic | undefined> {
+    const topics = await storage.getTopTrendingTopics(10);
+    const recentTopics = new Set(
+      (await storage.getRecentContents(20))
+        .map((content) => (content.metadata as { topic?: string } | null)?.topic)
+        .filter(Boolean)
+    );
+
+    return topics.find((topic) => !recentTopics.has(topic.topic)) ?? topics[0];
+  }
+
+  private emptyResult(extra: Pick<RunResult, 'skipped' | 'error'>): RunResult {
+    return { jobId: null, contentType: null, topic: null, platformAccountIds: [], ...extra };
+  }
+
+  private async loadState(): Promise<SchedulerState> {
+    if (this.state) return this.state;
+
+    const stored = (await storage.getSetting(STATE_KEY)) as Partial<SchedulerState> | undefined;
+    this.state = {
+      lastRun: stored?.lastRun ?? null,
+      runCount: stored?.runCount ?? 0,
+      lastResult: stored?.lastResult ?? null,
+    };
+    return this.state;
+  }
+
+  private async saveState(state: SchedulerState): Promise<void> {
+    await storage.setSetting(STATE_KEY, state);
+    this.state = state;
+  }
+}
+
+export default new AutomationScheduler();
+
+export type { RunResult, SchedulerStatus };
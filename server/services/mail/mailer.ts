@@ -0,0 +1,186 @@
+/**
+ * Outgoing Email
+ *
+ * Sends messages through SendGrid (SENDGRID_API_KEY) or an SMTP server
+ * (SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD). Set
+ * MAIL_TRANSPORT to "sendgrid" or "smtp" to choose explicitly; otherwise
+ * SendGrid is used when its key is set. Point SMTP at a local mail catcher
+ * (e.g. Mailpit on port 1025) during development.
+ */
+
+import sgMail from '@sendgrid/mail';
+import { randomUUID } from 'crypto';
+import { SmtpConnection, SmtpError } from './smtp';
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+}
+
+// Outcome for one message; failures don't stop the rest of a batch
+export interface MailDelivery {
+  to: string;
+  error?: string;
+}
+
+type MailTransportName = 'sendgrid' | 'smtp';
+
+/**
+ * The transport can't be used at all (not configured, unreachable). Per-message
+ * rejections are reported in the deliveries instead.
+ */
+export class MailError extends Error {
+  constructor(message: string, public readonly retryable: boolean = true) {
+    super(message);
+    this.name = 'MailError';
+  }
+}
+
+export function getMailTransport(): MailTransportName | null {
+  const configured = process.env.MAIL_TRANSPORT?.toLowerCase();
+  if (configured === 'sendgrid' || configured === 'smtp') return configured;
+  if (process.env.SENDGRID_API_KEY) return 'sendgrid';
+  if (process.env.SMTP_HOST) return 'smtp';
+  return null;
+}
+
+export function defaultSender(): string | undefined {
+  return process.env.MAIL_FROM || undefined;
+}
+
+// The bare address from "Name <address>"
+function envelopeAddress(address: string): string {
+  return address.match(/<([^>]+)>/)?.[1] ?? address;
+}
+
+// RFC 2047 encoded-word for header values that aren't plain ASCII
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+// "Name <address>" with the display name encoded when needed
+function encodeAddress(address: string): string {
+  const match = address.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/);
+  if (!match || /^[\x20-\x7e]*$/.test(match[1])) return address;
+  return `${encodeHeader(match[1])} <${match[2]}>`;
+}
+
+function base64Lines(value: string): string {
+  return (Buffer.from(value).toString('base64').match(/.{1,76}/g) ?? []).join('\r\n');
+}
+
+/**
+ * The message as multipart/alternative MIME with CRLF line endings, for SMTP
+ */
+export function buildMimeMessage(message: MailMessage): string {
+  const boundary = `=_${randomUUID()}`;
+  const domain = envelopeAddress(message.from).split('@')[1] || 'localhost';
+  const headers: Record<string, string> = {
+    From: encodeAddress(message.from),
+    To: encodeAddress(message.to),
+    Subject: encodeHeader(message.subject),
+    Date: new Date().toUTCString(),
+    'Message-ID': `<${randomUUID()}@${domain}>`,
+    'MIME-Version': '1.0',
+    'Content-Type': `multipart/alternative; boundary="${boundary}"`,
+    ...message.headers,
+  };
+
+  return [
+    ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.html),
+    `--${boundary}--`,
+  ].join('\r\n');
+}
+
+async function sendWithSendGrid(messages: MailMessage[]): Promise<MailDelivery[]> {
+  const apiKey = process.env.SENDGRID_API_KEY;
+  if (!apiKey) throw new MailError('SENDGRID_API_KEY is not set', false);
+  sgMail.setApiKey(apiKey);
+
+  const deliveries: MailDelivery[] = [];
+  for (const message of messages) {
+    try {
+      await sgMail.send(message);
+      deliveries.push({ to: message.to });
+    } catch (error) {
+      const status = (error as { code?: number }).code;
+      // Bad key or account problems affect every message; stop rather than repeat them
+      if (status === 401 || status === 403) throw new MailError(`SendGrid rejected the API key (${status})`, false);
+      deliveries.push({ to: message.to, error: (error as Error).message });
+    }
+  }
+  return deliveries;
+}
+
+async function sendWithSmtp(messages: MailMessage[]): Promise<MailDelivery[]> {
+  const host = process.env.SMTP_HOST;
+  if (!host) throw new MailError('SMTP_HOST is not set', false);
+
+  const secure = process.env.SMTP_SECURE === 'true';
+  const connection = new SmtpConnection({
+    host,
+    port: Number(process.env.SMTP_PORT) || (secure ? 465 : 1025),
+    secure,
+    user: process.env.SMTP_USER,
+    password: process.env.SMTP_PASSWORD,
+  });
+
+  try {
+    await connection.open();
+  } catch (error) {
+    const code = error instanceof SmtpError ? error.code : undefined;
+    // 5xx at login means bad credentials; anything else may clear up
+    throw new MailError(`SMTP server unavailable: ${(error as Error).message}`, code === undefined || code < 500);
+  }
+
+  const deliveries: MailDelivery[] = [];
+  try {
+    for (const message of messages) {
+      try {
+        await connection.send(envelopeAddress(message.from), envelopeAddress(message.to), buildMimeMessage(message));
+        deliveries.push({ to: message.to });
+      } catch (error) {
+        if (!(error instanceof SmtpError) || error.code === undefined) {
+          // The connection is gone; the rest can't be sent either
+          const reason = (error as Error).message;
+          for (const unsent of messages.slice(deliveries.length)) {
+            deliveries.push({ to: unsent.to, error: reason });
+          }
+          break;
+        }
+        deliveries.push({ to: message.to, error: error.message });
+      }
+    }
+  } finally {
+    await connection.close();
+  }
+  return deliveries;
+}
+
+/**
+ * Send each message separately and report what happened to each
+ */
+export async function sendMail(messages: MailMessage[]): Promise<MailDelivery[]> {
+  const transport = getMailTransport();
+  if (!transport) {
+    throw new MailError('No mail transport configured; set SENDGRID_API_KEY or SMTP_HOST', false);
+  }
+  if (messages.length === 0) return [];
+
+  return transport === 'sendgrid' ? sendWithSendGrid(messages) : sendWithSmtp(messages);
+}
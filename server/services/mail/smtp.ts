@@ -0,0 +1,152 @@
+/**
+ * Minimal SMTP client
+ *
+ * Enough of SMTP to hand messages to a relay or a local mail catcher
+ * (Mailpit, MailHog, smtp4dev): EHLO, optional AUTH PLAIN, and one
+ * MAIL/RCPT/DATA transaction per message over a single connection.
+ * Implicit TLS is supported; STARTTLS is not.
+ */
+
+import net from 'net';
+import tls from 'tls';
+import { hostname } from 'os';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // implicit TLS (usually port 465)
+  user?: string;
+  password?: string;
+  timeoutMs?: number;
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+export class SmtpError extends Error {
+  constructor(message: string, public readonly code?: number) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+}
+
+export class SmtpConnection {
+  private socket: net.Socket | null = null;
+  private buffer = '';
+  private lines: string[] = [];
+  private waiting: ((reply: SmtpReply | Error) => void) | null = null;
+  private failure: Error | null = null;
+
+  constructor(private readonly options: SmtpOptions) {}
+
+  /**
+   * Connect, read the greeting, introduce ourselves and log in if configured
+   */
+  public async open(): Promise<void> {
+    const { host, port, secure, timeoutMs = 30000 } = this.options;
+
+    await new Promise<void>((resolve, reject) => {
+      const socket = secure
+        ? tls.connect({ host, port, servername: host }, () => resolve())
+        : net.connect({ host, port }, () => resolve());
+      socket.setEncoding('utf8');
+      socket.setTimeout(timeoutMs, () => socket.destroy(new SmtpError(`SMTP server ${host}:${port} timed out`)));
+      socket.on('data', (chunk: string) => this.receive(chunk));
+      socket.on('error', (error) => {
+        reject(error);
+        this.fail(error);
+      });
+      socket.on('close', () => this.fail(new SmtpError('SMTP connection closed')));
+      this.socket = socket;
+    });
+
+    await this.expect(await this.reply(), 220);
+    await this.command(`EHLO ${hostname() || 'localhost'}`, 250);
+
+    if (this.options.user) {
+      const credentials = Buffer.from(`\0${this.options.user}\0${this.options.password ?? ''}`).toString('base64');
+      await this.command(`AUTH PLAIN ${credentials}`, 235);
+    }
+  }
+
+  /**
+   * Deliver one message; `data` is the full RFC 5322 message with CRLF line endings
+   */
+  public async send(from: string, to: string, data: string): Promise<void> {
+    try {
+      await this.command(`MAIL FROM:<${from}>`, 250);
+      await this.command(`RCPT TO:<${to}>`, 250, 251);
+      await this.command('DATA', 354);
+      // Dot-stuff lines starting with "." and terminate with a lone "."
+      await this.command(`${data.replace(/^\./gm, '..')}\r\n.`, 250);
+    } catch (error) {
+      // Abandon the transaction so the next message starts clean
+      if (error instanceof SmtpError && error.code !== undefined) {
+        await this.command('RSET', 250).catch(() => undefined);
+      }
+      throw error;
+    }
+  }
+
+  public async close(): Promise<void> {
+    if (!this.socket || this.failure) return;
+    await this.command('QUIT', 221).catch(() => undefined);
+    this.socket.end();
+  }
+
+  private async command(line: string, ...accepted: number[]): Promise<SmtpReply> {
+    if (this.failure) throw this.failure;
+    this.socket!.write(`${line}\r\n`);
+    return this.expect(await this.reply(), ...accepted);
+  }
+
+  private async expect(reply: SmtpReply, ...accepted: number[]): Promise<SmtpReply> {
+    if (!accepted.includes(reply.code)) {
+      throw new SmtpError(`SMTP server replied ${reply.code} ${reply.text}`, reply.code);
+    }
+    return reply;
+  }
+
+  private reply(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      this.waiting = (reply) => (reply instanceof Error ? reject(reply) : resolve(reply));
+      this.deliver();
+    });
+  }
+
+  private receive(chunk: string) {
+    this.buffer += chunk;
+    const parts = this.buffer.split('\r\n');
+    this.buffer = parts.pop() ?? '';
+    this.lines.push(...parts);
+    this.deliver();
+  }
+
+  // Hand a complete (possibly multi-line) reply to whoever is waiting for one
+  private deliver() {
+    if (!this.waiting) return;
+    if (this.failure) return this.settle(this.failure);
+
+    const last = this.lines.findIndex((line) => /^\d{3}( |$)/.test(line));
+    if (last === -1) return;
+
+    const replyLines = this.lines.splice(0, last + 1);
+    this.settle({
+      code: Number(replyLines[last].slice(0, 3)),
+      text: replyLines.map((line) => line.slice(4)).join(' '),
+    });
+  }
+
+  private settle(reply: SmtpReply | Error) {
+    const waiting = this.waiting!;
+    this.waiting = null;
+    waiting(reply);
+  }
+
+  private fail(error: Error) {
+    this.failure = this.failure ?? error;
+    this.deliver();
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * Notifications
+ *
+ * Tells people about things that happen in the background: posts going live
+ * or failing for good, content jobs failing and topics that start trending.
+ * Each event has a toggle in system settings and goes to every enabled
+ * channel: always in-app (stored for each user whose role covers the event,
+ * shown under the bell in the header, newest 200 kept per user), plus email
+ * and Slack when they are set up. Email and Slack go to the one address and
+ * channel in settings. Sending never throws; a channel that fails is logged
+ * and reported in the results.
+ */
+
+import { storage } from '../../storage';
+import { getSystemSettings } from '../../settings';
+import type { Job, ScheduledPost, TrendingTopic } from '@shared/schema';
+import type { SystemSettings } from '@shared/settings';
+import { hasPermission, type Permission } from '@shared/permissions';
+import { defaultSender, sendMail } from '../mail/mailer';
+import jobQueue from '../automation/jobQueue';
+import { sendSlackNotification } from './slack';
+
+type NotificationEvent = 'post_published' | 'post_failed' | 'job_failed' | 'trend_alert';
+type NotificationChannel = 'in_app' | 'email' | 'slack';
+
+interface Notification {
+  event: NotificationEvent | 'test';
+  title: string;
+  message: string;
+  path?: string; // app path of the related page, e.g. "/scheduler"
+}
+
+interface ChannelResult {
+  channel: NotificationChannel;
+  error?: string;
+}
+
+const eventToggles: Record<NotificationEvent, keyof SystemSettings> = {
+  post_published: 'notifyOnPostSuccess',
+  post_failed: 'notifyOnPostFailure',
+  job_failed: 'notifyOnJobFailure',
+  trend_alert: 'notifyOnTrendAlert'
+};
+
+// Who gets the in-app copy: users whose role can act on the event
+const eventAudiences: Record<NotificationEvent, Permission> = {
+  post_published: 'publishing:review',
+  post_failed: 'publishing:review',
+  job_failed: 'publishing:schedule',
+  trend_alert: 'content:write'
+};
+
+const MAX_NOTIFICATIONS_PER_USER = 200;
+
+function appLink(path: string): string | undefined {
+  const baseUrl = process.env.PUBLIC_BASE_URL;
+  return baseUrl ? `${baseUrl.replace(/\/$/, '')}${path}` : undefined;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+async function sendEmailNotification(to: string, notification: Notification): Promise<void> {
+  const from = defaultSender();
+  if (!from) throw new Error('MAIL_FROM is not set');
+
+  const url = notification.path ? appLink(notification.path) : undefined;
+  const link = url ? `<p><a href="${escapeHtml(url)}">Open in Creator AI</a></p>` : '';
+  const [delivery] = await sendMail([{
+    from,
+    to,
+    subject: `[Creator AI] ${notification.title}`,
+    text: [notification.message, url ?? ''].join('\n\n').trim(),
+    html: `<p><strong>${escapeHtml(notification.title)}</strong></p><p>${escapeHtml(notification.message)}</p>${link}`
+  }]);
+  if (delivery.error) throw new Error(delivery.error);
+}
+
+// The in-app copy, for the given users or else everyone the event concerns
+async function storeInAppNotification(notification: Notification, userIds?: number[]): Promise<void> {
+  const event = notification.event;
+  const recipients = userIds ?? (event === 'test' ? [] : (await storage.getUsers())
+    .filter((user) => hasPermission(user.role, eventAudiences[event]))
+    .map((user) => user.id));
+  await Promise.all(recipients.map(async (userId) => {
+    await storage.createUserNotification({
+      userId,
+      event,
+      title: notification.title,
+      message: notification.message,
+      link: notification.path ?? null
+    });
+    await storage.pruneUserNotifications(userId, MAX_NOTIFICATIONS_PER_USER);
+  }));
+}
+
+class Notifier {
+  /**
+   * Send to every enabled channel if the event is switched on. The in-app copy
+   * goes to `userIds` if given, else to every user whose role covers the event.
+   */
+  public async notify(notification: Notification, userIds?: number[]): Promise<ChannelResult[]> {
+    const settings = await getSystemSettings();
+    if (notification.event !== 'test' && !settings[eventToggles[notification.event]]) return [];
+
+    const sends: Array<[NotificationChannel, () => Promise<void>]> = [
+      ['in_app', () => storeInAppNotification(notification, userIds)]
+    ];
+    if (settings.enableEmailNotifications && settings.emailAddress) {
+      sends.push(['email', () => sendEmailNotification(settings.emailAddress, notification)]);
+    }
+    if (settings.enableSlackNotifications && settings.slackChannel) {
+      sends.push(['slack', () => sendSlackNotification(settings.slackChannel, notification, notification.path ? appLink(notification.path) : undefined)]);
+    }
+
+    return Promise.all(sends.map(async ([channel, send]): Promise<ChannelResult> => {
+      try {
+        await send();
+        return { channel };
+      } catch (error) {
+        console.warn(`Sending ${notification.event} notification to ${channel} failed:`, (error as Error).message);
+        return { channel, error: (error as Error).message };
+      }
+    }));
+  }
+
+  // The in-app copy only goes to the user who asked for the test
+  public sendTest(userId: number): Promise<ChannelResult[]> {
+    return this.notify({
+      event: 'test',
+      title: 'Test notification',
+      message: 'Notifications from Creator AI will arrive here.',
+      path: '/settings'
+    }, [userId]);
+  }
+
+  public async postPublished(post: ScheduledPost, url?: string): Promise<void> {
+    const { title, target } = await this.describePost(post);
+    await this.notify({
+      event: 'post_published',
+      title: 'Post published',
+      message: `"${title}" is live on ${target}.${url ? ` ${url}` : ''}`,
+      path: '/scheduler'
+    });
+  }
+
+  public async postFailed(post: ScheduledPost, error: string): Promise<void> {
+    const { title, target } = await this.describePost(post);
+    await this.notify({
+      event: 'post_failed',
+      title: 'Post failed',
+      message: `"${title}" could not be published to ${target} after ${post.attempts + 1} attempt(s): ${error}`,
+      path: '/scheduler'
+    });
+  }
+
+  public async jobFailed(job: Job): Promise<void> {
+    await this.notify({
+      event: 'job_failed',
+      title: 'Background job failed',
+      message: `Job #${job.id} (${job.type.replace(/_/g, ' ')}) failed: ${job.error ?? 'unknown error'}`,
+      path: '/automation'
+    });
+  }
+
+  /**
+   * Alert when a topic's score reaches the threshold; `previousScore` keeps
+   * updates to an already-trending topic from alerting again
+   */
+  public async trendAlert(topic: TrendingTopic, previousScore?: number): Promise<void> {
+    const { trendAlertThreshold } = await getSystemSettings();
+    if (topic.trendScore < trendAlertThreshold) return;
+    if (previousScore !== undefined && previousScore >= trendAlertThreshold) return;
+
+    await this.notify({
+      event: 'trend_alert',
+      title: 'Trending topic',
+      message: `"${topic.topic}" (${topic.category}) is trending with a score of ${topic.trendScore}.`,
+      path: '/trend-analysis'
+    });
+  }
+
+  private async describePost(post: ScheduledPost): Promise<{ title: string; target: string }> {
+    const [content, account] = await Promise.all([
+      storage.getContent(post.contentId),
+      storage.getPlatformAccount(post.platformAccountId)
+    ]);
+    const platform = account ? await storage.getPlatform(account.platformId) : undefined;
+    return {
+      title: content?.title ?? `Content #${post.contentId}`,
+      target: account ? `${platform?.name ?? 'unknown platform'} (@${account.username})` : `account #${post.platformAccountId}`
+    };
+  }
+}
+
+const notifier = new Notifier();
+
+// Not awaited: the queue waits on its listeners, and a slow mail server mustn't hold up the worker
+jobQueue.onSettled(async (job) => {
+  if (job.status !== 'failed') return;
+  notifier.jobFailed(job)
+    .catch((error) => console.error(`Job failure notification for job ${job.id} failed:`, error));
+});
+
+export default notifier;
+
+export type { Notification, NotificationEvent, ChannelResult };
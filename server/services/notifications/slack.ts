@@ -0,0 +1,51 @@
+/**
+ * Slack channel for notifications: posts to the channel set in system
+ * settings as the bot whose token is SLACK_BOT_TOKEN. The bot must be a
+ * member of the channel (invite it with /invite). SLACK_API_URL points the
+ * client at a different Web API base URL, e.g. a local fake during development.
+ */
+
+import { WebClient } from '@slack/web-api';
+import type { Notification } from './notifier';
+
+let client: WebClient | null = null;
+let clientToken: string | null = null;
+
+function slackClient(): WebClient {
+  const token = process.env.SLACK_BOT_TOKEN;
+  if (!token) throw new Error('SLACK_BOT_TOKEN is not set');
+
+  if (!client || clientToken !== token) {
+    // Notifications are best-effort; don't keep retrying for minutes
+    client = new WebClient(token, {
+      slackApiUrl: process.env.SLACK_API_URL || undefined,
+      retryConfig: { retries: 2 }
+    });
+    clientToken = token;
+  }
+  return client;
+}
+
+// Slack mrkdwn treats these as control characters
+function escapeMrkdwn(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// `link` is the absolute URL of the related page, when there is one
+export async function sendSlackNotification(channel: string, notification: Notification, link?: string): Promise<void> {
+  const lines = [`*${escapeMrkdwn(notification.title)}*`, escapeMrkdwn(notification.message)];
+  if (link) lines.push(`<${link}|Open in Creator AI>`);
+
+  try {
+    await slackClient().chat.postMessage({
+      channel,
+      text: `${notification.title}: ${notification.message}`, // shown in push notifications
+      blocks: [{ type: 'section', text: { type: 'mrkdwn', text: lines.join('\n') } }],
+      unfurl_links: false
+    });
+  } catch (error) {
+    // Web API errors carry Slack's reason, e.g. "channel_not_found" or "not_in_channel"
+    const reason = (error as { data?: { error?: string } }).data?.error;
+    throw new Error(reason ? `Slack rejected the message: ${reason}` : (error as Error).message);
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Platform Adapters
+ *
+ * The contract between the app and a social platform. Each platform (keyed by
+ * its name in the platforms table) gets one adapter that knows how to publish,
+ * remove and inspect posts and how to refresh an account's access token.
+ * Publishing is split into building the request and sending it, so a post can
+ * be rendered exactly as it would be sent without going live (a dry run).
+ * Platforms that allow editing published posts implement updatePost.
+ * Platforms that support OAuth also implement the authorization-code flow
+ * (with PKCE) so accounts can be connected without pasting tokens.
+ */
+
+import type { Content, PlatformAccount, ScheduledPost } from '@shared/schema';
+
+// The account a call is made for, with its decrypted token; never persist or log it
+interface AdapterContext {
+  account: PlatformAccount;
+  accessToken: string | null;
+}
+
+interface PublishRequest extends AdapterContext {
+  post: ScheduledPost;
+  content: Content;
+}
+
+// The request an adapter sends to publish a post; credentials are added when it is sent
+interface PublishPayload {
+  method: string;
+  url: string;
+  body: unknown;
+}
+
+interface PublishResult {
+  postId: string; // the platform's ID for the published post
+  url?: string;
+}
+
+interface PostMetrics {
+  views: number;
+  likes: number;
+  shares: number;
+  comments: number;
+  fetchedAt: Date;
+}
+
+interface PostComment {
+  id: string;
+  author: string;
+  text: string;
+  createdAt: Date;
+}
+
+interface TokenSet {
+  accessToken: string;
+  refreshToken?: string; // only when the platform rotates refresh tokens
+  expiresAt?: Date;
+}
+
+interface AuthorizationRequest {
+  state: string;
+  codeChallenge: string; // S256 challenge for the flow's code verifier
+  redirectUri: string;
+}
+
+// Tokens from a completed authorization plus who they belong to
+interface AuthorizedAccount extends TokenSet {
+  username: string;
+  name?: string;
+  followerCount?: number;
+}
+
+interface PlatformAdapter {
+  readonly platform: string;
+  buildPublishPayload(request: PublishRequest): PublishPayload;
+  publish(request: PublishRequest): Promise<PublishResult>;
+  updatePost?(request: PublishRequest, postId: string): Promise<void>;
+  deletePost(context: AdapterContext, postId: string): Promise<void>;
+  fetchMetrics(context: AdapterContext, postId: string): Promise<PostMetrics>;
+  fetchComments(context: AdapterContext, postId: string): Promise<PostComment[]>;
+  refreshToken(account: PlatformAccount, refreshToken: string): Promise<TokenSet>;
+  getAuthorizationUrl?(request: AuthorizationRequest): string;
+  exchangeCode?(code: string, codeVerifier: string, redirectUri: string): Promise<AuthorizedAccount>;
+}
+
+/**
+ * Failure reported by a platform. Non-retryable errors (bad credentials,
+ * rejected content) fail the post immediately instead of backing off.
+ */
+class PlatformError extends Error {
+  constructor(message: string, public readonly retryable: boolean = true) {
+    super(message);
+    this.name = 'PlatformError';
+  }
+}
+
+export { PlatformError };
+
+export type {
+  AdapterContext,
+  PublishRequest,
+  PublishPayload,
+  PublishResult,
+  PostMetrics,
+  PostComment,
+  TokenSet,
+  AuthorizationRequest,
+  AuthorizedAccount,
+  PlatformAdapter
+};
@@ -0,0 +1,17 @@
+/**
+ * Check content against the constraints of the platform an account posts to
+ */
+
+import { storage } from '../../storage';
+import type { Content, PlatformAccount } from '@shared/schema';
+import { checkPlatformConstraints, type ConstraintViolation } from '@shared/platformConstraints';
+
+export async function checkContentForAccount(
+  content: Content,
+  account: PlatformAccount
+): Promise<{ platform: string; violations: ConstraintViolation[] }> {
+  const platform = await storage.getPlatform(account.platformId);
+  if (!platform) return { platform: 'Unknown platform', violations: [] };
+
+  return { platform: platform.name, violations: checkPlatformConstraints(content, platform.name) };
+}
@@ -0,0 +1,106 @@
+/**
+ * Adapter for the built-in "Feed" platform. Publishing appends an item to the
+ * account's feed instead of calling an external API; the feeds are served
+ * publicly from /feeds/:accountId/{rss,atom,podcast}.xml. Content whose
+ * metadata links a script with audio (metadata.scriptId) becomes a podcast
+ * episode with that audio as its enclosure.
+ */
+
+import { randomUUID } from 'crypto';
+import { storage } from '../../../storage';
+import type { Content, PlatformAccount } from '@shared/schema';
+import {
+  PlatformError,
+  type AdapterContext,
+  type PlatformAdapter,
+  type PostComment,
+  type PostMetrics,
+  type PublishPayload,
+  type PublishRequest,
+  type PublishResult,
+  type TokenSet
+} from '../adapter';
+
+export function feedPath(accountId: number): string {
+  return `/feeds/${accountId}`;
+}
+
+function scriptIdOf(content: Content): number | null {
+  const metadata = content.metadata && typeof content.metadata === 'object' ? content.metadata as Record<string, unknown> : {};
+  const scriptId = Number(metadata.scriptId);
+  return Number.isInteger(scriptId) && scriptId > 0 ? scriptId : null;
+}
+
+class FeedAdapter implements PlatformAdapter {
+  public readonly platform = 'Feed';
+
+  public buildPublishPayload({ account, content }: PublishRequest): PublishPayload {
+    return {
+      method: 'APPEND',
+      url: `${feedPath(account.id)}/rss.xml`,
+      body: {
+        title: content.title,
+        description: content.description,
+        contentType: content.contentType,
+        mediaPath: content.filePath,
+        scriptId: scriptIdOf(content)
+      }
+    };
+  }
+
+  public async publish({ account, post, content }: PublishRequest): Promise<PublishResult> {
+    const item = await storage.createFeedItem({
+      platformAccountId: account.id,
+      scheduledPostId: post.id,
+      guid: randomUUID(),
+      ...(await this.itemFields(content))
+    });
+    return { postId: item.guid, url: `${feedPath(account.id)}/rss.xml` };
+  }
+
+  public async updatePost({ content }: PublishRequest, postId: string): Promise<void> {
+    const item = await this.findItem(postId);
+    await storage.updateFeedItem(item.id, await this.itemFields(content));
+  }
+
+  public async deletePost(_context: AdapterContext, postId: string): Promise<void> {
+    const item = await this.findItem(postId);
+    await storage.deleteFeedItem(item.id);
+  }
+
+  // Feeds are pulled by readers anonymously, so there is nothing to count
+  public async fetchMetrics(_context: AdapterContext, postId: string): Promise<PostMetrics> {
+    await this.findItem(postId);
+    return { views: 0, likes: 0, shares: 0, comments: 0, fetchedAt: new Date() };
+  }
+
+  public async fetchComments(_context: AdapterContext, postId: string): Promise<PostComment[]> {
+    await this.findItem(postId);
+    return [];
+  }
+
+  public async refreshToken(_account: PlatformAccount, _refreshToken: string): Promise<TokenSet> {
+    throw new PlatformError('Feed accounts do not use access tokens', false);
+  }
+
+  private async itemFields(content: Content) {
+    const scriptId = scriptIdOf(content);
+    const script = scriptId ? await storage.getScript(scriptId) : undefined;
+    return {
+      title: content.title,
+      description: content.description,
+      contentType: content.contentType,
+      mediaPath: content.filePath,
+      audioPath: script?.audioPath ?? null,
+      audioDuration: script?.audioPath ? script.duration : null
+    };
+  }
+
+  private async findItem(postId: string) {
+    const item = await storage.getFeedItemByGuid(postId);
+    if (!item) throw new PlatformError(`Feed item ${postId} not found`, false);
+    return item;
+  }
+}
+
+export default new FeedAdapter();
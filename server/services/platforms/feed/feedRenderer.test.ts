@@ -0,0 +1,83 @@
+/**
+ * Feed rendering: escaping of post and channel text in RSS, Atom and podcast
+ * documents, media URLs, and which items the podcast feed lists.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { FeedItem } from '@shared/schema';
+import { renderAtom, renderPodcast, renderRss, type FeedChannel } from './feedRenderer';
+
+const hostile = `Tom & Jerry's <b>"best"</b> ]]> episode`;
+const escaped = 'Tom &amp; Jerry&apos;s &lt;b&gt;&quot;best&quot;&lt;/b&gt; ]]&gt; episode';
+
+const channel: FeedChannel = {
+  title: hostile,
+  description: 'Shows & <tells>',
+  author: 'A & B',
+  baseUrl: 'https://example.com',
+  feedPath: '/feeds/1'
+};
+
+function item(overrides: Partial<FeedItem> = {}): FeedItem {
+  return {
+    id: 1,
+    platformAccountId: 1,
+    scheduledPostId: null,
+    guid: 'c0ffee',
+    title: hostile,
+    description: hostile,
+    contentType: 'text',
+    mediaPath: null,
+    audioPath: null,
+    audioDuration: null,
+    publishedAt: new Date('2026-01-02T03:04:05Z'),
+    updatedAt: new Date('2026-01-03T03:04:05Z'),
+    ...overrides
+  };
+}
+
+// The text between the tags, once per element
+function elementText(xml: string, tag: string): string[] {
+  return Array.from(xml.matchAll(new RegExp(`<${tag}(?: [^>]*)?>([^<]*)</${tag}>`, 'g')), (match) => match[1]);
+}
+
+test('escapes post and channel text in every feed', () => {
+  const audio = item({ audioPath: '/audio/episode.mp3' });
+  const documents = [renderRss(channel, [audio]), renderAtom(channel, [audio]), renderPodcast(channel, [audio], new Map())];
+
+  for (const xml of documents) {
+    assert.doesNotMatch(xml, /<b>|Jerry's|"best"|Tom & /);
+    assert.deepEqual(elementText(xml, 'title'), [escaped, escaped]);
+  }
+  assert.deepEqual(elementText(documents[0], 'description'), ['Shows &amp; &lt;tells&gt;', escaped]);
+  assert.deepEqual(elementText(documents[1], 'content'), [escaped]);
+  assert.deepEqual(elementText(documents[1], 'name'), ['A &amp; B']);
+  assert.deepEqual(elementText(documents[2], 'itunes:author'), ['A &amp; B']);
+});
+
+test('escapes media URLs inside attributes', () => {
+  const media = item({ mediaPath: 'https://cdn.example.com/clip.mp4?a=1&b="2"' });
+
+  assert.match(renderRss(channel, [media]), /<link>https:\/\/cdn\.example\.com\/clip\.mp4\?a=1&amp;b=&quot;2&quot;<\/link>/);
+  assert.match(renderAtom(channel, [media]), /href="https:\/\/cdn\.example\.com\/clip\.mp4\?a=1&amp;b=&quot;2&quot;"/);
+});
+
+test('resolves relative media paths against the base URL', () => {
+  const rss = renderRss(channel, [item({ mediaPath: '/content/1/image.png' }), item({ guid: 'beef', mediaPath: 'content/2/image.png' })]);
+
+  assert.deepEqual(elementText(rss, 'link').slice(1), [
+    'https://example.com/content/1/image.png',
+    'https://example.com/content/2/image.png'
+  ]);
+  assert.match(rss, /<atom:link href="https:\/\/example\.com\/feeds\/1\/rss\.xml" rel="self"/);
+});
+
+test('lists only items with audio in the podcast feed, each with an enclosure', () => {
+  const episode = item({ guid: 'episode', audioPath: '/audio/episode.m4a', audioDuration: 3725 });
+  const podcast = renderPodcast(channel, [item({ guid: 'text-only' }), episode], new Map([['/audio/episode.m4a', 123456]]));
+
+  assert.deepEqual(elementText(podcast, 'guid'), ['episode']);
+  assert.match(podcast, /<enclosure url="https:\/\/example\.com\/audio\/episode\.m4a" length="123456" type="audio\/[a-z0-9-]+"\/>/);
+  assert.deepEqual(elementText(podcast, 'itunes:duration'), ['1:02:05']);
+});
@@ -0,0 +1,140 @@
+/**
+ * Feed documents for a "Feed" platform account: RSS 2.0, Atom 1.0 and a
+ * podcast RSS feed (iTunes tags, one enclosure per item) that only lists
+ * items with audio. Relative media paths are resolved against the base URL.
+ */
+
+import type { FeedItem } from '@shared/schema';
+import { isRemoteMedia, mediaTypeOf } from '../media';
+
+export interface FeedChannel {
+  title: string;
+  description: string;
+  author: string;
+  baseUrl: string; // public origin the feeds are served from
+  feedPath: string; // path of the account's feeds, without the file name
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function absoluteUrl(baseUrl: string, path: string): string {
+  return isRemoteMedia(path) ? path : `${baseUrl}${path.startsWith('/') ? '' : '/'}${path}`;
+}
+
+function audioType(path: string): string {
+  return mediaTypeOf(path) ?? 'audio/mpeg';
+}
+
+// h:mm:ss as podcast apps expect
+function formatDuration(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  return [h, m, s].map((part, i) => (i === 0 ? String(part) : String(part).padStart(2, '0'))).join(':');
+}
+
+// When the newest item changed; an empty feed counts as just built
+function lastUpdated(items: FeedItem[]): Date {
+  if (items.length === 0) return new Date();
+  return items.reduce((latest, item) => (item.updatedAt > latest ? item.updatedAt : latest), items[0].updatedAt);
+}
+
+export function renderRss(channel: FeedChannel, items: FeedItem[]): string {
+  const feedUrl = `${channel.baseUrl}${channel.feedPath}/rss.xml`;
+  const entries = items.map((item) => [
+    '    <item>',
+    `      <title>${escapeXml(item.title)}</title>`,
+    `      <guid isPermaLink="false">${escapeXml(item.guid)}</guid>`,
+    `      <pubDate>${item.publishedAt.toUTCString()}</pubDate>`,
+    item.description ? `      <description>${escapeXml(item.description)}</description>` : null,
+    item.mediaPath ? `      <link>${escapeXml(absoluteUrl(channel.baseUrl, item.mediaPath))}</link>` : null,
+    '    </item>'
+  ].filter((line) => line !== null).join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${escapeXml(channel.title)}</title>`,
+    `    <link>${escapeXml(channel.baseUrl)}</link>`,
+    `    <description>${escapeXml(channel.description)}</description>`,
+    `    <atom:link href="${escapeXml(feedUrl)}" rel="self" type="application/rss+xml"/>`,
+    `    <lastBuildDate>${lastUpdated(items).toUTCString()}</lastBuildDate>`,
+    ...entries,
+    '  </channel>',
+    '</rss>',
+    ''
+  ].join('\n');
+}
+
+export function renderAtom(channel: FeedChannel, items: FeedItem[]): string {
+  const feedUrl = `${channel.baseUrl}${channel.feedPath}/atom.xml`;
+  const entries = items.map((item) => [
+    '  <entry>',
+    `    <title>${escapeXml(item.title)}</title>`,
+    `    <id>urn:uuid:${escapeXml(item.guid)}</id>`,
+    `    <published>${item.publishedAt.toISOString()}</published>`,
+    `    <updated>${item.updatedAt.toISOString()}</updated>`,
+    item.description ? `    <content type="text">${escapeXml(item.description)}</content>` : null,
+    item.mediaPath ? `    <link rel="enclosure" href="${escapeXml(absoluteUrl(channel.baseUrl, item.mediaPath))}"/>` : null,
+    '  </entry>'
+  ].filter((line) => line !== null).join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${escapeXml(channel.title)}</title>`,
+    `  <subtitle>${escapeXml(channel.description)}</subtitle>`,
+    `  <id>${escapeXml(feedUrl)}</id>`,
+    `  <link href="${escapeXml(feedUrl)}" rel="self"/>`,
+    `  <link href="${escapeXml(channel.baseUrl)}"/>`,
+    `  <updated>${lastUpdated(items).toISOString()}</updated>`,
+    `  <author><name>${escapeXml(channel.author)}</name></author>`,
+    ...entries,
+    '</feed>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Podcast RSS: only items with audio, each with an enclosure. `audioSizes`
+ * holds enclosure lengths in bytes where the file size is known.
+ */
+export function renderPodcast(channel: FeedChannel, items: FeedItem[], audioSizes: Map<string, number>): string {
+  const feedUrl = `${channel.baseUrl}${channel.feedPath}/podcast.xml`;
+  const episodes = items.filter((item) => item.audioPath);
+  const entries = episodes.map((item) => [
+    '    <item>',
+    `      <title>${escapeXml(item.title)}</title>`,
+    `      <guid isPermaLink="false">${escapeXml(item.guid)}</guid>`,
+    `      <pubDate>${item.publishedAt.toUTCString()}</pubDate>`,
+    item.description ? `      <description>${escapeXml(item.description)}</description>` : null,
+    `      <enclosure url="${escapeXml(absoluteUrl(channel.baseUrl, item.audioPath!))}" length="${audioSizes.get(item.audioPath!) ?? 0}" type="${audioType(item.audioPath!)}"/>`,
+    item.audioDuration ? `      <itunes:duration>${formatDuration(item.audioDuration)}</itunes:duration>` : null,
+    '    </item>'
+  ].filter((line) => line !== null).join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd">',
+    '  <channel>',
+    `    <title>${escapeXml(channel.title)}</title>`,
+    `    <link>${escapeXml(channel.baseUrl)}</link>`,
+    `    <description>${escapeXml(channel.description)}</description>`,
+    `    <atom:link href="${escapeXml(feedUrl)}" rel="self" type="application/rss+xml"/>`,
+    `    <itunes:author>${escapeXml(channel.author)}</itunes:author>`,
+    '    <itunes:explicit>false</itunes:explicit>',
+    `    <lastBuildDate>${lastUpdated(episodes).toUTCString()}</lastBuildDate>`,
+    ...entries,
+    '  </channel>',
+    '</rss>',
+    ''
+  ].join('\n');
+}
@@ -0,0 +1,179 @@
+/**
+ * Mastodon adapter against the stand-in server: statuses with and without
+ * media, edits and deletes, engagement, and how failures are classified.
+ */
+
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import type { Content, PlatformAccount, ScheduledPost } from '@shared/schema';
+import { storage } from '../../../storage';
+import { PlatformError, type PublishRequest } from '../adapter';
+import mastodonAdapter from './mastodonAdapter';
+import { startMastodonServer } from './mastodonServer';
+
+const TOKEN = 'mastodon-token';
+const IMAGE = Buffer.from('89504e470d0a1a0a0000000d49484452', 'hex');
+
+let server: Server;
+let serverUrl: string;
+let mediaRoot: string;
+let account: PlatformAccount;
+
+function publishRequest(postId: number, content: Partial<Content>, accessToken: string = TOKEN): PublishRequest {
+  return {
+    account,
+    accessToken,
+    post: { id: postId, contentId: 1, platformAccountId: account.id } as ScheduledPost,
+    content: { id: 1, title: 'A title', description: null, contentType: 'text', filePath: null, ...content } as Content
+  };
+}
+
+// The status as the stand-in serves it
+async function getStatus(id: string) {
+  const res = await fetch(`${serverUrl}/api/v1/statuses/${id}`, { headers: { Authorization: `Bearer ${TOKEN}` } });
+  return res.json();
+}
+
+async function failNext(status: number) {
+  await fetch(`${serverUrl}/__control/fail`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ count: 1, status })
+  });
+}
+
+// Resolves with the PlatformError `promise` rejects with
+async function platformError(promise: Promise<unknown>): Promise<PlatformError> {
+  try {
+    await promise;
+  } catch (error) {
+    assert.ok(error instanceof PlatformError);
+    return error;
+  }
+  assert.fail('expected a PlatformError');
+}
+
+before(async () => {
+  server = await startMastodonServer(0, { staticToken: TOKEN });
+  serverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  mediaRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'mastodon-media-'));
+  await fs.mkdir(path.join(mediaRoot, 'content'));
+  await fs.writeFile(path.join(mediaRoot, 'content', 'cover.png'), IMAGE);
+  process.env.MEDIA_ROOT = mediaRoot;
+
+  const platform = (await storage.getPlatforms()).find((p) => p.name === 'Mastodon');
+  account = await storage.createPlatformAccount({
+    platformId: platform!.id,
+    name: 'Creator',
+    username: 'creator',
+    active: true,
+    metadata: { instanceUrl: serverUrl }
+  });
+});
+
+after(async () => {
+  server.close();
+  await fs.rm(mediaRoot, { recursive: true, force: true });
+});
+
+test('publishes a text status', async () => {
+  const { postId, url } = await mastodonAdapter.publish(publishRequest(1, { description: 'Hello\n\nfediverse' }));
+
+  assert.equal(url, `${serverUrl}/@creator/${postId}`);
+  assert.equal((await getStatus(postId)).content, '<p>Hello</p><p>fediverse</p>');
+});
+
+test('uploads the image before publishing the status', async () => {
+  const { postId } = await mastodonAdapter.publish(publishRequest(2, {
+    title: 'Cover art',
+    description: 'New cover',
+    contentType: 'image',
+    filePath: '/content/cover.png'
+  }));
+
+  const status = await getStatus(postId);
+  assert.equal(status.media_attachments.length, 1);
+  assert.equal(status.media_attachments[0].type, 'image');
+  assert.equal(status.media_attachments[0].description, 'Cover art');
+
+  const uploaded = await fetch(status.media_attachments[0].url);
+  assert.equal(uploaded.headers.get('content-type'), 'image/png');
+  assert.deepEqual(Buffer.from(await uploaded.arrayBuffer()), IMAGE);
+});
+
+test('publishing the same post again does not create a second status', async () => {
+  const first = await mastodonAdapter.publish(publishRequest(3, { description: 'Only once' }));
+  const again = await mastodonAdapter.publish(publishRequest(3, { description: 'Only once' }));
+
+  assert.equal(again.postId, first.postId);
+});
+
+test('edits and deletes a status', async () => {
+  const { postId } = await mastodonAdapter.publish(publishRequest(4, { description: 'Before' }));
+
+  await mastodonAdapter.updatePost(publishRequest(4, { description: 'After' }), postId);
+  const edited = await getStatus(postId);
+  assert.equal(edited.content, '<p>After</p>');
+  assert.ok(edited.edited_at);
+
+  await mastodonAdapter.deletePost({ account, accessToken: TOKEN }, postId);
+  const error = await platformError(mastodonAdapter.fetchMetrics({ account, accessToken: TOKEN }, postId));
+  assert.match(error.message, /404/);
+  assert.equal(error.retryable, false);
+});
+
+test('reads favourites, boosts and replies', async () => {
+  const context = { account, accessToken: TOKEN };
+  const { postId } = await mastodonAdapter.publish(publishRequest(5, { description: 'Engage' }));
+
+  // Half an hour later
+  const now = Date.now();
+  mock.method(Date, 'now', () => now + 30 * 60 * 1000);
+  try {
+    const metrics = await mastodonAdapter.fetchMetrics(context, postId);
+    assert.deepEqual({ ...metrics, fetchedAt: undefined }, { views: 0, likes: 6, shares: 6, comments: 3, fetchedAt: undefined });
+
+    const comments = await mastodonAdapter.fetchComments(context, postId);
+    assert.deepEqual(comments.map((comment) => [comment.author, comment.text]), [
+      ['alice', '@creator Nice one!'],
+      ['bob', '@creator Boosting this.'],
+      ['carol', '@creator Thanks for sharing']
+    ]);
+    assert.ok(comments[0].createdAt instanceof Date);
+  } finally {
+    mock.restoreAll();
+  }
+});
+
+test('a rejected token flags the account for reconnection', async () => {
+  const error = await platformError(mastodonAdapter.publish(publishRequest(6, { description: 'Hi' }, 'revoked-token')));
+  assert.match(error.message, /401/);
+  assert.equal(error.retryable, false);
+
+  const flagged = await storage.getPlatformAccount(account.id);
+  assert.equal(flagged?.needsReconnect, true);
+  assert.match(flagged?.connectionError ?? '', /rejected the access token/);
+
+  await storage.updatePlatformAccount(account.id, { needsReconnect: false, connectionError: null });
+});
+
+test('rate limits and server errors are retryable', async () => {
+  for (const status of [429, 500, 503]) {
+    await failNext(status);
+    const error = await platformError(mastodonAdapter.publish(publishRequest(7, { description: 'Retry me' })));
+    assert.match(error.message, new RegExp(`returned ${status}`));
+    assert.equal(error.retryable, true);
+  }
+});
+
+test('rejected content is not retryable', async () => {
+  const error = await platformError(mastodonAdapter.publish(publishRequest(8, { description: 'x'.repeat(501) })));
+  assert.match(error.message, /422/);
+  assert.equal(error.retryable, false);
+});
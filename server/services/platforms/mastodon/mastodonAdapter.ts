@@ -0,0 +1,205 @@
+/**
+ * Adapter for Mastodon and other servers speaking the Mastodon REST API
+ * (platform name "Mastodon"). The instance comes from the account's
+ * metadata.instanceUrl, else the domain of a "user@instance" username, else
+ * MASTODON_INSTANCE_URL. Accounts are connected with an access token created
+ * under the instance's Development settings; those tokens don't expire, so
+ * an instance rejecting one means the account has to be reconnected.
+ */
+
+import type { PlatformAccount } from '@shared/schema';
+import {
+  PlatformError,
+  type AdapterContext,
+  type PlatformAdapter,
+  type PostComment,
+  type PostMetrics,
+  type PublishPayload,
+  type PublishRequest,
+  type PublishResult,
+  type TokenSet
+} from '../adapter';
+import { readMedia } from '../media';
+import { markNeedsReconnect } from '../tokens';
+
+interface MastodonStatus {
+  id: string;
+  url: string | null;
+  content: string;
+  created_at: string;
+  account: { acct: string };
+  favourites_count: number;
+  reblogs_count: number;
+  replies_count: number;
+}
+
+interface MastodonMediaAttachment {
+  id: string;
+  type: string;
+  url: string;
+}
+
+interface MastodonContext {
+  ancestors: MastodonStatus[];
+  descendants: MastodonStatus[];
+}
+
+interface MastodonErrorBody {
+  error?: string;
+}
+
+// Status content is HTML; comments are stored as plain text
+function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/p>\s*<p>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+class MastodonAdapter implements PlatformAdapter {
+  public readonly platform = 'Mastodon';
+
+  public buildPublishPayload({ account, content }: PublishRequest): PublishPayload {
+    return {
+      method: 'POST',
+      url: `${this.instanceUrl(account)}/api/v1/statuses`,
+      body: {
+        status: content.description || content.title,
+        visibility: 'public',
+        // Uploaded first; the status references the resulting media IDs
+        media: this.hasMedia(content) ? [content.filePath] : []
+      }
+    };
+  }
+
+  public async publish(request: PublishRequest): Promise<PublishResult> {
+    const status = await this.request<MastodonStatus>(request, 'POST', '/api/v1/statuses', await this.statusBody(request), {
+      // Retries of the same post must not create a second status
+      'Idempotency-Key': `creator-ai-post-${request.post.id}`
+    });
+    return { postId: status.id, url: status.url ?? undefined };
+  }
+
+  public async updatePost(request: PublishRequest, postId: string): Promise<void> {
+    await this.request<MastodonStatus>(request, 'PUT', `/api/v1/statuses/${encodeURIComponent(postId)}`, await this.statusBody(request));
+  }
+
+  public async deletePost(context: AdapterContext, postId: string): Promise<void> {
+    await this.request<MastodonStatus>(context, 'DELETE', `/api/v1/statuses/${encodeURIComponent(postId)}`);
+  }
+
+  public async fetchMetrics(context: AdapterContext, postId: string): Promise<PostMetrics> {
+    const status = await this.request<MastodonStatus>(context, 'GET', `/api/v1/statuses/${encodeURIComponent(postId)}`);
+    return {
+      views: 0, // Mastodon doesn't count views
+      likes: status.favourites_count,
+      shares: status.reblogs_count,
+      comments: status.replies_count,
+      fetchedAt: new Date()
+    };
+  }
+
+  public async fetchComments(context: AdapterContext, postId: string): Promise<PostComment[]> {
+    const thread = await this.request<MastodonContext>(
+      context,
+      'GET',
+      `/api/v1/statuses/${encodeURIComponent(postId)}/context`
+    );
+    return thread.descendants.map((reply) => ({
+      id: reply.id,
+      author: reply.account.acct,
+      text: htmlToText(reply.content),
+      createdAt: new Date(reply.created_at)
+    }));
+  }
+
+  public async refreshToken(account: PlatformAccount): Promise<TokenSet> {
+    throw new PlatformError(`Mastodon access tokens can't be refreshed; reconnect "${account.name}" with a new token`, false);
+  }
+
+  private instanceUrl(account: PlatformAccount): string {
+    const metadata = account.metadata as { instanceUrl?: unknown } | null;
+    if (typeof metadata?.instanceUrl === 'string' && metadata.instanceUrl) {
+      return metadata.instanceUrl.replace(/\/$/, '');
+    }
+
+    const domain = account.username.replace(/^@/, '').split('@')[1];
+    if (domain) return `https://${domain}`;
+
+    if (process.env.MASTODON_INSTANCE_URL) return process.env.MASTODON_INSTANCE_URL.replace(/\/$/, '');
+    throw new PlatformError(`No Mastodon instance for "${account.name}"; use a user@instance username`, false);
+  }
+
+  private hasMedia(content: PublishRequest['content']): boolean {
+    return content.contentType === 'image' && Boolean(content.filePath);
+  }
+
+  // The status text with any media uploaded first
+  private async statusBody(request: PublishRequest): Promise<Record<string, unknown>> {
+    const { body } = this.buildPublishPayload(request);
+    const { status, visibility } = body as { status: string; visibility: string };
+    const mediaIds = this.hasMedia(request.content) ? [await this.uploadMedia(request)] : [];
+    return { status, visibility, media_ids: mediaIds };
+  }
+
+  private async uploadMedia(request: PublishRequest): Promise<string> {
+    const file = await readMedia(request.content.filePath!);
+    const form = new FormData();
+    form.append('file', new Blob([file.data], { type: file.mimeType }), file.fileName);
+    form.append('description', request.content.title);
+
+    const attachment = await this.request<MastodonMediaAttachment>(request, 'POST', '/api/v2/media', form);
+    return attachment.id;
+  }
+
+  /**
+   * Call the account's instance; 5xx, 429 and network errors are retryable, other failures are not.
+   * A rejected token (401) flags the account for reconnection.
+   * `T` is the Mastodon entity the endpoint answers with.
+   */
+  private async request<T>(
+    { account, accessToken }: AdapterContext,
+    method: string,
+    path: string,
+    body?: Record<string, unknown> | FormData,
+    headers: Record<string, string> = {}
+  ): Promise<T> {
+    const json = body !== undefined && !(body instanceof FormData);
+    let res: globalThis.Response;
+    try {
+      res = await fetch(`${this.instanceUrl(account)}${path}`, {
+        method,
+        headers: {
+          ...headers,
+          ...(json ? { 'Content-Type': 'application/json' } : {}),
+          ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {})
+        },
+        body: json ? JSON.stringify(body) : (body as FormData | undefined)
+      });
+    } catch (error) {
+      throw new PlatformError(`Mastodon instance unreachable: ${(error as Error).message}`);
+    }
+
+    if (!res.ok) {
+      const detail: MastodonErrorBody = await res.json().catch(() => ({}));
+      if (res.status === 401) {
+        // The token was revoked; only a new one helps
+        await markNeedsReconnect(account, `Mastodon rejected the access token: ${detail.error || res.statusText}`);
+      }
+      throw new PlatformError(
+        `Mastodon returned ${res.status}: ${detail.error || res.statusText}`,
+        res.status >= 500 || res.status === 429
+      );
+    }
+
+    return (await res.json()) as T;
+  }
+}
+
+export default new MastodonAdapter();
@@ -0,0 +1,297 @@
+/**
+ * Mastodon Stand-in Server
+ *
+ * A local, in-memory imitation of the parts of the Mastodon REST API the
+ * Mastodon adapter uses, so publishing can be exercised without a real
+ * instance. Favourites, boosts and replies grow deterministically with a
+ * status's age.
+ *
+ * Endpoints (Bearer token):
+ *   GET    /api/v1/accounts/verify_credentials
+ *   POST   /api/v2/media                        multipart upload (field "file", optional "description")
+ *   GET    /media/:id                           uploaded file (public)
+ *   POST   /api/v1/statuses                     create; honours Idempotency-Key
+ *   GET    /api/v1/statuses/:id
+ *   PUT    /api/v1/statuses/:id                 edit text and media
+ *   DELETE /api/v1/statuses/:id
+ *   GET    /api/v1/statuses/:id/context         replies as descendants
+ *   GET    /api/v1/statuses/:id/favourited_by
+ *   GET    /api/v1/statuses/:id/reblogged_by
+ *   POST   /__control/fail                      make the next N API calls fail with a status
+ */
+
+import express, { type Express, type Request, type Response, type NextFunction } from 'express';
+import { createServer, type Server } from 'http';
+import { randomBytes } from 'crypto';
+
+interface MastodonServerOptions {
+  staticToken?: string; // the one valid access token
+  username?: string;
+  maxCharacters?: number;
+}
+
+interface StoredMedia {
+  id: string;
+  type: string;
+  mimeType: string;
+  data: Buffer;
+  description: string | null;
+}
+
+interface StoredStatus {
+  id: string;
+  text: string;
+  mediaIds: string[];
+  visibility: string;
+  createdAt: Date;
+  editedAt: Date | null;
+}
+
+// JSON or form-encoded; form bodies send a single media_ids value as a string
+interface StatusRequestBody {
+  status?: unknown;
+  media_ids?: unknown;
+}
+
+const FAN_NAMES = ['alice', 'bob', 'carol', 'dave', 'erin', 'frank'];
+const REPLY_TEXTS = ['Nice one!', 'Boosting this.', 'Thanks for sharing', 'Interesting, tell me more'];
+
+function newId(): string {
+  // Mastodon IDs are numeric strings
+  return BigInt('0x' + randomBytes(6).toString('hex')).toString();
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function toHtml(text: string): string {
+  return text.split(/\n{2,}/).map((paragraph) => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br />')}</p>`).join('');
+}
+
+export function createMastodonApp(options: MastodonServerOptions = {}): Express {
+  const token = options.staticToken ?? 'mastodon-token';
+  const username = options.username ?? 'creator';
+  const maxCharacters = options.maxCharacters ?? 500;
+
+  const media: Map<string, StoredMedia> = new Map();
+  const statuses: Map<string, StoredStatus> = new Map();
+  const idempotencyKeys: Map<string, string> = new Map(); // key -> status ID
+  let pendingFailures = { count: 0, status: 500 };
+
+  const app = express();
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: true }));
+  app.use(express.raw({ type: 'multipart/form-data', limit: '50mb' }));
+
+  const origin = (req: Request) => `${req.protocol}://${req.get('host')}`;
+  const accountEntity = (req: Request, name: string) => ({
+    id: String(FAN_NAMES.indexOf(name) + 2),
+    username: name,
+    acct: name,
+    display_name: name,
+    url: `${origin(req)}/@${name}`,
+  });
+  const self = (req: Request) => ({ ...accountEntity(req, username), id: '1', followers_count: 840 });
+
+  // Engagement grows steadily with the status's age
+  const engagement = (status: StoredStatus) => {
+    const minutes = Math.floor((Date.now() - status.createdAt.getTime()) / 60000);
+    return {
+      favourites: Math.min(FAN_NAMES.length, Math.floor(minutes / 2)),
+      reblogs: Math.min(FAN_NAMES.length, Math.floor(minutes / 5)),
+      replies: Math.min(REPLY_TEXTS.length, Math.floor(minutes / 10)),
+    };
+  };
+
+  const statusEntity = (req: Request, status: StoredStatus) => {
+    const counts = engagement(status);
+    return {
+      id: status.id,
+      created_at: status.createdAt.toISOString(),
+      edited_at: status.editedAt?.toISOString() ?? null,
+      visibility: status.visibility,
+      url: `${origin(req)}/@${username}/${status.id}`,
+      content: toHtml(status.text),
+      account: self(req),
+      media_attachments: status.mediaIds.map((id) => {
+        const attachment = media.get(id)!;
+        return { id, type: attachment.type, url: `${origin(req)}/media/${id}`, description: attachment.description };
+      }),
+      favourites_count: counts.favourites,
+      reblogs_count: counts.reblogs,
+      replies_count: counts.replies,
+    };
+  };
+
+  // Test hook: make upcoming calls fail to exercise retries
+  app.post('/__control/fail', (req, res) => {
+    pendingFailures = { count: Number(req.body.count) || 1, status: Number(req.body.status) || 500 };
+    res.json(pendingFailures);
+  });
+
+  app.get('/media/:id', (req, res) => {
+    const attachment = media.get(req.params.id);
+    if (!attachment) return res.status(404).json({ error: 'Record not found' });
+    res.type(attachment.mimeType).send(attachment.data);
+  });
+
+  app.use('/api', (req, res, next) => {
+    if (pendingFailures.count > 0) {
+      pendingFailures.count--;
+      return res.status(pendingFailures.status).json({ error: 'Injected failure' });
+    }
+    next();
+  });
+
+  const requireToken = (req: Request, res: Response, next: NextFunction) => {
+    if (req.headers.authorization?.replace(/^Bearer\s+/i, '') !== token) {
+      return res.status(401).json({ error: 'The access token is invalid' });
+    }
+    next();
+  };
+
+  const findStatus = (req: Request, res: Response): StoredStatus | undefined => {
+    const status = statuses.get(req.params.id);
+    if (!status) res.status(404).json({ error: 'Record not found' });
+    return status;
+  };
+
+  // Text and media IDs from a create or edit request, or the error to answer with
+  const readStatusBody = (body: StatusRequestBody): { text: string; mediaIds: string[] } | { error: string } => {
+    const text = typeof body.status === 'string' ? body.status : '';
+    const mediaIds = (Array.isArray(body.media_ids) ? body.media_ids : body.media_ids ? [body.media_ids] : []).map(String);
+
+    if (!text.trim() && mediaIds.length === 0) return { error: "Validation failed: Text can't be blank" };
+    if (text.length > maxCharacters) return { error: `Validation failed: Text character limit of ${maxCharacters} exceeded` };
+    if (mediaIds.length > 4) return { error: 'Validation failed: Cannot attach more than 4 files' };
+    if (mediaIds.some((id) => !media.has(id))) return { error: 'Validation failed: Media attachment not found' };
+    return { text, mediaIds };
+  };
+
+  app.get('/api/v1/accounts/verify_credentials', requireToken, (req, res) => {
+    res.json(self(req));
+  });
+
+  app.post('/api/v2/media', requireToken, async (req, res) => {
+    if (!Buffer.isBuffer(req.body)) {
+      return res.status(422).json({ error: 'Validation failed: File is missing' });
+    }
+
+    const form = await new globalThis.Request('http://stand-in/upload', {
+      method: 'POST',
+      headers: { 'content-type': String(req.headers['content-type']) },
+      body: req.body,
+    }).formData();
+    const file = form.get('file');
+    if (!file || typeof file === 'string') {
+      return res.status(422).json({ error: 'Validation failed: File is missing' });
+    }
+    if (!/^(image|video|audio)\//.test(file.type)) {
+      return res.status(422).json({ error: 'Validation failed: File content type is invalid' });
+    }
+
+    const description = form.get('description');
+    const attachment: StoredMedia = {
+      id: newId(),
+      type: file.type.split('/')[0],
+      mimeType: file.type,
+      data: Buffer.from(await file.arrayBuffer()),
+      description: typeof description === 'string' ? description : null,
+    };
+    media.set(attachment.id, attachment);
+
+    res.json({
+      id: attachment.id,
+      type: attachment.type,
+      url: `${origin(req)}/media/${attachment.id}`,
+      description: attachment.description,
+    });
+  });
+
+  app.post('/api/v1/statuses', requireToken, (req, res) => {
+    const key = req.headers['idempotency-key'];
+    const repeated = typeof key === 'string' ? statuses.get(idempotencyKeys.get(key) ?? '') : undefined;
+    if (repeated) return res.json(statusEntity(req, repeated));
+
+    const parsed = readStatusBody(req.body);
+    if ('error' in parsed) return res.status(422).json(parsed);
+
+    const status: StoredStatus = {
+      id: newId(),
+      text: parsed.text,
+      mediaIds: parsed.mediaIds,
+      visibility: typeof req.body.visibility === 'string' ? req.body.visibility : 'public',
+      createdAt: new Date(),
+      editedAt: null,
+    };
+    statuses.set(status.id, status);
+    if (typeof key === 'string') idempotencyKeys.set(key, status.id);
+
+    res.json(statusEntity(req, status));
+  });
+
+  app.get('/api/v1/statuses/:id', requireToken, (req, res) => {
+    const status = findStatus(req, res);
+    if (status) res.json(statusEntity(req, status));
+  });
+
+  app.put('/api/v1/statuses/:id', requireToken, (req, res) => {
+    const status = findStatus(req, res);
+    if (!status) return;
+
+    const parsed = readStatusBody(req.body);
+    if ('error' in parsed) return res.status(422).json(parsed);
+
+    Object.assign(status, parsed, { editedAt: new Date() });
+    res.json(statusEntity(req, status));
+  });
+
+  app.delete('/api/v1/statuses/:id', requireToken, (req, res) => {
+    const status = findStatus(req, res);
+    if (!status) return;
+
+    statuses.delete(status.id);
+    res.json({ ...statusEntity(req, status), text: status.text });
+  });
+
+  app.get('/api/v1/statuses/:id/context', requireToken, (req, res) => {
+    const status = findStatus(req, res);
+    if (!status) return;
+
+    res.json({
+      ancestors: [],
+      descendants: Array.from({ length: engagement(status).replies }, (_, i) => ({
+        id: `${status.id}${i + 1}`,
+        in_reply_to_id: status.id,
+        created_at: new Date(status.createdAt.getTime() + (i + 1) * 10 * 60000).toISOString(),
+        content: toHtml(`@${username} ${REPLY_TEXTS[i % REPLY_TEXTS.length]}`),
+        account: accountEntity(req, FAN_NAMES[i % FAN_NAMES.length]),
+      })),
+    });
+  });
+
+  app.get('/api/v1/statuses/:id/favourited_by', requireToken, (req, res) => {
+    const status = findStatus(req, res);
+    if (status) res.json(FAN_NAMES.slice(0, engagement(status).favourites).map((name) => accountEntity(req, name)));
+  });
+
+  app.get('/api/v1/statuses/:id/reblogged_by', requireToken, (req, res) => {
+    const status = findStatus(req, res);
+    if (status) res.json(FAN_NAMES.slice(0, engagement(status).reblogs).map((name) => accountEntity(req, name)));
+  });
+
+  return app;
+}
+
+/**
+ * Listen on the given port (0 picks a free one) and resolve once ready
+ */
+export function startMastodonServer(port: number, options: MastodonServerOptions = {}, host: string = '127.0.0.1'): Promise<Server> {
+  const server = createServer(createMastodonApp(options));
+  return new Promise((resolve) => {
+    server.listen(port, host, () => resolve(server));
+  });
+}
+
+export type { MastodonServerOptions };
@@ -0,0 +1,11 @@
+/**
+ * Run the Mastodon stand-in server on its own: `npm run mock:mastodon`
+ */
+
+import { startMastodonServer } from './mastodonServer';
+
+const port = Number(process.env.MASTODON_STANDIN_PORT) || 5056;
+
+startMastodonServer(port, { staticToken: process.env.MASTODON_STANDIN_TOKEN }).then(() => {
+  console.log(`mastodon stand-in listening on http://127.0.0.1:${port}`);
+});
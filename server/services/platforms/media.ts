@@ -0,0 +1,86 @@
+/**
+ * Media files referenced by content (file paths, script audio) as adapters
+ * upload them. Paths are resolved under MEDIA_ROOT (default: the working
+ * directory), with a leading "/" meaning the root itself as in
+ * "/content/videos/clip.mp4"; anything that would leave the root is refused.
+ * http(s) URLs are downloaded.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { PlatformError } from './adapter';
+
+const mediaTypes: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  webm: 'video/webm',
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  aac: 'audio/aac',
+  ogg: 'audio/ogg',
+  wav: 'audio/wav'
+};
+
+export interface MediaFile {
+  data: Buffer;
+  fileName: string;
+  mimeType: string;
+}
+
+export function isRemoteMedia(mediaPath: string): boolean {
+  return /^https?:\/\//.test(mediaPath);
+}
+
+/**
+ * The file a local media path refers to. Throws a non-retryable PlatformError
+ * for drive-letter or UNC paths and for paths that resolve outside MEDIA_ROOT.
+ */
+export function resolveMediaPath(mediaPath: string): string {
+  if (mediaPath.includes('\0') || /^([a-zA-Z]:|[\\/]{2})/.test(mediaPath)) {
+    throw new PlatformError(`Media path ${mediaPath} is not allowed`, false);
+  }
+
+  const root = path.resolve(process.env.MEDIA_ROOT || process.cwd());
+  const resolved = path.resolve(root, mediaPath.replace(/^[\\/]+/, ''));
+  if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+    throw new PlatformError(`Media path ${mediaPath} is outside the media root`, false);
+  }
+  return resolved;
+}
+
+export function mediaTypeOf(mediaPath: string): string | undefined {
+  const extension = mediaPath.split('?')[0].split('.').pop()?.toLowerCase() ?? '';
+  return mediaTypes[extension];
+}
+
+/**
+ * Load a media file for upload. A missing file or a path outside the media
+ * root is a non-retryable PlatformError.
+ */
+export async function readMedia(mediaPath: string): Promise<MediaFile> {
+  const fileName = path.basename(mediaPath.split('?')[0]) || 'media';
+  const mimeType = mediaTypeOf(mediaPath) ?? 'application/octet-stream';
+
+  if (isRemoteMedia(mediaPath)) {
+    let res: globalThis.Response;
+    try {
+      res = await fetch(mediaPath);
+    } catch (error) {
+      throw new PlatformError(`Could not download media ${mediaPath}: ${(error as Error).message}`);
+    }
+    if (!res.ok) throw new PlatformError(`Could not download media ${mediaPath}: ${res.status}`, res.status >= 500);
+    return { data: Buffer.from(await res.arrayBuffer()), fileName, mimeType: res.headers.get('content-type') || mimeType };
+  }
+
+  const filePath = resolveMediaPath(mediaPath);
+  try {
+    return { data: await fs.readFile(filePath), fileName, mimeType };
+  } catch {
+    throw new PlatformError(`Media file ${mediaPath} not found`, false);
+  }
+}
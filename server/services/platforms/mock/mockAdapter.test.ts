@@ -0,0 +1,173 @@
+/**
+ * Mock platform adapter against the mock platform server: connecting an
+ * account with OAuth + PKCE, the publish/edit/delete loop, metrics and
+ * comments, and which failures are retryable.
+ */
+
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'crypto';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import type { Content, PlatformAccount, ScheduledPost } from '@shared/schema';
+import { PlatformError, type PublishRequest } from '../adapter';
+import mockAdapter from './mockAdapter';
+import { startMockPlatformServer } from './mockPlatformServer';
+
+const REDIRECT_URI = 'http://127.0.0.1/oauth/callback';
+
+let server: Server;
+let serverUrl: string;
+
+const account = { id: 1, name: 'Mock', username: 'mock_creator' } as PlatformAccount;
+const context = { account, accessToken: 'mock-token' };
+
+function publishRequest(title: string, description: string): PublishRequest {
+  return {
+    ...context,
+    post: { id: 1, contentId: 1, platformAccountId: account.id } as ScheduledPost,
+    content: { id: 1, title, description, contentType: 'text', filePath: null } as Content
+  };
+}
+
+async function failNext(status: number) {
+  await fetch(`${serverUrl}/__control/fail`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ count: 1, status })
+  });
+}
+
+// Resolves with the PlatformError `promise` rejects with
+async function platformError(promise: Promise<unknown>): Promise<PlatformError> {
+  try {
+    await promise;
+  } catch (error) {
+    assert.ok(error instanceof PlatformError);
+    return error;
+  }
+  assert.fail('expected a PlatformError');
+}
+
+before(async () => {
+  server = await startMockPlatformServer(0);
+  serverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  process.env.MOCK_PLATFORM_URL = serverUrl;
+});
+
+after(() => {
+  server.close();
+});
+
+test('connects an account with the authorization code and its PKCE verifier', async () => {
+  const verifier = 'a-code-verifier-that-is-long-enough-for-pkce-0123456789';
+  const url = mockAdapter.getAuthorizationUrl({
+    state: 'state-1',
+    codeChallenge: createHash('sha256').update(verifier).digest('base64url'),
+    redirectUri: REDIRECT_URI
+  });
+
+  const authorize = await fetch(url, { redirect: 'manual' });
+  const callback = new URL(authorize.headers.get('location')!);
+  assert.equal(callback.searchParams.get('state'), 'state-1');
+
+  const authorized = await mockAdapter.exchangeCode(callback.searchParams.get('code')!, verifier, REDIRECT_URI);
+  assert.equal(authorized.username, 'mock_creator');
+  assert.ok(authorized.accessToken);
+  assert.ok(authorized.refreshToken);
+  assert.ok(authorized.expiresAt && authorized.expiresAt > new Date());
+
+  const refreshed = await mockAdapter.refreshToken(account, authorized.refreshToken!);
+  assert.notEqual(refreshed.accessToken, authorized.accessToken);
+  assert.notEqual(refreshed.refreshToken, authorized.refreshToken);
+});
+
+test('refuses an authorization code with the wrong verifier', async () => {
+  const url = mockAdapter.getAuthorizationUrl({
+    state: 'state-2',
+    codeChallenge: createHash('sha256').update('the-real-verifier').digest('base64url'),
+    redirectUri: REDIRECT_URI
+  });
+  const callback = new URL((await fetch(url, { redirect: 'manual' })).headers.get('location')!);
+
+  const error = await platformError(mockAdapter.exchangeCode(callback.searchParams.get('code')!, 'another-verifier', REDIRECT_URI));
+  assert.equal(error.retryable, false);
+});
+
+test('publishes, edits and deletes a post', async () => {
+  const { postId, url } = await mockAdapter.publish(publishRequest('First title', 'First text'));
+  assert.equal(url, `${serverUrl}/posts/${postId}`);
+
+  await mockAdapter.updatePost(publishRequest('Edited title', 'Edited text'), postId);
+  const edited = await (await fetch(`${serverUrl}/posts/${postId}`, { headers: { Authorization: 'Bearer mock-token' } })).json();
+  assert.equal(edited.title, 'Edited title');
+  assert.equal(edited.text, 'Edited text');
+  assert.ok(edited.editedAt);
+
+  await mockAdapter.deletePost(context, postId);
+  const error = await platformError(mockAdapter.deletePost(context, postId));
+  assert.match(error.message, /404/);
+  assert.equal(error.retryable, false);
+});
+
+test('reads metrics and comments as the post ages', async () => {
+  const { postId } = await mockAdapter.publish(publishRequest('Metrics', 'Counting'));
+
+  const fresh = await mockAdapter.fetchMetrics(context, postId);
+  assert.deepEqual({ ...fresh, fetchedAt: undefined }, { views: 0, likes: 0, shares: 0, comments: 0, fetchedAt: undefined });
+  assert.deepEqual(await mockAdapter.fetchComments(context, postId), []);
+
+  // Half an hour later
+  const now = Date.now();
+  mock.method(Date, 'now', () => now + 30 * 60 * 1000);
+  try {
+    const metrics = await mockAdapter.fetchMetrics(context, postId);
+    assert.equal(metrics.views, 360);
+    assert.equal(metrics.likes, 28);
+    assert.equal(metrics.shares, 3);
+    assert.equal(metrics.comments, 6);
+    assert.ok(metrics.fetchedAt instanceof Date);
+
+    const comments = await mockAdapter.fetchComments(context, postId);
+    assert.equal(comments.length, 6);
+    assert.equal(comments[0].id, `${postId}-c1`);
+    assert.equal(comments[0].author, 'ava');
+    assert.ok(comments[0].createdAt instanceof Date);
+  } finally {
+    mock.restoreAll();
+  }
+});
+
+test('server errors and rate limits are retryable', async () => {
+  for (const status of [500, 503, 429]) {
+    await failNext(status);
+    const error = await platformError(mockAdapter.publish(publishRequest('Retry', 'me')));
+    assert.match(error.message, new RegExp(`returned ${status}`));
+    assert.equal(error.retryable, true);
+  }
+});
+
+test('rejected content and bad credentials are not retryable', async () => {
+  const rejected = await platformError(mockAdapter.publish(publishRequest('', '')));
+  assert.match(rejected.message, /422/);
+  assert.equal(rejected.retryable, false);
+
+  const unauthorized = await platformError(mockAdapter.publish({ ...publishRequest('Hello', 'there'), accessToken: 'wrong-token' }));
+  assert.match(unauthorized.message, /401/);
+  assert.equal(unauthorized.retryable, false);
+});
+
+test('an unreachable platform is retryable', async () => {
+  const closed = await startMockPlatformServer(0);
+  const port = (closed.address() as AddressInfo).port;
+  await new Promise((resolve) => closed.close(resolve));
+
+  process.env.MOCK_PLATFORM_URL = `http://127.0.0.1:${port}`;
+  try {
+    const error = await platformError(mockAdapter.publish(publishRequest('Hello', 'there')));
+    assert.match(error.message, /unreachable/);
+    assert.equal(error.retryable, true);
+  } finally {
+    process.env.MOCK_PLATFORM_URL = serverUrl;
+  }
+});
@@ -0,0 +1,191 @@
+/**
+ * Adapter for the bundled mock platform (platform name "Mock").
+ * Points at MOCK_PLATFORM_URL, which defaults to the standalone mock server;
+ * OAuth uses MOCK_PLATFORM_CLIENT_ID (default "creator-ai").
+ */
+
+import type { PlatformAccount } from '@shared/schema';
+import {
+  PlatformError,
+  type AdapterContext,
+  type AuthorizationRequest,
+  type AuthorizedAccount,
+  type PlatformAdapter,
+  type PostComment,
+  type PostMetrics,
+  type PublishPayload,
+  type PublishRequest,
+  type PublishResult,
+  type TokenSet
+} from '../adapter';
+
+// Responses of the mock platform API (see mockPlatformServer.ts)
+interface MockCreatedPost {
+  id: string;
+  url: string;
+}
+
+interface MockPostMetrics {
+  views: number;
+  likes: number;
+  shares: number;
+  comments: number;
+}
+
+interface MockComment {
+  id: string;
+  author: string;
+  text: string;
+  createdAt: string;
+}
+
+interface MockTokenResponse {
+  access_token: string;
+  refresh_token: string;
+  token_type: string;
+  expires_in?: number;
+}
+
+interface MockUser {
+  username: string;
+  name: string;
+  followers: number;
+}
+
+interface MockErrorBody {
+  error?: string;
+}
+
+class MockPlatformAdapter implements PlatformAdapter {
+  public readonly platform = 'Mock';
+
+  private get baseUrl(): string {
+    return (process.env.MOCK_PLATFORM_URL || 'http://127.0.0.1:5055').replace(/\/$/, '');
+  }
+
+  private get clientId(): string {
+    return process.env.MOCK_PLATFORM_CLIENT_ID || 'creator-ai';
+  }
+
+  public buildPublishPayload({ content }: PublishRequest): PublishPayload {
+    return {
+      method: 'POST',
+      url: `${this.baseUrl}/posts`,
+      body: {
+        title: content.title,
+        text: content.description ?? '',
+        contentType: content.contentType,
+        mediaPath: content.filePath
+      }
+    };
+  }
+
+  public async publish(request: PublishRequest): Promise<PublishResult> {
+    const payload = this.buildPublishPayload(request);
+    const body = await this.request<MockCreatedPost>(payload.method, '/posts', request.accessToken, payload.body);
+    return { postId: body.id, url: body.url };
+  }
+
+  public async updatePost(request: PublishRequest, postId: string): Promise<void> {
+    const { body } = this.buildPublishPayload(request);
+    await this.request<unknown>('PATCH', `/posts/${encodeURIComponent(postId)}`, request.accessToken, body);
+  }
+
+  public async deletePost({ accessToken }: AdapterContext, postId: string): Promise<void> {
+    await this.request<void>('DELETE', `/posts/${encodeURIComponent(postId)}`, accessToken);
+  }
+
+  public async fetchMetrics({ accessToken }: AdapterContext, postId: string): Promise<PostMetrics> {
+    const body = await this.request<MockPostMetrics>('GET', `/posts/${encodeURIComponent(postId)}/metrics`, accessToken);
+    return {
+      views: body.views,
+      likes: body.likes,
+      shares: body.shares,
+      comments: body.comments,
+      fetchedAt: new Date()
+    };
+  }
+
+  public async fetchComments({ accessToken }: AdapterContext, postId: string): Promise<PostComment[]> {
+    const body = await this.request<MockComment[]>('GET', `/posts/${encodeURIComponent(postId)}/comments`, accessToken);
+    return body.map((comment) => ({
+      ...comment,
+      createdAt: new Date(comment.createdAt)
+    }));
+  }
+
+  public async refreshToken(_account: PlatformAccount, refreshToken: string): Promise<TokenSet> {
+    const body = await this.request<MockTokenResponse>('POST', '/oauth/token', null, {
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken
+    });
+    return {
+      accessToken: body.access_token,
+      refreshToken: body.refresh_token,
+      expiresAt: body.expires_in ? new Date(Date.now() + body.expires_in * 1000) : undefined
+    };
+  }
+
+  public getAuthorizationUrl({ state, codeChallenge, redirectUri }: AuthorizationRequest): string {
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: this.clientId,
+      redirect_uri: redirectUri,
+      state,
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256'
+    });
+    return `${this.baseUrl}/oauth/authorize?${params}`;
+  }
+
+  public async exchangeCode(code: string, codeVerifier: string, redirectUri: string): Promise<AuthorizedAccount> {
+    const tokens = await this.request<MockTokenResponse>('POST', '/oauth/token', null, {
+      grant_type: 'authorization_code',
+      code,
+      code_verifier: codeVerifier,
+      redirect_uri: redirectUri,
+      client_id: this.clientId
+    });
+    const me = await this.request<MockUser>('GET', '/me', tokens.access_token);
+    return {
+      accessToken: tokens.access_token,
+      refreshToken: tokens.refresh_token,
+      expiresAt: tokens.expires_in ? new Date(Date.now() + tokens.expires_in * 1000) : undefined,
+      username: me.username,
+      name: me.name,
+      followerCount: me.followers
+    };
+  }
+
+  /**
+   * Call the mock API; 5xx and network errors are retryable, other failures are not.
+   * `T` is what the endpoint answers with (undefined for 204 responses).
+   */
+  private async request<T>(method: string, path: string, accessToken: string | null, body?: unknown): Promise<T> {
+    let res: globalThis.Response;
+    try {
+      res = await fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers: {
+          ...(body ? { 'Content-Type': 'application/json' } : {}),
+          ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {})
+        },
+        body: body ? JSON.stringify(body) : undefined
+      });
+    } catch (error) {
+      throw new PlatformError(`Mock platform unreachable: ${(error as Error).message}`);
+    }
+
+    if (!res.ok) {
+      const detail: MockErrorBody = await res.json().catch(() => ({}));
+      throw new PlatformError(
+        `Mock platform returned ${res.status}: ${detail.error || res.statusText}`,
+        res.status >= 500 || res.status === 429
+      );
+    }
+
+    return (res.status === 204 ? undefined : await res.json()) as T;
+  }
+}
+
+export default new MockPlatformAdapter();
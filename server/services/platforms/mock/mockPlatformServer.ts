@@ -0,0 +1,275 @@
+/**
+ * Mock Platform Server
+ *
+ * A small self-contained social platform API for exercising the publish and
+ * analytics loop offline and in tests. Posts live in memory; metrics and
+ * comments are derived deterministically from a post's age.
+ *
+ * Endpoints:
+ *   GET    /oauth/authorize          authorization-code + PKCE (S256); approves immediately
+ *   POST   /oauth/token              authorization_code or refresh_token grant -> tokens
+ *   GET    /me                       the authorized user
+ *   POST   /posts                    publish (Bearer token)
+ *   PATCH  /posts/:id                edit a post's title, text or media
+ *   DELETE /posts/:id                remove a post
+ *   GET    /posts/:id/metrics        views, likes, shares, comments
+ *   GET    /posts/:id/comments       comment list
+ *   POST   /__control/fail           make the next N API calls fail with a status
+ */
+
+import express, { type Express, type Request, type Response, type NextFunction } from 'express';
+import { createServer, type Server } from 'http';
+import { createHash, randomBytes } from 'crypto';
+
+interface MockPlatformOptions {
+  staticToken?: string; // always-valid access token for manually connected accounts
+  tokenTtlSeconds?: number;
+  clientId?: string;
+  username?: string; // the user every authorization is granted for
+}
+
+interface AuthorizationCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  expiresAt: Date;
+}
+
+interface MockPost {
+  id: string;
+  title: string;
+  text: string;
+  contentType: string;
+  mediaPath: string | null;
+  createdAt: Date;
+  editedAt: Date | null;
+}
+
+const COMMENT_AUTHORS = ['ava', 'ben', 'chloe', 'dev', 'eli', 'fatima'];
+const COMMENT_TEXTS = [
+  'Great post!',
+  'Really useful, thanks for sharing.',
+  'Can you do a follow-up on this?',
+  'Saved for later.',
+  'This is exactly what I was looking for.',
+];
+
+function newId(prefix: string): string {
+  return `${prefix}-${randomBytes(8).toString('hex')}`;
+}
+
+export function createMockPlatformApp(options: MockPlatformOptions = {}): Express {
+  const staticToken = options.staticToken ?? 'mock-token';
+  const tokenTtlSeconds = options.tokenTtlSeconds ?? 3600;
+  const clientId = options.clientId ?? 'creator-ai';
+  const username = options.username ?? 'mock_creator';
+
+  const posts: Map<string, MockPost> = new Map();
+  const authorizationCodes: Map<string, AuthorizationCode> = new Map();
+  const accessTokens: Map<string, Date> = new Map(); // token -> expiry
+  const spentRefreshTokens: Set<string> = new Set();
+  let pendingFailures = { count: 0, status: 500 };
+
+  const app = express();
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+
+  // Test hook: make upcoming calls fail to exercise retries
+  app.post('/__control/fail', (req, res) => {
+    pendingFailures = { count: Number(req.body.count) || 1, status: Number(req.body.status) || 500 };
+    res.json(pendingFailures);
+  });
+
+  app.use((req, res, next) => {
+    if (pendingFailures.count > 0) {
+      pendingFailures.count--;
+      return res.status(pendingFailures.status).json({ error: 'Injected failure' });
+    }
+    next();
+  });
+
+  // There is no login page: every valid request is approved for the configured user
+  app.get('/oauth/authorize', (req, res) => {
+    const { response_type, client_id, redirect_uri, state, code_challenge, code_challenge_method } = req.query;
+    if (typeof redirect_uri !== 'string' || !/^https?:\/\//.test(redirect_uri)) {
+      return res.status(400).json({ error: 'invalid_request', error_description: 'redirect_uri is required' });
+    }
+
+    const redirect = new URL(redirect_uri);
+    if (typeof state === 'string') redirect.searchParams.set('state', state);
+
+    if (response_type !== 'code' || client_id !== clientId) {
+      redirect.searchParams.set('error', response_type !== 'code' ? 'unsupported_response_type' : 'unauthorized_client');
+      return res.redirect(redirect.toString());
+    }
+    if (typeof code_challenge !== 'string' || !code_challenge || code_challenge_method !== 'S256') {
+      redirect.searchParams.set('error', 'invalid_request');
+      redirect.searchParams.set('error_description', 'PKCE with S256 is required');
+      return res.redirect(redirect.toString());
+    }
+
+    const code = newId('code');
+    authorizationCodes.set(code, {
+      clientId,
+      redirectUri: redirect_uri,
+      codeChallenge: code_challenge,
+      expiresAt: new Date(Date.now() + 60 * 1000),
+    });
+    redirect.searchParams.set('code', code);
+    res.redirect(redirect.toString());
+  });
+
+  app.post('/oauth/token', (req, res) => {
+    if (req.body.grant_type === 'authorization_code') {
+      const code = authorizationCodes.get(String(req.body.code || ''));
+      authorizationCodes.delete(String(req.body.code || '')); // codes are single-use
+      if (!code || code.expiresAt <= new Date() || code.redirectUri !== req.body.redirect_uri || code.clientId !== req.body.client_id) {
+        return res.status(400).json({ error: 'invalid_grant' });
+      }
+
+      const challenge = createHash('sha256').update(String(req.body.code_verifier || '')).digest('base64url');
+      if (challenge !== code.codeChallenge) {
+        return res.status(400).json({ error: 'invalid_grant', error_description: 'code_verifier does not match' });
+      }
+    } else if (req.body.grant_type === 'refresh_token') {
+      // Any refresh token works once (accounts may be connected by hand); it is rotated on every refresh
+      const presented = String(req.body.refresh_token || '');
+      if (!presented || spentRefreshTokens.has(presented)) {
+        return res.status(400).json({ error: 'invalid_grant' });
+      }
+      spentRefreshTokens.add(presented);
+    } else {
+      return res.status(400).json({ error: 'unsupported_grant_type' });
+    }
+
+    const accessToken = newId('at');
+    const refreshToken = newId('rt');
+    accessTokens.set(accessToken, new Date(Date.now() + tokenTtlSeconds * 1000));
+
+    res.json({
+      access_token: accessToken,
+      refresh_token: refreshToken,
+      token_type: 'Bearer',
+      expires_in: tokenTtlSeconds,
+    });
+  });
+
+  const requireToken = (req: Request, res: Response, next: NextFunction) => {
+    const token = req.headers.authorization?.replace(/^Bearer\s+/i, '');
+    if (!token) {
+      return res.status(401).json({ error: 'Missing access token' });
+    }
+
+    const expiresAt = accessTokens.get(token);
+    const valid = token === staticToken || (expiresAt !== undefined && expiresAt > new Date());
+    if (!valid) {
+      return res.status(401).json({ error: 'Invalid or expired access token' });
+    }
+    next();
+  };
+
+  app.get('/me', requireToken, (_req, res) => {
+    res.json({ username, name: `Mock ${username}`, followers: 1200 });
+  });
+
+  const findPost = (req: Request, res: Response): MockPost | undefined => {
+    const post = posts.get(req.params.id);
+    if (!post) res.status(404).json({ error: 'Post not found' });
+    return post;
+  };
+
+  app.post('/posts', requireToken, (req, res) => {
+    const { title, text, contentType, mediaPath } = req.body;
+    if (!title && !text) {
+      return res.status(422).json({ error: 'A post needs a title or text' });
+    }
+
+    const post: MockPost = {
+      id: newId('post'),
+      title: String(title || ''),
+      text: String(text || ''),
+      contentType: String(contentType || 'text'),
+      mediaPath: mediaPath ? String(mediaPath) : null,
+      createdAt: new Date(),
+      editedAt: null,
+    };
+    posts.set(post.id, post);
+
+    res.status(201).json({ id: post.id, url: `${req.protocol}://${req.get('host')}/posts/${post.id}` });
+  });
+
+  app.get('/posts/:id', requireToken, (req, res) => {
+    const post = findPost(req, res);
+    if (post) res.json(post);
+  });
+
+  app.patch('/posts/:id', requireToken, (req, res) => {
+    const post = findPost(req, res);
+    if (!post) return;
+
+    const { title, text, mediaPath } = req.body;
+    const edited = {
+      title: title === undefined ? post.title : String(title),
+      text: text === undefined ? post.text : String(text),
+    };
+    if (!edited.title && !edited.text) {
+      return res.status(422).json({ error: 'A post needs a title or text' });
+    }
+
+    Object.assign(post, edited, { editedAt: new Date() });
+    if (mediaPath !== undefined) post.mediaPath = mediaPath ? String(mediaPath) : null;
+    res.json(post);
+  });
+
+  app.delete('/posts/:id', requireToken, (req, res) => {
+    const post = findPost(req, res);
+    if (!post) return;
+    posts.delete(post.id);
+    res.status(204).end();
+  });
+
+  app.get('/posts/:id/metrics', requireToken, (req, res) => {
+    const post = findPost(req, res);
+    if (!post) return;
+
+    // Engagement grows steadily with the post's age
+    const minutes = Math.floor((Date.now() - post.createdAt.getTime()) / 60000);
+    const views = minutes * 12;
+    res.json({
+      views,
+      likes: Math.floor(views * 0.08),
+      shares: Math.floor(views * 0.01),
+      comments: Math.min(COMMENT_TEXTS.length * 4, Math.floor(minutes / 5)),
+    });
+  });
+
+  app.get('/posts/:id/comments', requireToken, (req, res) => {
+    const post = findPost(req, res);
+    if (!post) return;
+
+    const minutes = Math.floor((Date.now() - post.createdAt.getTime()) / 60000);
+    const count = Math.min(COMMENT_TEXTS.length * 4, Math.floor(minutes / 5));
+    res.json(
+      Array.from({ length: count }, (_, i) => ({
+        id: `${post.id}-c${i + 1}`,
+        author: COMMENT_AUTHORS[i % COMMENT_AUTHORS.length],
+        text: COMMENT_TEXTS[i % COMMENT_TEXTS.length],
+        createdAt: new Date(post.createdAt.getTime() + (i + 1) * 5 * 60000).toISOString(),
+      }))
+    );
+  });
+
+  return app;
+}
+
+/**
+ * Listen on the given port (0 picks a free one) and resolve once ready
+ */
+export function startMockPlatformServer(port: number, options: MockPlatformOptions = {}, host: string = '127.0.0.1'): Promise<Server> {
+  const server = createServer(createMockPlatformApp(options));
+  return new Promise((resolve) => {
+    server.listen(port, host, () => resolve(server));
+  });
+}
+
+export type { MockPlatformOptions };
@@ -0,0 +1,11 @@
+/**
+ * Run the mock platform server on its own: `npm run mock:platform`
+ */
+
+import { startMockPlatformServer } from './mockPlatformServer';
+
+const port = Number(process.env.MOCK_PLATFORM_PORT) || 5055;
+
+startMockPlatformServer(port, { staticToken: process.env.MOCK_PLATFORM_TOKEN }).then(() => {
+  console.log(`mock platform listening on http://127.0.0.1:${port}`);
+});
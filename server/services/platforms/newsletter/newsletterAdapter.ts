@@ -0,0 +1,129 @@
+/**
+ * Adapter for the built-in "Newsletter" platform. Publishing renders the
+ * content into an HTML email and sends it to the account's subscribers
+ * through the configured mail transport (see services/mail/mailer). The
+ * sender is the account's metadata.fromEmail, else MAIL_FROM. Every email
+ * carries the subscriber's own unsubscribe link under PUBLIC_BASE_URL.
+ * Sent issues can't be edited or recalled.
+ */
+
+import { storage } from '../../../storage';
+import type { PlatformAccount } from '@shared/schema';
+import { MailError, defaultSender, getMailTransport, sendMail, type MailMessage } from '../../mail/mailer';
+import {
+  PlatformError,
+  type AdapterContext,
+  type PlatformAdapter,
+  type PostComment,
+  type PostMetrics,
+  type PublishPayload,
+  type PublishRequest,
+  type PublishResult,
+  type TokenSet
+} from '../adapter';
+import { UNSUBSCRIBE_URL_PLACEHOLDER, renderNewsletter } from './newsletterTemplate';
+
+export function unsubscribeUrl(token: string): string {
+  const baseUrl = (process.env.PUBLIC_BASE_URL || 'http://localhost:5000').replace(/\/$/, '');
+  return `${baseUrl}/newsletter/unsubscribe/${token}`;
+}
+
+class NewsletterAdapter implements PlatformAdapter {
+  public readonly platform = 'Newsletter';
+
+  public buildPublishPayload({ account, content }: PublishRequest): PublishPayload {
+    return {
+      method: 'EMAIL',
+      url: `newsletter/${account.id}/subscribers`,
+      body: {
+        transport: getMailTransport(),
+        from: this.sender(account),
+        ...renderNewsletter(content, account.name)
+      }
+    };
+  }
+
+  public async publish(request: PublishRequest): Promise<PublishResult> {
+    const { account, post } = request;
+    const issueId = `post-${post.id}`;
+
+    // A retry after the emails went out must not send them again
+    if (await storage.getNewsletterIssueByIssueId(issueId)) return { postId: issueId };
+
+    const subscribers = (await storage.getNewsletterSubscribers(account.id)).filter((subscriber) => subscriber.subscribed);
+    if (subscribers.length === 0) {
+      throw new PlatformError(`Newsletter "${account.name}" has no subscribers`, false);
+    }
+
+    const { body } = this.buildPublishPayload(request);
+    const email = body as { from: string; subject: string; html: string; text: string };
+    const messages: MailMessage[] = subscribers.map((subscriber) => {
+      const link = unsubscribeUrl(subscriber.unsubscribeToken);
+      return {
+        from: email.from,
+        to: subscriber.name ? `"${subscriber.name.replace(/"/g, '')}" <${subscriber.email}>` : subscriber.email,
+        subject: email.subject,
+        html: email.html.split(UNSUBSCRIBE_URL_PLACEHOLDER).join(link),
+        text: email.text.split(UNSUBSCRIBE_URL_PLACEHOLDER).join(link),
+        headers: {
+          'List-Unsubscribe': `<${link}>`,
+          'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+        }
+      };
+    });
+
+    let deliveries;
+    try {
+      deliveries = await sendMail(messages);
+    } catch (error) {
+      if (error instanceof MailError) throw new PlatformError(error.message, error.retryable);
+      throw error;
+    }
+
+    const failed = deliveries.filter((delivery) => delivery.error);
+    if (failed.length === deliveries.length) {
+      // Nothing went out, so it is safe to try again
+      throw new PlatformError(`No newsletter emails were accepted: ${failed[0].error}`);
+    }
+
+    await storage.createNewsletterIssue({
+      platformAccountId: account.id,
+      scheduledPostId: post.id,
+      issueId,
+      subject: email.subject,
+      recipientCount: deliveries.length - failed.length,
+      failedCount: failed.length
+    });
+    return { postId: issueId };
+  }
+
+  public async deletePost(_context: AdapterContext, _postId: string): Promise<void> {
+    throw new PlatformError('A sent newsletter cannot be recalled', false);
+  }
+
+  // Opens and clicks aren't tracked; views are the emails delivered
+  public async fetchMetrics(_context: AdapterContext, postId: string): Promise<PostMetrics> {
+    const issue = await storage.getNewsletterIssueByIssueId(postId);
+    if (!issue) throw new PlatformError(`Newsletter issue ${postId} not found`, false);
+    return { views: issue.recipientCount, likes: 0, shares: 0, comments: 0, fetchedAt: new Date() };
+  }
+
+  public async fetchComments(_context: AdapterContext, _postId: string): Promise<PostComment[]> {
+    return [];
+  }
+
+  public async refreshToken(_account: PlatformAccount, _refreshToken: string): Promise<TokenSet> {
+    throw new PlatformError('Newsletter accounts do not use access tokens', false);
+  }
+
+  private sender(account: PlatformAccount): string {
+    const metadata = account.metadata as { fromEmail?: unknown } | null;
+    const address = typeof metadata?.fromEmail === 'string' && metadata.fromEmail ? metadata.fromEmail : defaultSender();
+    if (!address) {
+      throw new PlatformError(`No sender address for newsletter "${account.name}"; set MAIL_FROM`, false);
+    }
+    return address.includes('<') ? address : `"${account.name.replace(/"/g, '')}" <${address}>`;
+  }
+}
+
+export default new NewsletterAdapter();
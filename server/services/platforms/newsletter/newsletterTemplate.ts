@@ -0,0 +1,84 @@
+/**
+ * The HTML email (with a plain-text alternative) a newsletter issue is sent as.
+ * Styles are inline because most mail clients drop <style> blocks.
+ */
+
+import type { Content } from '@shared/schema';
+import { isRemoteMedia } from '../media';
+
+// Replaced with each subscriber's own link when the issue is sent
+export const UNSUBSCRIBE_URL_PLACEHOLDER = '{{unsubscribe_url}}';
+
+export interface NewsletterEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function paragraphs(text: string): string[] {
+  return text.split(/\n\s*\n/).map((paragraph) => paragraph.trim()).filter(Boolean);
+}
+
+// Media can only be shown when it is hosted somewhere the reader can fetch it
+function mediaHtml(content: Content): string {
+  if (!content.filePath || !isRemoteMedia(content.filePath)) return '';
+
+  const url = escapeHtml(content.filePath);
+  if (content.contentType === 'image') {
+    return `<img src="${url}" alt="${escapeHtml(content.title)}" width="560" style="display:block;width:100%;max-width:560px;height:auto;border-radius:6px;margin:0 0 20px;">`;
+  }
+  return `<p style="margin:0 0 20px;"><a href="${url}" style="display:inline-block;padding:10px 18px;background:#4f46e5;color:#ffffff;text-decoration:none;border-radius:6px;">Watch now</a></p>`;
+}
+
+export function renderNewsletter(content: Content, newsletterName: string): NewsletterEmail {
+  const body = paragraphs(content.description ?? '');
+  const unsubscribe = escapeHtml(UNSUBSCRIBE_URL_PLACEHOLDER);
+
+  const html = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(content.title)}</title>
+</head>
+<body style="margin:0;padding:0;background:#f3f4f6;font-family:-apple-system,'Segoe UI',Helvetica,Arial,sans-serif;color:#111827;">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f3f4f6;padding:24px 0;">
+<tr><td align="center">
+<table role="presentation" width="600" cellpadding="0" cellspacing="0" style="width:100%;max-width:600px;background:#ffffff;border-radius:8px;">
+<tr><td style="padding:24px 20px 0;font-size:13px;color:#6b7280;text-transform:uppercase;letter-spacing:0.05em;">${escapeHtml(newsletterName)}</td></tr>
+<tr><td style="padding:8px 20px 20px;">
+<h1 style="margin:0 0 20px;font-size:24px;line-height:1.3;">${escapeHtml(content.title)}</h1>
+${mediaHtml(content)}
+${body.map((paragraph) => `<p style="margin:0 0 16px;font-size:16px;line-height:1.6;">${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`).join('\n')}
+</td></tr>
+<tr><td style="padding:16px 20px;border-top:1px solid #e5e7eb;font-size:12px;color:#6b7280;">
+You are receiving this because you subscribed to ${escapeHtml(newsletterName)}.
+<a href="${unsubscribe}" style="color:#6b7280;">Unsubscribe</a>
+</td></tr>
+</table>
+</td></tr>
+</table>
+</body>
+</html>`;
+
+  const text = [
+    content.title,
+    '',
+    ...(content.filePath && isRemoteMedia(content.filePath) ? [content.filePath, ''] : []),
+    ...body.flatMap((paragraph) => [paragraph, '']),
+    '--',
+    `You are receiving this because you subscribed to ${newsletterName}.`,
+    `Unsubscribe: ${UNSUBSCRIBE_URL_PLACEHOLDER}`,
+  ].join('\n');
+
+  return { subject: content.title, html, text };
+}
@@ -0,0 +1,126 @@
+/**
+ * Platform rate limiter: token buckets per account, queueing and refusing
+ * calls over the quota, where quotas come from, and what counts as a call.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { PlatformAccount } from '@shared/schema';
+import { storage } from '../../storage';
+import { updateRateLimitSettings } from '../../settings';
+import { PlatformError, type PlatformAdapter, type PublishRequest } from './adapter';
+import rateLimiter, { withRateLimit } from './rateLimiter';
+
+async function createAccount(platformName: string, name: string): Promise<PlatformAccount> {
+  const platform = (await storage.getPlatforms()).find((p) => p.name === platformName);
+  return storage.createPlatformAccount({ platformId: platform!.id, name, username: name.toLowerCase(), active: true });
+}
+
+// Resolves with the PlatformError `promise` rejects with
+async function platformError(promise: Promise<unknown>): Promise<PlatformError> {
+  try {
+    await promise;
+  } catch (error) {
+    assert.ok(error instanceof PlatformError);
+    return error;
+  }
+  assert.fail('expected a PlatformError');
+}
+
+test('lets calls through up to the quota, then refuses ones that would wait too long', async () => {
+  const account = await createAccount('Mock', 'Burst');
+  await updateRateLimitSettings({
+    enabled: true,
+    accounts: { [account.id]: { requests: 3, windowSeconds: 3600 } },
+    maxQueueWaitSeconds: 0
+  });
+
+  for (let i = 0; i < 3; i++) await rateLimiter.acquire(account, 'Mock');
+  const error = await platformError(rateLimiter.acquire(account, 'Mock'));
+
+  assert.equal(error.retryable, true);
+  assert.match(error.message, /Rate limit reached for platform account "Burst" \(3 requests per 3600s\); try again in 1200s/);
+});
+
+test('queues calls over the quota and releases them in order as tokens refill', async () => {
+  const account = await createAccount('Mock', 'Queued');
+  await updateRateLimitSettings({
+    enabled: true,
+    accounts: { [account.id]: { requests: 2, windowSeconds: 1 } }, // a token every 500ms
+    maxQueueWaitSeconds: 5
+  });
+
+  const started = Date.now();
+  const released: Array<[number, number]> = [];
+  // The limiter's drain timer doesn't keep the process alive, so hold it open while calls wait
+  const keepAlive = setInterval(() => {}, 1000);
+  try {
+    await Promise.all([1, 2, 3, 4].map((call) =>
+      rateLimiter.acquire(account, 'Mock').then(() => released.push([call, Date.now() - started]))
+    ));
+  } finally {
+    clearInterval(keepAlive);
+  }
+
+  assert.deepEqual(released.map(([call]) => call), [1, 2, 3, 4]);
+  assert.ok(released[1][1] < 400, 'the first two calls use the full bucket');
+  assert.ok(released[2][1] >= 450, `third call waited ${released[2][1]}ms`);
+  assert.ok(released[3][1] >= 950, `fourth call waited ${released[3][1]}ms`);
+});
+
+test('takes the quota from the account, else its platform, else the default', async () => {
+  const overridden = await createAccount('Twitter', 'Overridden');
+  const onTwitter = await createAccount('Twitter', 'Tweets');
+  const onMock = await createAccount('Mock', 'Defaulted');
+  await updateRateLimitSettings({
+    enabled: true,
+    defaultQuota: { requests: 300, windowSeconds: 900 },
+    platforms: { twitter: { requests: 50, windowSeconds: 900 } },
+    accounts: { [overridden.id]: { requests: 5, windowSeconds: 60 } }
+  });
+
+  const usage = await rateLimiter.getUsage();
+  const limitOf = (account: PlatformAccount) => usage.find((entry) => entry.accountId === account.id);
+  assert.deepEqual([limitOf(overridden)?.limit, limitOf(overridden)?.windowSeconds], [5, 60]);
+  assert.deepEqual([limitOf(onTwitter)?.limit, limitOf(onTwitter)?.windowSeconds], [50, 900]);
+  assert.deepEqual([limitOf(onMock)?.limit, limitOf(onMock)?.windowSeconds], [300, 900]);
+});
+
+test('counts adapter calls against the quota but not token refreshes', async () => {
+  const account = await createAccount('Mock', 'Wrapped');
+  await updateRateLimitSettings({
+    enabled: true,
+    accounts: { [account.id]: { requests: 2, windowSeconds: 3600 } },
+    maxQueueWaitSeconds: 0
+  });
+
+  const adapter = withRateLimit({
+    platform: 'Mock',
+    publish: async () => ({ postId: 'post-1' }),
+    refreshToken: async () => ({ accessToken: 'fresh' })
+  } as unknown as PlatformAdapter, account, 'Mock');
+  const request = { account, accessToken: null } as PublishRequest;
+
+  await adapter.publish(request);
+  await adapter.refreshToken(account, 'refresh');
+  await adapter.refreshToken(account, 'refresh');
+  await adapter.publish(request);
+  await platformError(adapter.publish(request));
+
+  const usage = (await rateLimiter.getUsage()).find((entry) => entry.accountId === account.id);
+  assert.deepEqual(
+    { used: usage?.used, remaining: usage?.remaining, sent: usage?.sent, rejected: usage?.rejected },
+    { used: 2, remaining: 0, sent: 2, rejected: 1 }
+  );
+});
+
+test('lets every call through while rate limiting is disabled', async () => {
+  const account = await createAccount('Mock', 'Unlimited');
+  await updateRateLimitSettings({
+    enabled: false,
+    accounts: { [account.id]: { requests: 1, windowSeconds: 3600 } },
+    maxQueueWaitSeconds: 0
+  });
+
+  for (let i = 0; i < 10; i++) await rateLimiter.acquire(account, 'Mock');
+});
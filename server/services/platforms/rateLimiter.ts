@@ -0,0 +1,176 @@
+/**
+ * Platform Rate Limiter
+ *
+ * Keeps outbound platform API calls within each account's quota with a token
+ * bucket per account: a bucket holds `requests` tokens and refills evenly over
+ * `windowSeconds`. Calls beyond the quota wait in a FIFO queue for the next
+ * token; calls that would wait longer than maxQueueWaitSeconds fail with a
+ * retryable PlatformError so publishing backs off instead. Quotas come from
+ * the rate limit settings (account override, then platform, then default).
+ * Token refreshes are not counted.
+ */
+
+import { storage } from '../../storage';
+import type { PlatformAccount } from '@shared/schema';
+import type { PlatformQuota, PlatformQuotaUsage, RateLimitSettings } from '@shared/settings';
+import { getRateLimitSettings } from '../../settings';
+import { PlatformError, type PlatformAdapter } from './adapter';
+
+function quotaFor(settings: RateLimitSettings, accountId: number, platformName: string): PlatformQuota {
+  return settings.accounts[String(accountId)] ?? settings.platforms[platformName.toLowerCase()] ?? settings.defaultQuota;
+}
+
+class TokenBucket {
+  public tokens: number;
+  public queue: Array<() => void> = [];
+  public timer: NodeJS.Timeout | null = null;
+  public sent = 0;
+  public rejected = 0;
+  private updatedAt = Date.now();
+
+  constructor(public quota: PlatformQuota) {
+    this.tokens = quota.requests;
+  }
+
+  private get refillPerMs(): number {
+    return this.quota.requests / (this.quota.windowSeconds * 1000);
+  }
+
+  // Top up for the time passed and pick up quota changes
+  public refill(quota: PlatformQuota, now: number = Date.now()): void {
+    this.tokens = Math.min(this.quota.requests, this.tokens + (now - this.updatedAt) * this.refillPerMs);
+    this.updatedAt = now;
+    if (quota.requests !== this.quota.requests || quota.windowSeconds !== this.quota.windowSeconds) {
+      this.quota = quota;
+      this.tokens = Math.min(this.tokens, quota.requests);
+    }
+  }
+
+  public take(): boolean {
+    if (this.tokens < 1) return false;
+    this.tokens -= 1;
+    this.sent++;
+    return true;
+  }
+
+  // Milliseconds until `count` tokens have accumulated
+  public waitFor(count: number): number {
+    const missing = count - this.tokens;
+    return missing <= 0 ? 0 : Math.ceil(missing / this.refillPerMs);
+  }
+}
+
+class PlatformRateLimiter {
+  private buckets: Map<number, TokenBucket> = new Map();
+
+  /**
+   * Wait for a token for the account. Throws a retryable PlatformError when
+   * the wait would exceed the configured maximum.
+   */
+  public async acquire(account: PlatformAccount, platformName: string): Promise<void> {
+    const settings = await getRateLimitSettings();
+    if (!settings.enabled) return;
+
+    const quota = quotaFor(settings, account.id, platformName);
+    let bucket = this.buckets.get(account.id);
+    if (!bucket) {
+      bucket = new TokenBucket(quota);
+      this.buckets.set(account.id, bucket);
+    }
+    bucket.refill(quota);
+
+    if (bucket.queue.length === 0 && bucket.take()) return;
+
+    const waitMs = bucket.waitFor(bucket.queue.length + 1);
+    if (waitMs > settings.maxQueueWaitSeconds * 1000) {
+      bucket.rejected++;
+      throw new PlatformError(
+        `Rate limit reached for platform account "${account.name}" (${quota.requests} requests per ${quota.windowSeconds}s); ` +
+        `try again in ${Math.ceil(waitMs / 1000)}s`
+      );
+    }
+
+    await new Promise<void>((resolve) => {
+      bucket!.queue.push(resolve);
+      this.scheduleDrain(bucket!);
+    });
+  }
+
+  /**
+   * Quota usage for every active account, including ones not called yet
+   */
+  public async getUsage(): Promise<PlatformQuotaUsage[]> {
+    const [settings, accounts, platforms] = await Promise.all([
+      getRateLimitSettings(),
+      storage.getPlatformAccounts(),
+      storage.getPlatforms()
+    ]);
+
+    return accounts
+      .filter((account) => account.active)
+      .map((account) => {
+        const platform = platforms.find((p) => p.id === account.platformId)?.name ?? 'Unknown';
+        const quota = quotaFor(settings, account.id, platform);
+        const bucket = this.buckets.get(account.id);
+        bucket?.refill(quota);
+
+        const remaining = bucket ? Math.floor(bucket.tokens) : quota.requests;
+        return {
+          accountId: account.id,
+          accountName: account.name,
+          platform,
+          limit: quota.requests,
+          windowSeconds: quota.windowSeconds,
+          used: quota.requests - remaining,
+          remaining,
+          queued: bucket?.queue.length ?? 0,
+          sent: bucket?.sent ?? 0,
+          rejected: bucket?.rejected ?? 0
+        };
+      });
+  }
+
+  // Release queued calls as tokens come in
+  private scheduleDrain(bucket: TokenBucket): void {
+    if (bucket.timer) return;
+
+    bucket.timer = setTimeout(() => {
+      bucket.timer = null;
+      bucket.refill(bucket.quota);
+      while (bucket.queue.length > 0 && bucket.take()) {
+        bucket.queue.shift()!();
+      }
+      if (bucket.queue.length > 0) this.scheduleDrain(bucket);
+    }, Math.max(bucket.waitFor(1), 1));
+    // Don't keep the process alive just for queued calls
+    bucket.timer.unref();
+  }
+}
+
+const rateLimiter = new PlatformRateLimiter();
+
+/**
+ * The adapter with every platform API call for the account counted against its quota
+ */
+export function withRateLimit(adapter: PlatformAdapter, account: PlatformAccount, platformName: string): PlatformAdapter {
+  const limit = async <T>(call: () => Promise<T>): Promise<T> => {
+    await rateLimiter.acquire(account, platformName);
+    return call();
+  };
+  const { updatePost } = adapter;
+
+  return {
+    platform: adapter.platform,
+    buildPublishPayload: (request) => adapter.buildPublishPayload(request),
+    publish: (request) => limit(() => adapter.publish(request)),
+    updatePost: updatePost && ((request, postId) => limit(() => updatePost.call(adapter, request, postId))),
+    deletePost: (context, postId) => limit(() => adapter.deletePost(context, postId)),
+    fetchMetrics: (context, postId) => limit(() => adapter.fetchMetrics(context, postId)),
+    fetchComments: (context, postId) => limit(() => adapter.fetchComments(context, postId)),
+    refreshToken: (platformAccount, refreshToken) => adapter.refreshToken(platformAccount, refreshToken),
+    getAuthorizationUrl: adapter.getAuthorizationUrl?.bind(adapter),
+    exchangeCode: adapter.exchangeCode?.bind(adapter)
+  };
+}
+
+export default rateLimiter;
@@ -0,0 +1,61 @@
+/**
+ * Adapter registry: looks up the adapter for a platform by name (case-insensitive)
+ */
+
+import { storage } from '../../storage';
+import type { PlatformAccount } from '@shared/schema';
+import { openPlatformTokens } from '../../vault';
+import { PlatformError, type AdapterContext, type PlatformAdapter } from './adapter';
+import { expiresWithin, refreshAccountTokens } from './tokens';
+import { withRateLimit } from './rateLimiter';
+import mockAdapter from './mock/mockAdapter';
+import feedAdapter from './feed/feedAdapter';
+import mastodonAdapter from './mastodon/mastodonAdapter';
+import newsletterAdapter from './newsletter/newsletterAdapter';
+
+const EXPIRY_MARGIN_MS = 60 * 1000; // refresh rather than use a token this close to expiring
+
+const adapters: Map<string, PlatformAdapter> = new Map();
+
+export function registerAdapter(adapter: PlatformAdapter): void {
+  adapters.set(adapter.platform.toLowerCase(), adapter);
+}
+
+export function getAdapter(platformName: string): PlatformAdapter | undefined {
+  return adapters.get(platformName.toLowerCase());
+}
+
+export function getRegisteredPlatforms(): string[] {
+  return Array.from(adapters.values()).map((adapter) => adapter.platform);
+}
+
+export function supportsOAuth(adapter: PlatformAdapter): boolean {
+  return Boolean(adapter.getAuthorizationUrl && adapter.exchangeCode);
+}
+
+/**
+ * The adapter and call context for an account, refreshing its token first if
+ * it is about to expire. API calls through the returned adapter count against
+ * the account's rate limit. Throws a non-retryable PlatformError when the
+ * account can't be used.
+ */
+export async function resolveAdapter(account: PlatformAccount): Promise<{ adapter: PlatformAdapter; context: AdapterContext }> {
+  if (!account.active) throw new PlatformError(`Platform account "${account.name}" is inactive`, false);
+  if (account.needsReconnect) throw new PlatformError(`Platform account "${account.name}" needs to be reconnected`, false);
+
+  const platform = await storage.getPlatform(account.platformId);
+  if (!platform) throw new PlatformError(`Platform ${account.platformId} no longer exists`, false);
+
+  const adapter = getAdapter(platform.name);
+  if (!adapter) throw new PlatformError(`No publishing adapter for platform "${platform.name}"`, false);
+
+  const current = expiresWithin(account, EXPIRY_MARGIN_MS) ? await refreshAccountTokens(account, adapter) : account;
+  const { accessToken } = openPlatformTokens(current);
+  return { adapter: withRateLimit(adapter, current, platform.name), context: { account: current, accessToken } };
+}
+
+// Built-in adapters
+registerAdapter(mockAdapter);
+registerAdapter(feedAdapter);
+registerAdapter(mastodonAdapter);
+registerAdapter(newsletterAdapter);
@@ -0,0 +1,65 @@
+/**
+ * Token Refresher
+ *
+ * Periodically refreshes platform access tokens that are about to expire, so
+ * publishing never has to wait on (or fail because of) an expired token.
+ * Accounts whose refresh is rejected are left flagged for reconnection.
+ */
+
+import { storage } from '../../storage';
+import { getAdapter } from './registry';
+import { expiresWithin, refreshAccountTokens } from './tokens';
+
+const TICK_MS = 5 * 60 * 1000;
+const REFRESH_AHEAD_MS = 15 * 60 * 1000; // refresh tokens expiring within this window
+
+class TokenRefresher {
+  private timer: NodeJS.Timeout | null = null;
+
+  public start(intervalMs: number = TICK_MS): void {
+    if (this.timer) return;
+
+    this.tick().catch((error) => console.error('Token refresh failed:', error));
+    this.timer = setInterval(() => {
+      this.tick().catch((error) => console.error('Token refresh failed:', error));
+    }, intervalMs);
+    // Don't keep the process alive just for polling
+    this.timer.unref();
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Refresh every connected account whose token expires soon.
+   * Returns the number of accounts refreshed.
+   */
+  public async tick(now: Date = new Date()): Promise<number> {
+    let refreshed = 0;
+
+    for (const account of await storage.getPlatformAccounts()) {
+      if (!account.active || account.needsReconnect || !expiresWithin(account, REFRESH_AHEAD_MS, now)) continue;
+      // Without a refresh token there is nothing to do until the token has actually expired
+      if (!account.refreshToken && !expiresWithin(account, 0, now)) continue;
+
+      const platform = await storage.getPlatform(account.platformId);
+      const adapter = platform && getAdapter(platform.name);
+      if (!adapter) continue;
+
+      try {
+        await refreshAccountTokens(account, adapter);
+        refreshed++;
+      } catch (error) {
+        console.warn(`Could not refresh token for platform account ${account.id}:`, (error as Error).message);
+      }
+    }
+
+    return refreshed;
+  }
+}
+
+export default new TokenRefresher();
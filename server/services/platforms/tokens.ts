@@ -0,0 +1,69 @@
+/**
+ * Platform account token lifecycle: refresh access tokens before they expire
+ * and flag accounts whose refresh fails for good, so the user can reconnect them.
+ */
+
+import { storage } from '../../storage';
+import type { PlatformAccount } from '@shared/schema';
+import { openPlatformTokens, sealPlatformTokens } from '../../vault';
+import { PlatformError, type PlatformAdapter, type TokenSet } from './adapter';
+
+// Refresh tokens are often single-use, so concurrent refreshes of one account must share a call
+const refreshing: Map<number, Promise<PlatformAccount>> = new Map();
+
+export function expiresWithin(account: PlatformAccount, ms: number, now: Date = new Date()): boolean {
+  return account.tokenExpiry !== null && account.tokenExpiry.getTime() - now.getTime() <= ms;
+}
+
+function reconnectError(account: PlatformAccount): PlatformError {
+  return new PlatformError(`Platform account "${account.name}" needs to be reconnected`, false);
+}
+
+export async function markNeedsReconnect(account: PlatformAccount, reason: string): Promise<void> {
+  await storage.updatePlatformAccount(account.id, { needsReconnect: true, connectionError: reason });
+}
+
+/**
+ * Exchange the account's refresh token for a new access token and store it.
+ * Transient platform errors are rethrown as-is; a rejected refresh marks the
+ * account as needing reconnection and throws a non-retryable PlatformError.
+ */
+export function refreshAccountTokens(account: PlatformAccount, adapter: PlatformAdapter): Promise<PlatformAccount> {
+  const pending = refreshing.get(account.id);
+  if (pending) return pending;
+
+  const refresh = doRefresh(account, adapter).finally(() => refreshing.delete(account.id));
+  refreshing.set(account.id, refresh);
+  return refresh;
+}
+
+async function doRefresh(account: PlatformAccount, adapter: PlatformAdapter): Promise<PlatformAccount> {
+  const { refreshToken } = openPlatformTokens(account);
+  if (!refreshToken) {
+    // Nothing to refresh with; the token is usable until it actually expires
+    if (!expiresWithin(account, 0)) return account;
+    await markNeedsReconnect(account, 'Access token expired and no refresh token is stored');
+    throw reconnectError(account);
+  }
+
+  let tokens: TokenSet;
+  try {
+    tokens = await adapter.refreshToken(account, refreshToken);
+  } catch (error) {
+    if (!(error instanceof PlatformError) || error.retryable) throw error;
+    await markNeedsReconnect(account, `Token refresh failed: ${error.message}`);
+    throw reconnectError(account);
+  }
+
+  const updated = await storage.updatePlatformAccount(account.id, {
+    ...sealPlatformTokens({
+      accessToken: tokens.accessToken,
+      ...(tokens.refreshToken ? { refreshToken: tokens.refreshToken } : {})
+    }),
+    tokenExpiry: tokens.expiresAt ?? null,
+    needsReconnect: false,
+    connectionError: null
+  });
+  if (!updated) throw new PlatformError(`Platform account ${account.id} no longer exists`, false);
+  return updated;
+}
@@ -0,0 +1,67 @@
+/**
+ * Changes to posts that are already live: edit or unpublish them through the
+ * platform adapter using the stored platform post ID. Every attempt, failed
+ * or not, is added to the post's action history.
+ */
+
+import { storage } from '../../storage';
+import type { InsertPostAction, PostAction, ScheduledPost } from '@shared/schema';
+import { PlatformError } from '../platforms/adapter';
+import { preparePublishRequest } from './prepare';
+
+// Fields an edit replaces; anything left out keeps its live value (including earlier edits)
+export interface PostEdit {
+  title?: string;
+  description?: string | null;
+  filePath?: string | null;
+}
+
+function requirePublished(post: ScheduledPost): string {
+  if (post.status !== 'posted' || !post.postId) {
+    throw new PlatformError('Post has not been published', false);
+  }
+  return post.postId;
+}
+
+async function recordFailure(post: ScheduledPost, action: string, userId: number | null, error: Error, details?: InsertPostAction['details']): Promise<never> {
+  await storage.createPostAction({
+    scheduledPostId: post.id,
+    action,
+    status: 'failed',
+    userId,
+    details,
+    error: error.message
+  });
+  throw error;
+}
+
+export async function editPublishedPost(post: ScheduledPost, edit: PostEdit, userId: number | null): Promise<PostAction> {
+  const postId = requirePublished(post);
+  const { adapter, request } = await preparePublishRequest(post);
+  if (!adapter.updatePost) {
+    throw new PlatformError(`${adapter.platform} does not support editing published posts`, false);
+  }
+
+  const content = { ...request.content, ...edit };
+  const details = { title: content.title, description: content.description, filePath: content.filePath };
+  try {
+    await adapter.updatePost({ ...request, content }, postId);
+  } catch (error) {
+    return recordFailure(post, 'edited', userId, error as Error, details);
+  }
+
+  return storage.createPostAction({ scheduledPostId: post.id, action: 'edited', userId, details });
+}
+
+export async function unpublishPost(post: ScheduledPost, userId: number | null): Promise<PostAction> {
+  const postId = requirePublished(post);
+  const { adapter, request } = await preparePublishRequest(post);
+  try {
+    await adapter.deletePost(request, postId);
+  } catch (error) {
+    return recordFailure(post, 'unpublished', userId, error as Error);
+  }
+
+  await storage.updateScheduledPost(post.id, { status: 'unpublished' });
+  return storage.createPostAction({ scheduledPostId: post.id, action: 'unpublished', userId });
+}
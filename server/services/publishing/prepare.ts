@@ -0,0 +1,36 @@
+/**
+ * The publish request for a scheduled post: its content with the post's
+ * variant and any edits made since publishing applied, sent through the
+ * account's adapter. Shared by the publishing worker, edits and dry runs so
+ * all see the same payload.
+ */
+
+import { storage } from '../../storage';
+import type { Content, ScheduledPost } from '@shared/schema';
+import { applyContentVariant } from '@shared/contentVariants';
+import { PlatformError, type PlatformAdapter, type PublishRequest } from '../platforms/adapter';
+import { resolveAdapter } from '../platforms/registry';
+
+type PublishedFields = Partial<Pick<Content, 'title' | 'description' | 'filePath'>>;
+
+// What the last successful edit of a live post sent, so later edits and previews build on it
+async function lastEdit(post: ScheduledPost): Promise<PublishedFields> {
+  const edits = (await storage.getPostActions(post.id))
+    .filter((action) => action.action === 'edited' && action.status === 'succeeded');
+  return (edits[edits.length - 1]?.details as PublishedFields | null) ?? {};
+}
+
+export async function preparePublishRequest(post: ScheduledPost): Promise<{ adapter: PlatformAdapter; request: PublishRequest }> {
+  const content = await storage.getContent(post.contentId);
+  if (!content) throw new PlatformError(`Content ${post.contentId} no longer exists`, false);
+
+  const account = await storage.getPlatformAccount(post.platformAccountId);
+  if (!account) throw new PlatformError(`Platform account ${post.platformAccountId} no longer exists`, false);
+
+  const variant = post.variantId ? await storage.getContentVariant(post.variantId) : undefined;
+  if (post.variantId && !variant) throw new PlatformError(`Content variant ${post.variantId} no longer exists`, false);
+
+  const edit = post.postId ? await lastEdit(post) : {};
+  const { adapter, context } = await resolveAdapter(account);
+  return { adapter, request: { ...context, post, content: { ...applyContentVariant(content, variant), ...edit } } };
+}
@@ -0,0 +1,167 @@
+/**
+ * Publishing Worker
+ *
+ * Picks up scheduled posts once they are due and publishes them through the
+ * platform's adapter (using the post's content variant, if it has one),
+ * recording the platform post ID (and a "published" action) or the error.
+ * Only failures to publish are retried: once the platform accepts a post it
+ * stays posted, even if recording that fails.
+ * Posts going live and posts failing for good are sent as notifications
+ * and to webhooks.
+ * Concurrency and retries follow the system settings (maxConcurrentPosts,
+ * retryFailedPosts, maxPostRetries); retries back off exponentially.
+ */
+
+import { storage } from '../../storage';
+import type { ScheduledPost } from '@shared/schema';
+import { getSystemSettings } from '../../settings';
+import { PlatformError, type PublishResult } from '../platforms/adapter';
+import { preparePublishRequest } from './prepare';
+import notifier from '../notifications/notifier';
+import webhookDispatcher from '../webhooks/webhookDispatcher';
+
+const TICK_MS = 15 * 1000; // how often due posts are looked for
+const BACKOFF_BASE_MS = 60 * 1000; // first retry after a minute, then 2, 4, 8...
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+
+class PublishWorker {
+  private timer: NodeJS.Timeout | null = null;
+  private inFlight: Set<number> = new Set();
+
+  /**
+   * Start polling for due posts. Posts left "publishing" by a previous process
+   * are put back in the queue; whether they reached the platform is unknown.
+   */
+  public async start(intervalMs: number = TICK_MS): Promise<void> {
+    if (this.timer) return;
+
+    for (const post of await storage.getScheduledPosts()) {
+      if (post.status === 'publishing') {
+        await storage.updateScheduledPost(post.id, { status: 'pending' });
+      }
+    }
+
+    this.timer = setInterval(() => {
+      this.tick().catch((error) => console.error('Publishing worker tick failed:', error));
+    }, intervalMs);
+    // Don't keep the process alive just for polling
+    this.timer.unref();
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Claim as many due posts as the concurrency limit allows and start publishing them.
+   * Returns the number of posts started.
+   */
+  public async tick(now: Date = new Date()): Promise<number> {
+    const { maxConcurrentPosts } = await getSystemSettings();
+    const available = maxConcurrentPosts - this.inFlight.size;
+    if (available <= 0) return 0;
+
+    const posts = await storage.claimDueScheduledPosts(now, available);
+    for (const post of posts) {
+      this.inFlight.add(post.id);
+      this.publish(post)
+        .catch((error) => console.error(`Publishing post ${post.id} failed unexpectedly:`, error))
+        .finally(() => this.inFlight.delete(post.id));
+    }
+    return posts.length;
+  }
+
+  private async publish(post: ScheduledPost): Promise<void> {
+    let result: PublishResult;
+    try {
+      const { adapter, request } = await preparePublishRequest(post);
+      result = await adapter.publish(request);
+    } catch (error) {
+      await this.recordFailure(post, error as Error);
+      return;
+    }
+
+    // The platform has the post now; nothing from here on may put it back in the queue
+    let posted: ScheduledPost | undefined;
+    try {
+      posted = await storage.updateScheduledPost(post.id, {
+        status: 'posted',
+        postId: result.postId,
+        error: null,
+        attempts: post.attempts + 1,
+        nextAttemptAt: null,
+        postedAt: new Date()
+      });
+      await storage.updateContent(post.contentId, { status: 'published' });
+      await storage.createPostAction({
+        scheduledPostId: post.id,
+        action: 'published',
+        userId: null,
+        details: { postId: result.postId, url: result.url ?? null }
+      });
+    } catch (error) {
+      posted = await this.recordBookkeepingFailure(post, result, error as Error);
+    }
+
+    notifier.postPublished(post, result.url)
+      .catch((error) => console.error(`Notifying about post ${post.id} failed:`, error));
+    webhookDispatcher.dispatch('post.published', { post: posted ?? post, url: result.url ?? null })
+      .catch((error) => console.error(`Sending webhooks for post ${post.id} failed:`, error));
+  }
+
+  /**
+   * Recording a published post failed: keep it marked posted (with the error)
+   * so it is never published again
+   */
+  private async recordBookkeepingFailure(post: ScheduledPost, result: PublishResult, error: Error): Promise<ScheduledPost | undefined> {
+    console.error(`Post ${post.id} was published as ${result.postId} but recording it failed:`, error);
+    try {
+      return await storage.updateScheduledPost(post.id, {
+        status: 'posted',
+        postId: result.postId,
+        error: `Published, but recording it failed: ${error.message}`,
+        attempts: post.attempts + 1,
+        nextAttemptAt: null,
+        postedAt: new Date()
+      });
+    } catch (updateError) {
+      console.error(`Marking post ${post.id} as posted failed:`, updateError);
+      return undefined;
+    }
+  }
+
+  /**
+   * Back off and retry while settings allow it, otherwise mark the post failed
+   */
+  private async recordFailure(post: ScheduledPost, error: Error): Promise<void> {
+    const { retryFailedPosts, maxPostRetries } = await getSystemSettings();
+    const attempts = post.attempts + 1;
+    const retryable = !(error instanceof PlatformError) || error.retryable;
+
+    if (retryable && retryFailedPosts && attempts <= maxPostRetries) {
+      const delay = Math.min(BACKOFF_BASE_MS * 2 ** (attempts - 1), BACKOFF_MAX_MS);
+      await storage.updateScheduledPost(post.id, {
+        status: 'pending',
+        error: error.message,
+        attempts,
+        nextAttemptAt: new Date(Date.now() + delay)
+      });
+    } else {
+      const failed = await storage.updateScheduledPost(post.id, {
+        status: 'failed',
+        error: error.message,
+        attempts,
+        nextAttemptAt: null
+      });
+      notifier.postFailed(post, error.message)
+        .catch((notifyError) => console.error(`Notifying about post ${post.id} failed:`, notifyError));
+      webhookDispatcher.dispatch('post.failed', { post: failed ?? post, error: error.message })
+        .catch((dispatchError) => console.error(`Sending webhooks for post ${post.id} failed:`, dispatchError));
+    }
+  }
+}
+
+export default new PublishWorker();
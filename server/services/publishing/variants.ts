@@ -0,0 +1,12 @@
+/**
+ * Content variants at publish time: which variant an account gets, and the
+ * content as that account's platform will receive it
+ */
+
+import { storage } from '../../storage';
+import type { Content, ContentVariant, PlatformAccount } from '@shared/schema';
+
+export async function getVariantForAccount(content: Content, account: PlatformAccount): Promise<ContentVariant | undefined> {
+  const variants = await storage.getContentVariants(content.id);
+  return variants.find((variant) => variant.platformId === account.platformId);
+}
@@ -0,0 +1,201 @@
+/**
+ * Webhook Dispatcher
+ *
+ * Sends content lifecycle events to the webhooks subscribed to them. Each
+ * event becomes a delivery per webhook, POSTed as JSON and signed with the
+ * webhook's secret: X-Webhook-Signature is "sha256=" plus the hex HMAC of
+ * "<X-Webhook-Timestamp>.<body>". Any 2xx response counts as delivered;
+ * anything else is retried with exponential backoff until MAX_ATTEMPTS, and
+ * every attempt is kept in the delivery log.
+ */
+
+import { createHmac } from 'crypto';
+import { storage } from '../../storage';
+import { decryptSecret } from '../../vault';
+import type { Webhook, WebhookDelivery, WebhookEvent } from '@shared/schema';
+
+const TICK_MS = 10 * 1000; // how often due deliveries are looked for
+const MAX_CONCURRENT = 5;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const MAX_ATTEMPTS = 6;
+const BACKOFF_BASE_MS = 30 * 1000; // first retry after 30 seconds, then 1, 2, 4... minutes
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+const MAX_ERROR_LENGTH = 500;
+
+interface WebhookPayload {
+  event: WebhookEvent | 'ping';
+  occurredAt: string;
+  data: Record<string, unknown>;
+}
+
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+class WebhookDispatcher {
+  private timer: NodeJS.Timeout | null = null;
+  private inFlight: Set<number> = new Set();
+
+  /**
+   * Start polling for due deliveries. Deliveries left "delivering" by a
+   * previous process are sent again; receivers can dedupe on X-Webhook-Delivery.
+   */
+  public async start(intervalMs: number = TICK_MS): Promise<void> {
+    if (this.timer) return;
+
+    for (const delivery of await storage.getWebhookDeliveriesByStatus(['delivering'])) {
+      await storage.updateWebhookDelivery(delivery.id, { status: 'pending' });
+    }
+
+    this.timer = setInterval(() => {
+      this.tick().catch((error) => console.error('Webhook dispatcher tick failed:', error));
+    }, intervalMs);
+    // Don't keep the process alive just for polling
+    this.timer.unref();
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Queue an event for every active webhook subscribed to it and start sending.
+   * Returns the deliveries created.
+   */
+  public async dispatch(event: WebhookEvent, data: Record<string, unknown>): Promise<WebhookDelivery[]> {
+    const subscribed = (await storage.getWebhooks())
+      .filter((webhook) => webhook.active && webhook.events.includes(event));
+    return this.enqueue(subscribed, { event, occurredAt: new Date().toISOString(), data });
+  }
+
+  // A test event for one webhook, sent whether or not it is active
+  public async ping(webhook: Webhook): Promise<WebhookDelivery> {
+    const [delivery] = await this.enqueue([webhook], {
+      event: 'ping',
+      occurredAt: new Date().toISOString(),
+      data: { webhookId: webhook.id, message: 'Webhook is set up correctly' }
+    });
+    return delivery;
+  }
+
+  // Send an earlier delivery's payload again as a new delivery
+  public async redeliver(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    const redelivery = await storage.createWebhookDelivery({
+      webhookId: delivery.webhookId,
+      event: delivery.event,
+      payload: delivery.payload as WebhookPayload,
+      nextAttemptAt: new Date()
+    });
+    this.kick();
+    return redelivery;
+  }
+
+  /**
+   * Claim as many due deliveries as the concurrency limit allows and start sending them.
+   * Returns the number of deliveries started.
+   */
+  public async tick(now: Date = new Date()): Promise<number> {
+    const available = MAX_CONCURRENT - this.inFlight.size;
+    if (available <= 0) return 0;
+
+    const deliveries = await storage.claimDueWebhookDeliveries(now, available);
+    for (const delivery of deliveries) {
+      this.inFlight.add(delivery.id);
+      this.deliver(delivery)
+        .catch((error) => console.error(`Webhook delivery ${delivery.id} failed unexpectedly:`, error))
+        .finally(() => this.inFlight.delete(delivery.id));
+    }
+    return deliveries.length;
+  }
+
+  private async enqueue(targets: Webhook[], payload: WebhookPayload): Promise<WebhookDelivery[]> {
+    const deliveries = await Promise.all(targets.map((webhook) => storage.createWebhookDelivery({
+      webhookId: webhook.id,
+      event: payload.event,
+      payload,
+      nextAttemptAt: new Date()
+    })));
+    if (deliveries.length > 0) this.kick();
+    return deliveries;
+  }
+
+  // Send new deliveries now rather than on the next poll
+  private kick(): void {
+    this.tick().catch((error) => console.error('Webhook dispatcher tick failed:', error));
+  }
+
+  private async deliver(delivery: WebhookDelivery): Promise<void> {
+    const attempts = delivery.attempts + 1;
+    const webhook = await storage.getWebhook(delivery.webhookId);
+    if (!webhook) {
+      await storage.updateWebhookDelivery(delivery.id, { status: 'failed', error: 'Webhook was deleted', nextAttemptAt: null });
+      return;
+    }
+
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+    try {
+      const body = JSON.stringify(delivery.payload);
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      const res = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'CreatorAI-Webhooks/1.0',
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Delivery': String(delivery.id),
+          'X-Webhook-Timestamp': timestamp,
+          'X-Webhook-Signature': signPayload(decryptSecret(webhook.encryptedSecret), timestamp, body)
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      });
+      responseStatus = res.status;
+      if (!res.ok) {
+        const text = await res.text().catch(() => '');
+        error = `Responded with HTTP ${res.status}${text ? `: ${text.slice(0, MAX_ERROR_LENGTH)}` : ''}`;
+      }
+    } catch (sendError) {
+      const cause = (sendError as Error & { cause?: Error }).cause;
+      error = (sendError as Error).name === 'TimeoutError'
+        ? `No response within ${REQUEST_TIMEOUT_MS / 1000} seconds`
+        : cause?.message ?? (sendError as Error).message;
+    }
+
+    if (!error) {
+      await storage.updateWebhookDelivery(delivery.id, {
+        status: 'succeeded',
+        attempts,
+        responseStatus,
+        error: null,
+        nextAttemptAt: null,
+        lastAttemptAt: new Date()
+      });
+    } else if (attempts < MAX_ATTEMPTS) {
+      const delay = Math.min(BACKOFF_BASE_MS * 2 ** (attempts - 1), BACKOFF_MAX_MS);
+      await storage.updateWebhookDelivery(delivery.id, {
+        status: 'pending',
+        attempts,
+        responseStatus,
+        error,
+        nextAttemptAt: new Date(Date.now() + delay),
+        lastAttemptAt: new Date()
+      });
+    } else {
+      await storage.updateWebhookDelivery(delivery.id, {
+        status: 'failed',
+        attempts,
+        responseStatus,
+        error,
+        nextAttemptAt: null,
+        lastAttemptAt: new Date()
+      });
+    }
+  }
+}
+
+export default new WebhookDispatcher();
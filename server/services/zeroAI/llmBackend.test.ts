@@ -0,0 +1,110 @@
+/**
+ * Local LLM backend against the stub server: settings reach the server under
+ * both protocols, and server failures surface as LLMBackendError and a 502.
+ */
+
+import { test, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import express from 'express';
+import { complete, LLMBackendError, type GenerationSettings } from './llmBackend';
+import { startLLMStubServer } from './stub/llmStubServer';
+
+const settings: GenerationSettings = {
+  temperature: 0.3,
+  topP: 0.8,
+  maxTokens: 12,
+  frequencyPenalty: 0.4,
+  presencePenalty: 0.6
+};
+
+let stub: Server;
+let stubUrl: string;
+
+async function lastRequest() {
+  const response = await fetch(`${stubUrl}/__control/requests`);
+  const received = await response.json();
+  return received[received.length - 1];
+}
+
+async function failNext(status: number) {
+  await fetch(`${stubUrl}/__control/fail`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ count: 1, status })
+  });
+}
+
+before(async () => {
+  stub = await startLLMStubServer(0);
+  stubUrl = `http://127.0.0.1:${(stub.address() as AddressInfo).port}`;
+  process.env.LOCAL_LLM_URL = stubUrl;
+  process.env.STORAGE_DRIVER = 'memory';
+});
+
+after(() => {
+  stub.close();
+});
+
+beforeEach(() => {
+  delete process.env.LOCAL_LLM_API;
+  delete process.env.LOCAL_LLM_MODEL;
+});
+
+for (const api of ['ollama', 'openai'] as const) {
+  test(`${api} requests carry every generation setting`, async () => {
+    process.env.LOCAL_LLM_API = api;
+
+    const text = await complete('test-model', 'Write about creators', settings);
+
+    assert.equal(text.split(' ').length, settings.maxTokens);
+    assert.deepEqual(await lastRequest(), {
+      api,
+      model: 'test-model',
+      prompt: 'Write about creators',
+      ...settings
+    });
+  });
+
+  test(`${api} server failures throw LLMBackendError`, async () => {
+    process.env.LOCAL_LLM_API = api;
+    await failNext(503);
+
+    await assert.rejects(complete('test-model', 'Write about creators', settings), (error) => {
+      assert.ok(error instanceof LLMBackendError);
+      assert.equal(error.status, 503);
+      return true;
+    });
+  });
+}
+
+test('generate-script answers 502 when the LLM server fails', async () => {
+  // Loaded here so STORAGE_DRIVER is set before storage is created
+  const { aiToolsRouter } = await import('../../routes/aiToolsRoutes');
+
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    req.user = { id: 1, username: 'admin', password: '', role: 'admin' };
+    req.isAuthenticated = (() => true) as typeof req.isAuthenticated;
+    next();
+  });
+  app.use('/api/ai-tools', aiToolsRouter);
+
+  const server = app.listen(0, '127.0.0.1');
+  await new Promise((resolve) => server.once('listening', resolve));
+  try {
+    await failNext(500);
+    const response = await fetch(`http://127.0.0.1:${(server.address() as AddressInfo).port}/api/ai-tools/ai/generate-script`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ topic: 'creators', format: 'short', settings: { temperature: 0.5 } })
+    });
+
+    assert.equal(response.status, 502);
+    assert.match((await response.json()).error, /responded 500/);
+  } finally {
+    server.close();
+  }
+});
@@ -0,0 +1,127 @@
+/**
+ * Local LLM Inference Backend
+ *
+ * Talks to a locally run inference server over HTTP. LOCAL_LLM_URL points at
+ * the server (e.g. http://127.0.0.1:11434 for Ollama, http://127.0.0.1:8080
+ * for llama.cpp's llama-server); LOCAL_LLM_API picks the protocol: "ollama"
+ * (POST /api/generate, the default) or "openai" (POST /v1/completions, which
+ * llama.cpp, Ollama and most other local servers also serve). LOCAL_LLM_MODEL
+ * overrides the model name sent, and LOCAL_LLM_TIMEOUT_MS how long to wait for
+ * a completion (two minutes by default). `npm run mock:llm` starts a
+ * deterministic stand-in that speaks both protocols.
+ */
+
+import { z } from 'zod';
+
+export const generationSettingsSchema = z.object({
+  temperature: z.number().min(0).max(2),
+  topP: z.number().gt(0).max(1),
+  maxTokens: z.number().int().min(1).max(32768),
+  frequencyPenalty: z.number().min(-2).max(2),
+  presencePenalty: z.number().min(-2).max(2)
+});
+
+export type GenerationSettings = z.infer<typeof generationSettingsSchema>;
+
+type LLMApi = 'ollama' | 'openai';
+
+// Only the fields we read from each protocol's completion response
+const ollamaResponseSchema = z.object({ response: z.string() });
+const openAIResponseSchema = z.object({
+  choices: z.array(z.object({ text: z.string() })).min(1)
+});
+
+const DEFAULT_TIMEOUT_MS = 2 * 60 * 1000;
+
+// The server can't be reached or didn't produce a completion
+export class LLMBackendError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'LLMBackendError';
+  }
+}
+
+export function getLLMBackendUrl(): string | null {
+  const url = process.env.LOCAL_LLM_URL;
+  return url ? url.replace(/\/$/, '') : null;
+}
+
+function getLLMApi(): LLMApi {
+  return process.env.LOCAL_LLM_API?.toLowerCase() === 'openai' ? 'openai' : 'ollama';
+}
+
+async function post(url: string, body: unknown): Promise<unknown> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(Number(process.env.LOCAL_LLM_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS)
+    });
+  } catch (error) {
+    throw new LLMBackendError(`Local LLM server at ${url} is unreachable: ${(error as Error).message}`);
+  }
+
+  const text = await response.text();
+  if (!response.ok) {
+    throw new LLMBackendError(`Local LLM server responded ${response.status}: ${text.slice(0, 200)}`, response.status);
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new LLMBackendError('Local LLM server sent a response that is not JSON');
+  }
+}
+
+async function completeWithOllama(baseUrl: string, model: string, prompt: string, settings: GenerationSettings): Promise<string> {
+  const result = await post(`${baseUrl}/api/generate`, {
+    model,
+    prompt,
+    stream: false,
+    options: {
+      temperature: settings.temperature,
+      top_p: settings.topP,
+      num_predict: settings.maxTokens,
+      frequency_penalty: settings.frequencyPenalty,
+      presence_penalty: settings.presencePenalty
+    }
+  });
+  const parsed = ollamaResponseSchema.safeParse(result);
+  if (!parsed.success) {
+    throw new LLMBackendError('Local LLM server sent no completion');
+  }
+  return parsed.data.response;
+}
+
+async function completeWithOpenAI(baseUrl: string, model: string, prompt: string, settings: GenerationSettings): Promise<string> {
+  const result = await post(`${baseUrl}/v1/completions`, {
+    model,
+    prompt,
+    temperature: settings.temperature,
+    top_p: settings.topP,
+    max_tokens: settings.maxTokens,
+    frequency_penalty: settings.frequencyPenalty,
+    presence_penalty: settings.presencePenalty
+  });
+  const parsed = openAIResponseSchema.safeParse(result);
+  if (!parsed.success) {
+    throw new LLMBackendError('Local LLM server sent no completion');
+  }
+  return parsed.data.choices[0].text;
+}
+
+/**
+ * Run one completion of `prompt` on the configured server. Throws
+ * LLMBackendError when no server is configured or it fails.
+ */
+export async function complete(model: string, prompt: string, settings: GenerationSettings): Promise<string> {
+  const baseUrl = getLLMBackendUrl();
+  if (!baseUrl) throw new LLMBackendError('LOCAL_LLM_URL is not set');
+
+  const modelName = process.env.LOCAL_LLM_MODEL || model;
+  const text = getLLMApi() === 'openai'
+    ? await completeWithOpenAI(baseUrl, modelName, prompt, settings)
+    : await completeWithOllama(baseUrl, modelName, prompt, settings);
+  return text.trim();
+}
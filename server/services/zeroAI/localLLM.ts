@@ -3,8 +3,16 @@
  * 
  * This module provides a zero-cost alternative to commercial language models by using locally run models.
  * It provides complete functionality with no API costs, suitable for production use at small to medium scale.
+ *
+ * Text comes from the local inference server configured with LOCAL_LLM_URL
+ * (see llmBackend.ts). Generation settings are the defaults below, overridden
+ * by the settings of the active LLM AI config and then by the caller. Without
+ * a server, scripts and content fall back to built-in templates.
  */
 
+import { storage } from '../../storage';
+import { complete, generationSettingsSchema, getLLMBackendUrl, type GenerationSettings } from './llmBackend';
+
 // LLM Model Types
 type ModelSize = 'tiny' | 'small' | 'base' | 'large';
 type ModelType = 'llama3' | 'mistral' | 'phi' | 'falcon';
@@ -19,6 +27,7 @@ interface ModelDetails {
   minRamGB: number;
   downloadUrl: string;
   licenseType: string;
+  serverModel: string; // name the inference server knows it by (an Ollama tag)
 }
 
 // Available zero-cost models and their specs
@@ -32,7 +41,8 @@ const availableModels: Record<string, ModelDetails> = {
     downloadSizeGB: 2.8,
     minRamGB: 4,
     downloadUrl: 'https://huggingface.co/meta-llama/Llama-3-8B',
-    licenseType: 'open'
+    licenseType: 'open',
+    serverModel: 'llama3.2:3b'
   },
   'llama3-small': {
     name: 'Llama 3 Small',
@@ -43,7 +53,8 @@ const availableModels: Record<string, ModelDetails> = {
     downloadSizeGB: 4.7,
     minRamGB: 8,
     downloadUrl: 'https://huggingface.co/meta-llama/Llama-3-8B',
-    licenseType: 'open'
+    licenseType: 'open',
+    serverModel: 'llama3:8b'
   },
   'mistral-base': {
     name: 'Mistral Base',
@@ -54,7 +65,8 @@ const availableModels: Record<string, ModelDetails> = {
     downloadSizeGB: 4.1,
     minRamGB: 8,
     downloadUrl: 'https://huggingface.co/mistralai/Mistral-7B-v0.1',
-    licenseType: 'open'
+    licenseType: 'open',
+    serverModel: 'mistral:7b'
   },
   'phi-small': {
     name: 'Phi-2',
@@ -65,19 +77,11 @@ const availableModels: Record<string, ModelDetails> = {
     downloadSizeGB: 1.7,
     minRamGB: 4,
     downloadUrl: 'https://huggingface.co/microsoft/phi-2',
-    licenseType: 'research'
+    licenseType: 'research',
+    serverModel: 'phi:2.7b'
   }
 };
 
-// LLM Generation settings
-interface GenerationSettings {
-  temperature: number;
-  topP: number;
-  maxTokens: number;
-  frequencyPenalty: number;
-  presencePenalty: number;
-}
-
 // Default settings
 const defaultSettings: GenerationSettings = {
   temperature: 0.7,
@@ -132,7 +136,8 @@ class LocalLLM {
     format: string,
     durationMinutes: number = 5,
     tone: string = 'conversational',
-    audience: string = 'general'
+    audience: string = 'general',
+    settings: Partial<GenerationSettings> = {}
   ): Promise<string> {
     this.isProcessing = true;
     
@@ -160,6 +165,10 @@ class LocalLLM {
       - Questions to ask/discuss
       - Closing thoughts and call to action
     `;
+
+    if (getLLMBackendUrl()) {
+      return this.complete(instructions, settings);
+    }
     
     // Generate different script templates based on format
     let scriptContent = '';
@@ -193,9 +202,31 @@ class LocalLLM {
     topic: string,
     contentType: string,
     tone: string = 'conversational',
-    audience: string = 'general'
+    audience: string = 'general',
+    settings: Partial<GenerationSettings> = {}
   ): Promise<string> {
     this.isProcessing = true;
+
+    const instructions = `
+      Write a ${contentType} about ${topic}.
+      Tone: ${tone}.
+      Target audience: ${audience}.
+
+      For a social media post:
+      - Open with a surprising fact or question
+      - Give up to three short, practical tips as a numbered list
+      - End with a call to follow and a few hashtags
+
+      For a blog post:
+      - A title as "# TITLE"
+      - An introduction, three sections with "## " headers and a conclusion
+
+      Reply with the finished text only.
+    `;
+
+    if (getLLMBackendUrl()) {
+      return this.complete(instructions, settings);
+    }
     
     // Generate different content based on type
     let content = '';
@@ -279,6 +310,30 @@ ${this.generateConclusion(topic, audience)}
     };
   }
   
+  /**
+   * The generation settings to use: defaults, then the active LLM config's
+   * stored settings, then the caller's
+   */
+  private async resolveSettings(overrides: Partial<GenerationSettings> = {}): Promise<GenerationSettings> {
+    const config = (await storage.getAiConfigsByType('llm')).find((candidate) => candidate.active);
+    const stored = generationSettingsSchema.partial().safeParse(config?.settings ?? {});
+    if (!stored.success) {
+      console.warn(`Settings of AI config "${config?.name}" are invalid; using the defaults.`);
+    }
+    return { ...defaultSettings, ...(stored.success ? stored.data : {}), ...overrides };
+  }
+
+  // Run the prompt on the inference server
+  private async complete(instructions: string, overrides: Partial<GenerationSettings>): Promise<string> {
+    try {
+      const prompt = instructions.replace(/^[ \t]+/gm, '').trim();
+      const model = availableModels[this.activeModel]?.serverModel ?? this.activeModel.split('-')[0];
+      return await complete(model, prompt, await this.resolveSettings(overrides));
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
   /* === Private template generation methods === */
   
   private generateVideoScript(topic: string, durationMinutes: number, tone: string, audience: string): string {
@@ -0,0 +1,161 @@
+/**
+ * Local LLM Stub Server
+ *
+ * A tiny stand-in for a local inference server, so the LLM backend can be
+ * exercised without downloading a model. Completions are deterministic: the
+ * same model, prompt and settings always give the same text, and each word
+ * counts as one token, so maxTokens visibly cuts output short. A positive
+ * presence or frequency penalty stops words from repeating.
+ *
+ * Endpoints:
+ *   POST /api/generate           Ollama-style (non-streaming; "options" carry the settings)
+ *   POST /v1/completions         OpenAI-style, as served by llama.cpp
+ *   GET  /__control/requests     the normalized requests received, newest last
+ *   POST /__control/fail         make the next N completions fail with a status
+ */
+
+import express, { type Express } from 'express';
+import { createServer, type Server } from 'http';
+import { createHash } from 'crypto';
+
+interface LLMStubOptions {
+  completionWords?: number; // length of an uncapped completion
+}
+
+interface ReceivedRequest {
+  api: 'ollama' | 'openai';
+  model: string;
+  prompt: string;
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  frequencyPenalty?: number;
+  presencePenalty?: number;
+}
+
+const VOCABULARY = [
+  'creators', 'audience', 'story', 'video', 'growth', 'simple', 'tools', 'daily', 'ideas', 'trend',
+  'practical', 'workflow', 'insight', 'community', 'engaging', 'quality', 'consistent', 'voice', 'future', 'start',
+  'share', 'learn', 'build', 'focus', 'habit', 'reach', 'clear', 'example', 'results', 'today'
+];
+
+const MAX_RECORDED_REQUESTS = 50;
+
+function stubCompletion(request: ReceivedRequest, completionWords: number): { text: string; words: number; truncated: boolean } {
+  const seed = JSON.stringify([request.model, request.prompt, request.temperature, request.topP, request.frequencyPenalty, request.presencePenalty]);
+  const avoidRepeats = (request.presencePenalty ?? 0) > 0 || (request.frequencyPenalty ?? 0) > 0;
+  const limit = Math.min(completionWords, request.maxTokens ?? completionWords);
+
+  const words: string[] = [];
+  const used = new Set<string>();
+  let digest = createHash('sha256').update(seed).digest();
+  for (let i = 0; i < limit; i++) {
+    if (i % 16 === 0 && i > 0) digest = createHash('sha256').update(digest).digest();
+    let index = (digest[i % 16] * 256 + digest[(i % 16) + 16]) % VOCABULARY.length;
+    // Step past used words; once the vocabulary runs out, repeats are allowed again
+    while (avoidRepeats && used.size < VOCABULARY.length && used.has(VOCABULARY[index])) {
+      index = (index + 1) % VOCABULARY.length;
+    }
+    if (used.size === VOCABULARY.length) used.clear();
+    used.add(VOCABULARY[index]);
+    words.push(VOCABULARY[index]);
+  }
+
+  return { text: words.join(' '), words: words.length, truncated: limit < completionWords };
+}
+
+export function createLLMStubApp(options: LLMStubOptions = {}): Express {
+  const completionWords = options.completionWords ?? 200;
+  const received: ReceivedRequest[] = [];
+  let pendingFailures = { count: 0, status: 500 };
+
+  const app = express();
+  app.use(express.json({ limit: '1mb' }));
+
+  app.get('/__control/requests', (_req, res) => {
+    res.json(received);
+  });
+
+  app.post('/__control/fail', (req, res) => {
+    pendingFailures = { count: Number(req.body.count) || 1, status: Number(req.body.status) || 500 };
+    res.json(pendingFailures);
+  });
+
+  // Record the request, or refuse it when a failure is pending or it has no prompt
+  function accept(request: ReceivedRequest, res: express.Response): boolean {
+    if (typeof request.prompt !== 'string' || request.prompt.length === 0) {
+      res.status(400).json({ error: 'prompt is required' });
+      return false;
+    }
+    if (pendingFailures.count > 0) {
+      pendingFailures.count--;
+      res.status(pendingFailures.status).json({ error: 'Injected failure' });
+      return false;
+    }
+    received.push(request);
+    if (received.length > MAX_RECORDED_REQUESTS) received.shift();
+    return true;
+  }
+
+  app.post('/api/generate', (req, res) => {
+    const options = req.body.options ?? {};
+    const request: ReceivedRequest = {
+      api: 'ollama',
+      model: req.body.model,
+      prompt: req.body.prompt,
+      temperature: options.temperature,
+      topP: options.top_p,
+      maxTokens: options.num_predict,
+      frequencyPenalty: options.frequency_penalty,
+      presencePenalty: options.presence_penalty
+    };
+    if (!accept(request, res)) return;
+
+    const completion = stubCompletion(request, completionWords);
+    res.json({
+      model: request.model,
+      created_at: new Date().toISOString(),
+      response: completion.text,
+      done: true,
+      done_reason: completion.truncated ? 'length' : 'stop',
+      prompt_eval_count: request.prompt.split(/\s+/).length,
+      eval_count: completion.words
+    });
+  });
+
+  app.post('/v1/completions', (req, res) => {
+    const request: ReceivedRequest = {
+      api: 'openai',
+      model: req.body.model,
+      prompt: req.body.prompt,
+      temperature: req.body.temperature,
+      topP: req.body.top_p,
+      maxTokens: req.body.max_tokens,
+      frequencyPenalty: req.body.frequency_penalty,
+      presencePenalty: req.body.presence_penalty
+    };
+    if (!accept(request, res)) return;
+
+    const completion = stubCompletion(request, completionWords);
+    const promptTokens = request.prompt.split(/\s+/).length;
+    res.json({
+      id: `cmpl-${createHash('sha256').update(request.prompt).digest('hex').slice(0, 12)}`,
+      object: 'text_completion',
+      created: Math.floor(Date.now() / 1000),
+      model: request.model,
+      choices: [{ index: 0, text: completion.text, finish_reason: completion.truncated ? 'length' : 'stop' }],
+      usage: { prompt_tokens: promptTokens, completion_tokens: completion.words, total_tokens: promptTokens + completion.words }
+    });
+  });
+
+  return app;
+}
+
+export function startLLMStubServer(port: number, options: LLMStubOptions = {}, host: string = '127.0.0.1'): Promise<Server> {
+  const server = createServer(createLLMStubApp(options));
+  return new Promise((resolve) => {
+    server.listen(port, host, () => resolve(server));
+  });
+}
+
+export type { LLMStubOptions };
@@ -0,0 +1,11 @@
+/**
+ * Run the local LLM stub server on its own: `npm run mock:llm`
+ */
+
+import { startLLMStubServer } from './llmStubServer';
+
+const port = Number(process.env.LLM_STUB_PORT) || 5057;
+
+startLLMStubServer(port).then(() => {
+  console.log(`llm stub listening on http://127.0.0.1:${port} (set LOCAL_LLM_URL to use it)`);
+});
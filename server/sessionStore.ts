@@ -0,0 +1,69 @@
+import session from "express-session";
+import { eq, lt } from "drizzle-orm";
+import { userSessions } from "@shared/schema";
+import type { Database } from "./db";
+
+// Fallback lifetime for sessions whose cookie carries no expiry
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * express-session store backed by the user_sessions table, so logins survive
+ * restarts on both the Postgres and the embedded local database.
+ */
+export class DatabaseSessionStore extends session.Store {
+  private pruneTimer: NodeJS.Timeout;
+
+  constructor(private db: Database, pruneIntervalMs: number = 15 * 60 * 1000) {
+    super();
+    this.pruneTimer = setInterval(() => {
+      this.pruneExpired().catch(error => console.error("Failed to prune sessions:", error));
+    }, pruneIntervalMs);
+    this.pruneTimer.unref();
+  }
+
+  get(sid: string, callback: (err: unknown, session?: session.SessionData | null) => void): void {
+    this.db.select().from(userSessions).where(eq(userSessions.sid, sid))
+      .then(([row]) => {
+        if (!row || row.expire.getTime() <= Date.now()) {
+          return callback(null, null);
+        }
+        callback(null, row.sess as session.SessionData);
+      })
+      .catch(callback);
+  }
+
+  set(sid: string, sess: session.SessionData, callback?: (err?: unknown) => void): void {
+    const expire = this.expiryFor(sess);
+    this.db.insert(userSessions)
+      .values({ sid, sess, expire })
+      .onConflictDoUpdate({ target: userSessions.sid, set: { sess, expire } })
+      .then(() => callback?.())
+      .catch(error => callback?.(error));
+  }
+
+  destroy(sid: string, callback?: (err?: unknown) => void): void {
+    this.db.delete(userSessions).where(eq(userSessions.sid, sid))
+      .then(() => callback?.())
+      .catch(error => callback?.(error));
+  }
+
+  touch(sid: string, sess: session.SessionData, callback?: () => void): void {
+    this.db.update(userSessions)
+      .set({ expire: this.expiryFor(sess) })
+      .where(eq(userSessions.sid, sid))
+      .then(() => callback?.())
+      .catch(error => {
+        console.error("Failed to touch session:", error);
+        callback?.();
+      });
+  }
+
+  private expiryFor(sess: session.SessionData): Date {
+    const cookieExpiry = sess.cookie?.expires;
+    return cookieExpiry ? new Date(cookieExpiry) : new Date(Date.now() + DEFAULT_TTL_MS);
+  }
+
+  private async pruneExpired(): Promise<void> {
+    await this.db.delete(userSessions).where(lt(userSessions.expire, new Date()));
+  }
+}
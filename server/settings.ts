@@ -0,0 +1,120 @@
+import type { Request, Response, NextFunction } from "express";
+import type { ZodType, ZodTypeDef } from "zod";
+import {
+  defaultSystemSettings, systemSettingsSchema, type SystemSettings,
+  defaultAutomationSettings, automationSettingsSchema, type AutomationSettings,
+  defaultRateLimitSettings, rateLimitSettingsSchema, type RateLimitSettings,
+} from "@shared/settings";
+import { storage, type SystemStatus } from "./storage";
+
+/**
+ * Persisted settings groups (system, automation, rate limits). Reads are
+ * cached in memory; writes go through the update functions so the cache never
+ * drifts from storage.
+ */
+
+interface SettingsGroup<T> {
+  key: string;
+  schema: ZodType<T, ZodTypeDef, unknown>;
+  defaults: T;
+  cached: T | null;
+}
+
+const systemGroup: SettingsGroup<SystemSettings> = {
+  key: "system",
+  schema: systemSettingsSchema,
+  defaults: defaultSystemSettings,
+  cached: null,
+};
+
+const automationGroup: SettingsGroup<AutomationSettings> = {
+  key: "automation",
+  schema: automationSettingsSchema,
+  defaults: defaultAutomationSettings,
+  cached: null,
+};
+
+const rateLimitGroup: SettingsGroup<RateLimitSettings> = {
+  key: "rateLimits",
+  schema: rateLimitSettingsSchema,
+  defaults: defaultRateLimitSettings,
+  cached: null,
+};
+
+async function readGroup<T>(group: SettingsGroup<T>): Promise<T> {
+  if (group.cached) return group.cached;
+
+  const stored = await storage.getSetting(group.key);
+  const parsed = group.schema.safeParse({ ...group.defaults, ...(stored as object | undefined) });
+  if (!parsed.success) {
+    console.warn(`Stored ${group.key} settings are invalid; falling back to defaults.`);
+  }
+
+  group.cached = parsed.success ? parsed.data : group.defaults;
+  return group.cached;
+}
+
+// Throws a ZodError when the merged settings are out of range
+async function writeGroup<T>(group: SettingsGroup<T>, changes: Partial<T>): Promise<T> {
+  const next = group.schema.parse({ ...(await readGroup(group)), ...changes });
+  await storage.setSetting(group.key, next);
+  group.cached = next;
+  return next;
+}
+
+export function getSystemSettings(): Promise<SystemSettings> {
+  return readGroup(systemGroup);
+}
+
+/**
+ * Merge a partial update over the current settings, validate and persist
+ */
+export function updateSystemSettings(changes: Partial<SystemSettings>): Promise<SystemSettings> {
+  return writeGroup(systemGroup, changes);
+}
+
+export function getAutomationSettings(): Promise<AutomationSettings> {
+  return readGroup(automationGroup);
+}
+
+export function updateAutomationSettings(changes: Partial<AutomationSettings>): Promise<AutomationSettings> {
+  return writeGroup(automationGroup, changes);
+}
+
+export function getRateLimitSettings(): Promise<RateLimitSettings> {
+  return readGroup(rateLimitGroup);
+}
+
+export function updateRateLimitSettings(changes: Partial<RateLimitSettings>): Promise<RateLimitSettings> {
+  return writeGroup(rateLimitGroup, changes);
+}
+
+/**
+ * Block AI generation endpoints while generation is switched off in settings
+ */
+export async function requireAIContentGeneration(_req: Request, res: Response, next: NextFunction) {
+  try {
+    const settings = await getSystemSettings();
+    if (!settings.enableAIContentGeneration) {
+      return res.status(403).json({ message: "AI content generation is disabled in system settings" });
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * System status as reported to clients: storage is capped at the configured
+ * quota and resource metrics are withheld when metrics are disabled.
+ */
+export async function getReportedSystemStatus(): Promise<SystemStatus> {
+  const [status, settings] = await Promise.all([storage.getSystemStatus(), getSystemSettings()]);
+
+  return {
+    ...status,
+    storageAvailable: Math.min(status.storageAvailable, settings.maxStorageUsage),
+    cpuUsage: settings.enableSystemMetrics ? status.cpuUsage : 0,
+    memoryUsage: settings.enableSystemMetrics ? status.memoryUsage : 0,
+  };
+}
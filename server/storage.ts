@@ -3,18 +3,48 @@ import {
   Script, InsertScript, scripts,
   AiConfig, InsertAiConfig, aiConfigs,
   Platform, InsertPlatform, platforms,
-  PlatformAccount, InsertPlatformAccount, platformAccounts,
+  PlatformAccount, InsertPlatformAccount, PlatformAccountUpdate, platformAccounts,
+  ApiKey, InsertApiKey, apiKeys,
+  ApiToken, InsertApiToken, ApiTokenUpdate, apiTokens,
   Content, InsertContent, content,
-  ScheduledPost, InsertScheduledPost, scheduledPosts,
-  TrendingTopic, InsertTrendingTopic, trendingTopics
+  ContentVariant, InsertContentVariant, contentVariants,
+  ScheduledPost, InsertScheduledPost, ScheduledPostUpdate, scheduledPosts,
+  PostAction, InsertPostAction, postActions,
+  FeedItem, InsertFeedItem, feedItems,
+  NewsletterSubscriber, InsertNewsletterSubscriber, NewsletterSubscriberUpdate, newsletterSubscribers,
+  NewsletterIssue, InsertNewsletterIssue, newsletterIssues,
+  UserNotification, InsertUserNotification, userNotifications,
+  Webhook, InsertWebhook, webhooks,
+  WebhookDelivery, InsertWebhookDelivery, WebhookDeliveryUpdate, webhookDeliveries,
+  TrendingTopic, InsertTrendingTopic, trendingTopics,
+  Job, InsertJob, jobs,
+  Batch, InsertBatch, batches,
+  appSettings
 } from "@shared/schema";
+import { and, asc, desc, eq, gt, inArray, isNull, lt, lte, sql } from "drizzle-orm";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import { createDatabase, createLocalDatabase, type Database } from "./db";
+import { DatabaseSessionStore } from "./sessionStore";
+
+const MemoryStore = createMemoryStore(session);
+
+// Advisory lock that serializes self-registration (any constant unique to this app)
+const REGISTRATION_LOCK_KEY = 7240001;
 
 // Storage interface definition
 export interface IStorage {
+  // Login sessions
+  sessionStore: session.Store;
+
   // Users
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUsers(): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
+  // Self-registration: the first user becomes admin and later ones viewers, decided atomically
+  registerUser(user: Omit<InsertUser, "role">): Promise<User>;
+  updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined>;
   
   // Scripts
   getScripts(): Promise<Script[]>;
@@ -44,9 +74,25 @@ export interface IStorage {
   getPlatformAccount(id: number): Promise<PlatformAccount | undefined>;
   getPlatformAccountsByPlatform(platformId: number): Promise<PlatformAccount[]>;
   createPlatformAccount(account: InsertPlatformAccount): Promise<PlatformAccount>;
-  updatePlatformAccount(id: number, account: Partial<InsertPlatformAccount>): Promise<PlatformAccount | undefined>;
+  updatePlatformAccount(id: number, account: PlatformAccountUpdate): Promise<PlatformAccount | undefined>;
   deletePlatformAccount(id: number): Promise<boolean>;
 
+  // API Keys
+  getApiKeys(): Promise<ApiKey[]>;
+  getApiKey(id: number): Promise<ApiKey | undefined>;
+  createApiKey(apiKey: InsertApiKey): Promise<ApiKey>;
+  updateApiKey(id: number, apiKey: Partial<InsertApiKey>): Promise<ApiKey | undefined>;
+  // Marks the key revealed and returns it, unless it doesn't exist or was already revealed
+  claimApiKeyReveal(id: number): Promise<ApiKey | undefined>;
+  deleteApiKey(id: number): Promise<boolean>;
+
+  // API Tokens
+  getApiTokens(userId: number): Promise<ApiToken[]>;
+  getApiToken(id: number): Promise<ApiToken | undefined>;
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  updateApiToken(id: number, token: ApiTokenUpdate): Promise<ApiToken | undefined>;
+  deleteApiToken(id: number): Promise<boolean>;
+
   // Content
   getContents(): Promise<Content[]>;
   getContent(id: number): Promise<Content | undefined>;
@@ -55,13 +101,71 @@ export interface IStorage {
   updateContent(id: number, content: Partial<InsertContent>): Promise<Content | undefined>;
   deleteContent(id: number): Promise<boolean>;
 
+  // Content Variants
+  getContentVariants(contentId: number): Promise<ContentVariant[]>;
+  getContentVariant(id: number): Promise<ContentVariant | undefined>;
+  createContentVariant(variant: InsertContentVariant): Promise<ContentVariant>;
+  updateContentVariant(id: number, variant: Partial<InsertContentVariant>): Promise<ContentVariant | undefined>;
+  deleteContentVariant(id: number): Promise<boolean>;
+
   // Scheduled Posts
   getScheduledPosts(): Promise<ScheduledPost[]>;
   getScheduledPost(id: number): Promise<ScheduledPost | undefined>;
   getUpcomingScheduledPosts(limit: number): Promise<ScheduledPost[]>;
   createScheduledPost(post: InsertScheduledPost): Promise<ScheduledPost>;
-  updateScheduledPost(id: number, post: Partial<InsertScheduledPost>): Promise<ScheduledPost | undefined>;
+  updateScheduledPost(id: number, post: ScheduledPostUpdate): Promise<ScheduledPost | undefined>;
   deleteScheduledPost(id: number): Promise<boolean>;
+  // Atomically move up to `limit` pending posts due by `now` to "publishing"
+  claimDueScheduledPosts(now: Date, limit: number): Promise<ScheduledPost[]>;
+
+  // Post Actions
+  getPostActions(scheduledPostId: number): Promise<PostAction[]>;
+  createPostAction(action: InsertPostAction): Promise<PostAction>;
+
+  // Feed Items
+  getFeedItems(platformAccountId: number): Promise<FeedItem[]>; // newest first
+  getFeedItemByGuid(guid: string): Promise<FeedItem | undefined>;
+  createFeedItem(item: InsertFeedItem): Promise<FeedItem>;
+  updateFeedItem(id: number, item: Partial<InsertFeedItem>): Promise<FeedItem | undefined>;
+  deleteFeedItem(id: number): Promise<boolean>;
+
+  // Newsletter Subscribers
+  getNewsletterSubscribers(platformAccountId: number): Promise<NewsletterSubscriber[]>;
+  getNewsletterSubscriber(id: number): Promise<NewsletterSubscriber | undefined>;
+  getNewsletterSubscriberByEmail(platformAccountId: number, email: string): Promise<NewsletterSubscriber | undefined>;
+  getNewsletterSubscriberByToken(unsubscribeToken: string): Promise<NewsletterSubscriber | undefined>;
+  createNewsletterSubscriber(subscriber: InsertNewsletterSubscriber): Promise<NewsletterSubscriber>;
+  updateNewsletterSubscriber(id: number, subscriber: NewsletterSubscriberUpdate): Promise<NewsletterSubscriber | undefined>;
+  deleteNewsletterSubscriber(id: number): Promise<boolean>;
+
+  // Newsletter Issues
+  getNewsletterIssueByIssueId(issueId: string): Promise<NewsletterIssue | undefined>;
+  createNewsletterIssue(issue: InsertNewsletterIssue): Promise<NewsletterIssue>;
+
+  // User Notifications
+  getUserNotifications(userId: number, limit: number): Promise<UserNotification[]>; // newest first
+  getUnreadNotificationCount(userId: number): Promise<number>;
+  createUserNotification(notification: InsertUserNotification): Promise<UserNotification>;
+  // Mark the user's notifications with these IDs (or all of them) read; returns how many changed
+  markNotificationsRead(userId: number, ids?: number[]): Promise<number>;
+  // Delete all but the user's newest `keep` notifications; returns how many went
+  pruneUserNotifications(userId: number, keep: number): Promise<number>;
+
+  // Webhooks
+  getWebhooks(): Promise<Webhook[]>;
+  getWebhook(id: number): Promise<Webhook | undefined>;
+  createWebhook(webhook: InsertWebhook): Promise<Webhook>;
+  updateWebhook(id: number, webhook: Partial<InsertWebhook>): Promise<Webhook | undefined>;
+  deleteWebhook(id: number): Promise<boolean>; // along with its deliveries
+
+  // Webhook Deliveries
+  getWebhookDeliveries(webhookId: number, limit: number): Promise<WebhookDelivery[]>; // newest first
+  getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined>;
+  getWebhookDeliveriesByStatus(statuses: string[]): Promise<WebhookDelivery[]>;
+  createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery>;
+  updateWebhookDelivery(id: number, delivery: WebhookDeliveryUpdate): Promise<WebhookDelivery | undefined>;
+  // Atomically move up to `limit` pending deliveries due by `now` to "delivering"
+  claimDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]>;
 
   // Trending Topics
   getTrendingTopics(): Promise<TrendingTopic[]>;
@@ -71,6 +175,26 @@ export interface IStorage {
   updateTrendingTopic(id: number, topic: Partial<InsertTrendingTopic>): Promise<TrendingTopic | undefined>;
   deleteTrendingTopic(id: number): Promise<boolean>;
 
+  // Jobs
+  getJobs(): Promise<Job[]>;
+  getJob(id: number): Promise<Job | undefined>;
+  getJobsByStatus(statuses: string[]): Promise<Job[]>;
+  createJob(job: InsertJob): Promise<Job>;
+  updateJob(id: number, job: Partial<InsertJob>): Promise<Job | undefined>;
+  getJobsByBatch(batchId: number): Promise<Job[]>;
+  // Atomically move the oldest queued job to "processing"
+  claimNextJob(): Promise<Job | undefined>;
+
+  // Batches
+  getBatches(): Promise<Batch[]>;
+  getBatch(id: number): Promise<Batch | undefined>;
+  createBatch(batch: InsertBatch): Promise<Batch>;
+  updateBatch(id: number, batch: Partial<InsertBatch>): Promise<Batch | undefined>;
+
+  // App Settings
+  getSetting(key: string): Promise<unknown | undefined>;
+  setSetting(key: string, value: unknown): Promise<void>;
+
   // System Status
   getSystemStatus(): Promise<SystemStatus>;
 }
@@ -85,41 +209,95 @@ export type SystemStatus = {
 };
 
 export class MemStorage implements IStorage {
+  public sessionStore: session.Store;
   private users: Map<number, User>;
   private scripts: Map<number, Script>;
   private aiConfigs: Map<number, AiConfig>;
   private platforms: Map<number, Platform>;
   private platformAccounts: Map<number, PlatformAccount>;
+  private apiKeys: Map<number, ApiKey>;
+  private apiTokens: Map<number, ApiToken>;
   private contents: Map<number, Content>;
+  private contentVariants: Map<number, ContentVariant>;
   private scheduledPosts: Map<number, ScheduledPost>;
+  private postActions: Map<number, PostAction>;
+  private feedItems: Map<number, FeedItem>;
+  private newsletterSubscribers: Map<number, NewsletterSubscriber>;
+  private newsletterIssues: Map<number, NewsletterIssue>;
+  private userNotifications: Map<number, UserNotification>;
+  private webhooks: Map<number, Webhook>;
+  private webhookDeliveries: Map<number, WebhookDelivery>;
   private trendingTopics: Map<number, TrendingTopic>;
+  private jobs: Map<number, Job>;
+  private batches: Map<number, Batch>;
+  private settings: Map<string, unknown>;
   
   private userId: number;
   private scriptId: number;
   private aiConfigId: number;
   private platformId: number;
   private accountId: number;
+  private apiKeyId: number;
+  private apiTokenId: number;
   private contentId: number;
+  private variantId: number;
   private postId: number;
+  private postActionId: number;
+  private feedItemId: number;
+  private subscriberId: number;
+  private issueId: number;
+  private notificationId: number;
+  private webhookId: number;
+  private deliveryId: number;
   private topicId: number;
+  private jobId: number;
+  private batchId: number;
 
   constructor() {
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 24 * 60 * 60 * 1000 // prune expired entries daily
+    });
     this.users = new Map();
     this.scripts = new Map();
     this.aiConfigs = new Map();
     this.platforms = new Map();
     this.platformAccounts = new Map();
+    this.apiKeys = new Map();
+    this.apiTokens = new Map();
     this.contents = new Map();
+    this.contentVariants = new Map();
     this.scheduledPosts = new Map();
+    this.postActions = new Map();
+    this.feedItems = new Map();
+    this.newsletterSubscribers = new Map();
+    this.newsletterIssues = new Map();
+    this.userNotifications = new Map();
+    this.webhooks = new Map();
+    this.webhookDeliveries = new Map();
     this.trendingTopics = new Map();
+    this.jobs = new Map();
+    this.batches = new Map();
+    this.settings = new Map();
 
     this.userId = 1;
     this.scriptId = 1;
     this.aiConfigId = 1;
     this.platformId = 1;
     this.accountId = 1;
+    this.apiKeyId = 1;
+    this.apiTokenId = 1;
+    this.jobId = 1;
+    this.batchId = 1;
     this.contentId = 1;
+    this.variantId = 1;
     this.postId = 1;
+    this.postActionId = 1;
+    this.feedItemId = 1;
+    this.subscriberId = 1;
+    this.issueId = 1;
+    this.notificationId = 1;
+    this.webhookId = 1;
+    this.deliveryId = 1;
     this.topicId = 1;
 
     // Seed initial data
@@ -247,6 +425,12 @@ export class MemStorage implements IStorage {
     };
     this.platforms.set(twitterPlatform.id, twitterPlatform);
 
+    // Platforms with a built-in adapter (as migration 0016 adds them to the database)
+    for (const [name, icon] of [["Mock", "science"], ["Mastodon", "forum"], ["Feed", "rss_feed"], ["Newsletter", "mail"]]) {
+      const platform: Platform = { id: this.platformId++, name, icon, active: true };
+      this.platforms.set(platform.id, platform);
+    }
+
     // Add platform accounts
     const youtubeAccount: PlatformAccount = {
       id: this.accountId++,
@@ -258,7 +442,9 @@ export class MemStorage implements IStorage {
       accessToken: null,
       refreshToken: null,
       tokenExpiry: null,
-      metadata: { subscriberCount: 15200 }
+      metadata: { subscriberCount: 15200 },
+      needsReconnect: false,
+      connectionError: null
     };
     this.platformAccounts.set(youtubeAccount.id, youtubeAccount);
 
@@ -272,7 +458,9 @@ export class MemStorage implements IStorage {
       accessToken: null,
       refreshToken: null,
       tokenExpiry: null,
-      metadata: { followersCount: 8700 }
+      metadata: { followersCount: 8700 },
+      needsReconnect: false,
+      connectionError: null
     };
     this.platformAccounts.set(instagramAccount.id, instagramAccount);
 
@@ -286,7 +474,9 @@ export class MemStorage implements IStorage {
       accessToken: null,
       refreshToken: null,
       tokenExpiry: null,
-      metadata: { followersCount: 12400 }
+      metadata: { followersCount: 12400 },
+      needsReconnect: false,
+      connectionError: null
     };
     this.platformAccounts.set(twitterAccount.id, twitterAccount);
 
@@ -338,7 +528,11 @@ export class MemStorage implements IStorage {
       scheduledTime: new Date(Date.now() + 2 * 60 * 60 * 1000), // 2 hours from now
       status: "pending",
       postId: null,
-      error: null
+      error: null,
+      attempts: 0,
+      nextAttemptAt: null,
+      postedAt: null,
+      variantId: null
     };
     this.scheduledPosts.set(scheduledPost1.id, scheduledPost1);
 
@@ -349,7 +543,11 @@ export class MemStorage implements IStorage {
       scheduledTime: new Date(Date.now() + 24 * 60 * 60 * 1000), // 1 day from now
       status: "pending",
       postId: null,
-      error: null
+      error: null,
+      attempts: 0,
+      nextAttemptAt: null,
+      postedAt: null,
+      variantId: null
     };
     this.scheduledPosts.set(scheduledPost2.id, scheduledPost2);
 
@@ -360,7 +558,11 @@ export class MemStorage implements IStorage {
       scheduledTime: new Date(Date.now() + 5 * 24 * 60 * 60 * 1000), // 5 days from now
       status: "draft",
       postId: null,
-      error: null
+      error: null,
+      attempts: 0,
+      nextAttemptAt: null,
+      postedAt: null,
+      variantId: null
     };
     this.scheduledPosts.set(scheduledPost3.id, scheduledPost3);
 
@@ -407,13 +609,35 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.userId++;
-    const user: User = { ...insertUser, id };
+    const user: User = {
+      id,
+      username: insertUser.username,
+      password: insertUser.password,
+      role: insertUser.role || "viewer"
+    };
     this.users.set(id, user);
     return user;
   }
 
+  async registerUser(insertUser: Omit<InsertUser, "role">): Promise<User> {
+    return this.createUser({ ...insertUser, role: this.users.size === 0 ? "admin" : "viewer" });
+  }
+
+  async updateUser(id: number, userUpdate: Partial<InsertUser>): Promise<User | undefined> {
+    const existingUser = this.users.get(id);
+    if (!existingUser) return undefined;
+
+    const updatedUser = { ...existingUser, ...userUpdate };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
   // Script methods
   async getScripts(): Promise<Script[]> {
     return Array.from(this.scripts.values());
@@ -570,13 +794,15 @@ export class MemStorage implements IStorage {
       refreshToken: insertAccount.refreshToken || null,
       tokenExpiry: insertAccount.tokenExpiry || null,
       followerCount: insertAccount.followerCount || null,
-      metadata: insertAccount.metadata || {}
+      metadata: insertAccount.metadata || {},
+      needsReconnect: false,
+      connectionError: null
     };
     this.platformAccounts.set(id, account);
     return account;
   }
 
-  async updatePlatformAccount(id: number, account: Partial<InsertPlatformAccount>): Promise<PlatformAccount | undefined> {
+  async updatePlatformAccount(id: number, account: PlatformAccountUpdate): Promise<PlatformAccount | undefined> {
     const existingAccount = this.platformAccounts.get(id);
     if (!existingAccount) return undefined;
     
@@ -589,6 +815,93 @@ export class MemStorage implements IStorage {
     return this.platformAccounts.delete(id);
   }
 
+  // API Key methods
+  async getApiKeys(): Promise<ApiKey[]> {
+    return Array.from(this.apiKeys.values());
+  }
+
+  async getApiKey(id: number): Promise<ApiKey | undefined> {
+    return this.apiKeys.get(id);
+  }
+
+  async createApiKey(insertApiKey: InsertApiKey): Promise<ApiKey> {
+    const id = this.apiKeyId++;
+    const apiKey: ApiKey = {
+      id,
+      name: insertApiKey.name,
+      service: insertApiKey.service,
+      description: insertApiKey.description || null,
+      encryptedKey: insertApiKey.encryptedKey,
+      keyPreview: insertApiKey.keyPreview,
+      createdAt: new Date(),
+      rotatedAt: insertApiKey.rotatedAt || null,
+      revealedAt: insertApiKey.revealedAt || null
+    };
+    this.apiKeys.set(id, apiKey);
+    return apiKey;
+  }
+
+  async updateApiKey(id: number, apiKeyUpdate: Partial<InsertApiKey>): Promise<ApiKey | undefined> {
+    const existingApiKey = this.apiKeys.get(id);
+    if (!existingApiKey) return undefined;
+
+    const updatedApiKey = { ...existingApiKey, ...apiKeyUpdate };
+    this.apiKeys.set(id, updatedApiKey);
+    return updatedApiKey;
+  }
+
+  async claimApiKeyReveal(id: number): Promise<ApiKey | undefined> {
+    const apiKey = this.apiKeys.get(id);
+    if (!apiKey || apiKey.revealedAt) return undefined;
+
+    const revealed = { ...apiKey, revealedAt: new Date() };
+    this.apiKeys.set(id, revealed);
+    return revealed;
+  }
+
+  async deleteApiKey(id: number): Promise<boolean> {
+    return this.apiKeys.delete(id);
+  }
+
+  // API Tokens methods
+  async getApiTokens(userId: number): Promise<ApiToken[]> {
+    return Array.from(this.apiTokens.values()).filter(token => token.userId === userId);
+  }
+
+  async getApiToken(id: number): Promise<ApiToken | undefined> {
+    return this.apiTokens.get(id);
+  }
+
+  async createApiToken(insertToken: InsertApiToken): Promise<ApiToken> {
+    const id = this.apiTokenId++;
+    const token: ApiToken = {
+      id,
+      userId: insertToken.userId,
+      name: insertToken.name,
+      scopes: insertToken.scopes,
+      encryptedSecret: insertToken.encryptedSecret,
+      tokenPreview: insertToken.tokenPreview,
+      createdAt: new Date(),
+      expiresAt: insertToken.expiresAt ?? null,
+      lastUsedAt: null
+    };
+    this.apiTokens.set(id, token);
+    return token;
+  }
+
+  async updateApiToken(id: number, tokenUpdate: ApiTokenUpdate): Promise<ApiToken | undefined> {
+    const existingToken = this.apiTokens.get(id);
+    if (!existingToken) return undefined;
+
+    const updatedToken = { ...existingToken, ...tokenUpdate };
+    this.apiTokens.set(id, updatedToken);
+    return updatedToken;
+  }
+
+  async deleteApiToken(id: number): Promise<boolean> {
+    return this.apiTokens.delete(id);
+  }
+
   // Content methods
   async getContents(): Promise<Content[]> {
     return Array.from(this.contents.values());
@@ -634,6 +947,45 @@ export class MemStorage implements IStorage {
     return this.contents.delete(id);
   }
 
+  // Content Variant methods
+  async getContentVariants(contentId: number): Promise<ContentVariant[]> {
+    return Array.from(this.contentVariants.values()).filter(variant => variant.contentId === contentId);
+  }
+
+  async getContentVariant(id: number): Promise<ContentVariant | undefined> {
+    return this.contentVariants.get(id);
+  }
+
+  async createContentVariant(insertVariant: InsertContentVariant): Promise<ContentVariant> {
+    const id = this.variantId++;
+    const variant: ContentVariant = {
+      id,
+      contentId: insertVariant.contentId,
+      platformId: insertVariant.platformId,
+      title: insertVariant.title ?? null,
+      caption: insertVariant.caption ?? null,
+      filePath: insertVariant.filePath ?? null,
+      hashtags: insertVariant.hashtags ?? [],
+      metadata: insertVariant.metadata ?? null,
+      createdAt: new Date()
+    };
+    this.contentVariants.set(id, variant);
+    return variant;
+  }
+
+  async updateContentVariant(id: number, variantUpdate: Partial<InsertContentVariant>): Promise<ContentVariant | undefined> {
+    const existingVariant = this.contentVariants.get(id);
+    if (!existingVariant) return undefined;
+
+    const updatedVariant = { ...existingVariant, ...variantUpdate };
+    this.contentVariants.set(id, updatedVariant);
+    return updatedVariant;
+  }
+
+  async deleteContentVariant(id: number): Promise<boolean> {
+    return this.contentVariants.delete(id);
+  }
+
   // Scheduled Posts methods
   async getScheduledPosts(): Promise<ScheduledPost[]> {
     return Array.from(this.scheduledPosts.values());
@@ -660,13 +1012,17 @@ export class MemStorage implements IStorage {
       scheduledTime: insertPost.scheduledTime,
       status: insertPost.status || "pending",
       postId: null,
-      error: null
+      error: null,
+      attempts: 0,
+      nextAttemptAt: null,
+      postedAt: null,
+      variantId: insertPost.variantId ?? null
     };
     this.scheduledPosts.set(id, post);
     return post;
   }
 
-  async updateScheduledPost(id: number, postUpdate: Partial<InsertScheduledPost>): Promise<ScheduledPost | undefined> {
+  async updateScheduledPost(id: number, postUpdate: ScheduledPostUpdate): Promise<ScheduledPost | undefined> {
     const existingPost = this.scheduledPosts.get(id);
     if (!existingPost) return undefined;
     
@@ -679,6 +1035,302 @@ export class MemStorage implements IStorage {
     return this.scheduledPosts.delete(id);
   }
 
+  async claimDueScheduledPosts(now: Date, limit: number): Promise<ScheduledPost[]> {
+    const due = Array.from(this.scheduledPosts.values())
+      .filter(post => post.status === "pending" && (post.nextAttemptAt ?? post.scheduledTime) <= now)
+      .sort((a, b) => (a.nextAttemptAt ?? a.scheduledTime).getTime() - (b.nextAttemptAt ?? b.scheduledTime).getTime())
+      .slice(0, limit);
+
+    const claimed: ScheduledPost[] = [];
+    for (const post of due) {
+      const updated = await this.updateScheduledPost(post.id, { status: "publishing" });
+      if (updated) claimed.push(updated);
+    }
+    return claimed;
+  }
+
+  // Post Actions methods
+  async getPostActions(scheduledPostId: number): Promise<PostAction[]> {
+    return Array.from(this.postActions.values()).filter(action => action.scheduledPostId === scheduledPostId);
+  }
+
+  async createPostAction(insertAction: InsertPostAction): Promise<PostAction> {
+    const id = this.postActionId++;
+    const action: PostAction = {
+      id,
+      scheduledPostId: insertAction.scheduledPostId,
+      action: insertAction.action,
+      status: insertAction.status || "succeeded",
+      userId: insertAction.userId ?? null,
+      details: insertAction.details ?? null,
+      error: insertAction.error ?? null,
+      createdAt: new Date()
+    };
+    this.postActions.set(id, action);
+    return action;
+  }
+
+  // Feed Items methods
+  async getFeedItems(platformAccountId: number): Promise<FeedItem[]> {
+    return Array.from(this.feedItems.values())
+      .filter(item => item.platformAccountId === platformAccountId)
+      .sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime() || b.id - a.id);
+  }
+
+  async getFeedItemByGuid(guid: string): Promise<FeedItem | undefined> {
+    return Array.from(this.feedItems.values()).find(item => item.guid === guid);
+  }
+
+  async createFeedItem(insertItem: InsertFeedItem): Promise<FeedItem> {
+    const id = this.feedItemId++;
+    const now = new Date();
+    const item: FeedItem = {
+      id,
+      platformAccountId: insertItem.platformAccountId,
+      scheduledPostId: insertItem.scheduledPostId ?? null,
+      guid: insertItem.guid,
+      title: insertItem.title,
+      description: insertItem.description ?? null,
+      contentType: insertItem.contentType,
+      mediaPath: insertItem.mediaPath ?? null,
+      audioPath: insertItem.audioPath ?? null,
+      audioDuration: insertItem.audioDuration ?? null,
+      publishedAt: now,
+      updatedAt: now
+    };
+    this.feedItems.set(id, item);
+    return item;
+  }
+
+  async updateFeedItem(id: number, itemUpdate: Partial<InsertFeedItem>): Promise<FeedItem | undefined> {
+    const existingItem = this.feedItems.get(id);
+    if (!existingItem) return undefined;
+
+    const updatedItem = { ...existingItem, ...itemUpdate, updatedAt: new Date() };
+    this.feedItems.set(id, updatedItem);
+    return updatedItem;
+  }
+
+  async deleteFeedItem(id: number): Promise<boolean> {
+    return this.feedItems.delete(id);
+  }
+
+  // Newsletter Subscribers methods
+  async getNewsletterSubscribers(platformAccountId: number): Promise<NewsletterSubscriber[]> {
+    return Array.from(this.newsletterSubscribers.values()).filter(subscriber => subscriber.platformAccountId === platformAccountId);
+  }
+
+  async getNewsletterSubscriber(id: number): Promise<NewsletterSubscriber | undefined> {
+    return this.newsletterSubscribers.get(id);
+  }
+
+  async getNewsletterSubscriberByEmail(platformAccountId: number, email: string): Promise<NewsletterSubscriber | undefined> {
+    return Array.from(this.newsletterSubscribers.values()).find(
+      subscriber => subscriber.platformAccountId === platformAccountId && subscriber.email === email
+    );
+  }
+
+  async getNewsletterSubscriberByToken(unsubscribeToken: string): Promise<NewsletterSubscriber | undefined> {
+    return Array.from(this.newsletterSubscribers.values()).find(subscriber => subscriber.unsubscribeToken === unsubscribeToken);
+  }
+
+  async createNewsletterSubscriber(insertSubscriber: InsertNewsletterSubscriber): Promise<NewsletterSubscriber> {
+    const id = this.subscriberId++;
+    const subscriber: NewsletterSubscriber = {
+      id,
+      platformAccountId: insertSubscriber.platformAccountId,
+      email: insertSubscriber.email,
+      name: insertSubscriber.name ?? null,
+      unsubscribeToken: insertSubscriber.unsubscribeToken,
+      subscribed: true,
+      createdAt: new Date(),
+      unsubscribedAt: null
+    };
+    this.newsletterSubscribers.set(id, subscriber);
+    return subscriber;
+  }
+
+  async updateNewsletterSubscriber(id: number, subscriberUpdate: NewsletterSubscriberUpdate): Promise<NewsletterSubscriber | undefined> {
+    const existingSubscriber = this.newsletterSubscribers.get(id);
+    if (!existingSubscriber) return undefined;
+
+    const updatedSubscriber = { ...existingSubscriber, ...subscriberUpdate };
+    this.newsletterSubscribers.set(id, updatedSubscriber);
+    return updatedSubscriber;
+  }
+
+  async deleteNewsletterSubscriber(id: number): Promise<boolean> {
+    return this.newsletterSubscribers.delete(id);
+  }
+
+  // Newsletter Issues methods
+  async getNewsletterIssueByIssueId(issueId: string): Promise<NewsletterIssue | undefined> {
+    return Array.from(this.newsletterIssues.values()).find(issue => issue.issueId === issueId);
+  }
+
+  async createNewsletterIssue(insertIssue: InsertNewsletterIssue): Promise<NewsletterIssue> {
+    const id = this.issueId++;
+    const issue: NewsletterIssue = {
+      id,
+      platformAccountId: insertIssue.platformAccountId,
+      scheduledPostId: insertIssue.scheduledPostId ?? null,
+      issueId: insertIssue.issueId,
+      subject: insertIssue.subject,
+      recipientCount: insertIssue.recipientCount,
+      failedCount: insertIssue.failedCount ?? 0,
+      sentAt: new Date()
+    };
+    this.newsletterIssues.set(id, issue);
+    return issue;
+  }
+
+  // User Notifications methods
+  async getUserNotifications(userId: number, limit: number): Promise<UserNotification[]> {
+    return Array.from(this.userNotifications.values())
+      .filter(notification => notification.userId === userId)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async getUnreadNotificationCount(userId: number): Promise<number> {
+    return Array.from(this.userNotifications.values())
+      .filter(notification => notification.userId === userId && notification.readAt === null)
+      .length;
+  }
+
+  async createUserNotification(insertNotification: InsertUserNotification): Promise<UserNotification> {
+    const id = this.notificationId++;
+    const notification: UserNotification = {
+      id,
+      userId: insertNotification.userId,
+      event: insertNotification.event,
+      title: insertNotification.title,
+      message: insertNotification.message,
+      link: insertNotification.link ?? null,
+      readAt: null,
+      createdAt: new Date()
+    };
+    this.userNotifications.set(id, notification);
+    return notification;
+  }
+
+  async markNotificationsRead(userId: number, ids?: number[]): Promise<number> {
+    const readAt = new Date();
+    let changed = 0;
+    for (const notification of Array.from(this.userNotifications.values())) {
+      if (notification.userId !== userId || notification.readAt !== null) continue;
+      if (ids && !ids.includes(notification.id)) continue;
+      this.userNotifications.set(notification.id, { ...notification, readAt });
+      changed++;
+    }
+    return changed;
+  }
+
+  async pruneUserNotifications(userId: number, keep: number): Promise<number> {
+    const stale = (await this.getUserNotifications(userId, Infinity)).slice(keep);
+    stale.forEach(notification => this.userNotifications.delete(notification.id));
+    return stale.length;
+  }
+
+  // Webhooks methods
+  async getWebhooks(): Promise<Webhook[]> {
+    return Array.from(this.webhooks.values());
+  }
+
+  async getWebhook(id: number): Promise<Webhook | undefined> {
+    return this.webhooks.get(id);
+  }
+
+  async createWebhook(insertWebhook: InsertWebhook): Promise<Webhook> {
+    const id = this.webhookId++;
+    const webhook: Webhook = {
+      id,
+      url: insertWebhook.url,
+      description: insertWebhook.description ?? null,
+      events: insertWebhook.events,
+      encryptedSecret: insertWebhook.encryptedSecret,
+      secretPreview: insertWebhook.secretPreview,
+      active: insertWebhook.active ?? true,
+      createdAt: new Date()
+    };
+    this.webhooks.set(id, webhook);
+    return webhook;
+  }
+
+  async updateWebhook(id: number, webhookUpdate: Partial<InsertWebhook>): Promise<Webhook | undefined> {
+    const existingWebhook = this.webhooks.get(id);
+    if (!existingWebhook) return undefined;
+
+    const updatedWebhook = { ...existingWebhook, ...webhookUpdate };
+    this.webhooks.set(id, updatedWebhook);
+    return updatedWebhook;
+  }
+
+  async deleteWebhook(id: number): Promise<boolean> {
+    for (const delivery of Array.from(this.webhookDeliveries.values())) {
+      if (delivery.webhookId === id) this.webhookDeliveries.delete(delivery.id);
+    }
+    return this.webhooks.delete(id);
+  }
+
+  // Webhook Deliveries methods
+  async getWebhookDeliveries(webhookId: number, limit: number): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values())
+      .filter(delivery => delivery.webhookId === webhookId)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined> {
+    return this.webhookDeliveries.get(id);
+  }
+
+  async getWebhookDeliveriesByStatus(statuses: string[]): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values()).filter(delivery => statuses.includes(delivery.status));
+  }
+
+  async createWebhookDelivery(insertDelivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const id = this.deliveryId++;
+    const delivery: WebhookDelivery = {
+      id,
+      webhookId: insertDelivery.webhookId,
+      event: insertDelivery.event,
+      payload: insertDelivery.payload,
+      status: "pending",
+      attempts: 0,
+      responseStatus: null,
+      error: null,
+      nextAttemptAt: insertDelivery.nextAttemptAt ?? null,
+      lastAttemptAt: null,
+      createdAt: new Date()
+    };
+    this.webhookDeliveries.set(id, delivery);
+    return delivery;
+  }
+
+  async updateWebhookDelivery(id: number, deliveryUpdate: WebhookDeliveryUpdate): Promise<WebhookDelivery | undefined> {
+    const existingDelivery = this.webhookDeliveries.get(id);
+    if (!existingDelivery) return undefined;
+
+    const updatedDelivery = { ...existingDelivery, ...deliveryUpdate };
+    this.webhookDeliveries.set(id, updatedDelivery);
+    return updatedDelivery;
+  }
+
+  async claimDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    const due = Array.from(this.webhookDeliveries.values())
+      .filter(delivery => delivery.status === "pending" && (delivery.nextAttemptAt ?? delivery.createdAt) <= now)
+      .sort((a, b) => (a.nextAttemptAt ?? a.createdAt).getTime() - (b.nextAttemptAt ?? b.createdAt).getTime())
+      .slice(0, limit);
+
+    const claimed: WebhookDelivery[] = [];
+    for (const delivery of due) {
+      const updated = await this.updateWebhookDelivery(delivery.id, { status: "delivering" });
+      if (updated) claimed.push(updated);
+    }
+    return claimed;
+  }
+
   // Trending Topics methods
   async getTrendingTopics(): Promise<TrendingTopic[]> {
     return Array.from(this.trendingTopics.values());
@@ -721,6 +1373,102 @@ export class MemStorage implements IStorage {
     return this.trendingTopics.delete(id);
   }
 
+  // Job methods
+  async getJobs(): Promise<Job[]> {
+    return Array.from(this.jobs.values());
+  }
+
+  async getJob(id: number): Promise<Job | undefined> {
+    return this.jobs.get(id);
+  }
+
+  async getJobsByStatus(statuses: string[]): Promise<Job[]> {
+    return Array.from(this.jobs.values()).filter(job => statuses.includes(job.status));
+  }
+
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const id = this.jobId++;
+    const job: Job = {
+      id,
+      type: insertJob.type,
+      status: insertJob.status || "queued",
+      progress: insertJob.progress ?? 0,
+      payload: insertJob.payload,
+      result: insertJob.result ?? null,
+      error: insertJob.error || null,
+      attempts: insertJob.attempts ?? 0,
+      batchId: insertJob.batchId ?? null,
+      createdAt: new Date(),
+      startedAt: insertJob.startedAt || null,
+      completedAt: insertJob.completedAt || null
+    };
+    this.jobs.set(id, job);
+    return job;
+  }
+
+  async updateJob(id: number, jobUpdate: Partial<InsertJob>): Promise<Job | undefined> {
+    const existingJob = this.jobs.get(id);
+    if (!existingJob) return undefined;
+
+    const updatedJob = { ...existingJob, ...jobUpdate };
+    this.jobs.set(id, updatedJob);
+    return updatedJob;
+  }
+
+  async getJobsByBatch(batchId: number): Promise<Job[]> {
+    return Array.from(this.jobs.values()).filter(job => job.batchId === batchId);
+  }
+
+  async claimNextJob(): Promise<Job | undefined> {
+    // Map iteration follows insertion order, so the first queued job is the oldest
+    const next = Array.from(this.jobs.values()).find(job => job.status === "queued");
+    if (!next) return undefined;
+
+    return this.updateJob(next.id, { status: "processing", startedAt: new Date(), attempts: next.attempts + 1 });
+  }
+
+  // Batch methods
+  async getBatches(): Promise<Batch[]> {
+    return Array.from(this.batches.values());
+  }
+
+  async getBatch(id: number): Promise<Batch | undefined> {
+    return this.batches.get(id);
+  }
+
+  async createBatch(insertBatch: InsertBatch): Promise<Batch> {
+    const id = this.batchId++;
+    const batch: Batch = {
+      id,
+      status: insertBatch.status || "running",
+      topicCount: insertBatch.topicCount,
+      contentTypes: insertBatch.contentTypes,
+      taskCount: insertBatch.taskCount ?? 0,
+      createdAt: new Date(),
+      completedAt: insertBatch.completedAt || null
+    };
+    this.batches.set(id, batch);
+    return batch;
+  }
+
+  async updateBatch(id: number, batchUpdate: Partial<InsertBatch>): Promise<Batch | undefined> {
+    const existingBatch = this.batches.get(id);
+    if (!existingBatch) return undefined;
+
+    const updatedBatch = { ...existingBatch, ...batchUpdate };
+    this.batches.set(id, updatedBatch);
+    return updatedBatch;
+  }
+
+  // App Settings
+  async getSetting(key: string): Promise<unknown | undefined> {
+    return this.settings.get(key);
+  }
+
+  async setSetting(key: string, value: unknown): Promise<void> {
+    this.settings.set(key, value);
+  }
+
   // System Status
   async getSystemStatus(): Promise<SystemStatus> {
     // In a real system, these would come from actual system metrics
@@ -734,4 +1482,699 @@ export class MemStorage implements IStorage {
   }
 }
 
-export const storage = new MemStorage();
+export class DatabaseStorage implements IStorage {
+  public sessionStore: session.Store;
+
+  constructor(private db: Database) {
+    this.sessionStore = new DatabaseSessionStore(db);
+  }
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getUsers(): Promise<User[]> {
+    return this.db.select().from(users).orderBy(asc(users.id));
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async registerUser(insertUser: Omit<InsertUser, "role">): Promise<User> {
+    // Registrations take turns, so two on a fresh install can't both see no users
+    return this.db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${REGISTRATION_LOCK_KEY})`);
+      const [existing] = await tx.select({ id: users.id }).from(users).limit(1);
+      const [user] = await tx.insert(users).values({ ...insertUser, role: existing ? "viewer" : "admin" }).returning();
+      return user;
+    });
+  }
+
+  async updateUser(id: number, userUpdate: Partial<InsertUser>): Promise<User | undefined> {
+    const [user] = await this.db.update(users).set(userUpdate).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  // Script methods
+  async getScripts(): Promise<Script[]> {
+    return this.db.select().from(scripts).orderBy(asc(scripts.id));
+  }
+
+  async getScript(id: number): Promise<Script | undefined> {
+    const [script] = await this.db.select().from(scripts).where(eq(scripts.id, id));
+    return script;
+  }
+
+  async getRecentScripts(limit: number): Promise<Script[]> {
+    return this.db.select().from(scripts).orderBy(desc(scripts.createdAt)).limit(limit);
+  }
+
+  async createScript(insertScript: InsertScript): Promise<Script> {
+    const [script] = await this.db.insert(scripts).values(insertScript).returning();
+    return script;
+  }
+
+  async updateScript(id: number, scriptUpdate: Partial<InsertScript>): Promise<Script | undefined> {
+    const [script] = await this.db.update(scripts).set(scriptUpdate).where(eq(scripts.id, id)).returning();
+    return script;
+  }
+
+  async deleteScript(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(scripts).where(eq(scripts.id, id)).returning({ id: scripts.id });
+    return deleted.length > 0;
+  }
+
+  // AI Config methods
+  async getAiConfigs(): Promise<AiConfig[]> {
+    return this.db.select().from(aiConfigs).orderBy(asc(aiConfigs.id));
+  }
+
+  async getAiConfig(id: number): Promise<AiConfig | undefined> {
+    const [config] = await this.db.select().from(aiConfigs).where(eq(aiConfigs.id, id));
+    return config;
+  }
+
+  async getAiConfigsByType(modelType: string): Promise<AiConfig[]> {
+    return this.db.select().from(aiConfigs).where(eq(aiConfigs.modelType, modelType)).orderBy(asc(aiConfigs.id));
+  }
+
+  async createAiConfig(insertConfig: InsertAiConfig): Promise<AiConfig> {
+    const [config] = await this.db.insert(aiConfigs).values({
+      ...insertConfig,
+      settings: insertConfig.settings || {},
+      capabilities: insertConfig.capabilities || {}
+    }).returning();
+    return config;
+  }
+
+  async updateAiConfig(id: number, configUpdate: Partial<InsertAiConfig>): Promise<AiConfig | undefined> {
+    const [config] = await this.db.update(aiConfigs)
+      .set({ ...configUpdate, lastUpdated: new Date() })
+      .where(eq(aiConfigs.id, id))
+      .returning();
+    return config;
+  }
+
+  async deleteAiConfig(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(aiConfigs).where(eq(aiConfigs.id, id)).returning({ id: aiConfigs.id });
+    return deleted.length > 0;
+  }
+
+  // Platform methods
+  async getPlatforms(): Promise<Platform[]> {
+    return this.db.select().from(platforms).orderBy(asc(platforms.id));
+  }
+
+  async getPlatform(id: number): Promise<Platform | undefined> {
+    const [platform] = await this.db.select().from(platforms).where(eq(platforms.id, id));
+    return platform;
+  }
+
+  async createPlatform(insertPlatform: InsertPlatform): Promise<Platform> {
+    const [platform] = await this.db.insert(platforms).values(insertPlatform).returning();
+    return platform;
+  }
+
+  async updatePlatform(id: number, platform: Partial<InsertPlatform>): Promise<Platform | undefined> {
+    const [updatedPlatform] = await this.db.update(platforms).set(platform).where(eq(platforms.id, id)).returning();
+    return updatedPlatform;
+  }
+
+  async deletePlatform(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(platforms).where(eq(platforms.id, id)).returning({ id: platforms.id });
+    return deleted.length > 0;
+  }
+
+  // Platform Account methods
+  async getPlatformAccounts(): Promise<PlatformAccount[]> {
+    return this.db.select().from(platformAccounts).orderBy(asc(platformAccounts.id));
+  }
+
+  async getPlatformAccount(id: number): Promise<PlatformAccount | undefined> {
+    const [account] = await this.db.select().from(platformAccounts).where(eq(platformAccounts.id, id));
+    return account;
+  }
+
+  async getPlatformAccountsByPlatform(platformId: number): Promise<PlatformAccount[]> {
+    return this.db.select().from(platformAccounts)
+      .where(eq(platformAccounts.platformId, platformId))
+      .orderBy(asc(platformAccounts.id));
+  }
+
+  async createPlatformAccount(insertAccount: InsertPlatformAccount): Promise<PlatformAccount> {
+    const [account] = await this.db.insert(platformAccounts).values({
+      ...insertAccount,
+      metadata: insertAccount.metadata || {}
+    }).returning();
+    return account;
+  }
+
+  async updatePlatformAccount(id: number, account: PlatformAccountUpdate): Promise<PlatformAccount | undefined> {
+    const [updatedAccount] = await this.db.update(platformAccounts).set(account).where(eq(platformAccounts.id, id)).returning();
+    return updatedAccount;
+  }
+
+  async deletePlatformAccount(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(platformAccounts).where(eq(platformAccounts.id, id)).returning({ id: platformAccounts.id });
+    return deleted.length > 0;
+  }
+
+  // API Key methods
+  async getApiKeys(): Promise<ApiKey[]> {
+    return this.db.select().from(apiKeys).orderBy(asc(apiKeys.id));
+  }
+
+  async getApiKey(id: number): Promise<ApiKey | undefined> {
+    const [apiKey] = await this.db.select().from(apiKeys).where(eq(apiKeys.id, id));
+    return apiKey;
+  }
+
+  async createApiKey(insertApiKey: InsertApiKey): Promise<ApiKey> {
+    const [apiKey] = await this.db.insert(apiKeys).values(insertApiKey).returning();
+    return apiKey;
+  }
+
+  async updateApiKey(id: number, apiKeyUpdate: Partial<InsertApiKey>): Promise<ApiKey | undefined> {
+    const [apiKey] = await this.db.update(apiKeys).set(apiKeyUpdate).where(eq(apiKeys.id, id)).returning();
+    return apiKey;
+  }
+
+  async claimApiKeyReveal(id: number): Promise<ApiKey | undefined> {
+    // One conditional update, so concurrent reveals can't both succeed
+    const [apiKey] = await this.db.update(apiKeys)
+      .set({ revealedAt: new Date() })
+      .where(and(eq(apiKeys.id, id), isNull(apiKeys.revealedAt)))
+      .returning();
+    return apiKey;
+  }
+
+  async deleteApiKey(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(apiKeys).where(eq(apiKeys.id, id)).returning({ id: apiKeys.id });
+    return deleted.length > 0;
+  }
+
+  // API Tokens methods
+  async getApiTokens(userId: number): Promise<ApiToken[]> {
+    return this.db.select().from(apiTokens).where(eq(apiTokens.userId, userId)).orderBy(asc(apiTokens.id));
+  }
+
+  async getApiToken(id: number): Promise<ApiToken | undefined> {
+    const [token] = await this.db.select().from(apiTokens).where(eq(apiTokens.id, id));
+    return token;
+  }
+
+  async createApiToken(insertToken: InsertApiToken): Promise<ApiToken> {
+    const [token] = await this.db.insert(apiTokens).values(insertToken).returning();
+    return token;
+  }
+
+  async updateApiToken(id: number, tokenUpdate: ApiTokenUpdate): Promise<ApiToken | undefined> {
+    const [token] = await this.db.update(apiTokens).set(tokenUpdate).where(eq(apiTokens.id, id)).returning();
+    return token;
+  }
+
+  async deleteApiToken(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(apiTokens).where(eq(apiTokens.id, id)).returning({ id: apiTokens.id });
+    return deleted.length > 0;
+  }
+
+  // Content methods
+  async getContents(): Promise<Content[]> {
+    return this.db.select().from(content).orderBy(asc(content.id));
+  }
+
+  async getContent(id: number): Promise<Content | undefined> {
+    const [item] = await this.db.select().from(content).where(eq(content.id, id));
+    return item;
+  }
+
+  async getRecentContents(limit: number): Promise<Content[]> {
+    return this.db.select().from(content).orderBy(desc(content.createdAt)).limit(limit);
+  }
+
+  async createContent(insertContent: InsertContent): Promise<Content> {
+    const [item] = await this.db.insert(content).values({
+      ...insertContent,
+      metadata: insertContent.metadata || {}
+    }).returning();
+    return item;
+  }
+
+  async updateContent(id: number, contentUpdate: Partial<InsertContent>): Promise<Content | undefined> {
+    const [item] = await this.db.update(content).set(contentUpdate).where(eq(content.id, id)).returning();
+    return item;
+  }
+
+  async deleteContent(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(content).where(eq(content.id, id)).returning({ id: content.id });
+    return deleted.length > 0;
+  }
+
+  // Content Variant methods
+  async getContentVariants(contentId: number): Promise<ContentVariant[]> {
+    return this.db.select().from(contentVariants)
+      .where(eq(contentVariants.contentId, contentId))
+      .orderBy(asc(contentVariants.id));
+  }
+
+  async getContentVariant(id: number): Promise<ContentVariant | undefined> {
+    const [variant] = await this.db.select().from(contentVariants).where(eq(contentVariants.id, id));
+    return variant;
+  }
+
+  async createContentVariant(insertVariant: InsertContentVariant): Promise<ContentVariant> {
+    const [variant] = await this.db.insert(contentVariants).values(insertVariant).returning();
+    return variant;
+  }
+
+  async updateContentVariant(id: number, variantUpdate: Partial<InsertContentVariant>): Promise<ContentVariant | undefined> {
+    const [variant] = await this.db.update(contentVariants).set(variantUpdate).where(eq(contentVariants.id, id)).returning();
+    return variant;
+  }
+
+  async deleteContentVariant(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(contentVariants).where(eq(contentVariants.id, id)).returning({ id: contentVariants.id });
+    return deleted.length > 0;
+  }
+
+  // Scheduled Posts methods
+  async getScheduledPosts(): Promise<ScheduledPost[]> {
+    return this.db.select().from(scheduledPosts).orderBy(asc(scheduledPosts.id));
+  }
+
+  async getScheduledPost(id: number): Promise<ScheduledPost | undefined> {
+    const [post] = await this.db.select().from(scheduledPosts).where(eq(scheduledPosts.id, id));
+    return post;
+  }
+
+  async getUpcomingScheduledPosts(limit: number): Promise<ScheduledPost[]> {
+    return this.db.select().from(scheduledPosts)
+      .where(gt(scheduledPosts.scheduledTime, new Date()))
+      .orderBy(asc(scheduledPosts.scheduledTime))
+      .limit(limit);
+  }
+
+  async createScheduledPost(insertPost: InsertScheduledPost): Promise<ScheduledPost> {
+    const [post] = await this.db.insert(scheduledPosts).values(insertPost).returning();
+    return post;
+  }
+
+  async updateScheduledPost(id: number, postUpdate: ScheduledPostUpdate): Promise<ScheduledPost | undefined> {
+    const [post] = await this.db.update(scheduledPosts).set(postUpdate).where(eq(scheduledPosts.id, id)).returning();
+    return post;
+  }
+
+  async deleteScheduledPost(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(scheduledPosts).where(eq(scheduledPosts.id, id)).returning({ id: scheduledPosts.id });
+    return deleted.length > 0;
+  }
+
+  async claimDueScheduledPosts(now: Date, limit: number): Promise<ScheduledPost[]> {
+    const dueAt = sql`coalesce(${scheduledPosts.nextAttemptAt}, ${scheduledPosts.scheduledTime})`;
+    const due = await this.db.select({ id: scheduledPosts.id }).from(scheduledPosts)
+      .where(and(eq(scheduledPosts.status, "pending"), lte(dueAt, now)))
+      .orderBy(asc(dueAt))
+      .limit(limit);
+    if (due.length === 0) return [];
+
+    // The status guard skips rows another worker claimed in the meantime
+    return this.db.update(scheduledPosts)
+      .set({ status: "publishing" })
+      .where(and(inArray(scheduledPosts.id, due.map(post => post.id)), eq(scheduledPosts.status, "pending")))
+      .returning();
+  }
+
+  // Post Actions methods
+  async getPostActions(scheduledPostId: number): Promise<PostAction[]> {
+    return this.db.select().from(postActions)
+      .where(eq(postActions.scheduledPostId, scheduledPostId))
+      .orderBy(asc(postActions.id));
+  }
+
+  async createPostAction(insertAction: InsertPostAction): Promise<PostAction> {
+    const [action] = await this.db.insert(postActions).values(insertAction).returning();
+    return action;
+  }
+
+  // Feed Items methods
+  async getFeedItems(platformAccountId: number): Promise<FeedItem[]> {
+    return this.db.select().from(feedItems)
+      .where(eq(feedItems.platformAccountId, platformAccountId))
+      .orderBy(desc(feedItems.publishedAt), desc(feedItems.id));
+  }
+
+  async getFeedItemByGuid(guid: string): Promise<FeedItem | undefined> {
+    const [item] = await this.db.select().from(feedItems).where(eq(feedItems.guid, guid));
+    return item;
+  }
+
+  async createFeedItem(insertItem: InsertFeedItem): Promise<FeedItem> {
+    const [item] = await this.db.insert(feedItems).values(insertItem).returning();
+    return item;
+  }
+
+  async updateFeedItem(id: number, itemUpdate: Partial<InsertFeedItem>): Promise<FeedItem | undefined> {
+    const [item] = await this.db.update(feedItems)
+      .set({ ...itemUpdate, updatedAt: new Date() })
+      .where(eq(feedItems.id, id))
+      .returning();
+    return item;
+  }
+
+  async deleteFeedItem(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(feedItems).where(eq(feedItems.id, id)).returning({ id: feedItems.id });
+    return deleted.length > 0;
+  }
+
+  // Newsletter Subscribers methods
+  async getNewsletterSubscribers(platformAccountId: number): Promise<NewsletterSubscriber[]> {
+    return this.db.select().from(newsletterSubscribers)
+      .where(eq(newsletterSubscribers.platformAccountId, platformAccountId))
+      .orderBy(asc(newsletterSubscribers.id));
+  }
+
+  async getNewsletterSubscriber(id: number): Promise<NewsletterSubscriber | undefined> {
+    const [subscriber] = await this.db.select().from(newsletterSubscribers).where(eq(newsletterSubscribers.id, id));
+    return subscriber;
+  }
+
+  async getNewsletterSubscriberByEmail(platformAccountId: number, email: string): Promise<NewsletterSubscriber | undefined> {
+    const [subscriber] = await this.db.select().from(newsletterSubscribers)
+      .where(and(eq(newsletterSubscribers.platformAccountId, platformAccountId), eq(newsletterSubscribers.email, email)));
+    return subscriber;
+  }
+
+  async getNewsletterSubscriberByToken(unsubscribeToken: string): Promise<NewsletterSubscriber | undefined> {
+    const [subscriber] = await this.db.select().from(newsletterSubscribers)
+      .where(eq(newsletterSubscribers.unsubscribeToken, unsubscribeToken));
+    return subscriber;
+  }
+
+  async createNewsletterSubscriber(insertSubscriber: InsertNewsletterSubscriber): Promise<NewsletterSubscriber> {
+    const [subscriber] = await this.db.insert(newsletterSubscribers).values(insertSubscriber).returning();
+    return subscriber;
+  }
+
+  async updateNewsletterSubscriber(id: number, subscriberUpdate: NewsletterSubscriberUpdate): Promise<NewsletterSubscriber | undefined> {
+    const [subscriber] = await this.db.update(newsletterSubscribers)
+      .set(subscriberUpdate)
+      .where(eq(newsletterSubscribers.id, id))
+      .returning();
+    return subscriber;
+  }
+
+  async deleteNewsletterSubscriber(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(newsletterSubscribers)
+      .where(eq(newsletterSubscribers.id, id))
+      .returning({ id: newsletterSubscribers.id });
+    return deleted.length > 0;
+  }
+
+  // Newsletter Issues methods
+  async getNewsletterIssueByIssueId(issueId: string): Promise<NewsletterIssue | undefined> {
+    const [issue] = await this.db.select().from(newsletterIssues).where(eq(newsletterIssues.issueId, issueId));
+    return issue;
+  }
+
+  async createNewsletterIssue(insertIssue: InsertNewsletterIssue): Promise<NewsletterIssue> {
+    const [issue] = await this.db.insert(newsletterIssues).values(insertIssue).returning();
+    return issue;
+  }
+
+  // User Notifications methods
+  async getUserNotifications(userId: number, limit: number): Promise<UserNotification[]> {
+    return this.db.select().from(userNotifications)
+      .where(eq(userNotifications.userId, userId))
+      .orderBy(desc(userNotifications.id))
+      .limit(limit);
+  }
+
+  async getUnreadNotificationCount(userId: number): Promise<number> {
+    const [{ count }] = await this.db.select({ count: sql<number>`count(*)::int` }).from(userNotifications)
+      .where(and(eq(userNotifications.userId, userId), isNull(userNotifications.readAt)));
+    return count;
+  }
+
+  async createUserNotification(insertNotification: InsertUserNotification): Promise<UserNotification> {
+    const [notification] = await this.db.insert(userNotifications).values(insertNotification).returning();
+    return notification;
+  }
+
+  async markNotificationsRead(userId: number, ids?: number[]): Promise<number> {
+    if (ids && ids.length === 0) return 0;
+    const updated = await this.db.update(userNotifications)
+      .set({ readAt: new Date() })
+      .where(and(
+        eq(userNotifications.userId, userId),
+        isNull(userNotifications.readAt),
+        ids ? inArray(userNotifications.id, ids) : undefined
+      ))
+      .returning({ id: userNotifications.id });
+    return updated.length;
+  }
+
+  async pruneUserNotifications(userId: number, keep: number): Promise<number> {
+    const [oldestKept] = await this.db.select({ id: userNotifications.id }).from(userNotifications)
+      .where(eq(userNotifications.userId, userId))
+      .orderBy(desc(userNotifications.id))
+      .offset(keep - 1)
+      .limit(1);
+    if (!oldestKept) return 0;
+    const deleted = await this.db.delete(userNotifications)
+      .where(and(eq(userNotifications.userId, userId), lt(userNotifications.id, oldestKept.id)))
+      .returning({ id: userNotifications.id });
+    return deleted.length;
+  }
+
+  // Webhooks methods
+  async getWebhooks(): Promise<Webhook[]> {
+    return this.db.select().from(webhooks).orderBy(asc(webhooks.id));
+  }
+
+  async getWebhook(id: number): Promise<Webhook | undefined> {
+    const [webhook] = await this.db.select().from(webhooks).where(eq(webhooks.id, id));
+    return webhook;
+  }
+
+  async createWebhook(insertWebhook: InsertWebhook): Promise<Webhook> {
+    const [webhook] = await this.db.insert(webhooks).values(insertWebhook).returning();
+    return webhook;
+  }
+
+  async updateWebhook(id: number, webhookUpdate: Partial<InsertWebhook>): Promise<Webhook | undefined> {
+    const [webhook] = await this.db.update(webhooks)
+      .set(webhookUpdate)
+      .where(eq(webhooks.id, id))
+      .returning();
+    return webhook;
+  }
+
+  async deleteWebhook(id: number): Promise<boolean> {
+    await this.db.delete(webhookDeliveries).where(eq(webhookDeliveries.webhookId, id));
+    const deleted = await this.db.delete(webhooks).where(eq(webhooks.id, id)).returning({ id: webhooks.id });
+    return deleted.length > 0;
+  }
+
+  // Webhook Deliveries methods
+  async getWebhookDeliveries(webhookId: number, limit: number): Promise<WebhookDelivery[]> {
+    return this.db.select().from(webhookDeliveries)
+      .where(eq(webhookDeliveries.webhookId, webhookId))
+      .orderBy(desc(webhookDeliveries.id))
+      .limit(limit);
+  }
+
+  async getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await this.db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+    return delivery;
+  }
+
+  async getWebhookDeliveriesByStatus(statuses: string[]): Promise<WebhookDelivery[]> {
+    return this.db.select().from(webhookDeliveries)
+      .where(inArray(webhookDeliveries.status, statuses))
+      .orderBy(asc(webhookDeliveries.id));
+  }
+
+  async createWebhookDelivery(insertDelivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const [delivery] = await this.db.insert(webhookDeliveries).values(insertDelivery).returning();
+    return delivery;
+  }
+
+  async updateWebhookDelivery(id: number, deliveryUpdate: WebhookDeliveryUpdate): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await this.db.update(webhookDeliveries)
+      .set(deliveryUpdate)
+      .where(eq(webhookDeliveries.id, id))
+      .returning();
+    return delivery;
+  }
+
+  async claimDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    const dueAt = sql`coalesce(${webhookDeliveries.nextAttemptAt}, ${webhookDeliveries.createdAt})`;
+    const due = await this.db.select({ id: webhookDeliveries.id }).from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.status, "pending"), lte(dueAt, now)))
+      .orderBy(asc(dueAt))
+      .limit(limit);
+    if (due.length === 0) return [];
+
+    // The status guard skips rows another worker claimed in the meantime
+    return this.db.update(webhookDeliveries)
+      .set({ status: "delivering" })
+      .where(and(inArray(webhookDeliveries.id, due.map(delivery => delivery.id)), eq(webhookDeliveries.status, "pending")))
+      .returning();
+  }
+
+  // Trending Topics methods
+  async getTrendingTopics(): Promise<TrendingTopic[]> {
+    return this.db.select().from(trendingTopics).orderBy(asc(trendingTopics.id));
+  }
+
+  async getTrendingTopic(id: number): Promise<TrendingTopic | undefined> {
+    const [topic] = await this.db.select().from(trendingTopics).where(eq(trendingTopics.id, id));
+    return topic;
+  }
+
+  async getTopTrendingTopics(limit: number): Promise<TrendingTopic[]> {
+    return this.db.select().from(trendingTopics).orderBy(desc(trendingTopics.trendScore)).limit(limit);
+  }
+
+  async createTrendingTopic(insertTopic: InsertTrendingTopic): Promise<TrendingTopic> {
+    const [topic] = await this.db.insert(trendingTopics).values(insertTopic).returning();
+    return topic;
+  }
+
+  async updateTrendingTopic(id: number, topicUpdate: Partial<InsertTrendingTopic>): Promise<TrendingTopic | undefined> {
+    const [topic] = await this.db.update(trendingTopics).set(topicUpdate).where(eq(trendingTopics.id, id)).returning();
+    return topic;
+  }
+
+  async deleteTrendingTopic(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(trendingTopics).where(eq(trendingTopics.id, id)).returning({ id: trendingTopics.id });
+    return deleted.length > 0;
+  }
+
+  // Job methods
+  async getJobs(): Promise<Job[]> {
+    return this.db.select().from(jobs).orderBy(asc(jobs.id));
+  }
+
+  async getJob(id: number): Promise<Job | undefined> {
+    const [job] = await this.db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+
+  async getJobsByStatus(statuses: string[]): Promise<Job[]> {
+    return this.db.select().from(jobs).where(inArray(jobs.status, statuses)).orderBy(asc(jobs.id));
+  }
+
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const [job] = await this.db.insert(jobs).values(insertJob).returning();
+    return job;
+  }
+
+  async updateJob(id: number, jobUpdate: Partial<InsertJob>): Promise<Job | undefined> {
+    const [job] = await this.db.update(jobs).set(jobUpdate).where(eq(jobs.id, id)).returning();
+    return job;
+  }
+
+  async getJobsByBatch(batchId: number): Promise<Job[]> {
+    return this.db.select().from(jobs).where(eq(jobs.batchId, batchId)).orderBy(asc(jobs.id));
+  }
+
+  async claimNextJob(): Promise<Job | undefined> {
+    // Another worker may claim the same row first; the status guard makes that a no-op, so retry
+    for (;;) {
+      const [next] = await this.db.select().from(jobs).where(eq(jobs.status, "queued")).orderBy(asc(jobs.id)).limit(1);
+      if (!next) return undefined;
+
+      const [claimed] = await this.db.update(jobs)
+        .set({ status: "processing", startedAt: new Date(), attempts: next.attempts + 1 })
+        .where(and(eq(jobs.id, next.id), eq(jobs.status, "queued")))
+        .returning();
+      if (claimed) return claimed;
+    }
+  }
+
+  // Batch methods
+  async getBatches(): Promise<Batch[]> {
+    return this.db.select().from(batches).orderBy(asc(batches.id));
+  }
+
+  async getBatch(id: number): Promise<Batch | undefined> {
+    const [batch] = await this.db.select().from(batches).where(eq(batches.id, id));
+    return batch;
+  }
+
+  async createBatch(insertBatch: InsertBatch): Promise<Batch> {
+    const [batch] = await this.db.insert(batches).values(insertBatch).returning();
+    return batch;
+  }
+
+  async updateBatch(id: number, batchUpdate: Partial<InsertBatch>): Promise<Batch | undefined> {
+    const [batch] = await this.db.update(batches).set(batchUpdate).where(eq(batches.id, id)).returning();
+    return batch;
+  }
+
+  // App Settings
+  async getSetting(key: string): Promise<unknown | undefined> {
+    const [setting] = await this.db.select().from(appSettings).where(eq(appSettings.key, key));
+    return setting?.value;
+  }
+
+  async setSetting(key: string, value: unknown): Promise<void> {
+    await this.db.insert(appSettings)
+      .values({ key, value })
+      .onConflictDoUpdate({ target: appSettings.key, set: { value, updatedAt: new Date() } });
+  }
+
+  // System Status
+  async getSystemStatus(): Promise<SystemStatus> {
+    const loadedModels = await this.db.select({ id: aiConfigs.id }).from(aiConfigs)
+      .where(and(eq(aiConfigs.active, true), eq(aiConfigs.downloadStatus, "available")));
+
+    return {
+      cpuUsage: 24,
+      memoryUsage: 2.1,
+      storageAvailable: 128,
+      aiModelsLoaded: loadedModels.length,
+      isOnline: true
+    };
+  }
+}
+
+// Resolves once the selected backend can serve queries (e.g. schema migrated)
+let storageSetup: Promise<void> = Promise.resolve();
+
+// Pick the storage backend at startup. STORAGE_DRIVER=memory forces the
+// in-memory store (handy for tests); otherwise use Postgres when configured
+// and fall back to the embedded local database.
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? "postgres" : "local");
+
+  switch (driver) {
+    case "memory":
+      return new MemStorage();
+    case "postgres":
+      return new DatabaseStorage(createDatabase().db);
+    case "local": {
+      const { db, ready } = createLocalDatabase();
+      storageSetup = ready;
+      return new DatabaseStorage(db);
+    }
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}". Expected "memory", "postgres" or "local".`);
+  }
+}
+
+export const storage = createStorage();
+
+export function storageReady(): Promise<void> {
+  return storageSetup;
+}
@@ -0,0 +1,89 @@
+/**
+ * Vault: sealing and opening secrets, platform token writes, sealing legacy
+ * tokens, and the reveal-once / rotate cycle of stored API keys.
+ */
+
+import { test, before } from "node:test";
+import assert from "node:assert/strict";
+import type { PlatformAccount } from "@shared/schema";
+import { storage } from "./storage";
+import { decryptSecret, encryptSecret, isSealed, openPlatformTokens, sealLegacyPlatformTokens, sealPlatformTokens } from "./vault";
+
+before(() => {
+  process.env.VAULT_MASTER_KEY = "vault-test-master-key";
+});
+
+test("opens what it seals, with a fresh IV every time", () => {
+  const first = encryptSecret("s3cret token");
+  const second = encryptSecret("s3cret token");
+
+  assert.ok(isSealed(first));
+  assert.notEqual(first, second);
+  assert.doesNotMatch(first, /s3cret/);
+  assert.equal(decryptSecret(first), "s3cret token");
+  assert.equal(decryptSecret(second), "s3cret token");
+});
+
+test("refuses tampered and unsealed values", () => {
+  const [version, iv, tag, data] = encryptSecret("s3cret token").split(".");
+  const flipped = Buffer.from(data, "base64");
+  flipped[0] ^= 1;
+
+  assert.throws(() => decryptSecret([version, iv, tag, flipped.toString("base64")].join(".")));
+  assert.throws(() => decryptSecret("s3cret token"), /not an encrypted vault secret/);
+});
+
+test("seals every platform token written, even one that looks sealed", () => {
+  const sealed = sealPlatformTokens({ accessToken: "v1.a.b.c", refreshToken: "refresh-me" });
+
+  assert.equal(decryptSecret(sealed.accessToken!), "v1.a.b.c");
+  assert.equal(decryptSecret(sealed.refreshToken!), "refresh-me");
+});
+
+test("leaves tokens unchanged when a write sends empty strings", () => {
+  const sealed = sealPlatformTokens({ name: "Renamed", accessToken: "", refreshToken: null });
+
+  assert.deepEqual(sealed, { name: "Renamed", refreshToken: null });
+});
+
+test("seals legacy plaintext tokens once and leaves sealed ones alone", async () => {
+  const [platform] = await storage.getPlatforms();
+  const legacy = await storage.createPlatformAccount({
+    platformId: platform.id, name: "Legacy", username: "legacy", accessToken: "plain-access", refreshToken: "plain-refresh"
+  });
+  const current = await storage.createPlatformAccount({
+    platformId: platform.id, name: "Current", username: "current", ...sealPlatformTokens({ accessToken: "sealed-access" })
+  });
+
+  assert.equal(await sealLegacyPlatformTokens(storage), 1);
+  assert.equal(await sealLegacyPlatformTokens(storage), 0);
+
+  const sealedLegacy = await storage.getPlatformAccount(legacy.id) as PlatformAccount;
+  assert.ok(isSealed(sealedLegacy.accessToken!));
+  assert.deepEqual(openPlatformTokens(sealedLegacy), { accessToken: "plain-access", refreshToken: "plain-refresh" });
+  assert.equal((await storage.getPlatformAccount(current.id))?.accessToken, current.accessToken);
+});
+
+test("reveals an API key once per value and again after rotation", async () => {
+  const apiKey = await storage.createApiKey({
+    name: "Test service",
+    service: "test",
+    encryptedKey: encryptSecret("first-key"),
+    keyPreview: "firs••••-key"
+  });
+
+  const revealed = await storage.claimApiKeyReveal(apiKey.id);
+  assert.equal(decryptSecret(revealed!.encryptedKey), "first-key");
+  assert.equal(await storage.claimApiKeyReveal(apiKey.id), undefined);
+
+  // What POST /api/api-keys/:id/rotate stores
+  await storage.updateApiKey(apiKey.id, {
+    encryptedKey: encryptSecret("second-key"),
+    keyPreview: "seco••••-key",
+    rotatedAt: new Date(),
+    revealedAt: null
+  });
+  const rotated = await storage.claimApiKeyReveal(apiKey.id);
+  assert.equal(decryptSecret(rotated!.encryptedKey), "second-key");
+  assert.ok(rotated!.rotatedAt);
+});
@@ -0,0 +1,120 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "crypto";
+import type { PlatformAccount, InsertPlatformAccount, PublicPlatformAccount } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+/**
+ * Encrypted-at-rest secrets (platform tokens, third-party API keys).
+ *
+ * Values are sealed with AES-256-GCM under a key derived from VAULT_MASTER_KEY
+ * and stored as "v1.<iv>.<tag>.<ciphertext>" (base64 parts).
+ */
+
+const VERSION = "v1";
+const KEY_SALT = "creator-ai-vault";
+
+let cachedKey: Buffer | null = null;
+
+function getKey(): Buffer {
+  if (cachedKey) return cachedKey;
+
+  const masterKey = process.env.VAULT_MASTER_KEY;
+  if (!masterKey) {
+    throw new Error("VAULT_MASTER_KEY must be set to store or read encrypted credentials.");
+  }
+
+  cachedKey = scryptSync(masterKey, KEY_SALT, 32);
+  return cachedKey;
+}
+
+export function isSealed(value: string): boolean {
+  return value.startsWith(`${VERSION}.`) && value.split(".").length === 4;
+}
+
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", getKey(), iv);
+  const data = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return [VERSION, iv.toString("base64"), tag.toString("base64"), data.toString("base64")].join(".");
+}
+
+export function decryptSecret(sealed: string): string {
+  if (!isSealed(sealed)) {
+    throw new Error("Value is not an encrypted vault secret");
+  }
+
+  const [, iv, tag, data] = sealed.split(".");
+  const decipher = createDecipheriv("aes-256-gcm", getKey(), Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+
+  return Buffer.concat([decipher.update(Buffer.from(data, "base64")), decipher.final()]).toString("utf8");
+}
+
+/**
+ * Masked form that is safe to show: keeps a short prefix and the last 4 chars
+ */
+export function maskSecret(secret: string): string {
+  if (secret.length <= 8) {
+    return "•".repeat(secret.length);
+  }
+  return `${secret.slice(0, 4)}${"•".repeat(Math.min(24, secret.length - 8))}${secret.slice(-4)}`;
+}
+
+/**
+ * Encrypt any token fields present in a platform account write. Values are
+ * always treated as plaintext, even if they look sealed already.
+ * Empty strings mean "leave unchanged" so edit forms can omit stored tokens.
+ */
+export function sealPlatformTokens<T extends Partial<InsertPlatformAccount>>(account: T): T {
+  const sealed = { ...account };
+
+  for (const field of ["accessToken", "refreshToken"] as const) {
+    const value = sealed[field];
+    if (value === "") {
+      delete sealed[field];
+    } else if (typeof value === "string") {
+      sealed[field] = encryptSecret(value);
+    }
+  }
+
+  return sealed;
+}
+
+/**
+ * Decrypted tokens for talking to the platform; never send these to clients
+ */
+export function openPlatformTokens(account: PlatformAccount): { accessToken: string | null; refreshToken: string | null } {
+  return {
+    accessToken: account.accessToken ? decryptSecret(account.accessToken) : null,
+    refreshToken: account.refreshToken ? decryptSecret(account.refreshToken) : null,
+  };
+}
+
+export function toPublicPlatformAccount(account: PlatformAccount): PublicPlatformAccount {
+  const { accessToken, refreshToken, ...rest } = account;
+  return {
+    ...rest,
+    hasAccessToken: Boolean(accessToken),
+    hasRefreshToken: Boolean(refreshToken),
+  };
+}
+
+/**
+ * Encrypt platform tokens saved before the vault existed. Safe to run on every boot.
+ */
+export async function sealLegacyPlatformTokens(storage: IStorage): Promise<number> {
+  let sealedCount = 0;
+
+  for (const account of await storage.getPlatformAccounts()) {
+    const legacy: Partial<InsertPlatformAccount> = {};
+    if (account.accessToken && !isSealed(account.accessToken)) legacy.accessToken = account.accessToken;
+    if (account.refreshToken && !isSealed(account.refreshToken)) legacy.refreshToken = account.refreshToken;
+    if (Object.keys(legacy).length === 0) continue;
+
+    await storage.updatePlatformAccount(account.id, sealPlatformTokens(legacy));
+    sealedCount++;
+  }
+
+  return sealedCount;
+}
@@ -0,0 +1,31 @@
+import type { Content, ContentVariant } from "./schema";
+import { extractHashtags } from "./platformConstraints";
+
+// The hashtags as they are appended to a caption, skipping any the caption already has
+export function formatHashtags(caption: string, hashtags: string[]): string {
+  const present = new Set(extractHashtags(caption).map((tag) => tag.toLowerCase()));
+  return hashtags
+    .map((tag) => `#${tag}`)
+    .filter((tag) => !present.has(tag.toLowerCase()))
+    .join(" ");
+}
+
+/**
+ * The content as it is published to the variant's platform: the variant's
+ * fields override the content's, and its hashtags are appended to the caption
+ */
+export function applyContentVariant(item: Content, variant?: ContentVariant | null): Content {
+  if (!variant) return item;
+
+  const caption = variant.caption ?? item.description ?? "";
+  const hashtags = formatHashtags(caption, variant.hashtags);
+  const metadata = item.metadata && typeof item.metadata === "object" ? item.metadata : {};
+
+  return {
+    ...item,
+    title: variant.title ?? item.title,
+    description: [caption, hashtags].filter(Boolean).join("\n\n") || null,
+    filePath: variant.filePath ?? item.filePath,
+    metadata: variant.metadata && typeof variant.metadata === "object" ? { ...metadata, ...variant.metadata } : item.metadata,
+  };
+}
@@ -0,0 +1,31 @@
+// Roles and the permission matrix, shared by the API guards and the client UI
+
+export const roles = ["admin", "editor", "reviewer", "viewer"] as const;
+export type Role = typeof roles[number];
+
+export const permissions = [
+  "content:write",       // create/edit content, scripts, trends and run AI generation
+  "content:delete",      // delete content, scripts and trends
+  "publishing:review",   // edit scheduled posts (e.g. approve drafts)
+  "publishing:schedule", // create/delete scheduled posts and run automation
+  "platforms:manage",    // add, edit and remove platforms and platform accounts
+  "settings:manage",     // system, automation, AI model and API key settings
+  "users:manage",        // change other users' roles
+] as const;
+export type Permission = typeof permissions[number];
+
+// Every role can read; this lists what each role may change
+const rolePermissions: Record<Role, readonly Permission[]> = {
+  admin: permissions,
+  editor: ["content:write", "content:delete", "publishing:review", "publishing:schedule"],
+  reviewer: ["publishing:review"],
+  viewer: [],
+};
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (roles as readonly string[]).includes(value);
+}
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return isRole(role) && rolePermissions[role].includes(permission);
+}
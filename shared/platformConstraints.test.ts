@@ -0,0 +1,111 @@
+/**
+ * Per-platform content constraints: every rule, how media properties are read
+ * from metadata, and platforms without constraints.
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { checkPlatformConstraints, extractHashtags, getPlatformConstraints, type ConstraintSubject } from "./platformConstraints";
+
+function rules(subject: ConstraintSubject, platform: string): string[] {
+  return checkPlatformConstraints(subject, platform).map((violation) => violation.rule);
+}
+
+test("looks platforms up by name, ignoring case", () => {
+  assert.equal(getPlatformConstraints("YouTube"), getPlatformConstraints("youtube"));
+  assert.equal(getPlatformConstraints("Somewhere New"), undefined);
+  assert.deepEqual(checkPlatformConstraints({ title: "x".repeat(10000), contentType: "hologram" }, "Somewhere New"), []);
+});
+
+test("refuses unsupported content types without checking anything else", () => {
+  const violations = checkPlatformConstraints({ title: "x".repeat(500), contentType: "text" }, "YouTube");
+
+  assert.deepEqual(violations, [{
+    rule: "content_type",
+    message: "YouTube does not support text posts (supported: video)",
+    limit: "video",
+    actual: "text"
+  }]);
+});
+
+test("limits title and caption length", () => {
+  assert.deepEqual(rules({ title: "x".repeat(100), contentType: "video" }, "YouTube"), []);
+  assert.deepEqual(checkPlatformConstraints({ title: "x".repeat(101), contentType: "video" }, "YouTube"), [{
+    rule: "title_length",
+    message: "Title is 101 characters; YouTube allows 100",
+    limit: 100,
+    actual: 101
+  }]);
+
+  assert.deepEqual(rules({ title: "Hi", description: "x".repeat(280), contentType: "text" }, "Twitter"), []);
+  assert.deepEqual(rules({ title: "Hi", description: "x".repeat(281), contentType: "text" }, "Twitter"), ["caption_length"]);
+  assert.deepEqual(rules({ title: "x".repeat(151), contentType: "text" }, "Newsletter"), ["title_length"]);
+  assert.deepEqual(rules({ title: "Episode", description: "x".repeat(4001), contentType: "text" }, "Feed"), ["caption_length"]);
+});
+
+test("counts hashtags across the title and caption", () => {
+  assert.deepEqual(extractHashtags("#one two #three, #four. #five!"), ["#one", "#three", "#four", "#five"]);
+
+  const tags = (count: number) => Array.from({ length: count }, (_, i) => `#tag${i}`).join(" ");
+  assert.deepEqual(rules({ title: `Launch ${tags(10)}`, description: tags(5), contentType: "video" }, "YouTube"), []);
+  assert.deepEqual(checkPlatformConstraints({ title: `Launch ${tags(10)}`, description: tags(6), contentType: "video" }, "YouTube"), [{
+    rule: "hashtags",
+    message: "16 hashtags used; YouTube allows 15",
+    limit: 15,
+    actual: 16
+  }]);
+});
+
+test("reads video duration from seconds or a clock string", () => {
+  const video = (duration: unknown): ConstraintSubject => ({ title: "Clip", contentType: "video", metadata: { duration } });
+
+  assert.deepEqual(rules(video(90), "Instagram"), []);
+  assert.deepEqual(rules(video(91), "Instagram"), ["video_duration"]);
+  assert.deepEqual(rules(video("1:30"), "Instagram"), []);
+  assert.deepEqual(rules(video("1:31"), "Instagram"), ["video_duration"]);
+  assert.deepEqual(rules(video("1:00:00"), "TikTok"), ["video_duration"]);
+  assert.deepEqual(rules(video("about a minute"), "Instagram"), [], "unreadable durations are not checked");
+  assert.deepEqual(
+    checkPlatformConstraints({ title: "Clip", contentType: "video", metadata: { durationSeconds: 700 } }, "TikTok")[0].message,
+    "Video is 700 seconds long; TikTok allows 600"
+  );
+});
+
+test("reads the aspect ratio from a ratio, a resolution or a size", () => {
+  const video = (metadata: Record<string, unknown>): ConstraintSubject => ({ title: "Clip", contentType: "video", metadata });
+
+  assert.deepEqual(rules(video({ aspectRatio: "9:16" }), "TikTok"), []);
+  assert.deepEqual(rules(video({ aspectRatio: "16:9" }), "TikTok"), ["aspect_ratio"]);
+  assert.deepEqual(rules(video({ resolution: "1080x1920" }), "TikTok"), []);
+  assert.deepEqual(rules(video({ resolution: "1080p" }), "TikTok"), ["aspect_ratio"]);
+  assert.deepEqual(rules(video({ size: "1080x1350" }), "Instagram"), []);
+  assert.deepEqual(rules(video({}), "TikTok"), [], "unknown ratios are not checked");
+
+  const [violation] = checkPlatformConstraints(video({ resolution: "4k" }), "TikTok");
+  assert.equal(violation.actual, "1.78:1");
+  assert.equal(violation.message, "Aspect ratio 1.78:1 is not accepted by TikTok (accepted: 9:16)");
+});
+
+test("limits the file size of images and videos", () => {
+  const image = (fileSizeBytes: number): ConstraintSubject => ({ title: "Photo", contentType: "image", metadata: { fileSizeBytes } });
+
+  assert.deepEqual(rules(image(5 * 1024 * 1024), "Twitter"), []);
+  assert.deepEqual(checkPlatformConstraints(image(6 * 1024 * 1024), "Twitter"), [{
+    rule: "file_size",
+    message: "File is 6 MB; Twitter allows 5 MB",
+    limit: 5,
+    actual: 6
+  }]);
+  assert.deepEqual(rules({ title: "Photo", contentType: "image", metadata: { fileSize: 20 * 1024 * 1024 } }, "Mastodon"), ["file_size"]);
+});
+
+test("reports every violation at once", () => {
+  const subject: ConstraintSubject = {
+    title: "x".repeat(120),
+    description: `${"y".repeat(5000)} #a #b #c #d #e #f #g #h #i #j #k #l #m #n #o #p`,
+    contentType: "video",
+    metadata: { durationSeconds: 13 * 60 * 60, aspectRatio: "21:9", fileSizeBytes: 300 * 1024 * 1024 * 1024 }
+  };
+
+  assert.deepEqual(rules(subject, "YouTube"), ["title_length", "caption_length", "hashtags", "video_duration", "aspect_ratio", "file_size"]);
+});
@@ -0,0 +1,234 @@
+// What each platform accepts, shared by the scheduling API and the content editor.
+// Platforms are keyed by lower-cased name; platforms without an entry are not checked.
+
+export const constraintContentTypes = ["text", "image", "video"] as const;
+export type ConstraintContentType = typeof constraintContentTypes[number];
+
+export interface MediaConstraints {
+  maxDurationSeconds?: number; // video only
+  aspectRatios?: string[]; // "W:H"; any of these is accepted
+  maxFileSizeMb?: number;
+}
+
+export interface PlatformConstraints {
+  contentTypes: ConstraintContentType[];
+  maxTitleLength?: number;
+  maxCaptionLength?: number; // the post body (content description)
+  maxHashtags?: number;
+  image?: MediaConstraints;
+  video?: MediaConstraints;
+}
+
+export const platformConstraints: Record<string, PlatformConstraints> = {
+  youtube: {
+    contentTypes: ["video"],
+    maxTitleLength: 100,
+    maxCaptionLength: 5000,
+    maxHashtags: 15,
+    video: { maxDurationSeconds: 12 * 60 * 60, aspectRatios: ["16:9", "9:16", "4:3", "1:1"], maxFileSizeMb: 256 * 1024 },
+  },
+  instagram: {
+    contentTypes: ["image", "video"],
+    maxCaptionLength: 2200,
+    maxHashtags: 30,
+    image: { aspectRatios: ["1:1", "4:5", "1.91:1"], maxFileSizeMb: 8 },
+    video: { maxDurationSeconds: 90, aspectRatios: ["9:16", "1:1", "4:5"], maxFileSizeMb: 1024 },
+  },
+  twitter: {
+    contentTypes: ["text", "image", "video"],
+    maxCaptionLength: 280,
+    image: { maxFileSizeMb: 5 },
+    video: { maxDurationSeconds: 140, maxFileSizeMb: 512 },
+  },
+  tiktok: {
+    contentTypes: ["video"],
+    maxCaptionLength: 2200,
+    video: { maxDurationSeconds: 10 * 60, aspectRatios: ["9:16"], maxFileSizeMb: 4096 },
+  },
+  linkedin: {
+    contentTypes: ["text", "image", "video"],
+    maxCaptionLength: 3000,
+    image: { maxFileSizeMb: 5 },
+    video: { maxDurationSeconds: 10 * 60, maxFileSizeMb: 5120 },
+  },
+  facebook: {
+    contentTypes: ["text", "image", "video"],
+    maxCaptionLength: 63206,
+    video: { maxDurationSeconds: 4 * 60 * 60, maxFileSizeMb: 10240 },
+  },
+  mastodon: {
+    contentTypes: ["text", "image"],
+    maxCaptionLength: 500,
+    image: { maxFileSizeMb: 16 },
+  },
+  mock: {
+    contentTypes: ["text", "image", "video"],
+    maxTitleLength: 200,
+    maxCaptionLength: 5000,
+  },
+  feed: {
+    contentTypes: ["text", "image", "video"],
+    maxTitleLength: 255,
+    maxCaptionLength: 4000, // podcast directories cut episode descriptions here
+  },
+  newsletter: {
+    contentTypes: ["text", "image"],
+    maxTitleLength: 150, // the email subject
+  },
+};
+
+export type ConstraintRule =
+  | "content_type"
+  | "title_length"
+  | "caption_length"
+  | "hashtags"
+  | "video_duration"
+  | "aspect_ratio"
+  | "file_size";
+
+export interface ConstraintViolation {
+  rule: ConstraintRule;
+  message: string;
+  limit?: number | string;
+  actual?: number | string;
+}
+
+// The parts of a content item the constraints look at
+export interface ConstraintSubject {
+  title: string;
+  description?: string | null;
+  contentType: string;
+  metadata?: unknown;
+}
+
+export function getPlatformConstraints(platformName: string): PlatformConstraints | undefined {
+  return platformConstraints[platformName.toLowerCase()];
+}
+
+export function extractHashtags(text: string): string[] {
+  return text.match(/#[^\s#.,!?;:()]+/g) ?? [];
+}
+
+// Seconds from a number or a "m:ss" / "h:mm:ss" string
+function parseDuration(value: unknown): number | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string" && /^\d+(:\d{1,2}){1,2}$/.test(value)) {
+    return value.split(":").reduce((total, part) => total * 60 + Number(part), 0);
+  }
+  return undefined;
+}
+
+const namedResolutions: Record<string, [number, number]> = {
+  "480p": [854, 480],
+  "720p": [1280, 720],
+  "1080p": [1920, 1080],
+  "4k": [3840, 2160],
+};
+
+// Width/height ratio from an explicit "W:H" aspect ratio or a resolution/size
+function parseAspectRatio(metadata: Record<string, unknown>): number | undefined {
+  const ratio = typeof metadata.aspectRatio === "string" ? metadata.aspectRatio.split(":").map(Number) : [];
+  if (ratio.length === 2 && ratio[0] > 0 && ratio[1] > 0) return ratio[0] / ratio[1];
+
+  const dimensions = metadata.resolution ?? metadata.size;
+  if (typeof dimensions !== "string") return undefined;
+  const [width, height] = namedResolutions[dimensions.toLowerCase()] ?? dimensions.split("x").map(Number);
+  return width > 0 && height > 0 ? width / height : undefined;
+}
+
+function formatRatio(ratio: number): string {
+  return `${Math.round(ratio * 100) / 100}:1`;
+}
+
+function matchesAspectRatio(ratio: number, allowed: string[]): boolean {
+  return allowed.some((option) => {
+    const [width, height] = option.split(":").map(Number);
+    return Math.abs(ratio - width / height) < 0.02;
+  });
+}
+
+/**
+ * Everything about the content that the platform would reject. Media checks
+ * only run for properties the content's metadata records.
+ */
+export function checkPlatformConstraints(subject: ConstraintSubject, platformName: string): ConstraintViolation[] {
+  const constraints = getPlatformConstraints(platformName);
+  if (!constraints) return [];
+
+  if (!(constraints.contentTypes as string[]).includes(subject.contentType)) {
+    return [{
+      rule: "content_type",
+      message: `${platformName} does not support ${subject.contentType} posts (supported: ${constraints.contentTypes.join(", ")})`,
+      limit: constraints.contentTypes.join(", "),
+      actual: subject.contentType,
+    }];
+  }
+
+  const violations: ConstraintViolation[] = [];
+  const caption = subject.description ?? "";
+
+  if (constraints.maxTitleLength !== undefined && subject.title.length > constraints.maxTitleLength) {
+    violations.push({
+      rule: "title_length",
+      message: `Title is ${subject.title.length} characters; ${platformName} allows ${constraints.maxTitleLength}`,
+      limit: constraints.maxTitleLength,
+      actual: subject.title.length,
+    });
+  }
+
+  if (constraints.maxCaptionLength !== undefined && caption.length > constraints.maxCaptionLength) {
+    violations.push({
+      rule: "caption_length",
+      message: `Caption is ${caption.length} characters; ${platformName} allows ${constraints.maxCaptionLength}`,
+      limit: constraints.maxCaptionLength,
+      actual: caption.length,
+    });
+  }
+
+  const hashtags = extractHashtags(`${subject.title} ${caption}`).length;
+  if (constraints.maxHashtags !== undefined && hashtags > constraints.maxHashtags) {
+    violations.push({
+      rule: "hashtags",
+      message: `${hashtags} hashtags used; ${platformName} allows ${constraints.maxHashtags}`,
+      limit: constraints.maxHashtags,
+      actual: hashtags,
+    });
+  }
+
+  const media = subject.contentType === "video" ? constraints.video : subject.contentType === "image" ? constraints.image : undefined;
+  const metadata = subject.metadata && typeof subject.metadata === "object" ? subject.metadata as Record<string, unknown> : {};
+  if (!media) return violations;
+
+  const duration = parseDuration(metadata.durationSeconds ?? metadata.duration);
+  if (media.maxDurationSeconds !== undefined && duration !== undefined && duration > media.maxDurationSeconds) {
+    violations.push({
+      rule: "video_duration",
+      message: `Video is ${duration} seconds long; ${platformName} allows ${media.maxDurationSeconds}`,
+      limit: media.maxDurationSeconds,
+      actual: duration,
+    });
+  }
+
+  const ratio = parseAspectRatio(metadata);
+  if (media.aspectRatios && ratio !== undefined && !matchesAspectRatio(ratio, media.aspectRatios)) {
+    violations.push({
+      rule: "aspect_ratio",
+      message: `Aspect ratio ${formatRatio(ratio)} is not accepted by ${platformName} (accepted: ${media.aspectRatios.join(", ")})`,
+      limit: media.aspectRatios.join(", "),
+      actual: formatRatio(ratio),
+    });
+  }
+
+  const fileSize = Number(metadata.fileSizeBytes ?? metadata.fileSize);
+  if (media.maxFileSizeMb !== undefined && fileSize > 0 && fileSize > media.maxFileSizeMb * 1024 * 1024) {
+    const sizeMb = Math.round(fileSize / (1024 * 1024) * 10) / 10;
+    violations.push({
+      rule: "file_size",
+      message: `File is ${sizeMb} MB; ${platformName} allows ${media.maxFileSizeMb} MB`,
+      limit: media.maxFileSizeMb,
+      actual: sizeMb,
+    });
+  }
+
+  return violations;
+}
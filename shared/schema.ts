@@ -1,17 +1,33 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { permissions } from "./permissions";
 
 // Users
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  role: text("role").notNull().default("viewer"), // admin, editor, reviewer, viewer
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
+  role: true,
+});
+
+// Credentials accepted by the login and registration endpoints
+export const credentialsSchema = z.object({
+  username: z.string().trim().min(3, "Username must be at least 3 characters").max(50),
+  password: z.string().min(8, "Password must be at least 8 characters").max(200),
+});
+
+// Sessions (express-session store)
+export const userSessions = pgTable("user_sessions", {
+  sid: text("sid").primaryKey(),
+  sess: jsonb("sess").notNull(),
+  expire: timestamp("expire").notNull(),
 });
 
 // Scripts
@@ -90,6 +106,8 @@ export const platformAccounts = pgTable("platform_accounts", {
   followerCount: integer("follower_count"),
   active: boolean("active").notNull().default(true),
   metadata: jsonb("metadata"),
+  needsReconnect: boolean("needs_reconnect").notNull().default(false), // token refresh failed; the user must authorize again
+  connectionError: text("connection_error"),
 });
 
 export const insertPlatformAccountSchema = createInsertSchema(platformAccounts).pick({
@@ -104,6 +122,68 @@ export const insertPlatformAccountSchema = createInsertSchema(platformAccounts).
   metadata: true,
 });
 
+// API Keys for third-party services (key stored encrypted by the vault)
+export const apiKeys = pgTable("api_keys", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  service: text("service").notNull(),
+  description: text("description"),
+  encryptedKey: text("encrypted_key").notNull(),
+  keyPreview: text("key_preview").notNull(), // masked form safe to display
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  rotatedAt: timestamp("rotated_at"),
+  revealedAt: timestamp("revealed_at"), // set once the raw key has been shown
+});
+
+export const insertApiKeySchema = createInsertSchema(apiKeys).pick({
+  name: true,
+  service: true,
+  description: true,
+  encryptedKey: true,
+  keyPreview: true,
+  rotatedAt: true,
+  revealedAt: true,
+});
+
+// What clients send when adding or editing a key
+export const apiKeyInputSchema = z.object({
+  name: z.string().min(2),
+  service: z.string().min(2),
+  key: z.string().min(5),
+  description: z.string().optional(),
+});
+
+// Personal API tokens: let scripts act as a user without a browser session.
+// Scopes are permissions; a token can only use those its user's role still has.
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  scopes: jsonb("scopes").$type<string[]>().notNull(), // from permissions
+  encryptedSecret: text("encrypted_secret").notNull(), // random part of the token, sealed by the vault
+  tokenPreview: text("token_preview").notNull(), // masked form safe to display
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at"),
+  lastUsedAt: timestamp("last_used_at"),
+});
+
+export const insertApiTokenSchema = createInsertSchema(apiTokens).pick({
+  userId: true,
+  name: true,
+  encryptedSecret: true,
+  tokenPreview: true,
+  expiresAt: true,
+}).extend({
+  scopes: z.array(z.enum(permissions)),
+});
+
+// What clients send when creating a token
+export const apiTokenInputSchema = z.object({
+  name: z.string().trim().min(2).max(100),
+  scopes: z.array(z.enum(permissions)),
+  expiresInDays: z.number().int().min(1).max(365).nullable().optional(), // null or missing: never expires
+});
+
 // Content
 export const content = pgTable("content", {
   id: serial("id").primaryKey(),
@@ -127,15 +207,47 @@ export const insertContentSchema = createInsertSchema(content).pick({
   metadata: true,
 });
 
+// Content Variants: per-platform overrides of a content item for cross-posting
+export const contentVariants = pgTable("content_variants", {
+  id: serial("id").primaryKey(),
+  contentId: integer("content_id").notNull(),
+  platformId: integer("platform_id").notNull(),
+  title: text("title"), // null fields fall back to the content's own
+  caption: text("caption"),
+  filePath: text("file_path"),
+  hashtags: jsonb("hashtags").$type<string[]>().notNull().default([]), // without the leading "#"
+  metadata: jsonb("metadata"), // details of the variant's media, e.g. duration, aspectRatio
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("content_variants_content_platform_idx").on(table.contentId, table.platformId),
+]);
+
+export const insertContentVariantSchema = createInsertSchema(contentVariants).pick({
+  contentId: true,
+  platformId: true,
+  title: true,
+  caption: true,
+  filePath: true,
+  metadata: true,
+}).extend({
+  hashtags: z.array(
+    z.string().trim().regex(/^#?[^\s#]+$/, "Hashtags can't contain spaces").transform((tag) => tag.replace(/^#/, ""))
+  ).default([]),
+});
+
 // Scheduled Posts
 export const scheduledPosts = pgTable("scheduled_posts", {
   id: serial("id").primaryKey(),
   contentId: integer("content_id").notNull(),
   platformAccountId: integer("platform_account_id").notNull(),
   scheduledTime: timestamp("scheduled_time").notNull(),
-  status: text("status").notNull().default("pending"), // pending, posted, failed
+  status: text("status").notNull().default("pending"), // pending, publishing, posted, failed, unpublished
   postId: text("post_id"), // ID of the post on the platform after publishing
   error: text("error"), // Error message if posting failed
+  attempts: integer("attempts").notNull().default(0), // publish attempts so far
+  nextAttemptAt: timestamp("next_attempt_at"), // retry time after a failed attempt
+  postedAt: timestamp("posted_at"),
+  variantId: integer("variant_id"), // content variant to publish instead of the base content
 });
 
 export const insertScheduledPostSchema = createInsertSchema(scheduledPosts).pick({
@@ -143,6 +255,173 @@ export const insertScheduledPostSchema = createInsertSchema(scheduledPosts).pick
   platformAccountId: true,
   scheduledTime: true,
   status: true,
+  variantId: true,
+});
+
+// What has been done to a post on its platform (published, edited, unpublished), oldest first
+export const postActions = pgTable("post_actions", {
+  id: serial("id").primaryKey(),
+  scheduledPostId: integer("scheduled_post_id").notNull(),
+  action: text("action").notNull(), // published, edited, unpublished
+  status: text("status").notNull().default("succeeded"), // succeeded, failed
+  userId: integer("user_id"), // null when done by the publishing worker
+  details: jsonb("details"), // e.g. the title and caption an edit sent
+  error: text("error"), // Error message if the platform rejected the action
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertPostActionSchema = createInsertSchema(postActions).pick({
+  scheduledPostId: true,
+  action: true,
+  status: true,
+  userId: true,
+  details: true,
+  error: true,
+});
+
+// Feed Items: posts published to a "Feed" platform account, served as RSS/Atom/podcast feeds
+export const feedItems = pgTable("feed_items", {
+  id: serial("id").primaryKey(),
+  platformAccountId: integer("platform_account_id").notNull(),
+  scheduledPostId: integer("scheduled_post_id"),
+  guid: text("guid").notNull().unique(), // stable item ID; also the post's platform post ID
+  title: text("title").notNull(),
+  description: text("description"),
+  contentType: text("content_type").notNull(),
+  mediaPath: text("media_path"),
+  audioPath: text("audio_path"), // podcast enclosure, from the content's script
+  audioDuration: integer("audio_duration"), // seconds
+  publishedAt: timestamp("published_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertFeedItemSchema = createInsertSchema(feedItems).pick({
+  platformAccountId: true,
+  scheduledPostId: true,
+  guid: true,
+  title: true,
+  description: true,
+  contentType: true,
+  mediaPath: true,
+  audioPath: true,
+  audioDuration: true,
+});
+
+// Newsletter Subscribers: the mailing list of a "Newsletter" platform account
+export const newsletterSubscribers = pgTable("newsletter_subscribers", {
+  id: serial("id").primaryKey(),
+  platformAccountId: integer("platform_account_id").notNull(),
+  email: text("email").notNull(), // stored lower-cased
+  name: text("name"),
+  unsubscribeToken: text("unsubscribe_token").notNull().unique(), // secret in each email's unsubscribe link
+  subscribed: boolean("subscribed").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  unsubscribedAt: timestamp("unsubscribed_at"),
+}, (table) => [
+  uniqueIndex("newsletter_subscribers_account_email_idx").on(table.platformAccountId, table.email),
+]);
+
+export const insertNewsletterSubscriberSchema = createInsertSchema(newsletterSubscribers).pick({
+  platformAccountId: true,
+  email: true,
+  name: true,
+  unsubscribeToken: true,
+});
+
+// Newsletter Issues: one per post sent to a newsletter's subscribers
+export const newsletterIssues = pgTable("newsletter_issues", {
+  id: serial("id").primaryKey(),
+  platformAccountId: integer("platform_account_id").notNull(),
+  scheduledPostId: integer("scheduled_post_id"),
+  issueId: text("issue_id").notNull().unique(), // the post's platform post ID
+  subject: text("subject").notNull(),
+  recipientCount: integer("recipient_count").notNull(), // emails accepted by the mail transport
+  failedCount: integer("failed_count").notNull().default(0),
+  sentAt: timestamp("sent_at").notNull().defaultNow(),
+});
+
+export const insertNewsletterIssueSchema = createInsertSchema(newsletterIssues).pick({
+  platformAccountId: true,
+  scheduledPostId: true,
+  issueId: true,
+  subject: true,
+  recipientCount: true,
+  failedCount: true,
+});
+
+// Webhooks: outside endpoints told about content lifecycle events
+export const webhookEvents = ["content.created", "script.finalized", "post.published", "post.failed"] as const;
+
+export const webhooks = pgTable("webhooks", {
+  id: serial("id").primaryKey(),
+  url: text("url").notNull(),
+  description: text("description"),
+  events: jsonb("events").$type<string[]>().notNull(), // from webhookEvents
+  encryptedSecret: text("encrypted_secret").notNull(), // HMAC signing secret, sealed by the vault
+  secretPreview: text("secret_preview").notNull(),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertWebhookSchema = createInsertSchema(webhooks).pick({
+  url: true,
+  description: true,
+  encryptedSecret: true,
+  secretPreview: true,
+  active: true,
+}).extend({
+  events: z.array(z.enum(webhookEvents)).min(1),
+});
+
+// What clients send; the secret is generated when not given
+export const webhookInputSchema = z.object({
+  url: z.string().url().refine((url) => /^https?:\/\//.test(url), "Webhook URLs must use http or https"),
+  description: z.string().max(200).nullable().optional(),
+  events: z.array(z.enum(webhookEvents)).min(1, "Choose at least one event"),
+  active: z.boolean().optional(),
+  secret: z.string().min(16).max(200).optional(),
+});
+
+// Webhook Deliveries: one per event sent to a webhook, with its retry state
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  webhookId: integer("webhook_id").notNull(),
+  event: text("event").notNull(), // a webhookEvents entry, or "ping" for tests
+  payload: jsonb("payload").notNull(), // the JSON body, signed as sent
+  status: text("status").notNull().default("pending"), // pending, delivering, succeeded, failed
+  attempts: integer("attempts").notNull().default(0),
+  responseStatus: integer("response_status"), // HTTP status of the last attempt
+  error: text("error"), // why the last attempt failed
+  nextAttemptAt: timestamp("next_attempt_at"),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertWebhookDeliverySchema = createInsertSchema(webhookDeliveries).pick({
+  webhookId: true,
+  event: true,
+  payload: true,
+  nextAttemptAt: true,
+});
+
+// User Notifications: the in-app copy of each notification, one row per user
+export const userNotifications = pgTable("user_notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  event: text("event").notNull(), // post_published, post_failed, job_failed, trend_alert or test
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  link: text("link"), // app path of the related page
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertUserNotificationSchema = createInsertSchema(userNotifications).pick({
+  userId: true,
+  event: true,
+  title: true,
+  message: true,
+  link: true,
 });
 
 // Trending Topics
@@ -162,9 +441,65 @@ export const insertTrendingTopicSchema = createInsertSchema(trendingTopics).pick
   trendScore: true,
 });
 
+// App Settings (one JSON document per settings group, e.g. "system")
+export const appSettings = pgTable("app_settings", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Background jobs (content generation and other long-running work)
+export const jobs = pgTable("jobs", {
+  id: serial("id").primaryKey(),
+  type: text("type").notNull(), // content_generation
+  status: text("status").notNull().default("queued"), // queued, processing, completed, failed
+  progress: integer("progress").notNull().default(0), // 0-100
+  payload: jsonb("payload").notNull(), // job input, shape depends on type
+  result: jsonb("result"), // job output once completed
+  error: text("error"), // Error message if the job failed
+  attempts: integer("attempts").notNull().default(0),
+  batchId: integer("batch_id"), // set when the job is a task of a batch run
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+});
+
+export const insertJobSchema = createInsertSchema(jobs).pick({
+  type: true,
+  status: true,
+  progress: true,
+  payload: true,
+  result: true,
+  error: true,
+  attempts: true,
+  batchId: true,
+  startedAt: true,
+  completedAt: true,
+});
+
+// Batch runs: content generation for top trending topics across content types
+export const batches = pgTable("batches", {
+  id: serial("id").primaryKey(),
+  status: text("status").notNull().default("running"), // running, completed, partial, failed
+  topicCount: integer("topic_count").notNull(),
+  contentTypes: jsonb("content_types").notNull(), // content types generated per topic
+  taskCount: integer("task_count").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+export const insertBatchSchema = createInsertSchema(batches).pick({
+  status: true,
+  topicCount: true,
+  contentTypes: true,
+  taskCount: true,
+  completedAt: true,
+});
+
 // Define type exports
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type Credentials = z.infer<typeof credentialsSchema>;
 
 export type Script = typeof scripts.$inferSelect;
 export type InsertScript = z.infer<typeof insertScriptSchema>;
@@ -177,12 +512,96 @@ export type InsertPlatform = z.infer<typeof insertPlatformSchema>;
 
 export type PlatformAccount = typeof platformAccounts.$inferSelect;
 export type InsertPlatformAccount = z.infer<typeof insertPlatformAccountSchema>;
+// Server-side updates may also record the connection state
+export type PlatformAccountUpdate = Partial<Omit<PlatformAccount, "id">>;
+// Platform account as returned by the API: tokens replaced by presence flags
+export type PublicPlatformAccount = Omit<PlatformAccount, "accessToken" | "refreshToken"> & {
+  hasAccessToken: boolean;
+  hasRefreshToken: boolean;
+};
+
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
+export type ApiKeyInput = z.infer<typeof apiKeyInputSchema>;
+// API key as returned by the API: never includes the secret itself
+export type PublicApiKey = Omit<ApiKey, "encryptedKey" | "keyPreview" | "revealedAt"> & {
+  key: string; // masked preview
+  revealable: boolean;
+};
+
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type InsertApiToken = z.infer<typeof insertApiTokenSchema>;
+export type ApiTokenInput = z.infer<typeof apiTokenInputSchema>;
+export type ApiTokenUpdate = Partial<Pick<ApiToken, "name" | "lastUsedAt">>;
+// API token as returned by the API: never includes the secret itself
+export type PublicApiToken = Omit<ApiToken, "encryptedSecret">;
 
 export type Content = typeof content.$inferSelect;
 export type InsertContent = z.infer<typeof insertContentSchema>;
 
+export type ContentVariant = typeof contentVariants.$inferSelect;
+export type InsertContentVariant = z.infer<typeof insertContentVariantSchema>;
+
 export type ScheduledPost = typeof scheduledPosts.$inferSelect;
 export type InsertScheduledPost = z.infer<typeof insertScheduledPostSchema>;
+// Server-side updates may also record publishing outcomes
+export type ScheduledPostUpdate = Partial<Omit<ScheduledPost, "id">>;
+
+export type PostAction = typeof postActions.$inferSelect;
+export type InsertPostAction = z.infer<typeof insertPostActionSchema>;
+
+export type FeedItem = typeof feedItems.$inferSelect;
+export type InsertFeedItem = z.infer<typeof insertFeedItemSchema>;
+
+export type NewsletterSubscriber = typeof newsletterSubscribers.$inferSelect;
+export type InsertNewsletterSubscriber = z.infer<typeof insertNewsletterSubscriberSchema>;
+export type NewsletterSubscriberUpdate = Partial<Pick<NewsletterSubscriber, "name" | "subscribed" | "unsubscribedAt">>;
+
+export type NewsletterIssue = typeof newsletterIssues.$inferSelect;
+export type InsertNewsletterIssue = z.infer<typeof insertNewsletterIssueSchema>;
+
+export type UserNotification = typeof userNotifications.$inferSelect;
+export type InsertUserNotification = z.infer<typeof insertUserNotificationSchema>;
+
+export type WebhookEvent = typeof webhookEvents[number];
+export type Webhook = typeof webhooks.$inferSelect;
+export type InsertWebhook = z.infer<typeof insertWebhookSchema>;
+export type WebhookInput = z.infer<typeof webhookInputSchema>;
+// Webhook as returned by the API: never includes the secret itself
+export type PublicWebhook = Omit<Webhook, "encryptedSecret">;
+// Subscribers as listed in the app; the unsubscribe token only goes out in their emails
+export type PublicNewsletterSubscriber = Omit<NewsletterSubscriber, "unsubscribeToken">;
+
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = z.infer<typeof insertWebhookDeliverySchema>;
+export type WebhookDeliveryUpdate = Partial<Omit<WebhookDelivery, "id" | "webhookId" | "createdAt">>;
+
+export type AppSetting = typeof appSettings.$inferSelect;
+
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = z.infer<typeof insertJobSchema>;
+
+export type Batch = typeof batches.$inferSelect;
+export type InsertBatch = z.infer<typeof insertBatchSchema>;
+
+// One generation task of a batch, as reported to clients
+export type BatchTask = {
+  jobId: number;
+  topicId: number;
+  topic: string;
+  contentType: string;
+  status: string;
+  progress: number;
+  contentId: number | null;
+  error: string | null;
+  startedAt: Date | null;
+  completedAt: Date | null;
+};
+
+export type BatchDetails = Batch & {
+  tasks: BatchTask[];
+  summary: Record<"queued" | "processing" | "completed" | "failed", number>;
+};
 
 export type TrendingTopic = typeof trendingTopics.$inferSelect;
 export type InsertTrendingTopic = z.infer<typeof insertTrendingTopicSchema>;
@@ -0,0 +1,133 @@
+import { z } from "zod";
+
+// System settings: one schema for the API, the settings form and the server runtime
+
+export const systemSettingsObjectSchema = z.object({
+  // AI Configuration
+  maxModelsLoaded: z.coerce.number().int().min(1).max(10).default(5),
+  aiContentQualityThreshold: z.coerce.number().int().min(0).max(100).default(70),
+  enableAIContentGeneration: z.boolean().default(true),
+
+  // Content Storage
+  storageLocation: z.enum(["local", "cloud", "hybrid"]).default("local"),
+  maxStorageUsage: z.coerce.number().int().min(1).max(10000).default(10), // GB
+  enableAutoCleanup: z.boolean().default(true),
+
+  // Scheduling
+  maxConcurrentPosts: z.coerce.number().int().min(1).max(20).default(3),
+  retryFailedPosts: z.boolean().default(true),
+  maxPostRetries: z.coerce.number().int().min(0).max(10).default(3),
+
+  // Notifications: each event toggle applies to every enabled channel
+  enableEmailNotifications: z.boolean().default(false),
+  emailAddress: z.string().email().or(z.literal("")).default(""),
+  enableSlackNotifications: z.boolean().default(false),
+  slackChannel: z.string().trim().max(80).default(""), // channel name or ID; the bot token is SLACK_BOT_TOKEN
+  notifyOnPostSuccess: z.boolean().default(true),
+  notifyOnPostFailure: z.boolean().default(true),
+  notifyOnJobFailure: z.boolean().default(true),
+  notifyOnTrendAlert: z.boolean().default(false),
+  trendAlertThreshold: z.coerce.number().int().min(0).max(100).default(85), // trend score that raises an alert
+
+  // System
+  enableSystemMetrics: z.boolean().default(true),
+  systemLanguage: z.enum(["en", "es", "fr", "de", "ja", "zh"]).default("en"),
+  theme: z.enum(["light", "dark", "system"]).default("system"),
+});
+
+export const systemSettingsSchema = systemSettingsObjectSchema.superRefine((settings, ctx) => {
+  if (settings.enableEmailNotifications && !settings.emailAddress) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["emailAddress"],
+      message: "An email address is required for email notifications",
+    });
+  }
+  if (settings.enableSlackNotifications && !settings.slackChannel) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["slackChannel"],
+      message: "A Slack channel is required for Slack notifications",
+    });
+  }
+});
+
+export type SystemSettings = z.infer<typeof systemSettingsSchema>;
+
+export const defaultSystemSettings: SystemSettings = systemSettingsSchema.parse({});
+
+// Automation settings: drive the background scheduler loop
+
+export const postFrequencies = ["hourly", "daily", "weekly"] as const;
+export const automationContentTypes = ["video", "image", "text"] as const;
+
+export const automationSettingsObjectSchema = z.object({
+  enabled: z.boolean().default(true),
+  postFrequency: z.enum(postFrequencies).default("daily"),
+  contentTypes: z.array(z.enum(automationContentTypes)).min(1).default(["video", "image", "text"]),
+  minimumInterval: z.number().int().min(1).max(24).default(6), // hours between posts on an account
+  // Local hours in which posts may go out; start > end wraps past midnight
+  activeHours: z.object({
+    start: z.number().int().min(0).max(23),
+    end: z.number().int().min(0).max(23),
+  }).default({ start: 8, end: 22 }),
+  maxDailyPosts: z.number().int().min(1).max(10).default(3), // per account
+  scheduleAhead: z.number().int().min(1).max(30).default(7), // days
+  platforms: z.array(z.string()).default(["YouTube", "Instagram", "Twitter"]), // platform names
+  contentCreationEnabled: z.boolean().default(true),
+  audioEnabled: z.boolean().default(true),
+  autoPosting: z.boolean().default(true),
+  performanceOptimization: z.boolean().default(true),
+});
+
+export const automationSettingsSchema = automationSettingsObjectSchema.refine(
+  (settings) => settings.activeHours.start !== settings.activeHours.end,
+  { path: ["activeHours"], message: "Active hours must span at least one hour" },
+);
+
+export type AutomationSettings = z.infer<typeof automationSettingsSchema>;
+
+export const defaultAutomationSettings: AutomationSettings = automationSettingsSchema.parse({});
+
+// Rate limits: outbound platform API calls go through a token bucket per account
+
+export const platformQuotaSchema = z.object({
+  requests: z.number().int().min(1).max(100000),
+  windowSeconds: z.number().int().min(1).max(24 * 60 * 60),
+});
+
+export const rateLimitSettingsSchema = z.object({
+  enabled: z.boolean().default(true),
+  defaultQuota: platformQuotaSchema.default({ requests: 300, windowSeconds: 15 * 60 }),
+  // Keyed by lower-cased platform name; applies to each account on the platform
+  platforms: z.record(z.string(), platformQuotaSchema).default({
+    twitter: { requests: 50, windowSeconds: 15 * 60 },
+    instagram: { requests: 200, windowSeconds: 60 * 60 },
+    youtube: { requests: 100, windowSeconds: 60 * 60 },
+    tiktok: { requests: 100, windowSeconds: 60 * 60 },
+    linkedin: { requests: 100, windowSeconds: 24 * 60 * 60 },
+  }),
+  // Per-account overrides, keyed by platform account ID
+  accounts: z.record(z.string(), platformQuotaSchema).default({}),
+  // Requests that would wait longer than this for a token fail instead of queueing
+  maxQueueWaitSeconds: z.number().int().min(0).max(60 * 60).default(120),
+});
+
+export type PlatformQuota = z.infer<typeof platformQuotaSchema>;
+export type RateLimitSettings = z.infer<typeof rateLimitSettingsSchema>;
+
+// An account's quota as reported by GET /api/system-status
+export interface PlatformQuotaUsage {
+  accountId: number;
+  accountName: string;
+  platform: string;
+  limit: number;
+  windowSeconds: number;
+  used: number; // tokens spent and not yet refilled
+  remaining: number;
+  queued: number; // calls waiting for a token
+  sent: number; // calls let through since startup
+  rejected: number; // calls refused since startup
+}
+
+export const defaultRateLimitSettings: RateLimitSettings = rateLimitSettingsSchema.parse({});